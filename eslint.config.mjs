@@ -9,7 +9,7 @@ export default [
 		ignores: ['main.js', '*.mjs', 'node_modules/**'],
 	},
 	{
-		files: ['src/**/*.ts'],
+		files: ['src/**/*.ts', 'tests/**/*.ts'],
 		languageOptions: {
 			parser: tsparser,
 			parserOptions: {
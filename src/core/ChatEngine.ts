@@ -7,20 +7,57 @@ import type {
 	EntityType,
 	GoalType,
 	GoalStatus,
+	SearchResult,
+	QueryPlan,
+	FollowUp,
 } from '../types';
-import { OpenRouterClient } from '../infrastructure/OpenRouterClient';
+import type { LLMProvider, ResponseFormat } from '../infrastructure/LLMProvider';
 import { getTranslations } from '../i18n';
+import { SummaryExtractionError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import {
+	packHistory,
+	packSections,
+	type PackSection,
+	type PackedSection,
+} from '../utils/contextPacker';
+import { estimateTokens } from '../utils/tokens';
+
+type ContextSectionKey = 'recent' | 'semantic' | 'notes' | 'entities' | 'goals' | 'followUps';
+
+const BRIEF_LENGTH = 80; // Characters kept of a context item shortened to fit
+
+function truncate(text: string): string {
+	return text.length > BRIEF_LENGTH ? `${text.slice(0, BRIEF_LENGTH)}...` : text;
+}
+
+/**
+ * The JSON in a model response: inside a code block, else from the first { to the last }
+ */
+function extractJson(response: string): string {
+	const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+	if (jsonMatch) return jsonMatch[1].trim();
+
+	const start = response.indexOf('{');
+	const end = response.lastIndexOf('}');
+	return (start !== -1 && end > start ? response.slice(start, end + 1) : response).trim();
+}
 
 export class ChatEngine {
-	private client: OpenRouterClient;
+	private client: LLMProvider;
 	private chatModel: string;
 	private summaryModel: string;
 	private systemPrompt: string;
 	private characterPrompt: string;
+	private chatFallbackModels: string[] = [];
+	private summaryFallbackModels: string[] = [];
+	// Models that actually answered since the last reset (may differ after failover)
+	private answeredModels = { chat: new Set<string>(), summary: new Set<string>() };
+	// System prompt of the latest chat request, for inspecting what the model was given
+	private lastSystemPrompt: string | null = null;
 
 	constructor(
-		client: OpenRouterClient,
+		client: LLMProvider,
 		chatModel: string,
 		summaryModel: string,
 		systemPrompt: string,
@@ -33,6 +70,13 @@ export class ChatEngine {
 		this.characterPrompt = characterPrompt;
 	}
 
+	/**
+	 * Swap the LLM provider (e.g. when the user switches to a local endpoint)
+	 */
+	setProvider(client: LLMProvider): void {
+		this.client = client;
+	}
+
 	/**
 	 * Update engine settings dynamically
 	 * @param chatModel - Model ID for chat completions
@@ -52,36 +96,81 @@ export class ChatEngine {
 		this.characterPrompt = characterPrompt;
 	}
 
+	/**
+	 * Set ordered fallback models used when the primary model is rate-limited or down
+	 */
+	setFallbackModels(chatFallbackModels: string[], summaryFallbackModels: string[]): void {
+		this.chatFallbackModels = chatFallbackModels;
+		this.summaryFallbackModels = summaryFallbackModels;
+	}
+
+	/**
+	 * Models that produced responses since the last reset, in first-use order
+	 */
+	getAnsweredModels(): { chat: string[]; summary: string[] } {
+		return {
+			chat: [...this.answeredModels.chat],
+			summary: [...this.answeredModels.summary],
+		};
+	}
+
+	resetAnsweredModels(): void {
+		this.answeredModels = { chat: new Set<string>(), summary: new Set<string>() };
+	}
+
+	getLastSystemPrompt(): string | null {
+		return this.lastSystemPrompt;
+	}
+
 	/**
 	 * Stream a chat response based on message history and context
 	 * @param messages - Conversation history
 	 * @param context - Retrieved context (recent notes, semantic matches, entities)
 	 * @param onChunk - Callback invoked for each streamed text chunk
+	 * @param signal - Stops the request; rejects with an AbortError
 	 * @returns Full response text when streaming completes
 	 */
 	async chatStream(
 		messages: Message[],
 		context: ConversationContext,
-		onChunk: (chunk: string) => void
+		onChunk: (chunk: string) => void,
+		signal?: AbortSignal
 	): Promise<string> {
-		const systemMessage = this.buildSystemPrompt(context);
-		const chatMessages = this.formatMessages(messages);
+		const { systemMessage, history } = await this.packPrompt(messages, context);
+		this.lastSystemPrompt = systemMessage;
+		const chatMessages = this.formatMessages(history);
 
 		const allMessages: ChatMessage[] = [
 			{ role: 'system', content: systemMessage },
 			...chatMessages,
 		];
 
-		return await this.client.stream(allMessages, { model: this.chatModel }, onChunk);
+		return await this.client.stream(
+			allMessages,
+			{
+				model: this.chatModel,
+				purpose: 'chat',
+				fallbackModels: this.chatFallbackModels,
+				onModelUsed: (model) => this.answeredModels.chat.add(model),
+				signal,
+			},
+			onChunk
+		);
 	}
 
 	/**
 	 * Generate a structured summary of the conversation
 	 * @param messages - Full conversation to summarize
+	 * @param signal - Stops the request; rejects with an AbortError
+	 * @param followUps - Open items from earlier sessions the conversation may have closed
 	 * @returns Parsed summary with tags, category, entities, insights, etc.
-	 * @throws Error if API call fails or response parsing fails
+	 * @throws SummaryExtractionError if no usable summary could be extracted after repairs
 	 */
-	async generateSummary(messages: Message[]): Promise<SessionSummary> {
+	async generateSummary(
+		messages: Message[],
+		signal?: AbortSignal,
+		followUps: FollowUp[] = []
+	): Promise<SessionSummary> {
 		const t = getTranslations();
 
 		// Return fallback summary for empty messages to avoid wasting API calls
@@ -102,101 +191,389 @@ export class ChatEngine {
 			.map((m) => `${m.role === 'user' ? t.ui.userLabel : t.ui.botLabel}: ${m.content}`)
 			.join('\n\n');
 
-		const prompt = `${t.prompts.summary}\n\n## Conversation Log\n${conversationText}`;
+		// Numbered so the model can name the items it closed (resolvedFollowUps)
+		const followUpList = followUps
+			.map((item, i) => `${i + 1}. [${this.followUpLabel(item)}] ${item.text}`)
+			.join('\n');
+		const followUpPrompt =
+			followUps.length > 0
+				? `\n\n${t.prompts.followUpResolution.replace('{followUps}', () => followUpList)}`
+				: '';
+		const prompt = `${t.prompts.summary}${followUpPrompt}\n\n## Conversation Log\n${conversationText}`;
+		const request: ChatMessage[] = [{ role: 'user', content: prompt }];
+		const responseFormat = await this.getResponseFormat(
+			'session_summary',
+			ChatEngine.SUMMARY_SCHEMA
+		);
+
+		// Ask the model to fix its own output before giving up: validation problems
+		// are fed back so entities, goals and values aren't lost to a stray comma
+		let best: { summary: SessionSummary; issues: string[] } | null = null;
+		let issues: string[] = [];
+		for (let attempt = 0; attempt <= ChatEngine.MAX_SUMMARY_REPAIR_ATTEMPTS; attempt++) {
+			const response = await this.client.complete(request, {
+				model: this.summaryModel,
+				temperature: 0.3,
+				purpose: 'summary',
+				fallbackModels: this.summaryFallbackModels,
+				onModelUsed: (model) => this.answeredModels.summary.add(model),
+				responseFormat,
+				signal,
+			});
 
-		const response = await this.client.complete(
-			[
+			const result = this.parseSummaryResponse(response, followUps);
+			issues = result.issues;
+			if (result.summary && (!best || result.issues.length < best.issues.length)) {
+				best = { summary: result.summary, issues: result.issues };
+			}
+			if (best && best.issues.length === 0) {
+				return best.summary;
+			}
+
+			logger.warn(
+				`Summary response has ${issues.length} issue(s) (attempt ${attempt + 1}): ${issues.join('; ')}`
+			);
+			if (attempt === ChatEngine.MAX_SUMMARY_REPAIR_ATTEMPTS) break;
+			request.push(
 				{
-					role: 'user',
-					content: prompt,
+					role: 'assistant',
+					content: response.slice(0, ChatEngine.MAX_REPAIR_ECHO_LENGTH),
 				},
-			],
-			{ model: this.summaryModel, temperature: 0.3 }
+				{
+					role: 'user',
+					content: t.prompts.summaryRepair.replace(
+						'{issues}',
+						issues.map((issue) => `- ${issue}`).join('\n')
+					),
+				}
+			);
+		}
+
+		if (best) {
+			// Usable despite minor problems (e.g. an entity without a name was dropped)
+			return best.summary;
+		}
+
+		logger.error(`Summary extraction failed: ${issues.join('; ')}`);
+		throw new SummaryExtractionError(
+			t.errors.summaryExtractionFailed,
+			this.buildFallbackSummary(messages),
+			issues
 		);
+	}
+
+	/**
+	 * Draft focused search queries and entity names for the latest message
+	 * A short reply ("yes, exactly") searches poorly on its own; the summary model
+	 * fills in what it refers to from the preceding turns.
+	 * @param messages - Conversation so far, ending with the message to answer
+	 * @param signal - Stops the request; rejects with an AbortError
+	 * @returns null if the model gave no usable queries
+	 */
+	async planQueries(messages: Message[], signal?: AbortSignal): Promise<QueryPlan | null> {
+		if (messages.length === 0) return null;
+		const t = getTranslations();
+
+		const conversation = messages
+			.slice(-ChatEngine.PLANNING_HISTORY_MESSAGES)
+			.map((m) => {
+				const speaker = m.role === 'user' ? t.ui.userLabel : t.ui.botLabel;
+				const content =
+					m.content.length > ChatEngine.MAX_PLANNING_MESSAGE_LENGTH
+						? `${m.content.slice(0, ChatEngine.MAX_PLANNING_MESSAGE_LENGTH)}...`
+						: m.content;
+				return `${speaker}: ${content}`;
+			})
+			.join('\n\n');
+		const prompt = t.prompts.queryPlanning.replace('{conversation}', () => conversation);
 
-		// Parse JSON response
+		const response = await this.client.complete([{ role: 'user', content: prompt }], {
+			model: this.summaryModel,
+			temperature: 0.2,
+			maxTokens: ChatEngine.MAX_PLANNING_TOKENS,
+			purpose: 'planning',
+			fallbackModels: this.summaryFallbackModels,
+			responseFormat: await this.getResponseFormat(
+				'query_plan',
+				ChatEngine.QUERY_PLAN_SCHEMA
+			),
+			signal,
+		});
+
+		let parsed: unknown;
 		try {
-			// Extract JSON from response (handle markdown code blocks)
-			let jsonStr = response;
-			const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-			if (jsonMatch) {
-				jsonStr = jsonMatch[1];
-			}
+			parsed = JSON.parse(extractJson(response));
+		} catch {
+			logger.warn('Query plan response is not valid JSON');
+			return null;
+		}
+		if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return null;
 
-			const parsed = JSON.parse(jsonStr.trim());
+		const record = parsed as Record<string, unknown>;
+		const strings = (value: unknown, max: number): string[] =>
+			Array.isArray(value)
+				? [
+						...new Set(
+							value
+								.filter((item): item is string => typeof item === 'string')
+								.map((item) => item.trim().slice(0, ChatEngine.MAX_QUERY_LENGTH))
+								.filter((item) => item.length > 0)
+						),
+					].slice(0, max)
+				: [];
+		const queries = strings(record.queries, ChatEngine.MAX_PLANNED_QUERIES);
+		if (queries.length === 0) return null;
+		return { queries, entities: strings(record.entities, ChatEngine.MAX_PLANNED_ENTITIES) };
+	}
 
-			// Validate and sanitize parsed data
-			return this.validateSummaryResponse(parsed);
-		} catch (error) {
-			logger.error(
-				'Failed to parse summary response:',
-				error instanceof Error ? error : undefined
-			);
-			// Return minimal summary on parse error
-			const fallbackSummary = messages
-				.slice(0, 3)
-				.map((m) => m.content)
-				.filter((content) => content && content.trim())
-				.join(' ')
-				.slice(0, 200)
-				.trim();
-
-			const t = getTranslations();
+	/**
+	 * Constrain the summary model to JSON where it advertises support
+	 */
+	private async getResponseFormat(
+		name: string,
+		schema: Record<string, unknown>
+	): Promise<ResponseFormat | undefined> {
+		const support = await this.client.getStructuredOutputSupport(this.summaryModel);
+		if (support === 'json_schema') {
 			return {
-				summary: fallbackSummary || t.errors.summaryFallback,
-				tags: [],
-				category: 'life',
-				decisions: [],
-				insights: [],
-				entities: [],
-				relations: [],
-				values: [],
+				type: 'json_schema',
+				// Non-strict: strict mode requires every property, but most are optional
+				json_schema: { name, strict: false, schema },
 			};
 		}
+		if (support === 'json_object') {
+			return { type: 'json_object' };
+		}
+		return undefined;
+	}
+
+	/**
+	 * Extract and validate the JSON object from a summary response
+	 * @returns summary is null when nothing usable could be extracted
+	 */
+	private parseSummaryResponse(
+		response: string,
+		followUps: FollowUp[]
+	): {
+		summary: SessionSummary | null;
+		issues: string[];
+	} {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(extractJson(response));
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			return { summary: null, issues: [`Response is not valid JSON (${reason})`] };
+		}
+
+		if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+			return { summary: null, issues: ['Response must be a single JSON object'] };
+		}
+
+		const result = this.validateSummaryResponse(parsed as Record<string, unknown>, followUps);
+		// Without the summary text the note would be near-empty
+		return result.summary.summary ? result : { summary: null, issues: result.issues };
+	}
+
+	/**
+	 * Minimal summary built from the opening messages when extraction fails
+	 */
+	private buildFallbackSummary(messages: Message[]): SessionSummary {
+		const t = getTranslations();
+		const fallbackSummary = messages
+			.slice(0, 3)
+			.map((m) => m.content)
+			.filter((content) => content && content.trim())
+			.join(' ')
+			.slice(0, 200)
+			.trim();
+
+		return {
+			summary: fallbackSummary || t.errors.summaryFallback,
+			tags: [],
+			category: 'life',
+			decisions: [],
+			insights: [],
+			entities: [],
+			relations: [],
+			values: [],
+		};
 	}
 
-	private buildSystemPrompt(context: ConversationContext): string {
+	/**
+	 * Fit the system prompt and conversation into the chat model's context window
+	 * Instructions and the character prompt always go in. Retrieved context gets up to
+	 * its share of the rest (see packSections); history gets what the context leaves,
+	 * dropping the oldest messages first.
+	 */
+	private async packPrompt(
+		messages: Message[],
+		context: ConversationContext
+	): Promise<{ systemMessage: string; history: Message[] }> {
 		const t = getTranslations();
 		// Use translated default if systemPrompt is empty
-		let prompt = this.systemPrompt || t.prompts.system;
+		const instructions = this.systemPrompt || t.prompts.system;
 
-		// Add context information
-		if (context.recentNotes.length > 0 || context.semanticMatches.length > 0) {
-			prompt += `\n\n## ${t.context.referenceInfo}\n`;
+		const contextLength =
+			(await this.client.getContextLength(this.chatModel)) ??
+			ChatEngine.DEFAULT_CONTEXT_LENGTH;
+		const responseReserve = Math.min(
+			ChatEngine.MAX_RESPONSE_TOKENS,
+			Math.floor(contextLength * ChatEngine.RESPONSE_SHARE)
+		);
+		const available =
+			contextLength -
+			responseReserve -
+			estimateTokens(instructions) -
+			estimateTokens(this.characterPrompt) -
+			estimateTokens(t.context.referenceInfo) -
+			estimateTokens(t.context.followUpsGuide) -
+			ChatEngine.PROMPT_OVERHEAD_TOKENS;
 
-			// Recent notes
-			if (context.recentNotes.length > 0) {
-				prompt += `\n### ${t.context.recentReflections}\n`;
-				for (const note of context.recentNotes.slice(0, 3)) {
-					prompt += `- ${note.date}: ${note.summary}\n`;
-				}
-			}
+		const contextBudget = Math.max(
+			0,
+			Math.min(
+				ChatEngine.MAX_CONTEXT_TOKENS,
+				Math.floor(available * ChatEngine.CONTEXT_SHARE)
+			)
+		);
+		const packed = packSections(this.buildContextSections(context), contextBudget);
+		const history = packHistory(messages, available - packed.tokens);
+		if (history.omitted > 0) {
+			logger.debug(
+				`Prompt packing: ${history.omitted} older messages left out (context window ${contextLength})`
+			);
+		}
 
-			// Semantic matches
-			if (context.semanticMatches.length > 0) {
-				prompt += `\n### ${t.context.relatedTopics}\n`;
-				for (const match of context.semanticMatches.slice(0, 3)) {
-					prompt += `- ${match.metadata.date}: ${match.metadata.summary}\n`;
-				}
+		return {
+			systemMessage: this.buildSystemPrompt(instructions, packed.sections, history.omitted),
+			history: history.messages,
+		};
+	}
+
+	/**
+	 * Retrieved context as prompt lines, most valuable first within each section
+	 * Brief forms drop the long part (passage, description) when space is short.
+	 */
+	private buildContextSections(context: ConversationContext): PackSection<ContextSectionKey>[] {
+		const t = getTranslations();
+		const passage = (match: SearchResult) =>
+			(match.passage?.text ?? match.metadata.summary).replace(/\n+/g, ' ');
+
+		// Pinned goals first, then by priority
+		const pinned = new Set(context.sources.filter((s) => s.pinned).map((s) => s.path));
+		const priorityOrder = { high: 0, medium: 1, low: 2 };
+		const goals = [...context.linkedGoals].sort(
+			(a, b) =>
+				Number(pinned.has(b.path)) - Number(pinned.has(a.path)) ||
+				priorityOrder[a.priority] - priorityOrder[b.priority]
+		);
+
+		return [
+			{
+				key: 'recent',
+				heading: t.context.recentReflections,
+				weight: 2,
+				items: context.recentNotes.map((note) => ({
+					text: `- ${note.date}: ${note.summary}`,
+					brief: `- ${note.date}: ${truncate(note.summary)}`,
+				})),
+			},
+			{
+				key: 'semantic',
+				heading: t.context.relatedTopics,
+				weight: 3,
+				items: context.semanticMatches.map((match) => ({
+					text: `- ${match.metadata.date}: ${passage(match)}`,
+					brief: `- ${match.metadata.date}: ${truncate(passage(match))}`,
+				})),
+			},
+			{
+				// Notes from other indexed folders, cited by title rather than as past sessions
+				key: 'notes',
+				heading: t.context.relatedNotes,
+				weight: 2,
+				items: context.relatedNotes.map((match) => ({
+					text: `- ${match.metadata.title}: ${passage(match)}`,
+					brief: `- ${match.metadata.title}: ${truncate(passage(match))}`,
+				})),
+			},
+			{
+				key: 'entities',
+				heading: t.context.relatedEntities,
+				weight: 2,
+				items: context.linkedEntities.map((entity) => ({
+					text: `- [[${entity.name}]] (${entity.type}): ${entity.description}`,
+					brief: `- [[${entity.name}]] (${entity.type})`,
+				})),
+			},
+			{
+				key: 'goals',
+				heading: t.context.relatedGoals,
+				weight: 2,
+				items: goals.map((goal) => {
+					const typeLabel = t.goal.types[goal.type] || goal.type;
+					const priorityLabel = t.goal.priority[goal.priority] || goal.priority;
+					const label = `- [[${goal.name}]] (${typeLabel}, ${priorityLabel})`;
+					return { text: `${label}: ${goal.description}`, brief: label };
+				}),
+			},
+			{
+				key: 'followUps',
+				heading: t.context.followUps,
+				weight: 2,
+				items: context.followUps.map((item) => {
+					const label = `- [${this.followUpLabel(item)}]`;
+					return {
+						text: `${label} ${item.text}`,
+						brief: `${label} ${truncate(item.text)}`,
+					};
+				}),
+			},
+		];
+	}
+
+	/**
+	 * Kind and age of a follow-up, e.g. "planned, 5 days ago"
+	 */
+	private followUpLabel(item: FollowUp): string {
+		const t = getTranslations();
+		const kind = item.kind === 'action' ? t.context.followUpAction : t.context.followUpQuestion;
+		const age =
+			item.ageDays === 0
+				? t.context.today
+				: t.context.daysAgo.replace('{days}', String(item.ageDays));
+		return `${kind}, ${age}`;
+	}
+
+	private buildSystemPrompt(
+		instructions: string,
+		sections: PackedSection<ContextSectionKey>[],
+		omittedMessages: number
+	): string {
+		const t = getTranslations();
+		let prompt = instructions;
+
+		// Past reflections and notes share one heading; entities and goals get their own
+		const reference = sections.filter((section) =>
+			ChatEngine.REFERENCE_SECTIONS.includes(section.key)
+		);
+		if (reference.length > 0) {
+			prompt += `\n\n## ${t.context.referenceInfo}\n`;
+			for (const section of reference) {
+				prompt += `\n### ${section.heading}\n${section.lines.join('\n')}\n`;
 			}
 		}
-
-		// Add entity information
-		if (context.linkedEntities.length > 0) {
-			prompt += `\n\n## ${t.context.relatedEntities}\n`;
-			for (const entity of context.linkedEntities) {
-				prompt += `- [[${entity.name}]] (${entity.type}): ${entity.description}\n`;
+		for (const section of sections) {
+			if (ChatEngine.REFERENCE_SECTIONS.includes(section.key)) continue;
+			prompt += `\n\n## ${section.heading}\n${section.lines.join('\n')}\n`;
+			if (section.key === 'followUps') {
+				prompt += `\n${t.context.followUpsGuide}\n`;
 			}
 		}
 
-		// Add goal information
-		if (context.linkedGoals.length > 0) {
-			prompt += `\n\n## ${t.context.relatedGoals}\n`;
-			for (const goal of context.linkedGoals) {
-				const typeLabel = t.goal.types[goal.type] || goal.type;
-				const priorityLabel = t.goal.priority[goal.priority] || goal.priority;
-				prompt += `- [[${goal.name}]] (${typeLabel}, ${priorityLabel}): ${goal.description}\n`;
-			}
+		if (omittedMessages > 0) {
+			prompt += `\n\n${t.context.earlierMessagesOmitted.replace('{count}', String(omittedMessages))}`;
 		}
 
 		// Add character-specific prompt
@@ -266,6 +643,142 @@ export class ChatEngine {
 		| 'long-term'
 	)[] = ['short-term', 'medium-term', 'long-term'] as const;
 
+	/**
+	 * JSON schema mirroring the output format in the summary prompt
+	 */
+	private static readonly SUMMARY_SCHEMA: Record<string, unknown> = {
+		type: 'object',
+		properties: {
+			summary: { type: 'string' },
+			tags: { type: 'array', items: { type: 'string' } },
+			category: { type: 'string', enum: ChatEngine.VALID_CATEGORIES },
+			decisions: { type: 'array', items: { type: 'string' } },
+			insights: { type: 'array', items: { type: 'string' } },
+			mood: {
+				type: 'object',
+				properties: {
+					state: { type: 'string', enum: ChatEngine.VALID_MOOD_STATES },
+					description: { type: 'string' },
+				},
+				required: ['state'],
+			},
+			nextActions: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						action: { type: 'string' },
+						priority: { type: 'string', enum: ChatEngine.VALID_PRIORITIES },
+						suggested: { type: 'boolean' },
+					},
+					required: ['action'],
+				},
+			},
+			openQuestions: { type: 'array', items: { type: 'string' } },
+			resolvedFollowUps: { type: 'array', items: { type: 'integer' } },
+			timeframe: {
+				type: 'object',
+				properties: {
+					horizon: { type: 'string', enum: ChatEngine.VALID_HORIZONS },
+					deadline: { type: 'string' },
+				},
+				required: ['horizon'],
+			},
+			entities: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						name: { type: 'string' },
+						type: { type: 'string', enum: ChatEngine.VALID_ENTITY_TYPES },
+						description: { type: 'string' },
+						context: { type: 'string' },
+					},
+					required: ['name', 'type'],
+				},
+			},
+			relations: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						from: { type: 'string' },
+						to: { type: 'string' },
+						type: { type: 'string' },
+						description: { type: 'string' },
+					},
+					required: ['from', 'to'],
+				},
+			},
+			values: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						value: { type: 'string' },
+						context: { type: 'string' },
+						sentiment: { type: 'string', enum: ChatEngine.VALID_SENTIMENTS },
+					},
+					required: ['value'],
+				},
+			},
+			goals: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						name: { type: 'string' },
+						description: { type: 'string' },
+						type: { type: 'string', enum: ChatEngine.VALID_GOAL_TYPES },
+						priority: { type: 'string', enum: ChatEngine.VALID_PRIORITIES },
+						timeframe: { type: 'string', enum: ChatEngine.VALID_GOAL_TIMEFRAMES },
+						status: { type: 'string', enum: ChatEngine.VALID_GOAL_STATUSES },
+						context: { type: 'string' },
+						suggestedActions: { type: 'array', items: { type: 'string' } },
+						nextActions: { type: 'array', items: { type: 'string' } },
+					},
+					required: ['name'],
+				},
+			},
+		},
+		required: ['summary', 'tags', 'category'],
+	};
+
+	private static readonly QUERY_PLAN_SCHEMA: Record<string, unknown> = {
+		type: 'object',
+		properties: {
+			queries: { type: 'array', items: { type: 'string' } },
+			entities: { type: 'array', items: { type: 'string' } },
+		},
+		required: ['queries'],
+	};
+
+	// Query planning
+	private static readonly PLANNING_HISTORY_MESSAGES = 6; // Latest messages shown to the planner
+	private static readonly MAX_PLANNING_MESSAGE_LENGTH = 1000;
+	private static readonly MAX_PLANNING_TOKENS = 300;
+	private static readonly MAX_PLANNED_QUERIES = 3;
+	private static readonly MAX_PLANNED_ENTITIES = 5;
+	private static readonly MAX_QUERY_LENGTH = 200;
+
+	// Prompt packing; models that don't publish their context window are assumed small
+	private static readonly DEFAULT_CONTEXT_LENGTH = 8192;
+	private static readonly RESPONSE_SHARE = 0.25; // Of the window, kept free for the reply
+	private static readonly MAX_RESPONSE_TOKENS = 4096;
+	private static readonly CONTEXT_SHARE = 0.4; // Of the prompt space, at most for retrieved context
+	private static readonly MAX_CONTEXT_TOKENS = 6000; // Keeps large windows from inflating cost
+	private static readonly PROMPT_OVERHEAD_TOKENS = 50; // Headings and separators
+	private static readonly REFERENCE_SECTIONS: ContextSectionKey[] = [
+		'recent',
+		'semantic',
+		'notes',
+	];
+
+	// Re-prompts with validation errors before giving up on a summary
+	private static readonly MAX_SUMMARY_REPAIR_ATTEMPTS = 2;
+	// Previous response echoed back in a repair prompt
+	private static readonly MAX_REPAIR_ECHO_LENGTH = 8000;
+
 	// Limits to prevent DoS from malicious/buggy LLM responses
 	private static readonly MAX_ENTITIES = 50;
 	private static readonly MAX_RELATIONS = 50;
@@ -283,13 +796,16 @@ export class ChatEngine {
 
 	/**
 	 * Validate and sanitize parsed summary response to ensure type safety
+	 * @returns the sanitized summary plus problems found, phrased for a repair prompt
 	 */
-	private validateSummaryResponse(parsed: unknown): SessionSummary {
-		if (typeof parsed !== 'object' || parsed === null) {
-			throw new Error('Invalid response: not an object');
-		}
-
-		const obj = parsed as Record<string, unknown>;
+	private validateSummaryResponse(
+		obj: Record<string, unknown>,
+		followUps: FollowUp[]
+	): {
+		summary: SessionSummary;
+		issues: string[];
+	} {
+		const issues: string[] = [];
 
 		// Validate and extract string
 		const getString = (key: string, defaultVal: string): string => {
@@ -311,6 +827,9 @@ export class ChatEngine {
 		)
 			? (category as SessionCategory)
 			: 'life';
+		if (obj.category !== undefined && validCategory !== category) {
+			issues.push(`"category" must be one of: ${ChatEngine.VALID_CATEGORIES.join(', ')}`);
+		}
 
 		// Helper to validate entity type
 		const validateEntityType = (type: unknown): EntityType => {
@@ -336,7 +855,10 @@ export class ChatEngine {
 				if (typeof e !== 'object' || e === null) continue;
 				const record = e as Record<string, unknown>;
 				const name = typeof record.name === 'string' ? record.name : '';
-				if (!name) continue; // Skip early if no name
+				if (!name) {
+					issues.push('Each item in "entities" needs a non-empty "name"');
+					continue; // Skip early if no name
+				}
 				entities.push({
 					name,
 					type: validateEntityType(record.type),
@@ -360,7 +882,10 @@ export class ChatEngine {
 				const record = r as Record<string, unknown>;
 				const from = typeof record.from === 'string' ? record.from : '';
 				const to = typeof record.to === 'string' ? record.to : '';
-				if (!from || !to) continue; // Skip early if invalid
+				if (!from || !to) {
+					issues.push('Each item in "relations" needs "from" and "to"');
+					continue; // Skip early if invalid
+				}
 				relations.push({
 					from,
 					to,
@@ -393,7 +918,10 @@ export class ChatEngine {
 				if (typeof v !== 'object' || v === null) continue;
 				const record = v as Record<string, unknown>;
 				const value = typeof record.value === 'string' ? record.value : '';
-				if (!value) continue; // Skip early if no value
+				if (!value) {
+					issues.push('Each item in "values" needs a non-empty "value"');
+					continue; // Skip early if no value
+				}
 				values.push({
 					value,
 					context: typeof record.context === 'string' ? record.context : '',
@@ -405,12 +933,15 @@ export class ChatEngine {
 		// Get summary with validation
 		const summary = getString('summary', '');
 		if (!summary) {
-			logger.warn('LLM response missing required "summary" field');
+			issues.push('Missing required field "summary"');
 		}
 
 		// Get tags with validation
+		// An empty list is a valid answer for a short session; only a wrong shape is repaired
 		const tags = getStringArray('tags', ChatEngine.MAX_TAGS);
-		if (tags.length === 0) {
+		if (!Array.isArray(obj.tags)) {
+			issues.push('"tags" must be an array of strings');
+		} else if (tags.length === 0) {
 			logger.warn('LLM response has empty "tags" array');
 		}
 
@@ -456,7 +987,10 @@ export class ChatEngine {
 				if (typeof a !== 'object' || a === null) continue;
 				const record = a as Record<string, unknown>;
 				const action = typeof record.action === 'string' ? record.action : '';
-				if (!action) continue;
+				if (!action) {
+					issues.push('Each item in "nextActions" needs a non-empty "action"');
+					continue;
+				}
 				nextActions.push({
 					action,
 					priority: validatePriority(record.priority),
@@ -468,6 +1002,16 @@ export class ChatEngine {
 		// Validate openQuestions (optional)
 		const openQuestions = getStringArray('openQuestions', ChatEngine.MAX_STRING_ITEMS);
 
+		// Earlier follow-ups the user closed, by their number in the prompt (optional)
+		const resolvedNumbers = Array.isArray(obj.resolvedFollowUps) ? obj.resolvedFollowUps : [];
+		const resolvedFollowUps = [
+			...new Set(
+				resolvedNumbers.filter(
+					(n): n is number => Number.isInteger(n) && n >= 1 && n <= followUps.length
+				)
+			),
+		].map((n) => followUps[n - 1]);
+
 		// Validate timeframe (optional)
 		let timeframe:
 			| { horizon: 'immediate' | 'short-term' | 'long-term'; deadline?: string }
@@ -540,7 +1084,10 @@ export class ChatEngine {
 				// Extract, trim, and truncate name
 				const rawName = typeof record.name === 'string' ? record.name.trim() : '';
 				const name = rawName.slice(0, ChatEngine.MAX_GOAL_NAME_LENGTH);
-				if (!name) continue; // Skip if no name
+				if (!name) {
+					issues.push('Each item in "goals" needs a non-empty "name"');
+					continue; // Skip if no name
+				}
 
 				// Extract suggestedActions array with length limit
 				const suggestedActions: string[] = [];
@@ -594,7 +1141,7 @@ export class ChatEngine {
 			}
 		}
 
-		return {
+		const validated: SessionSummary = {
 			summary,
 			tags,
 			category: validCategory,
@@ -608,6 +1155,10 @@ export class ChatEngine {
 			openQuestions: openQuestions.length > 0 ? openQuestions : undefined,
 			timeframe,
 			goals: goals.length > 0 ? goals : undefined,
+			resolvedFollowUps: resolvedFollowUps.length > 0 ? resolvedFollowUps : undefined,
 		};
+
+		// One line per kind of problem keeps the repair prompt short
+		return { summary: validated, issues: [...new Set(issues)] };
 	}
 }
@@ -3,51 +3,84 @@ import { TFile } from 'obsidian';
 import type {
 	ConversationContext,
 	NoteSummary,
+	NotePassage,
 	SearchResult,
 	Entity,
 	Goal,
 	Message,
+	NoteType,
+	VectorFilter,
+	ContextOverrides,
+	ContextReason,
+	ContextSource,
+	QueryPlan,
+	FollowUp,
+	UsagePurpose,
 } from '../types';
 import { Embedder } from '../infrastructure/Embedder';
-import { VectorStore, VectorMetadata } from '../infrastructure/VectorStore';
+import { VectorStore, VectorMetadata, VectorSearchResult } from '../infrastructure/VectorStore';
+import { KeywordIndex } from '../infrastructure/KeywordIndex';
+import { EntityDirectory } from './EntityDirectory';
 import {
 	parseFrontmatter,
 	getFrontmatterString,
 	getFrontmatterStringArray,
 } from '../utils/frontmatter';
 import { sanitizeFileName, escapeRegex } from '../utils/sanitize';
+import { isAbortError, throwIfAborted } from '../utils/errors';
+import { fuseRankings } from '../utils/rankFusion';
+import { parseFollowUpItems } from '../utils/followUps';
+import { rerankResults, termSimilarity, type RerankOptions } from '../utils/rerank';
 import { getAllTranslations } from '../i18n';
 import { logger } from '../utils/logger';
 
 export class ContextRetriever {
 	private static readonly MAX_RECENT_NOTES = 10;
 	private static readonly HISTORY_MESSAGES_FOR_QUERY = 3;
+	private static readonly CHUNKS_PER_RESULT = 4; // Search candidates per requested note
+	private static readonly RERANK_CANDIDATES_PER_RESULT = 3; // Notes considered per prompt slot
+	private static readonly MAX_SEMANTIC_GOALS = 2; // Active goals added by similarity alone
+	private static readonly FOLLOW_UP_WINDOW_DAYS = 30; // Sessions whose open items are followed up
+	private static readonly MAX_FOLLOW_UPS = 8;
+	private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+	private static readonly MAX_CACHED_QUERIES = 8; // Query embeddings kept; a planned turn has several
 	private static readonly MAX_SUMMARY_LENGTH = 200;
 	private static readonly MAX_INPUT_LENGTH_FOR_REGEX = 100000; // 100KB limit for regex processing
-	private static readonly MAX_ENTITY_NAMES_FOR_REGEX = 100; // Limit number of entity names to check
 	private static readonly MIN_CONTEXT_WINDOW_DAYS = 1;
 	private static readonly MAX_CONTEXT_WINDOW_DAYS = 365;
 
 	private app: App;
 	private embedder: Embedder;
 	private vectorStore: VectorStore;
+	private keywordIndex: KeywordIndex;
+	private entityDirectory: EntityDirectory;
 	private journalFolder: string;
 	private entitiesFolder: string;
 	private contextWindowDays: number;
 	private maxSemanticResults: number;
+	private keywordWeight: number; // 0 = vector search only, 1 = keyword search only
+	private rerankOptions: RerankOptions;
+	// Latest query embeddings, shared by the searches of one turn
+	private queryVectors = new Map<string, Promise<number[]>>();
 
 	constructor(
 		app: App,
 		embedder: Embedder,
 		vectorStore: VectorStore,
+		keywordIndex: KeywordIndex,
 		journalFolder: string,
 		entitiesFolder: string,
 		contextWindowDays: number,
-		maxSemanticResults: number
+		maxSemanticResults: number,
+		keywordWeight: number,
+		rerankOptions: RerankOptions,
+		entityDirectory = new EntityDirectory(app, entitiesFolder)
 	) {
 		this.app = app;
 		this.embedder = embedder;
 		this.vectorStore = vectorStore;
+		this.keywordIndex = keywordIndex;
+		this.entityDirectory = entityDirectory;
 		this.journalFolder = journalFolder;
 		this.entitiesFolder = entitiesFolder;
 		// Validate initial values - can't use instance method in constructor, use inline validation
@@ -56,6 +89,12 @@ export class ContextRetriever {
 			Math.min(ContextRetriever.MAX_CONTEXT_WINDOW_DAYS, Math.floor(contextWindowDays))
 		);
 		this.maxSemanticResults = Math.max(1, Math.floor(maxSemanticResults));
+		this.keywordWeight = ContextRetriever.clampWeight(keywordWeight);
+		this.rerankOptions = rerankOptions;
+	}
+
+	private static clampWeight(weight: number): number {
+		return Number.isFinite(weight) ? Math.max(0, Math.min(1, weight)) : 0;
 	}
 
 	/**
@@ -81,31 +120,224 @@ export class ContextRetriever {
 		journalFolder: string,
 		entitiesFolder: string,
 		contextWindowDays: number,
-		maxSemanticResults: number
+		maxSemanticResults: number,
+		keywordWeight: number,
+		rerankOptions: RerankOptions
 	): void {
 		this.journalFolder = journalFolder;
 		this.entitiesFolder = entitiesFolder;
+		this.entityDirectory.updateSettings(entitiesFolder);
 		this.contextWindowDays = this.validateContextWindowDays(contextWindowDays);
 		this.maxSemanticResults = Math.max(1, Math.floor(maxSemanticResults));
+		this.keywordWeight = ContextRetriever.clampWeight(keywordWeight);
+		this.rerankOptions = rerankOptions;
 	}
 
-	async retrieve(currentMessage: string, history: Message[]): Promise<ConversationContext> {
-		const [recentNotes, semanticMatches, linkedEntities, linkedGoals] = await Promise.all([
-			this.getRecentNotes(),
-			this.getSemanticMatches(currentMessage, history),
-			this.getLinkedEntities(currentMessage, history),
-			this.getLinkedGoals(currentMessage, history),
-		]);
-
-		return {
+	/**
+	 * @param signal - Cancels the query embedding; rejects with an AbortError
+	 * @param overrides - Notes the user pinned or excluded for this chat session
+	 * @param plan - Search queries to use instead of the conversation text, and entity
+	 *   names to look up besides the mentioned ones (see ChatEngine.planQueries)
+	 */
+	async retrieve(
+		currentMessage: string,
+		history: Message[],
+		signal?: AbortSignal,
+		overrides: ContextOverrides = { pinned: [], excluded: [] },
+		plan: QueryPlan | null = null
+	): Promise<ConversationContext> {
+		// Build query from current message and recent history
+		const queryText = [
+			...history.slice(-ContextRetriever.HISTORY_MESSAGES_FOR_QUERY).map((m) => m.content),
+			currentMessage,
+		].join(' ');
+		const queries = plan && plan.queries.length > 0 ? plan.queries : [queryText];
+
+		const excluded = new Set(overrides.excluded);
+
+		const [recentNotes, semanticMatches, relatedNotes, linkedEntities, linkedGoals, followUps] =
+			await Promise.all([
+				this.getRecentNotes(excluded),
+				this.getSemanticMatches(queries, 'session', excluded, signal),
+				this.getSemanticMatches(queries, 'note', excluded, signal),
+				this.getLinkedEntities(currentMessage, history, plan?.entities ?? []),
+				this.getLinkedGoals(currentMessage, history, queries, signal),
+				this.getFollowUps(overrides.excluded),
+			]);
+		throwIfAborted(signal);
+
+		const context: ConversationContext = {
 			recentNotes,
 			semanticMatches,
-			linkedEntities,
-			linkedGoals,
+			relatedNotes,
+			linkedEntities: linkedEntities.filter((entity) => !excluded.has(entity.path)),
+			linkedGoals: linkedGoals.filter((goal) => !excluded.has(goal.path)),
+			followUps,
+			sources: [],
+		};
+		const pinned = overrides.pinned.filter((path) => !excluded.has(path));
+		const addedByPin = await this.addPinnedNotes(context, pinned);
+		context.sources = this.describeSources(context, new Set(pinned), addedByPin);
+		return context;
+	}
+
+	/**
+	 * Move pinned notes to the front of their section, loading those retrieval didn't find
+	 * @returns Paths of the notes that are in the context only because they are pinned
+	 */
+	private async addPinnedNotes(
+		context: ConversationContext,
+		pinned: string[]
+	): Promise<Set<string>> {
+		const added = new Set<string>();
+		const toFront = <T>(items: T[], isPinned: (item: T) => boolean): boolean => {
+			const index = items.findIndex(isPinned);
+			if (index === -1) return false;
+			items.unshift(...items.splice(index, 1));
+			return true;
 		};
+
+		// In reverse, so the first pinned note ends up first
+		for (const path of [...pinned].reverse()) {
+			const found = [
+				toFront(context.recentNotes, (note) => note.path === path),
+				toFront(context.semanticMatches, (match) => match.metadata.path === path),
+				toFront(context.relatedNotes, (match) => match.metadata.path === path),
+				toFront(context.linkedEntities, (entity) => entity.path === path),
+				toFront(context.linkedGoals, (goal) => goal.path === path),
+			].some(Boolean);
+			if (found) continue;
+
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+
+			if (path.startsWith(this.entitiesFolder + '/')) {
+				const goal = await this.loadGoal(file);
+				const entity = goal ? null : await this.loadEntity(file);
+				if (goal) context.linkedGoals.unshift(goal);
+				if (entity) context.linkedEntities.unshift(entity);
+				if (goal || entity) added.add(path);
+				continue;
+			}
+
+			const summary = await this.getNoteSummary(file);
+			if (!summary) continue;
+			// Whole-note match: the summary stands in for a passage
+			if (path.startsWith(this.journalFolder + '/')) {
+				context.semanticMatches.unshift({ id: path, score: 0, metadata: summary });
+			} else {
+				const metadata = { ...summary, type: 'note' as const };
+				context.relatedNotes.unshift({ id: path, score: 0, metadata });
+			}
+			added.add(path);
+		}
+		return added;
+	}
+
+	/**
+	 * One entry per note in the context, with the reason it was included
+	 */
+	private describeSources(
+		context: ConversationContext,
+		pinned: Set<string>,
+		addedByPin: Set<string>
+	): ContextSource[] {
+		const sources = new Map<string, ContextSource>();
+		const add = (path: string, title: string, reason: ContextReason, score?: number) => {
+			// A note can be found twice, e.g. both recent and a semantic match
+			if (sources.has(path)) return;
+			const byPin = addedByPin.has(path);
+			sources.set(path, {
+				path,
+				title,
+				reason: byPin ? 'pinned' : reason,
+				score: byPin ? undefined : score,
+				pinned: pinned.has(path),
+			});
+		};
+
+		for (const match of [...context.semanticMatches, ...context.relatedNotes]) {
+			add(match.metadata.path, match.metadata.title, 'semantic', match.score);
+		}
+		for (const note of context.recentNotes) {
+			add(note.path, note.title, 'recent');
+		}
+		for (const entity of context.linkedEntities) {
+			add(entity.path, entity.name, 'entity');
+		}
+		for (const goal of context.linkedGoals) {
+			add(goal.path, goal.name, 'goal');
+		}
+		for (const followUp of context.followUps) {
+			add(followUp.path, followUp.date, 'followUp');
+		}
+		return [...sources.values()];
+	}
+
+	/**
+	 * Next actions and open questions from recent sessions that are not checked off
+	 * Newest first; an item repeated in a later session is listed once, with the
+	 * later state, so closing it there closes it everywhere.
+	 * @param excluded - Note paths to leave out
+	 */
+	async getFollowUps(excluded: string[] = []): Promise<FollowUp[]> {
+		const skipped = new Set(excluded);
+		const today = new Date().toISOString().split('T')[0];
+		const cutoffDate = new Date();
+		cutoffDate.setDate(cutoffDate.getDate() - ContextRetriever.FOLLOW_UP_WINDOW_DAYS);
+		const cutoffStr = cutoffDate.toISOString().split('T')[0];
+
+		const sessions = this.app.vault
+			.getMarkdownFiles()
+			.filter(
+				(f) =>
+					f.path.startsWith(this.journalFolder + '/') &&
+					!f.path.startsWith(this.journalFolder + '/reports/') &&
+					!skipped.has(f.path)
+			)
+			.map((file) => ({ file, date: file.basename.match(/^(\d{4}-\d{2}-\d{2})/)?.[1] }))
+			.filter(
+				(session): session is { file: TFile; date: string } =>
+					!!session.date && session.date >= cutoffStr
+			)
+			.sort((a, b) => b.date.localeCompare(a.date));
+
+		const contents = await Promise.all(
+			sessions.map(({ file }) =>
+				this.app.vault.read(file).catch((error: unknown) => {
+					logger.error(
+						`Error reading ${file.path}:`,
+						error instanceof Error ? error : undefined
+					);
+					return '';
+				})
+			)
+		);
+
+		const seen = new Set<string>();
+		const followUps: FollowUp[] = [];
+		sessions.forEach(({ file, date }, i) => {
+			const ageDays = Math.max(
+				0,
+				Math.round((Date.parse(today) - Date.parse(date)) / ContextRetriever.DAY_MS)
+			);
+			// Later sessions are appended below earlier ones in a daily note, so the
+			// last occurrence of an item holds its state; keep note order otherwise
+			const open: FollowUp[] = [];
+			for (const item of parseFollowUpItems(contents[i]).reverse()) {
+				const key = `${item.kind}\n${item.text.toLowerCase()}`;
+				if (seen.has(key)) continue;
+				seen.add(key);
+				if (!item.done) {
+					open.push({ kind: item.kind, text: item.text, path: file.path, date, ageDays });
+				}
+			}
+			followUps.push(...open.reverse());
+		});
+		return followUps.slice(0, ContextRetriever.MAX_FOLLOW_UPS);
 	}
 
-	private async getRecentNotes(): Promise<NoteSummary[]> {
+	private async getRecentNotes(excluded: Set<string>): Promise<NoteSummary[]> {
 		const cutoffDate = new Date();
 		cutoffDate.setDate(cutoffDate.getDate() - this.contextWindowDays);
 		const cutoffStr = cutoffDate.toISOString().split('T')[0];
@@ -113,6 +345,8 @@ export class ContextRetriever {
 		// Get all markdown files in journal folder
 		const files = this.app.vault.getMarkdownFiles().filter((f) => {
 			if (!f.path.startsWith(this.journalFolder + '/')) return false;
+			if (excluded.has(f.path)) return false;
+			if (f.path.startsWith(this.journalFolder + '/reports/')) return false;
 
 			// Check if file is within the context window
 			// Anchor to start to avoid matching partial date-like patterns
@@ -138,41 +372,182 @@ export class ContextRetriever {
 		return summaries.filter((summary): summary is NoteSummary => summary !== null);
 	}
 
+	/**
+	 * Past sessions, or notes from the other indexed folders, related to the conversation
+	 */
 	private async getSemanticMatches(
-		currentMessage: string,
-		history: Message[]
+		queries: string[],
+		type: NoteType,
+		excluded: Set<string>,
+		signal?: AbortSignal
 	): Promise<SearchResult[]> {
-		// Build query from current message and recent history
-		const recentMessages = history
-			.slice(-ContextRetriever.HISTORY_MESSAGES_FOR_QUERY)
-			.map((m) => m.content);
-		const queryText = [...recentMessages, currentMessage].join(' ');
+		// Fetch extra candidates so reranking can trade near-duplicates for other
+		// topics and older notes for newer ones
+		const candidates = await this.searchQueries(
+			queries,
+			{ type },
+			this.maxSemanticResults * ContextRetriever.RERANK_CANDIDATES_PER_RESULT,
+			signal
+		);
+		return rerankResults(
+			candidates.filter((match) => !excluded.has(match.metadata.path)),
+			(a, b) => this.resultSimilarity(a, b),
+			this.rerankOptions,
+			this.maxSemanticResults
+		);
+	}
 
-		try {
-			// Generate embedding for query
-			const queryVector = await this.embedder.embedQuery(queryText);
-
-			// Search vector store
-			const results = await this.vectorStore.search(
-				queryVector,
-				this.maxSemanticResults,
-				{ type: 'session' } // Focus on session notes for context
-			);
+	/**
+	 * searchNotes for each query, merged by rank fusion so each note appears once
+	 */
+	private async searchQueries(
+		queries: string[],
+		filter: VectorFilter,
+		limit: number,
+		signal?: AbortSignal
+	): Promise<SearchResult[]> {
+		const rankings = await Promise.all(
+			queries.map((query) => this.searchNotes(query, filter, limit, signal))
+		);
+		if (rankings.length === 1) return rankings[0];
+
+		const fused = fuseRankings(
+			rankings.map((results) => ({
+				results: results.map((result) => ({ id: result.metadata.path, result })),
+				weight: 1,
+			}))
+		);
+		return fused.slice(0, limit).map(({ item, score }) => ({ ...item.result, score }));
+	}
+
+	/**
+	 * Similarity of two matched passages: cosine of their stored vectors, or
+	 * shared terms when either has none (keyword-only matches, reindex pending)
+	 */
+	private resultSimilarity(a: SearchResult, b: SearchResult): number {
+		const cosine = this.vectorStore.isCompatibleWith(this.embedder.getModelId())
+			? this.vectorStore.similarity(a.id, b.id)
+			: null;
+		if (cosine !== null) return Math.max(0, cosine);
+		return termSimilarity(
+			a.passage?.text ?? a.metadata.summary,
+			b.passage?.text ?? b.metadata.summary
+		);
+	}
+
+	/**
+	 * Vector and keyword search over note chunks, merged by reciprocal rank fusion
+	 * Keyword search catches proper nouns and codes the embedding misses, and keeps
+	 * working while vector search is unavailable.
+	 *
+	 * @param limit - Maximum number of notes; each note is returned once, with its best passage
+	 * @param signal - Cancels the query embedding; rejects with an AbortError
+	 * @param purpose - Usage purpose of the query embedding; a conversation's unless given
+	 */
+	async searchNotes(
+		queryText: string,
+		filter: VectorFilter,
+		limit: number,
+		signal?: AbortSignal,
+		purpose: UsagePurpose = 'embedding'
+	): Promise<SearchResult[]> {
+		// Over-fetch since several chunks may come from one note
+		const candidates = limit * ContextRetriever.CHUNKS_PER_RESULT;
+
+		const vectorResults = await this.searchVectors(
+			queryText,
+			candidates,
+			filter,
+			signal,
+			purpose
+		);
+		const keywordResults =
+			this.keywordWeight > 0 ? this.keywordIndex.search(queryText, candidates, filter) : [];
+		const fused = fuseRankings([
+			{ results: vectorResults, weight: 1 - this.keywordWeight },
+			{ results: keywordResults, weight: this.keywordWeight },
+		]);
+
+		// Keep the best-scoring passage of each note (fused results are sorted by score)
+		const seenPaths = new Set<string>();
+		const matches: SearchResult[] = [];
+		for (const { item, score } of fused) {
+			if (seenPaths.has(item.metadata.path)) continue;
+			seenPaths.add(item.metadata.path);
+			matches.push({
+				id: item.id,
+				score,
+				metadata: this.vectorMetadataToNoteSummary(item.metadata),
+				passage: this.vectorMetadataToPassage(item.metadata),
+			});
+			if (matches.length >= limit) break;
+		}
+		return matches;
+	}
 
-			return results.map((r) => ({
-				id: r.id,
-				score: r.score,
-				metadata: this.vectorMetadataToNoteSummary(r.metadata),
-			}));
+	/**
+	 * @returns vector search results, or none when vector search is unavailable
+	 */
+	private async searchVectors(
+		queryText: string,
+		limit: number,
+		filter: VectorFilter,
+		signal: AbortSignal | undefined,
+		purpose: UsagePurpose
+	): Promise<VectorSearchResult[]> {
+		if (this.keywordWeight >= 1) return [];
+
+		// Stored vectors from another model would only produce meaningless matches
+		if (!this.vectorStore.isCompatibleWith(this.embedder.getModelId())) {
+			logger.debug('Skipping vector search: embedding model changed, reindex pending');
+			return [];
+		}
+
+		try {
+			const queryVector = await this.embedQuery(queryText, signal, purpose);
+			return await this.vectorStore.search(queryVector, limit, filter);
 		} catch (error) {
+			if (isAbortError(error)) throw error;
 			logger.error('Semantic search error:', error instanceof Error ? error : undefined);
 			return [];
 		}
 	}
 
+	/**
+	 * Embed a query once even when several searches of a turn use it
+	 * A failed or cancelled embedding is not kept, so the next turn retries it.
+	 */
+	private embedQuery(
+		queryText: string,
+		signal: AbortSignal | undefined,
+		purpose: UsagePurpose
+	): Promise<number[]> {
+		const key = `${this.embedder.getModelId()}\n${queryText}`;
+		const cached = this.queryVectors.get(key);
+		if (cached) return cached;
+
+		const vector = this.embedder.embedQuery(queryText, signal, purpose);
+		this.queryVectors.set(key, vector);
+		if (this.queryVectors.size > ContextRetriever.MAX_CACHED_QUERIES) {
+			// Maps iterate in insertion order, so the first key is the oldest
+			this.queryVectors.delete(this.queryVectors.keys().next().value as string);
+		}
+		vector.catch(() => {
+			if (this.queryVectors.get(key) === vector) this.queryVectors.delete(key);
+		});
+		return vector;
+	}
+
 	private static readonly MAX_REGEX_ITERATIONS = 1000;
 
-	private async getLinkedEntities(currentMessage: string, history: Message[]): Promise<Entity[]> {
+	/**
+	 * @param names - Entity names from a query plan, resolved like [[links]]
+	 */
+	private async getLinkedEntities(
+		currentMessage: string,
+		history: Message[],
+		names: string[]
+	): Promise<Entity[]> {
 		// Extract [[links]] from current message and history
 		// Truncate input to prevent regex DoS attacks
 		let allText = [...history.map((m) => m.content), currentMessage].join(' ');
@@ -192,78 +567,39 @@ export class ContextRetriever {
 			links.push(match[1]);
 		}
 
-		// Also search for potential entity mentions (names from entities folder)
-		const entityFiles = this.app.vault
-			.getMarkdownFiles()
-			.filter((f) => f.path.startsWith(this.entitiesFolder + '/'));
-
-		const entityNames = entityFiles.map((f) => f.basename);
-
-		// Filter out names already in links
-		const candidateNames = entityNames.filter((name) => !links.includes(name));
-
-		// Use simple string matching instead of regex to avoid ReDoS risks
-		// This is O(n*m) but with early termination and is safer than regex alternation
-		let mentionedEntities: string[] = [];
-		if (candidateNames.length > 0) {
-			// Limit number of entity names to prevent performance issues
-			const limitedNames = candidateNames.slice(
-				0,
-				ContextRetriever.MAX_ENTITY_NAMES_FOR_REGEX
-			);
-			if (candidateNames.length > ContextRetriever.MAX_ENTITY_NAMES_FOR_REGEX) {
-				logger.warn(
-					`Entity name list truncated from ${candidateNames.length} to ${ContextRetriever.MAX_ENTITY_NAMES_FOR_REGEX} for performance`
-				);
-			}
-
-			// Convert text to lowercase once for case-insensitive matching
-			const lowerText = allText.toLowerCase();
-
-			// Check each entity name with simple string matching
-			mentionedEntities = limitedNames.filter((name) => {
-				const lowerName = name.toLowerCase();
-				const index = lowerText.indexOf(lowerName);
-				if (index === -1) return false;
-
-				// Check word boundaries manually (more efficient than regex)
-				const beforeChar = index > 0 ? lowerText[index - 1] : ' ';
-				const afterChar =
-					index + lowerName.length < lowerText.length
-						? lowerText[index + lowerName.length]
-						: ' ';
-
-				// Word boundary: non-alphanumeric or CJK characters are boundaries
-				const isWordBoundaryBefore = !/[\w\u3040-\u309f\u30a0-\u30ff\u4e00-\u9fff]/.test(
-					beforeChar
-				);
-				const isWordBoundaryAfter = !/[\w\u3040-\u309f\u30a0-\u30ff\u4e00-\u9fff]/.test(
-					afterChar
-				);
-
-				return isWordBoundaryBefore && isWordBoundaryAfter;
-			});
+		// Resolve links to entity notes, then add notes mentioned by name or alias
+		const linkedFiles = await Promise.all(
+			[...new Set([...links, ...names])].map((link) => this.resolveEntityLink(link))
+		);
+		const mentionedFiles = await this.entityDirectory.findMentions(allText);
+		const files = new Map<string, TFile>();
+		for (const file of [...linkedFiles, ...mentionedFiles]) {
+			if (file) files.set(file.path, file);
 		}
 
-		const allEntityNames = [...new Set([...links, ...mentionedEntities])];
-
 		// Load entity information in parallel (fixes N+1 query pattern)
-		const entityPromises = allEntityNames.map((name) => this.loadEntity(name));
+		const entityPromises = [...files.values()].map((file) => this.loadEntity(file));
 		const loadedEntities = await Promise.all(entityPromises);
 
 		// Filter out nulls
 		return loadedEntities.filter((entity): entity is Entity => entity !== null);
 	}
 
-	private async loadEntity(name: string): Promise<Entity | null> {
-		const safeName = sanitizeFileName(name);
-		const filePath = `${this.entitiesFolder}/${safeName}.md`;
-		const file = this.app.vault.getAbstractFileByPath(filePath);
+	/**
+	 * The entity note a [[link]] points to, by file name or else by alias
+	 */
+	private async resolveEntityLink(link: string): Promise<TFile | null> {
+		const name = link.split('|')[0].split('#')[0].trim();
+		if (!name) return null;
 
-		if (!(file instanceof TFile)) {
-			return null;
-		}
+		const filePath = `${this.entitiesFolder}/${sanitizeFileName(name)}.md`;
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (file instanceof TFile) return file;
+		return this.entityDirectory.resolve(name);
+	}
 
+	private async loadEntity(file: TFile): Promise<Entity | null> {
+		const name = file.basename;
 		try {
 			const content = await this.app.vault.read(file);
 			const { frontmatter, body } = parseFrontmatter(content);
@@ -302,7 +638,7 @@ export class ContextRetriever {
 				name,
 				type,
 				description,
-				path: filePath,
+				path: file.path,
 			};
 		} catch (error) {
 			logger.error(
@@ -313,7 +649,16 @@ export class ContextRetriever {
 		}
 	}
 
-	private async getLinkedGoals(currentMessage: string, history: Message[]): Promise<Goal[]> {
+	/**
+	 * Active goals that are named in the conversation, were created recently, or are
+	 * among the closest to it by search (relevant without being named)
+	 */
+	private async getLinkedGoals(
+		currentMessage: string,
+		history: Message[],
+		queries: string[],
+		signal?: AbortSignal
+	): Promise<Goal[]> {
 		// Get all goal files from entities folder
 		const goalFiles = this.app.vault
 			.getMarkdownFiles()
@@ -321,7 +666,16 @@ export class ContextRetriever {
 
 		// Load goals in parallel and filter only active goals
 		const goalPromises = goalFiles.map((file) => this.loadGoal(file));
-		const loadedGoals = await Promise.all(goalPromises);
+		const [loadedGoals, similarGoals] = await Promise.all([
+			Promise.all(goalPromises),
+			this.searchQueries(
+				queries,
+				{ type: 'goal', goalStatuses: ['active'] },
+				ContextRetriever.MAX_SEMANTIC_GOALS,
+				signal
+			),
+		]);
+		const similarPaths = new Set(similarGoals.map((match) => match.metadata.path));
 
 		// Filter out nulls and only return active goals
 		const activeGoals = loadedGoals.filter(
@@ -347,6 +701,10 @@ export class ContextRetriever {
 				return true;
 			}
 
+			if (similarPaths.has(goal.path)) {
+				return true;
+			}
+
 			// Check if goal was created recently
 			// Validate date format (YYYY-MM-DD) before comparison
 			const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -500,6 +858,15 @@ export class ContextRetriever {
 		}
 	}
 
+	private vectorMetadataToPassage(metadata: VectorMetadata): NotePassage | undefined {
+		if (!metadata.passage) return undefined;
+		return {
+			text: metadata.passage,
+			headings: metadata.headings ?? [],
+			offset: metadata.offset ?? 0,
+		};
+	}
+
 	private vectorMetadataToNoteSummary(metadata: VectorMetadata): NoteSummary {
 		return {
 			path: metadata.path,
@@ -0,0 +1,220 @@
+import type { App } from 'obsidian';
+import { TFile } from 'obsidian';
+import { parseFrontmatter, getFrontmatterString, isStringArray } from '../utils/frontmatter';
+import { AhoCorasick } from '../utils/ahoCorasick';
+import {
+	normalizeName,
+	nameForms,
+	isWholeMatch,
+	fuzzyCandidates,
+	fuzzyMatches,
+} from '../utils/entityNames';
+import { logger } from '../utils/logger';
+
+interface EntityEntry {
+	mtime: number;
+	size: number;
+	names: string[]; // Basename and frontmatter aliases
+	isGoal: boolean;
+}
+
+interface NameIndex {
+	forms: Map<string, Set<string>>; // Normalized name form -> entity paths
+	patterns: string[]; // Forms in matcher order
+	matcher: AhoCorasick;
+	fuzzyForms: Map<number, string[]>; // Single-word forms by length, for typo matching
+}
+
+/**
+ * Names of the entity notes (people, projects, ...) and the ways they are referred to
+ * Each note is known by its basename and its `aliases` frontmatter, with honorifics,
+ * titles and "project" suffixes stripped or swapped ("田中さん" finds 田中部長.md).
+ * Notes are re-read only when they change, and the matcher is rebuilt only then.
+ */
+export class EntityDirectory {
+	private app: App;
+	private entitiesFolder: string;
+	private entries = new Map<string, EntityEntry>();
+	private index: NameIndex | null = null;
+	private refreshing: Promise<NameIndex> | null = null; // Shared by concurrent lookups
+
+	constructor(app: App, entitiesFolder: string) {
+		this.app = app;
+		this.entitiesFolder = entitiesFolder;
+	}
+
+	updateSettings(entitiesFolder: string): void {
+		if (entitiesFolder === this.entitiesFolder) return;
+		this.entitiesFolder = entitiesFolder;
+		this.entries.clear();
+		this.index = null;
+	}
+
+	/**
+	 * Entity notes mentioned in a text by name, alias or a one-typo variant
+	 */
+	async findMentions(text: string): Promise<TFile[]> {
+		const index = await this.refresh();
+		const normalized = normalizeName(text);
+		const paths = new Set<string>();
+
+		for (const match of index.matcher.search(normalized)) {
+			if (!isWholeMatch(normalized, match.start, match.end)) continue;
+			for (const path of index.forms.get(index.patterns[match.pattern]) ?? []) {
+				paths.add(path);
+			}
+		}
+
+		for (const word of fuzzyCandidates(normalized)) {
+			if (index.forms.has(word)) continue;
+			for (const form of this.fuzzyNeighbors(index, word)) {
+				for (const path of index.forms.get(form) ?? []) {
+					paths.add(path);
+				}
+			}
+		}
+
+		return this.toFiles([...paths]);
+	}
+
+	/**
+	 * The entity note a name refers to: the note with that name, else the only note
+	 * it is an alias or variant of, else the only note one typo away
+	 * Returns null when nothing or more than one note matches.
+	 */
+	async resolve(name: string): Promise<TFile | null> {
+		const index = await this.refresh();
+		const normalized = normalizeName(name);
+		if (!normalized) return null;
+
+		for (const [path, entry] of this.entries) {
+			if (!entry.isGoal && normalizeName(entry.names[0]) === normalized) {
+				return this.toFiles([path])[0] ?? null;
+			}
+		}
+
+		const candidates = new Set<string>();
+		for (const form of nameForms(name)) {
+			for (const path of index.forms.get(form) ?? []) {
+				candidates.add(path);
+			}
+		}
+		if (candidates.size === 0) {
+			for (const form of this.fuzzyNeighbors(index, normalized)) {
+				for (const path of index.forms.get(form) ?? []) {
+					candidates.add(path);
+				}
+			}
+		}
+
+		if (candidates.size !== 1) return null;
+		return this.toFiles([...candidates])[0] ?? null;
+	}
+
+	private refresh(): Promise<NameIndex> {
+		if (!this.refreshing) {
+			this.refreshing = this.reload().finally(() => {
+				this.refreshing = null;
+			});
+		}
+		return this.refreshing;
+	}
+
+	/**
+	 * Re-read changed entity notes and rebuild the matcher if any changed
+	 */
+	private async reload(): Promise<NameIndex> {
+		const prefix = this.entitiesFolder + '/';
+		const files = this.app.vault.getMarkdownFiles().filter((f) => f.path.startsWith(prefix));
+		const current = new Set(files.map((file) => file.path));
+
+		let changed = this.index === null;
+		for (const path of [...this.entries.keys()]) {
+			if (!current.has(path)) {
+				this.entries.delete(path);
+				changed = true;
+			}
+		}
+
+		const stale = files.filter((file) => {
+			const entry = this.entries.get(file.path);
+			return !entry || entry.mtime !== file.stat.mtime || entry.size !== file.stat.size;
+		});
+		if (stale.length > 0) {
+			const read = await Promise.all(stale.map((file) => this.readEntry(file)));
+			stale.forEach((file, i) => this.entries.set(file.path, read[i]));
+			changed = true;
+		}
+
+		if (changed || !this.index) {
+			this.index = this.buildIndex();
+		}
+		return this.index;
+	}
+
+	private async readEntry(file: TFile): Promise<EntityEntry> {
+		const entry = {
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+			names: [file.basename],
+			isGoal: false,
+		};
+		try {
+			const { frontmatter } = parseFrontmatter(await this.app.vault.read(file));
+			const aliases = frontmatter.aliases;
+			if (isStringArray(aliases)) {
+				entry.names.push(...aliases);
+			} else if (typeof aliases === 'string' && aliases) {
+				entry.names.push(aliases);
+			}
+			entry.isGoal = getFrontmatterString(frontmatter, 'type', '') === 'goal';
+		} catch (error) {
+			logger.error(
+				`Error reading entity aliases from ${file.path}:`,
+				error instanceof Error ? error : undefined
+			);
+		}
+		return entry;
+	}
+
+	private buildIndex(): NameIndex {
+		const forms = new Map<string, Set<string>>();
+		for (const [path, entry] of this.entries) {
+			if (entry.isGoal) continue;
+			for (const name of entry.names) {
+				for (const form of nameForms(name)) {
+					const paths = forms.get(form) ?? new Set<string>();
+					paths.add(path);
+					forms.set(form, paths);
+				}
+			}
+		}
+
+		const patterns = [...forms.keys()];
+		const fuzzyForms = new Map<number, string[]>();
+		for (const form of patterns) {
+			if (fuzzyCandidates(form)[0] !== form) continue;
+			const bucket = fuzzyForms.get(form.length) ?? [];
+			bucket.push(form);
+			fuzzyForms.set(form.length, bucket);
+		}
+
+		return { forms, patterns, matcher: new AhoCorasick(patterns), fuzzyForms };
+	}
+
+	private fuzzyNeighbors(index: NameIndex, word: string): string[] {
+		const neighbors: string[] = [];
+		for (let length = word.length - 1; length <= word.length + 1; length++) {
+			for (const form of index.fuzzyForms.get(length) ?? []) {
+				if (fuzzyMatches(word, form)) neighbors.push(form);
+			}
+		}
+		return neighbors;
+	}
+
+	private toFiles(paths: string[]): TFile[] {
+		return paths
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+	}
+}
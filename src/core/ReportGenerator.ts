@@ -1,6 +1,6 @@
 import type { App } from 'obsidian';
 import { TFile } from 'obsidian';
-import type { SessionCategory, MoodState, NextAction } from '../types';
+import type { SessionCategory, MoodState, NextAction, UsagePurpose, UsageTotals } from '../types';
 import {
 	parseFrontmatter,
 	getFrontmatterString,
@@ -8,8 +8,10 @@ import {
 } from '../utils/frontmatter';
 import { getTranslations, getAllTranslations } from '../i18n';
 import { escapeRegex } from '../utils/sanitize';
+import { isAbortError, throwIfAborted } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { OpenRouterClient } from '../infrastructure/OpenRouterClient';
+import type { LLMProvider } from '../infrastructure/LLMProvider';
+import type { UsageTracker } from './UsageTracker';
 
 export type ReportType = 'weekly' | 'monthly';
 export type ReportPeriod = 'rolling' | 'last';
@@ -38,6 +40,13 @@ export interface SessionData {
 	insights?: string[];
 }
 
+// API usage of a calendar month, as recorded by the UsageTracker
+export interface MonthlyUsageSummary {
+	month: string; // YYYY-MM
+	totals: UsageTotals;
+	byPurpose: Partial<Record<UsagePurpose, UsageTotals>>;
+}
+
 export interface ReportData {
 	type: ReportType;
 	period: ReportPeriod;
@@ -55,27 +64,43 @@ export interface ReportData {
 	allOpenQuestions: string[];
 	pendingActions: NextAction[];
 	allInsights: string[];
+	usage?: MonthlyUsageSummary; // Monthly reports only
 	coachingFeedback?: CoachingFeedback;
 }
 
 export class ReportGenerator {
 	private app: App;
 	private journalFolder: string;
-	private openRouterClient: OpenRouterClient;
+	private llmProvider: LLMProvider;
 	private summaryModel: string;
+	private summaryFallbackModels: string[] = [];
+	private usageTracker: UsageTracker | null = null;
 
-	constructor(
-		app: App,
-		journalFolder: string,
-		openRouterClient: OpenRouterClient,
-		summaryModel: string
-	) {
+	constructor(app: App, journalFolder: string, llmProvider: LLMProvider, summaryModel: string) {
 		this.app = app;
 		this.journalFolder = journalFolder;
-		this.openRouterClient = openRouterClient;
+		this.llmProvider = llmProvider;
 		this.summaryModel = summaryModel;
 	}
 
+	setProvider(llmProvider: LLMProvider): void {
+		this.llmProvider = llmProvider;
+	}
+
+	/**
+	 * Source of the API usage section of monthly reports
+	 */
+	setUsageTracker(usageTracker: UsageTracker | null): void {
+		this.usageTracker = usageTracker;
+	}
+
+	/**
+	 * Set ordered fallback models for coaching feedback generation
+	 */
+	setFallbackModels(summaryFallbackModels: string[]): void {
+		this.summaryFallbackModels = summaryFallbackModels;
+	}
+
 	updateSettings(journalFolder: string, summaryModel?: string): void {
 		this.journalFolder = journalFolder;
 		if (summaryModel) {
@@ -401,10 +426,14 @@ export class ReportGenerator {
 
 	/**
 	 * Generate coaching feedback using LLM
+	 * @param signal - Cancels the request; rejects with an AbortError
 	 */
-	async generateCoachingFeedback(data: ReportData): Promise<CoachingFeedback | null> {
-		if (!this.openRouterClient.isConfigured()) {
-			logger.warn('OpenRouter not configured, skipping coaching feedback');
+	async generateCoachingFeedback(
+		data: ReportData,
+		signal?: AbortSignal
+	): Promise<CoachingFeedback | null> {
+		if (!this.llmProvider.isConfigured()) {
+			logger.warn('LLM provider not configured, skipping coaching feedback');
 			return null;
 		}
 
@@ -445,10 +474,13 @@ export class ReportGenerator {
 			.replace('{pendingActions}', pendingActions);
 
 		try {
-			const response = await this.openRouterClient.complete(
-				[{ role: 'user', content: prompt }],
-				{ model: this.summaryModel, maxTokens: 2048 }
-			);
+			const response = await this.llmProvider.complete([{ role: 'user', content: prompt }], {
+				model: this.summaryModel,
+				maxTokens: 2048,
+				purpose: 'report',
+				fallbackModels: this.summaryFallbackModels,
+				signal,
+			});
 
 			// Extract JSON from response
 			const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -472,6 +504,8 @@ export class ReportGenerator {
 					: [],
 			};
 		} catch (error) {
+			// Cancellation must not fall through to saving a report without feedback
+			if (isAbortError(error)) throw error;
 			logger.error(
 				'Failed to generate coaching feedback:',
 				error instanceof Error ? error : undefined
@@ -487,6 +521,16 @@ export class ReportGenerator {
 		const t = getTranslations();
 		const lines: string[] = [];
 
+		// Frontmatter marks the note as a report for indexing and search
+		lines.push('---');
+		lines.push('type: report');
+		lines.push(`report_type: ${data.type}`);
+		lines.push(`date: ${data.endDate}`);
+		lines.push(`period_start: ${data.startDate}`);
+		lines.push(`period_end: ${data.endDate}`);
+		lines.push('---');
+		lines.push('');
+
 		// Title
 		const typeLabel = data.type === 'weekly' ? t.report.weekly : t.report.monthly;
 		lines.push(`# 📊 ${typeLabel} (${data.startDate} - ${data.endDate})`);
@@ -623,6 +667,28 @@ export class ReportGenerator {
 			lines.push('');
 		}
 
+		// API usage (monthly reports only)
+		const { usage } = data;
+		if (usage && usage.totals.promptTokens + usage.totals.completionTokens > 0) {
+			const { totals } = usage;
+			lines.push(`## ${t.report.usage} (${usage.month})`);
+			lines.push(`- ${t.report.promptTokens}: ${totals.promptTokens.toLocaleString()}`);
+			lines.push(
+				`- ${t.report.completionTokens}: ${totals.completionTokens.toLocaleString()}`
+			);
+			lines.push(`- ${t.report.estimatedCost}: $${totals.costUsd.toFixed(4)}`);
+			const purposes = Object.entries(usage.byPurpose) as [UsagePurpose, UsageTotals][];
+			for (const [purpose, purposeTotals] of purposes.sort(
+				([, a], [, b]) => b.costUsd - a.costUsd
+			)) {
+				const tokens = purposeTotals.promptTokens + purposeTotals.completionTokens;
+				lines.push(
+					`  - ${t.report.usagePurposes[purpose]}: $${purposeTotals.costUsd.toFixed(4)} (${tokens.toLocaleString()})`
+				);
+			}
+			lines.push('');
+		}
+
 		return lines.join('\n');
 	}
 
@@ -669,21 +735,41 @@ export class ReportGenerator {
 		return `${year}-${month}-${day}`;
 	}
 
+	/**
+	 * Usage of the month the report ends in, the same totals the budget check uses
+	 */
+	private getMonthlyUsage(endDate: Date): MonthlyUsageSummary | undefined {
+		if (!this.usageTracker) return undefined;
+		return {
+			month: this.formatDateStr(endDate).slice(0, 7),
+			totals: this.usageTracker.getMonthUsage(endDate),
+			byPurpose: this.usageTracker.getMonthUsageByPurpose(endDate),
+		};
+	}
+
 	/**
 	 * Generate report
+	 * @param signal - Cancels generation before anything is saved
 	 */
-	async generateReport(command: ReportCommand): Promise<{ content: string; filePath: string }> {
+	async generateReport(
+		command: ReportCommand,
+		signal?: AbortSignal
+	): Promise<{ content: string; filePath: string }> {
 		const { startDate, endDate } = this.getDateRange(command);
 		const sessions = await this.fetchSessions(startDate, endDate);
 		const reportData = this.aggregateSessions(command, sessions, startDate, endDate);
+		if (command.type === 'monthly') {
+			reportData.usage = this.getMonthlyUsage(endDate);
+		}
 
 		// Generate coaching feedback if there are sessions
 		if (sessions.length > 0) {
-			const coachingFeedback = await this.generateCoachingFeedback(reportData);
+			const coachingFeedback = await this.generateCoachingFeedback(reportData, signal);
 			if (coachingFeedback) {
 				reportData.coachingFeedback = coachingFeedback;
 			}
 		}
+		throwIfAborted(signal);
 
 		const content = this.formatReport(reportData);
 		const filePath = await this.saveReport(command, content);
@@ -8,27 +8,41 @@ import type {
 	ExtractedGoal,
 	ConversationContext,
 	ModelInfo,
+	UsageTotals,
+	FollowUp,
 } from '../types';
 import { getTranslations } from '../i18n';
+import { EntityDirectory } from './EntityDirectory';
 import { sanitizeFileName, generateId } from '../utils/sanitize';
+import { parseFrontmatter, addFrontmatterListItem, isStringArray } from '../utils/frontmatter';
+import { normalizeName } from '../utils/entityNames';
+import { checkOffFollowUp } from '../utils/followUps';
 import { logger } from '../utils/logger';
 
 export class SessionManager {
 	private app: App;
 	private journalFolder: string;
 	private entitiesFolder: string;
+	private entityDirectory: EntityDirectory;
 	private currentSession: Session | null = null;
 	private saveLock: Promise<TFile | null> = Promise.resolve(null); // Mutex for save operations
 
-	constructor(app: App, journalFolder: string, entitiesFolder: string) {
+	constructor(
+		app: App,
+		journalFolder: string,
+		entitiesFolder: string,
+		entityDirectory = new EntityDirectory(app, entitiesFolder)
+	) {
 		this.app = app;
 		this.journalFolder = journalFolder;
 		this.entitiesFolder = entitiesFolder;
+		this.entityDirectory = entityDirectory;
 	}
 
 	updateSettings(journalFolder: string, entitiesFolder: string): void {
 		this.journalFolder = journalFolder;
 		this.entitiesFolder = entitiesFolder;
+		this.entityDirectory.updateSettings(entitiesFolder);
 	}
 
 	startSession(): Session {
@@ -39,8 +53,11 @@ export class SessionManager {
 			context: {
 				recentNotes: [],
 				semanticMatches: [],
+				relatedNotes: [],
 				linkedEntities: [],
 				linkedGoals: [],
+				followUps: [],
+				sources: [],
 			},
 		};
 		return this.currentSession;
@@ -67,8 +84,13 @@ export class SessionManager {
 	/**
 	 * Save the current session to a journal note file
 	 * Uses mutex pattern to prevent concurrent save operations
+	 * @param usage - Token usage for this session; added to the daily note's totals
 	 */
-	async saveSession(summary: SessionSummary, modelInfo?: ModelInfo): Promise<TFile | null> {
+	async saveSession(
+		summary: SessionSummary,
+		modelInfo?: ModelInfo,
+		usage?: UsageTotals
+	): Promise<TFile | null> {
 		// Use mutex to prevent concurrent save operations
 		// Pattern: capture previous lock, create new lock with resolver, wait for previous
 		const previousLock = this.saveLock;
@@ -105,8 +127,11 @@ export class SessionManager {
 			// Ensure folder exists
 			await this.ensureFolder(this.journalFolder);
 
+			// Existing notes the summary's entities refer to, possibly by another name
+			const entityFiles = await this.resolveEntityFiles(summary.entities);
+
 			// Generate note content
-			const content = this.formatSessionNote(session, summary, modelInfo);
+			const content = this.formatSessionNote(session, summary, entityFiles, modelInfo, usage);
 
 			// Generate file path
 			const date = new Date();
@@ -123,11 +148,14 @@ export class SessionManager {
 				// Append to existing file
 				// Use try-catch to handle race condition where file is deleted between check and read
 				try {
-					const existingContent = await this.app.vault.read(existingFile);
+					let existingContent = await this.app.vault.read(existingFile);
+					if (usage) {
+						existingContent = this.addUsageToFrontmatter(existingContent, usage);
+					}
 					const newContent =
 						existingContent +
 						'\n\n---\n\n' +
-						this.formatSessionSection(session, summary, timeStr);
+						this.formatSessionSection(session, summary, timeStr, entityFiles);
 					await this.app.vault.modify(existingFile, newContent);
 					file = existingFile;
 				} catch {
@@ -141,13 +169,17 @@ export class SessionManager {
 			}
 
 			// Create entity notes
-			await this.createEntityNotes(summary.entities, dateStr);
+			await this.createEntityNotes(summary.entities, dateStr, entityFiles);
 
 			// Create goal notes
 			if (summary.goals && summary.goals.length > 0) {
 				await this.createGoalNotes(summary.goals, dateStr);
 			}
 
+			if (summary.resolvedFollowUps && summary.resolvedFollowUps.length > 0) {
+				await this.checkOffFollowUps(summary.resolvedFollowUps);
+			}
+
 			// Clear session
 			this.currentSession = null;
 
@@ -167,12 +199,31 @@ export class SessionManager {
 		}
 	}
 
-	async createEntityNotes(entities: ExtractedEntity[], sessionDate: string): Promise<void> {
+	/**
+	 * @param entityFiles - Existing notes by entity name, from resolveEntityFiles
+	 */
+	async createEntityNotes(
+		entities: ExtractedEntity[],
+		sessionDate: string,
+		entityFiles?: Map<string, TFile>
+	): Promise<void> {
 		await this.ensureFolder(this.entitiesFolder);
+		const files = entityFiles ?? (await this.resolveEntityFiles(entities));
 
 		// Process entities in parallel with error handling for each
+		// Entities resolved to the same note are written one after another
+		const queues = new Map<string, Promise<void>>();
 		const results = await Promise.allSettled(
-			entities.map((entity) => this.createOrUpdateEntityNote(entity, sessionDate))
+			entities.map((entity) => {
+				const file = files.get(entity.name) ?? null;
+				const key = file?.path ?? this.getEntityPath(entity.name);
+				const previous = queues.get(key) ?? Promise.resolve();
+				const update = previous
+					.catch(() => undefined)
+					.then(() => this.createOrUpdateEntityNote(entity, sessionDate, file));
+				queues.set(key, update);
+				return update;
+			})
 		);
 
 		// Log any failures
@@ -187,6 +238,25 @@ export class SessionManager {
 		}
 	}
 
+	/**
+	 * Find the existing note for each entity: the note named after it, else the one it
+	 * is an alias, honorific variant or near-spelling of ("田中さん" -> 田中部長.md)
+	 */
+	private async resolveEntityFiles(entities: ExtractedEntity[]): Promise<Map<string, TFile>> {
+		const files = new Map<string, TFile>();
+		await Promise.all(
+			entities.map(async (entity) => {
+				const exact = this.app.vault.getAbstractFileByPath(this.getEntityPath(entity.name));
+				const file =
+					exact instanceof TFile
+						? exact
+						: await this.entityDirectory.resolve(entity.name);
+				if (file) files.set(entity.name, file);
+			})
+		);
+		return files;
+	}
+
 	async createGoalNotes(goals: ExtractedGoal[], sessionDate: string): Promise<void> {
 		await this.ensureFolder(this.entitiesFolder);
 
@@ -302,27 +372,33 @@ ${suggestedActionsSection}${nextActionsSection}
 	 */
 	private async createOrUpdateEntityNote(
 		entity: ExtractedEntity,
-		sessionDate: string
+		sessionDate: string,
+		existingFile: TFile | null
 	): Promise<void> {
 		const t = getTranslations();
-		const safeName = sanitizeFileName(entity.name);
-		const fileName = `${safeName}.md`;
-		const filePath = `${this.entitiesFolder}/${fileName}`;
-		const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+		const filePath = this.getEntityPath(entity.name);
+		const file = existingFile ?? this.app.vault.getAbstractFileByPath(filePath);
 
-		if (existingFile instanceof TFile) {
+		if (file instanceof TFile) {
 			// Append to existing entity note
-			const existingContent = await this.app.vault.read(existingFile);
+			const existingContent = await this.app.vault.read(file);
 			const sessionLink = `- [[${sessionDate}]] - ${entity.context}`;
 
-			if (!existingContent.includes(sessionLink)) {
+			let updatedContent = existingContent;
+			if (!updatedContent.includes(sessionLink)) {
 				// Find the related sessions section and append
-				const updatedContent = this.appendToSection(
-					existingContent,
+				updatedContent = this.appendToSection(
+					updatedContent,
 					t.notes.relatedSessions,
 					sessionLink
 				);
-				await this.app.vault.modify(existingFile, updatedContent);
+			}
+			// Remember the name used this time so it's recognized (and linkable) next time
+			if (this.isNewAlias(file, updatedContent, entity.name)) {
+				updatedContent = addFrontmatterListItem(updatedContent, 'aliases', entity.name);
+			}
+			if (updatedContent !== existingContent) {
+				await this.app.vault.modify(file, updatedContent);
 			}
 		} else {
 			// Create new entity note
@@ -331,10 +407,60 @@ ${suggestedActionsSection}${nextActionsSection}
 		}
 	}
 
+	private getEntityPath(name: string): string {
+		return `${this.entitiesFolder}/${sanitizeFileName(name)}.md`;
+	}
+
+	/**
+	 * Whether a name differs from the note's name and aliases (ignoring case and width)
+	 */
+	private isNewAlias(file: TFile, content: string, name: string): boolean {
+		const aliases = parseFrontmatter(content).frontmatter.aliases;
+		const known = [
+			file.basename,
+			...(isStringArray(aliases) ? aliases : typeof aliases === 'string' ? [aliases] : []),
+		];
+		const normalized = normalizeName(name);
+		return normalized !== '' && !known.some((other) => normalizeName(other) === normalized);
+	}
+
+	/**
+	 * Mark follow-ups from earlier sessions as done in the notes they were recorded in
+	 * A note that can't be updated is logged and skipped; the session is saved already.
+	 */
+	async checkOffFollowUps(followUps: FollowUp[]): Promise<void> {
+		const byPath = new Map<string, FollowUp[]>();
+		for (const followUp of followUps) {
+			byPath.set(followUp.path, [...(byPath.get(followUp.path) ?? []), followUp]);
+		}
+
+		for (const [path, items] of byPath) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+			try {
+				const content = await this.app.vault.read(file);
+				const updated = items.reduce(
+					(text, item) => checkOffFollowUp(text, item.kind, item.text),
+					content
+				);
+				if (updated !== content) {
+					await this.app.vault.modify(file, updated);
+				}
+			} catch (error) {
+				logger.error(
+					`Error checking off follow-ups in ${path}:`,
+					error instanceof Error ? error : undefined
+				);
+			}
+		}
+	}
+
 	private formatSessionNote(
 		session: Session,
 		summary: SessionSummary,
-		modelInfo?: ModelInfo
+		entityFiles: Map<string, TFile>,
+		modelInfo?: ModelInfo,
+		usage?: UsageTotals
 	): string {
 		const t = getTranslations();
 		const date = new Date(session.startedAt);
@@ -363,18 +489,57 @@ ${suggestedActionsSection}${nextActionsSection}
 			frontmatterLines.push(`embedding_model: ${embeddingModel}`);
 		}
 
+		if (usage) {
+			frontmatterLines.push(...this.formatUsageLines(usage));
+		}
+
 		frontmatterLines.push('---');
 		const frontmatter = frontmatterLines.join('\n');
 
-		const body = this.formatSessionSection(session, summary, timeStr);
+		const body = this.formatSessionSection(session, summary, timeStr, entityFiles);
 
 		return `${frontmatter}\n\n# ${dateStr} ${t.notes.sessionTitle}\n\n${body}`;
 	}
 
+	private formatUsageLines(usage: UsageTotals): string[] {
+		return [
+			`prompt_tokens: ${Math.round(usage.promptTokens)}`,
+			`completion_tokens: ${Math.round(usage.completionTokens)}`,
+			`cost_usd: ${usage.costUsd.toFixed(6)}`,
+		];
+	}
+
+	/**
+	 * Add a session's usage to the totals in a daily note's frontmatter
+	 * (several sessions can be appended to the same note)
+	 */
+	private addUsageToFrontmatter(content: string, usage: UsageTotals): string {
+		const match = content.match(/^---\n([\s\S]*?)\n---\n/);
+		if (!match) return content;
+
+		const lines = match[1].split('\n');
+		const readNumber = (key: string): number => {
+			const line = lines.find((l) => l.startsWith(`${key}:`));
+			const value = line ? parseFloat(line.slice(key.length + 1)) : 0;
+			return Number.isFinite(value) ? value : 0;
+		};
+		const totals: UsageTotals = {
+			promptTokens: readNumber('prompt_tokens') + usage.promptTokens,
+			completionTokens: readNumber('completion_tokens') + usage.completionTokens,
+			costUsd: readNumber('cost_usd') + usage.costUsd,
+		};
+
+		const usageKeys = ['prompt_tokens:', 'completion_tokens:', 'cost_usd:'];
+		const kept = lines.filter((l) => !usageKeys.some((key) => l.startsWith(key)));
+		const frontmatter = [...kept, ...this.formatUsageLines(totals)].join('\n');
+		return `---\n${frontmatter}\n---\n${content.slice(match[0].length)}`;
+	}
+
 	private formatSessionSection(
 		session: Session,
 		summary: SessionSummary,
-		timeStr: string
+		timeStr: string,
+		entityFiles: Map<string, TFile>
 	): string {
 		const t = getTranslations();
 		const sections: string[] = [];
@@ -401,11 +566,32 @@ ${suggestedActionsSection}${nextActionsSection}
 			}
 		}
 
+		// Task lists, so follow-ups can be checked off later (see checkOffFollowUps)
+		if (summary.nextActions && summary.nextActions.length > 0) {
+			sections.push(`\n### ${t.notes.nextActions}`);
+			for (const action of summary.nextActions) {
+				sections.push(`- [ ] ${this.toSingleLine(action.action)}`);
+			}
+		}
+
+		if (summary.openQuestions && summary.openQuestions.length > 0) {
+			sections.push(`\n### ${t.notes.openQuestions}`);
+			for (const question of summary.openQuestions) {
+				sections.push(`- [ ] ${this.toSingleLine(question)}`);
+			}
+		}
+
 		if (summary.entities.length > 0) {
 			sections.push(`\n### ${t.notes.entities}`);
 			for (const entity of summary.entities) {
 				const safeName = this.escapeWikiLink(entity.name);
-				sections.push(`- [[${safeName}]] - ${entity.context}`);
+				// Link to the note the name was resolved to, showing the name as said
+				const target = entityFiles.get(entity.name)?.basename;
+				const link =
+					target && target !== sanitizeFileName(entity.name)
+						? `[[${this.escapeWikiLink(target)}|${safeName}]]`
+						: `[[${safeName}]]`;
+				sections.push(`- ${link} - ${entity.context}`);
 			}
 		}
 
@@ -475,6 +661,13 @@ ${t.notes.relationshipPlaceholder}
 		return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 	}
 
+	/**
+	 * Collapse line breaks and runs of whitespace so text fits on one task line
+	 */
+	private toSingleLine(str: string): string {
+		return str.replace(/\s+/g, ' ').trim();
+	}
+
 	/**
 	 * Sanitize a string for use in YAML frontmatter
 	 * Quotes strings containing special characters
@@ -0,0 +1,363 @@
+import type { App } from 'obsidian';
+import { TFile } from 'obsidian';
+import type {
+	OpenRouterModel,
+	UsageEvent,
+	UsageListener,
+	UsagePurpose,
+	UsageTotals,
+} from '../types';
+import { logger } from '../utils/logger';
+
+interface MonthlyUsage extends UsageTotals {
+	byPurpose: Partial<Record<UsagePurpose, UsageTotals>>;
+}
+
+interface UsageData {
+	version: number;
+	months: Record<string, MonthlyUsage>; // Keyed by YYYY-MM
+}
+
+interface ModelPricing {
+	prompt: number; // USD per token
+	completion: number; // USD per token
+}
+
+// Tokens recorded before their model's pricing was known, costed once it arrives
+interface UnpricedUsage {
+	month: string;
+	purpose: UsagePurpose;
+	model: string;
+	tokens: UsageTotals; // Counted in the month's totals
+	sessionTokens: UsageTotals; // Of those, counted in the current session
+}
+
+/**
+ * Tracks API token usage and estimated cost
+ * - Monthly totals are persisted to usage.json in the plugin folder
+ * - Per-session totals cover calls made for the conversation and are kept in memory
+ *   until the session is saved
+ * Costs are estimates based on the provider's published per-token pricing;
+ * models without pricing (e.g. local servers) count as free. Calls made before
+ * pricing is fetched are costed when it arrives.
+ */
+export class UsageTracker {
+	private app: App;
+	private filePath: string;
+	private data: UsageData = { version: 1, months: {} };
+	private sessionTotals: UsageTotals = UsageTracker.emptyTotals();
+	private pricing = new Map<string, ModelPricing>();
+	private pricingSource: (() => Promise<OpenRouterModel[]>) | null = null;
+	private pricingRequested = false;
+	private unpriced = new Map<string, UnpricedUsage>(); // Keyed by month, purpose and model
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+	private saveLock: Promise<void> = Promise.resolve(); // Mutex for file writes
+
+	private static readonly USAGE_FILE = 'usage.json';
+	private static readonly SAVE_DEBOUNCE_MS = 2000;
+	private static readonly MAX_MONTHS_KEPT = 24;
+	// Reports, note indexing and search-modal queries happen outside of a coaching session
+	private static readonly OUTSIDE_SESSION: readonly UsagePurpose[] = [
+		'report',
+		'indexing',
+		'search',
+	];
+	private static readonly PURPOSES: readonly UsagePurpose[] = [
+		'chat',
+		'summary',
+		'embedding',
+		'indexing',
+		'search',
+		'report',
+		'planning',
+	];
+
+	constructor(app: App, basePath: string) {
+		this.app = app;
+		this.filePath = basePath.endsWith('/')
+			? `${basePath}${UsageTracker.USAGE_FILE}`
+			: `${basePath}/${UsageTracker.USAGE_FILE}`;
+	}
+
+	/**
+	 * Listener to hand to LLM providers and embedding backends
+	 */
+	readonly listener: UsageListener = (event) => this.record(event);
+
+	async load(): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(this.filePath);
+		if (!(file instanceof TFile)) return;
+
+		try {
+			const parsed = JSON.parse(await this.app.vault.read(file));
+			if (parsed && typeof parsed === 'object' && parsed.months) {
+				this.data = { version: 1, months: {} };
+				for (const [month, usage] of Object.entries(parsed.months)) {
+					if (/^\d{4}-\d{2}$/.test(month) && usage && typeof usage === 'object') {
+						this.data.months[month] = UsageTracker.toMonthlyUsage(usage);
+					}
+				}
+			}
+		} catch (error) {
+			logger.error('Failed to load usage data:', error instanceof Error ? error : undefined);
+		}
+	}
+
+	/**
+	 * Provide a way to look up model pricing (fetched on prefetchPricing or the first
+	 * unpriced call)
+	 */
+	setPricingSource(source: (() => Promise<OpenRouterModel[]>) | null): void {
+		this.pricingSource = source;
+		this.pricingRequested = false;
+	}
+
+	/**
+	 * Fetch pricing now, so the first calls don't wait for it to be costed
+	 */
+	prefetchPricing(): void {
+		this.requestPricing();
+	}
+
+	/**
+	 * Update per-token pricing from a model list
+	 */
+	updatePricing(models: OpenRouterModel[]): void {
+		for (const model of models) {
+			const prompt = parseFloat(model.pricing?.prompt ?? '');
+			const completion = parseFloat(model.pricing?.completion ?? '');
+			// Negative prices mean "variable" (e.g. auto-routing); treat as unknown
+			if (Number.isFinite(prompt) && Number.isFinite(completion)) {
+				this.pricing.set(model.id, {
+					prompt: Math.max(0, prompt),
+					completion: Math.max(0, completion),
+				});
+			}
+		}
+		this.costUnpriced();
+	}
+
+	record(event: UsageEvent): void {
+		const promptTokens = Math.max(0, Math.round(event.promptTokens));
+		const completionTokens = Math.max(0, Math.round(event.completionTokens));
+		if (promptTokens === 0 && completionTokens === 0) return;
+
+		const pricing = this.pricing.get(event.model);
+		const costUsd = pricing
+			? promptTokens * pricing.prompt + completionTokens * pricing.completion
+			: 0;
+		const delta: UsageTotals = { promptTokens, completionTokens, costUsd };
+		const inSession = !UsageTracker.OUTSIDE_SESSION.includes(event.purpose);
+
+		const monthKey = UsageTracker.monthKey(new Date());
+		if (!pricing) {
+			this.addUnpriced(monthKey, event, delta, inSession);
+			this.requestPricing();
+		}
+
+		const month = this.data.months[monthKey] ?? {
+			...UsageTracker.emptyTotals(),
+			byPurpose: {},
+		};
+		UsageTracker.addTotals(month, delta);
+		const purposeTotals = month.byPurpose[event.purpose] ?? UsageTracker.emptyTotals();
+		UsageTracker.addTotals(purposeTotals, delta);
+		month.byPurpose[event.purpose] = purposeTotals;
+		this.data.months[monthKey] = month;
+
+		if (inSession) {
+			UsageTracker.addTotals(this.sessionTotals, delta);
+		}
+
+		this.scheduleSave();
+	}
+
+	/**
+	 * Usage accumulated since the last resetSession()
+	 */
+	getSessionUsage(): UsageTotals {
+		return { ...this.sessionTotals };
+	}
+
+	resetSession(): void {
+		this.sessionTotals = UsageTracker.emptyTotals();
+		for (const usage of this.unpriced.values()) {
+			usage.sessionTokens = UsageTracker.emptyTotals();
+		}
+	}
+
+	getMonthUsage(date: Date = new Date()): UsageTotals {
+		const month = this.data.months[UsageTracker.monthKey(date)];
+		if (!month) return UsageTracker.emptyTotals();
+		return {
+			promptTokens: month.promptTokens,
+			completionTokens: month.completionTokens,
+			costUsd: month.costUsd,
+		};
+	}
+
+	/**
+	 * The month's totals per purpose (purposes without calls are absent)
+	 */
+	getMonthUsageByPurpose(date: Date = new Date()): Partial<Record<UsagePurpose, UsageTotals>> {
+		const byPurpose: Partial<Record<UsagePurpose, UsageTotals>> = {};
+		const month = this.data.months[UsageTracker.monthKey(date)];
+		for (const [purpose, totals] of Object.entries(month?.byPurpose ?? {})) {
+			byPurpose[purpose as UsagePurpose] = { ...totals };
+		}
+		return byPurpose;
+	}
+
+	/**
+	 * @param budgetUsd - Monthly budget; 0 or less disables the check
+	 */
+	isOverBudget(budgetUsd: number): boolean {
+		return budgetUsd > 0 && this.getMonthUsage().costUsd >= budgetUsd;
+	}
+
+	/**
+	 * Write pending changes immediately (call on unload)
+	 */
+	async flush(): Promise<void> {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		await this.save();
+	}
+
+	private requestPricing(): void {
+		if (this.pricingRequested || !this.pricingSource) return;
+		this.pricingRequested = true;
+		this.pricingSource()
+			.then((models) => this.updatePricing(models))
+			.catch((error) => {
+				logger.warn(
+					`Failed to fetch model pricing: ${error instanceof Error ? error.message : String(error)}`
+				);
+			});
+	}
+
+	private addUnpriced(
+		month: string,
+		event: UsageEvent,
+		delta: UsageTotals,
+		inSession: boolean
+	): void {
+		const key = `${month}\n${event.purpose}\n${event.model}`;
+		const usage = this.unpriced.get(key) ?? {
+			month,
+			purpose: event.purpose,
+			model: event.model,
+			tokens: UsageTracker.emptyTotals(),
+			sessionTokens: UsageTracker.emptyTotals(),
+		};
+		UsageTracker.addTotals(usage.tokens, delta);
+		if (inSession) {
+			UsageTracker.addTotals(usage.sessionTokens, delta);
+		}
+		this.unpriced.set(key, usage);
+	}
+
+	/**
+	 * Add the cost of tokens recorded before their model's pricing was known
+	 */
+	private costUnpriced(): void {
+		let changed = false;
+		for (const [key, usage] of this.unpriced) {
+			const pricing = this.pricing.get(usage.model);
+			if (!pricing) continue;
+			this.unpriced.delete(key);
+
+			const cost = (tokens: UsageTotals) =>
+				tokens.promptTokens * pricing.prompt + tokens.completionTokens * pricing.completion;
+			const month = this.data.months[usage.month];
+			if (month) {
+				const costUsd = cost(usage.tokens);
+				month.costUsd += costUsd;
+				const purposeTotals = month.byPurpose[usage.purpose];
+				if (purposeTotals) purposeTotals.costUsd += costUsd;
+				changed = true;
+			}
+			this.sessionTotals.costUsd += cost(usage.sessionTokens);
+		}
+		if (changed) this.scheduleSave();
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer) return;
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			void this.save();
+		}, UsageTracker.SAVE_DEBOUNCE_MS);
+	}
+
+	private async save(): Promise<void> {
+		const previousLock = this.saveLock;
+		let release: () => void = () => {
+			/* no-op default */
+		};
+		this.saveLock = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+
+		try {
+			await previousLock;
+			this.pruneOldMonths();
+			const content = JSON.stringify(this.data);
+			const file = this.app.vault.getAbstractFileByPath(this.filePath);
+			if (file instanceof TFile) {
+				await this.app.vault.modify(file, content);
+			} else {
+				await this.app.vault.create(this.filePath, content);
+			}
+		} catch (error) {
+			logger.error('Failed to save usage data:', error instanceof Error ? error : undefined);
+		} finally {
+			release();
+		}
+	}
+
+	private pruneOldMonths(): void {
+		const months = Object.keys(this.data.months).sort();
+		for (const month of months.slice(0, -UsageTracker.MAX_MONTHS_KEPT)) {
+			delete this.data.months[month];
+		}
+	}
+
+	private static monthKey(date: Date): string {
+		return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+	}
+
+	private static emptyTotals(): UsageTotals {
+		return { promptTokens: 0, completionTokens: 0, costUsd: 0 };
+	}
+
+	private static addTotals(target: UsageTotals, delta: UsageTotals): void {
+		target.promptTokens += delta.promptTokens;
+		target.completionTokens += delta.completionTokens;
+		target.costUsd += delta.costUsd;
+	}
+
+	private static toTotals(value: unknown): UsageTotals {
+		const record = (value ?? {}) as Record<string, unknown>;
+		const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : 0);
+		return {
+			promptTokens: num(record.promptTokens),
+			completionTokens: num(record.completionTokens),
+			costUsd: num(record.costUsd),
+		};
+	}
+
+	private static toMonthlyUsage(value: unknown): MonthlyUsage {
+		const record = value as Record<string, unknown>;
+		const byPurpose: Partial<Record<UsagePurpose, UsageTotals>> = {};
+		if (record.byPurpose && typeof record.byPurpose === 'object') {
+			for (const purpose of UsageTracker.PURPOSES) {
+				const totals = (record.byPurpose as Record<string, unknown>)[purpose];
+				if (totals) byPurpose[purpose] = UsageTracker.toTotals(totals);
+			}
+		}
+		return { ...UsageTracker.toTotals(record), byPurpose };
+	}
+}
@@ -18,28 +18,92 @@ export const en: Translations = {
 			decisions: 'A decision I am struggling with',
 		},
 		relatedNotes: 'Related notes',
+		contextReasons: {
+			recent: 'recent',
+			semantic: 'similar',
+			entity: 'entity',
+			goal: 'goal',
+			followUp: 'follow-up',
+			pinned: 'pinned',
+		},
+		pin: 'Always include for this session',
+		unpin: 'Unpin',
+		excludeFromContext: "Don't include for this session",
+		includeInContext: 'Include again',
+		excludedNotes: 'Excluded notes (applies from the next message)',
+		showSystemPrompt: 'Show system prompt',
+		hideSystemPrompt: 'Hide system prompt',
+		noSystemPrompt: 'Nothing sent yet',
 		userLabel: 'Me',
 		botLabel: 'Bot',
+		embeddingBackendStatus: 'Semantic search: {backend}',
+		embeddingModelMismatch: 'Embedding model changed - reindex notes to use semantic search',
+		stop: 'Stop',
+		indexStatus: 'Indexing {done}/{total}',
+		indexStatusCancel: 'Click to cancel indexing',
 	},
 
 	commands: {
 		openChat: 'Open Chat',
 		reindexNotes: 'Reindex Notes',
+		searchNotes: 'Search Notes',
+		verifyIndex: 'Verify Index',
+		stopGeneration: 'Stop Generation',
 		ribbonTooltip: 'Open Reflection Chat',
 	},
 
+	search: {
+		title: 'Search Notes',
+		placeholder: 'e.g. job change category:career after:90d -#private',
+		syntaxHelp:
+			'Filters: type:session|entity|goal|report|note, status:active, entity:person,project, category:career, #tag, -#tag, tag:a,b (any), after:/before: YYYY-MM-DD or 90d, path:journal/2025. Press Enter to search.',
+		textRequired: 'Enter some words to search for besides the filters',
+		searching: 'Searching...',
+		noResults: 'No matching notes',
+	},
+
 	settings: {
 		title: 'Reflection Chat Settings',
 		api: {
 			heading: 'API Settings',
+			provider: 'LLM Provider',
+			providerDesc:
+				'OpenRouter, or a self-hosted OpenAI-compatible server (llama.cpp, Ollama, vLLM, etc.)',
+			providerOptions: {
+				openrouter: 'OpenRouter',
+				openaiCompatible: 'OpenAI-compatible (local / self-hosted)',
+			},
 			apiKey: 'OpenRouter API Key',
 			apiKeyDesc: 'Enter your OpenRouter API key',
+			baseUrl: 'Base URL',
+			baseUrlDesc:
+				'Endpoint root including the version path (e.g. http://localhost:11434/v1)',
+			customApiKey: 'API Key (optional)',
+			customApiKeyDesc: 'Sent as a Bearer token if your server requires one',
+			customHeaders: 'Custom Headers',
+			customHeadersDesc: 'Extra HTTP headers, one "Name: value" per line',
 			testConnection: 'Test Connection',
 			chatModel: 'Chat Model',
 			chatModelDesc: 'Model used for conversations',
 			summaryModel: 'Summary Model',
 			summaryModelDesc: 'Model used for session summaries (lightweight model recommended)',
 			embeddingModel: 'Embedding Model',
+			chatFallbackModels: 'Chat Fallback Models',
+			summaryFallbackModels: 'Summary Fallback Models',
+			embeddingFallbackModels: 'Embedding Fallback Models',
+			fallbackModelsDesc:
+				'Tried in order when the model above is rate-limited or unavailable. One model ID per line.',
+			embeddingFallbackModelsDesc:
+				'Tried in order when the embedding model is unavailable. Use models with the same vector space (e.g. the same model from another host); vectors from different models cannot be compared.',
+			embeddingBackend: 'Embedding Backend',
+			embeddingBackendDesc:
+				'Where search vectors are computed. The built-in option works offline. Re-index after changing.',
+			embeddingBackendOptions: {
+				openrouter: 'OpenRouter',
+				openaiCompatible: 'OpenAI-compatible endpoint',
+				local: 'Built-in (offline)',
+			},
+			customEndpoint: 'OpenAI-compatible Endpoint',
 			embeddingModelDesc: 'Embedding model used for semantic search',
 			embeddingModelOptions: {
 				qwen8b: 'Qwen3 Embedding 8B (Recommended)',
@@ -56,6 +120,15 @@ export const en: Translations = {
 			entities: 'Entities Folder',
 			entitiesDesc: 'Folder to save entity notes (people, projects, books, etc.)',
 			entitiesPlaceholder: 'entities',
+			includeFolders: 'Additional Indexed Folders',
+			includeFoldersDesc:
+				'Other folders whose notes are searched and cited as related notes, one per line. Globs such as Areas/* or **/notes work. Run Reindex to apply changes.',
+			excludeFolders: 'Excluded Folders',
+			excludeFoldersDesc:
+				'Folders never indexed, one per line (globs allowed). Also applies inside the session and entities folders. Run Reindex to apply changes.',
+			excludeTags: 'Excluded Tags',
+			excludeTagsDesc:
+				'Notes with any of these tags (or a nested tag under one) are never indexed, one per line, e.g. private. Run Reindex to apply changes.',
 		},
 		context: {
 			heading: 'Context Settings',
@@ -63,6 +136,18 @@ export const en: Translations = {
 			windowDaysDesc: 'How many days of notes to reference',
 			semanticResults: 'Semantic Results',
 			semanticResultsDesc: 'How many semantically similar notes to retrieve',
+			keywordWeight: 'Keyword Weight',
+			keywordWeightDesc:
+				'How much exact keyword matches count against semantic similarity when finding related notes (0 = semantic only, 1 = keywords only). Keywords help with names, project codes and rare terms.',
+			diversity: 'Topic Diversity',
+			diversityDesc:
+				'How strongly to prefer related notes that differ from those already chosen (0 = most similar only). Avoids filling the prompt with near-identical sessions.',
+			recencyHalfLife: 'Recency Half-life (days)',
+			recencyHalfLifeDesc:
+				"Related notes this many days old count half as much as today's (0 = no preference for newer notes)",
+			queryPlanning: 'Plan search queries',
+			queryPlanningDesc:
+				'Before looking up related notes, the summary model drafts up to 3 search queries and the people or projects being discussed. Finds better matches for short replies like "yes, exactly", at the cost of one more API call per message',
 		},
 		prompts: {
 			heading: 'Prompts',
@@ -71,12 +156,31 @@ export const en: Translations = {
 			systemPromptPlaceholder: 'Enter system prompt...',
 			resetDefault: 'Reset to Default',
 		},
+		usage: {
+			heading: 'Usage & Budget',
+			currentMonth: 'This month: ${cost} ({tokens} tokens, estimated)',
+			monthlyBudget: 'Monthly Budget (USD)',
+			monthlyBudgetDesc: 'Estimated spend limit per calendar month. 0 disables the budget.',
+			budgetMode: 'When Exceeded',
+			budgetModeDesc: 'Warn and continue, or block new messages and reports until next month',
+			budgetModes: {
+				warn: 'Warn',
+				block: 'Block',
+			},
+		},
 		other: {
 			heading: 'Other',
 			language: 'Language',
 			languageDesc: 'Language for UI and note output',
 			autoIndex: 'Auto Index',
 			autoIndexDesc: 'Automatically update index when notes are saved',
+			vectorEncoding: 'Vector Storage',
+			vectorEncodingDesc:
+				'How stored vectors are encoded. Compact uses a quarter of the disk space with a negligible effect on search.',
+			vectorEncodings: {
+				float32: 'Full precision (float32)',
+				int8: 'Compact (int8)',
+			},
 			reindex: 'Reindex Notes',
 			reindexDesc: 'Rebuild the index for all notes',
 			reindexButton: 'Reindex',
@@ -92,6 +196,7 @@ export const en: Translations = {
 		apiKeyNotSet: 'Please set your API key',
 		embeddingLoading: 'Loading embedding model...',
 		indexing: 'Indexing notes...',
+		indexProgress: 'Indexing notes... {done}/{total}',
 		indexComplete: 'Indexing complete',
 		indexFailed: 'Indexing failed',
 		connectionSuccess: 'Connection successful!',
@@ -100,13 +205,51 @@ export const en: Translations = {
 		reindexComplete: 'Index rebuild complete',
 		invalidFolderPath:
 			'Invalid folder path. Use a relative path without special characters or "..".',
+		invalidBaseUrl: 'Invalid URL. It must start with http:// or https://',
 		contentTruncated: 'Response was truncated due to length limit',
 		folderConflict: 'Journal and entities folders cannot be the same',
 		indexQueueFull: 'Index queue full - some file updates were skipped',
+		budgetExceeded: 'Monthly budget exceeded: ${spent} of ${budget} used',
+		budgetBlocked:
+			'Monthly budget exceeded (${spent} of ${budget}). Raise the budget in settings to continue.',
+		invalidBudget: 'Budget must be a number of 0 or more',
+		generationStopped: 'Generation stopped',
+		indexCancelled: 'Indexing cancelled. Indexed notes are kept and skipped next time.',
+		indexResuming: 'Resuming interrupted indexing...',
+		verifyUnavailable: 'The index is not ready yet',
+		verifyNeedsReindex:
+			'The embedding model changed, so the index cannot be repaired in place. Run "Reindex Notes" instead.',
+		repairProgress: 'Repairing index... {done}/{total}',
+		repairComplete: 'Index repaired: {repaired} notes ({failed} failed)',
 	},
 
 	dialogs: {
 		clearConfirm: 'Clear current chat and start a new one?',
+		saveDegradedSummary:
+			'The summary could not be structured, so entities, goals and values would not be recorded. Save with a minimal summary anyway?\n\nCancel keeps the chat so you can try saving again.',
+		reindex: {
+			title: 'Embedding model changed',
+			description:
+				'The index holds {count} passages embedded with {stored}, but {current} is now selected. Vectors from different models cannot be compared, so semantic search is paused until the notes are reindexed.',
+			mixedDimensions:
+				'The index holds {count} passages embedded by models with different dimensions. Semantic search is paused until the notes are reindexed.',
+			unknownModel: 'an earlier model ({dimension} dimensions)',
+			reindexNow: 'Reindex now',
+			later: 'Later',
+		},
+		verifyIndex: {
+			title: 'Index check',
+			summary: 'Checked {notes} notes and {items} stored passages.',
+			noIssues: 'The index matches the vault.',
+			orphan: 'Vectors of deleted, renamed or out-of-scope notes',
+			missing: 'Notes not indexed',
+			invalid: 'Vectors that could not be loaded',
+			dimension: 'Vectors of another dimension',
+			stale: 'Notes changed since they were indexed',
+			more: '...and {count} more',
+			repair: 'Repair',
+			close: 'Close',
+		},
 	},
 
 	errors: {
@@ -124,9 +267,11 @@ export const en: Translations = {
 		timeout: 'Request timed out.',
 		unknown: 'An unexpected error occurred.',
 		noApiKey: 'API key is not set.',
+		endpointNotConfigured: 'LLM endpoint is not configured. Please set the base URL.',
 		noResponseBody: 'No response body.',
 		notInitialized: 'Plugin not initialized. Please restart.',
 		summaryFallback: 'Session summary could not be generated.',
+		summaryExtractionFailed: 'The summary model did not return a usable summary.',
 		truncationMarker: '... [response truncated]',
 	},
 
@@ -148,6 +293,7 @@ export const en: Translations = {
 		goals: 'Related Goals',
 		suggestedActions: 'Suggested Actions',
 		nextActions: 'Next Actions',
+		openQuestions: 'Open Questions',
 		progress: 'Progress',
 	},
 
@@ -181,8 +327,17 @@ export const en: Translations = {
 		referenceInfo: 'Reference Information (Past Reflections)',
 		recentReflections: 'Recent Reflections',
 		relatedTopics: 'Related Past Topics',
+		relatedNotes: 'Related Notes',
 		relatedEntities: 'Related People & Projects',
 		relatedGoals: 'Active Goals',
+		earlierMessagesOmitted: '({count} earlier messages of this conversation are not shown.)',
+		followUps: 'Open Items From Past Sessions',
+		followUpsGuide:
+			'When it fits the conversation, ask how one of these went or whether the question has been answered. Bring up one at a time, not the whole list.',
+		followUpAction: 'planned',
+		followUpQuestion: 'open question',
+		today: 'today',
+		daysAgo: '{days} days ago',
 	},
 
 	help: {
@@ -224,6 +379,19 @@ export const en: Translations = {
 		questions: 'Questions to Consider',
 		statisticsSummary: 'Statistics Summary',
 		generatingFeedback: 'Generating coaching feedback...',
+		usage: 'API Usage',
+		promptTokens: 'Prompt tokens',
+		completionTokens: 'Completion tokens',
+		estimatedCost: 'Estimated cost',
+		usagePurposes: {
+			chat: 'Chat',
+			summary: 'Summaries',
+			embedding: 'Context search',
+			indexing: 'Indexing',
+			search: 'Note search',
+			report: 'Report feedback',
+			planning: 'Query planning',
+		},
 	},
 
 	embedding: {
@@ -300,12 +468,10 @@ export const en: Translations = {
 			friendly: 'Use warm, approachable language in a friendly manner.',
 		},
 		strictnessPrompts: {
-			gentle:
-				'Be gentle and supportive, respecting their pace. Avoid criticism and focus on positive feedback.',
+			gentle: 'Be gentle and supportive, respecting their pace. Avoid criticism and focus on positive feedback.',
 			balanced:
 				'Show empathy while also being direct when needed. Balance support with challenge.',
-			strict:
-				'Give direct, candid feedback. Don\'t accept excuses and maintain high standards.',
+			strict: "Give direct, candid feedback. Don't accept excuses and maintain high standards.",
 		},
 		promptTemplate: {
 			header: 'Coach Character',
@@ -521,6 +687,31 @@ Choose one based on the main theme:
 - Only extract goals when clear objectives/targets are mentioned
 - suggestedActions are LLM proposals, nextActions are from user statements`,
 
+		summaryRepair: `Your previous response could not be used as the session summary.
+
+## Problems
+{issues}
+
+Return the complete corrected summary as a single JSON object in the output format above. Output only the JSON, with no explanation or code fences.`,
+
+		queryPlanning: `You help search a reflection journal. Write search queries for the past notes that would help answer the last message of the conversation below.
+
+## Output Format
+Output only a JSON object of this shape:
+{"queries": ["..."], "entities": ["..."]}
+
+- queries: 1 to 3 short searches, each about one topic, in the language of the conversation. Make replies like "yes, exactly" specific by filling in the topic they refer to
+- entities: names of the people, projects, organizations or books the conversation is about, as written in the conversation (empty array if none)
+
+## Conversation
+{conversation}`,
+
+		followUpResolution: `## Items From Earlier Sessions
+Next actions and open questions the user left open in earlier sessions:
+{followUps}
+
+If the user said in this conversation that an item is done, answered, or no longer relevant, put its number in "resolvedFollowUps" (e.g. "resolvedFollowUps": [2]). Don't include items that only came up without being closed, and don't repeat closed items in nextActions or openQuestions.`,
+
 		coachingFeedback: `You are a dedicated personal coach. Analyze the following session data and provide weekly/monthly reflection feedback.
 
 ## Your Role
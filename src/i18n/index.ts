@@ -1,6 +1,7 @@
 import { ja } from './ja';
 import { en } from './en';
 import { logger } from '../utils/logger';
+import type { ContextReason, UsagePurpose } from '../types';
 
 export type Language = 'ja' | 'en';
 
@@ -23,29 +24,81 @@ export interface Translations {
 			decisions: string;
 		};
 		relatedNotes: string;
+		contextReasons: Record<ContextReason, string>;
+		pin: string;
+		unpin: string;
+		excludeFromContext: string;
+		includeInContext: string;
+		excludedNotes: string;
+		showSystemPrompt: string;
+		hideSystemPrompt: string;
+		noSystemPrompt: string;
 		userLabel: string;
 		botLabel: string;
+		embeddingBackendStatus: string;
+		embeddingModelMismatch: string;
+		stop: string;
+		indexStatus: string; // {done}, {total}
+		indexStatusCancel: string;
 	};
 
 	// Commands
 	commands: {
 		openChat: string;
 		reindexNotes: string;
+		searchNotes: string;
+		verifyIndex: string;
+		stopGeneration: string;
 		ribbonTooltip: string;
 	};
 
+	// UI - Note Search
+	search: {
+		title: string;
+		placeholder: string;
+		syntaxHelp: string;
+		textRequired: string;
+		searching: string;
+		noResults: string;
+	};
+
 	// UI - Settings
 	settings: {
 		title: string;
 		api: {
 			heading: string;
+			provider: string;
+			providerDesc: string;
+			providerOptions: {
+				openrouter: string;
+				openaiCompatible: string;
+			};
 			apiKey: string;
 			apiKeyDesc: string;
+			baseUrl: string;
+			baseUrlDesc: string;
+			customApiKey: string;
+			customApiKeyDesc: string;
+			customHeaders: string;
+			customHeadersDesc: string;
 			testConnection: string;
 			chatModel: string;
 			chatModelDesc: string;
 			summaryModel: string;
 			summaryModelDesc: string;
+			chatFallbackModels: string;
+			summaryFallbackModels: string;
+			embeddingFallbackModels: string;
+			fallbackModelsDesc: string;
+			embeddingFallbackModelsDesc: string;
+			embeddingBackend: string;
+			embeddingBackendDesc: string;
+			embeddingBackendOptions: {
+				openrouter: string;
+				openaiCompatible: string;
+				local: string;
+			};
+			customEndpoint: string;
 			embeddingModel: string;
 			embeddingModelDesc: string;
 			embeddingModelOptions: {
@@ -63,6 +116,12 @@ export interface Translations {
 			entities: string;
 			entitiesDesc: string;
 			entitiesPlaceholder: string;
+			includeFolders: string;
+			includeFoldersDesc: string;
+			excludeFolders: string;
+			excludeFoldersDesc: string;
+			excludeTags: string;
+			excludeTagsDesc: string;
 		};
 		context: {
 			heading: string;
@@ -70,6 +129,14 @@ export interface Translations {
 			windowDaysDesc: string;
 			semanticResults: string;
 			semanticResultsDesc: string;
+			keywordWeight: string;
+			keywordWeightDesc: string;
+			diversity: string;
+			diversityDesc: string;
+			recencyHalfLife: string;
+			recencyHalfLifeDesc: string;
+			queryPlanning: string;
+			queryPlanningDesc: string;
 		};
 		prompts: {
 			heading: string;
@@ -78,12 +145,30 @@ export interface Translations {
 			systemPromptPlaceholder: string;
 			resetDefault: string;
 		};
+		usage: {
+			heading: string;
+			currentMonth: string;
+			monthlyBudget: string;
+			monthlyBudgetDesc: string;
+			budgetMode: string;
+			budgetModeDesc: string;
+			budgetModes: {
+				warn: string;
+				block: string;
+			};
+		};
 		other: {
 			heading: string;
 			language: string;
 			languageDesc: string;
 			autoIndex: string;
 			autoIndexDesc: string;
+			vectorEncoding: string;
+			vectorEncodingDesc: string;
+			vectorEncodings: {
+				float32: string;
+				int8: string;
+			};
 			reindex: string;
 			reindexDesc: string;
 			reindexButton: string;
@@ -100,6 +185,7 @@ export interface Translations {
 		apiKeyNotSet: string;
 		embeddingLoading: string;
 		indexing: string;
+		indexProgress: string;
 		indexComplete: string;
 		indexFailed: string;
 		connectionSuccess: string;
@@ -107,14 +193,47 @@ export interface Translations {
 		reindexing: string;
 		reindexComplete: string;
 		invalidFolderPath: string;
+		invalidBaseUrl: string;
 		contentTruncated: string;
 		folderConflict: string;
 		indexQueueFull: string;
+		budgetExceeded: string;
+		budgetBlocked: string;
+		invalidBudget: string;
+		generationStopped: string;
+		indexCancelled: string;
+		indexResuming: string;
+		verifyUnavailable: string;
+		verifyNeedsReindex: string;
+		repairProgress: string; // {done}, {total}
+		repairComplete: string; // {repaired}, {failed}
 	};
 
 	// Dialogs
 	dialogs: {
 		clearConfirm: string;
+		saveDegradedSummary: string;
+		reindex: {
+			title: string;
+			description: string; // {stored}, {current}, {count}
+			mixedDimensions: string; // {count}
+			unknownModel: string; // {dimension}
+			reindexNow: string;
+			later: string;
+		};
+		verifyIndex: {
+			title: string;
+			summary: string; // {notes}, {items}
+			noIssues: string;
+			orphan: string;
+			missing: string;
+			invalid: string;
+			dimension: string;
+			stale: string;
+			more: string; // {count}
+			repair: string;
+			close: string;
+		};
 	};
 
 	// Errors
@@ -133,9 +252,11 @@ export interface Translations {
 		timeout: string;
 		unknown: string;
 		noApiKey: string;
+		endpointNotConfigured: string;
 		noResponseBody: string;
 		notInitialized: string;
 		summaryFallback: string;
+		summaryExtractionFailed: string;
 		truncationMarker: string;
 	};
 
@@ -158,6 +279,7 @@ export interface Translations {
 		goals: string;
 		suggestedActions: string;
 		nextActions: string;
+		openQuestions: string;
 		progress: string;
 	};
 
@@ -193,8 +315,16 @@ export interface Translations {
 		referenceInfo: string;
 		recentReflections: string;
 		relatedTopics: string;
+		relatedNotes: string;
 		relatedEntities: string;
 		relatedGoals: string;
+		earlierMessagesOmitted: string;
+		followUps: string;
+		followUpsGuide: string;
+		followUpAction: string;
+		followUpQuestion: string;
+		today: string;
+		daysAgo: string;
 	};
 
 	// Help
@@ -238,6 +368,11 @@ export interface Translations {
 		questions: string;
 		statisticsSummary: string;
 		generatingFeedback: string;
+		usage: string;
+		promptTokens: string;
+		completionTokens: string;
+		estimatedCost: string;
+		usagePurposes: Record<UsagePurpose, string>;
 	};
 
 	// Embedding
@@ -309,6 +444,9 @@ export interface Translations {
 	prompts: {
 		system: string;
 		summary: string;
+		summaryRepair: string;
+		queryPlanning: string;
+		followUpResolution: string;
 		coachingFeedback: string;
 	};
 }
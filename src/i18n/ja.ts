@@ -18,28 +18,92 @@ export const ja: Translations = {
 			decisions: '悩んでいる決断について',
 		},
 		relatedNotes: '関連する過去',
+		contextReasons: {
+			recent: '最近',
+			semantic: '類似',
+			entity: 'エンティティ',
+			goal: 'ゴール',
+			followUp: 'フォローアップ',
+			pinned: '固定',
+		},
+		pin: 'このセッションの間、常に参照する',
+		unpin: '固定を解除',
+		excludeFromContext: 'このセッションでは参照しない',
+		includeInContext: '再び参照する',
+		excludedNotes: '参照しないノート（次のメッセージから反映）',
+		showSystemPrompt: 'システムプロンプトを表示',
+		hideSystemPrompt: 'システムプロンプトを隠す',
+		noSystemPrompt: 'まだ送信されていません',
 		userLabel: '自分',
 		botLabel: 'Bot',
+		embeddingBackendStatus: 'セマンティック検索: {backend}',
+		embeddingModelMismatch:
+			'埋め込みモデルが変更されました - ノートを再インデックスしてください',
+		stop: '停止',
+		indexStatus: 'インデックス中 {done}/{total}',
+		indexStatusCancel: 'クリックでインデックスを中止',
 	},
 
 	commands: {
 		openChat: 'チャットを開く',
 		reindexNotes: 'ノートを再インデックス',
+		searchNotes: 'ノートを検索',
+		verifyIndex: 'インデックスを検証',
+		stopGeneration: '生成を停止',
 		ribbonTooltip: 'リフレクションチャットを開く',
 	},
 
+	search: {
+		title: 'ノートを検索',
+		placeholder: '例: 転職 category:career after:90d -#private',
+		syntaxHelp:
+			'フィルター: type:session|entity|goal|report|note、status:active、entity:person,project、category:career、#タグ、-#タグ、tag:a,b（いずれか）、after:/before: YYYY-MM-DD または 90d、path:journal/2025。Enterで検索します。',
+		textRequired: 'フィルター以外に検索する語句を入力してください',
+		searching: '検索中...',
+		noResults: '一致するノートはありません',
+	},
+
 	settings: {
 		title: 'Reflection Chat 設定',
 		api: {
 			heading: 'API設定',
+			provider: 'LLMプロバイダー',
+			providerDesc:
+				'OpenRouter、またはセルフホストのOpenAI互換サーバー（llama.cpp、Ollama、vLLMなど）',
+			providerOptions: {
+				openrouter: 'OpenRouter',
+				openaiCompatible: 'OpenAI互換（ローカル / セルフホスト）',
+			},
 			apiKey: 'OpenRouter API Key',
 			apiKeyDesc: 'OpenRouterのAPIキーを入力してください',
+			baseUrl: 'ベースURL',
+			baseUrlDesc: 'バージョンパスを含むエンドポイント（例: http://localhost:11434/v1）',
+			customApiKey: 'APIキー（任意）',
+			customApiKeyDesc: 'サーバーが必要とする場合にBearerトークンとして送信されます',
+			customHeaders: 'カスタムヘッダー',
+			customHeadersDesc: '追加のHTTPヘッダー（1行に「Name: value」形式で1つ）',
 			testConnection: 'テスト接続',
 			chatModel: '対話モデル',
 			chatModelDesc: 'チャットに使用するモデル',
 			summaryModel: '要約モデル',
 			summaryModelDesc: 'セッション要約に使用するモデル（軽量なモデル推奨）',
 			embeddingModel: '埋め込みモデル',
+			chatFallbackModels: '対話モデルのフォールバック',
+			summaryFallbackModels: '要約モデルのフォールバック',
+			embeddingFallbackModels: '埋め込みモデルのフォールバック',
+			fallbackModelsDesc:
+				'上のモデルがレート制限や障害で使えないときに順番に試すモデル（1行に1つのモデルID）',
+			embeddingFallbackModelsDesc:
+				'埋め込みモデルが使えないときに順番に試すモデル。同じベクトル空間のモデル（別ホストの同一モデルなど）を指定してください。異なるモデルのベクトルは比較できません。',
+			embeddingBackend: '埋め込みバックエンド',
+			embeddingBackendDesc:
+				'検索用ベクトルの計算方法。内蔵はオフラインで動作します。変更後は再インデックスしてください。',
+			embeddingBackendOptions: {
+				openrouter: 'OpenRouter',
+				openaiCompatible: 'OpenAI互換エンドポイント',
+				local: '内蔵（オフライン）',
+			},
+			customEndpoint: 'OpenAI互換エンドポイント',
 			embeddingModelDesc: 'セマンティック検索に使用する埋め込みモデル',
 			embeddingModelOptions: {
 				qwen8b: 'Qwen3 Embedding 8B (推奨)',
@@ -56,6 +120,15 @@ export const ja: Translations = {
 			entities: 'エンティティ保存先',
 			entitiesDesc: '人物・プロジェクト・書籍などのエンティティノートを保存するフォルダ',
 			entitiesPlaceholder: 'entities',
+			includeFolders: '追加でインデックスするフォルダ',
+			includeFoldersDesc:
+				'検索対象に加え、関連ノートとして引用するフォルダ（1行に1つ）。Areas/* や **/notes のようなglobも使えます。変更は再インデックスで反映されます。',
+			excludeFolders: '除外するフォルダ',
+			excludeFoldersDesc:
+				'インデックスしないフォルダ（1行に1つ、glob可）。セッション・エンティティフォルダ内にも適用されます。変更は再インデックスで反映されます。',
+			excludeTags: '除外するタグ',
+			excludeTagsDesc:
+				'これらのタグ（またはその下の階層タグ）が付いたノートはインデックスしません（1行に1つ、例: private）。変更は再インデックスで反映されます。',
 		},
 		context: {
 			heading: '文脈設定',
@@ -63,6 +136,18 @@ export const ja: Translations = {
 			windowDaysDesc: '直近の何日分のノートを参照するか',
 			semanticResults: '類似検索件数',
 			semanticResultsDesc: '意味的に類似したノートを何件取得するか',
+			keywordWeight: 'キーワードの重み',
+			keywordWeightDesc:
+				'関連ノートの検索で、キーワード一致を意味的な類似度に対してどれだけ重視するか（0 = 意味のみ、1 = キーワードのみ）。人名・プロジェクトコード・珍しい語句に有効です。',
+			diversity: '話題の多様性',
+			diversityDesc:
+				'関連ノートを選ぶ際、すでに選んだノートと異なる内容をどれだけ優先するか（0 = 類似度順のみ）。似たセッションばかりが並ぶのを防ぎます。',
+			recencyHalfLife: '新しさの半減期（日）',
+			recencyHalfLifeDesc:
+				'この日数だけ前の関連ノートは、今日のノートの半分の重みになります（0 = 新しさを考慮しない）',
+			queryPlanning: '検索クエリを生成',
+			queryPlanningDesc:
+				'関連ノートを探す前に、要約モデルが会話から検索クエリ（最大3つ）と話題の人物・プロジェクト名を作ります。「そうそう」のような短い返答でも的確に検索できますが、メッセージごとにAPI呼び出しが1回増えます',
 		},
 		prompts: {
 			heading: 'プロンプト',
@@ -71,12 +156,32 @@ export const ja: Translations = {
 			systemPromptPlaceholder: 'システムプロンプトを入力...',
 			resetDefault: 'デフォルトに戻す',
 		},
+		usage: {
+			heading: '使用量と予算',
+			currentMonth: '今月: ${cost}（{tokens}トークン、推定）',
+			monthlyBudget: '月間予算（USD）',
+			monthlyBudgetDesc: '1か月あたりの推定利用額の上限。0で無効になります。',
+			budgetMode: '超過時の動作',
+			budgetModeDesc:
+				'警告のみ表示して続行するか、翌月まで新しいメッセージとレポートをブロックするか',
+			budgetModes: {
+				warn: '警告',
+				block: 'ブロック',
+			},
+		},
 		other: {
 			heading: 'その他',
 			language: '言語',
 			languageDesc: 'UIとノート出力の言語',
 			autoIndex: '自動インデックス',
 			autoIndexDesc: 'ノート保存時に自動でインデックスを更新する',
+			vectorEncoding: 'ベクトルの保存形式',
+			vectorEncodingDesc:
+				'保存するベクトルの形式。コンパクトはディスク使用量が4分の1になり、検索への影響はわずかです',
+			vectorEncodings: {
+				float32: '高精度（float32）',
+				int8: 'コンパクト（int8）',
+			},
 			reindex: 'ノートを再インデックス',
 			reindexDesc: 'すべてのノートのインデックスを再構築します',
 			reindexButton: '再インデックス',
@@ -92,6 +197,7 @@ export const ja: Translations = {
 		apiKeyNotSet: 'APIキーを設定してください',
 		embeddingLoading: '埋め込みモデルを読み込み中...',
 		indexing: 'ノートをインデックス中...',
+		indexProgress: 'ノートをインデックス中... {done}/{total}',
 		indexComplete: 'インデックス完了',
 		indexFailed: 'インデックスに失敗しました',
 		connectionSuccess: '接続成功！',
@@ -100,14 +206,53 @@ export const ja: Translations = {
 		reindexComplete: 'インデックスの再構築が完了しました',
 		invalidFolderPath:
 			'無効なフォルダパスです。相対パスを使用し、特殊文字や「..」を含めないでください。',
+		invalidBaseUrl: '無効なURLです。http:// または https:// で始まる必要があります',
 		contentTruncated: '応答は長さ制限のため切り詰められました',
 		folderConflict: 'セッションとエンティティのフォルダを同じにすることはできません',
 		indexQueueFull:
 			'インデックス待ちキューが満杯のため、一部のファイル更新がスキップされました',
+		budgetExceeded: '月間予算を超過しました: ${budget}中${spent}使用',
+		budgetBlocked:
+			'月間予算を超過しました（${budget}中${spent}使用）。続けるには設定で予算を引き上げてください。',
+		invalidBudget: '予算は0以上の数値で入力してください',
+		generationStopped: '生成を停止しました',
+		indexCancelled:
+			'インデックスを中止しました。完了したノートは保持され、次回はスキップされます。',
+		indexResuming: '中断されたインデックスを再開しています...',
+		verifyUnavailable: 'インデックスの準備ができていません',
+		verifyNeedsReindex:
+			'埋め込みモデルが変更されたため、インデックスを修復できません。「ノートを再インデックス」を実行してください。',
+		repairProgress: 'インデックスを修復中... {done}/{total}',
+		repairComplete: 'インデックスを修復しました: {repaired} 件（失敗 {failed} 件）',
 	},
 
 	dialogs: {
 		clearConfirm: '現在のチャットをクリアして新しいチャットを開始しますか？',
+		saveDegradedSummary:
+			'要約を構造化できなかったため、エンティティ・目標・価値観は記録されません。最小限の要約で保存しますか？\n\nキャンセルするとチャットを残したまま、もう一度保存を試せます。',
+		reindex: {
+			title: '埋め込みモデルが変更されました',
+			description:
+				'インデックスには {stored} で埋め込んだ {count} 件のパッセージがありますが、現在は {current} が選択されています。異なるモデルのベクトルは比較できないため、再インデックスするまでセマンティック検索を停止します。',
+			mixedDimensions:
+				'インデックスに次元数の異なるモデルで埋め込んだ {count} 件のパッセージが混在しています。再インデックスするまでセマンティック検索を停止します。',
+			unknownModel: '以前のモデル（{dimension}次元）',
+			reindexNow: '今すぐ再インデックス',
+			later: 'あとで',
+		},
+		verifyIndex: {
+			title: 'インデックスの検証',
+			summary: '{notes} 件のノートと {items} 件のパッセージを確認しました。',
+			noIssues: 'インデックスはVaultと一致しています。',
+			orphan: '削除・移動されたノートや対象外のノートのベクトル',
+			missing: 'インデックスされていないノート',
+			invalid: '読み込めなかったベクトル',
+			dimension: '次元数の異なるベクトル',
+			stale: 'インデックス後に変更されたノート',
+			more: '...ほか {count} 件',
+			repair: '修復',
+			close: '閉じる',
+		},
 	},
 
 	errors: {
@@ -125,9 +270,12 @@ export const ja: Translations = {
 		timeout: 'リクエストがタイムアウトしました。',
 		unknown: '予期しないエラーが発生しました。',
 		noApiKey: 'APIキーが設定されていません。',
+		endpointNotConfigured:
+			'LLMエンドポイントが設定されていません。ベースURLを設定してください。',
 		noResponseBody: 'レスポンスボディがありません。',
 		notInitialized: 'プラグインが初期化されていません。再起動してください。',
 		summaryFallback: 'セッションの要約を生成できませんでした。',
+		summaryExtractionFailed: '要約モデルから有効な要約が得られませんでした。',
 		truncationMarker: '... [レスポンスが切り詰められました]',
 	},
 
@@ -149,6 +297,7 @@ export const ja: Translations = {
 		goals: '関連するゴール',
 		suggestedActions: 'おすすめのアクション',
 		nextActions: '次のアクション',
+		openQuestions: '未解決の問い',
 		progress: '進捗',
 	},
 
@@ -182,8 +331,17 @@ export const ja: Translations = {
 		referenceInfo: '参考情報（過去の振り返り）',
 		recentReflections: '直近の振り返り',
 		relatedTopics: '関連する過去の話題',
+		relatedNotes: '関連するノート',
 		relatedEntities: '関連する人物・プロジェクト',
 		relatedGoals: 'アクティブなゴール',
+		earlierMessagesOmitted: '（この会話の最初の{count}件のメッセージは省略されています）',
+		followUps: '過去のセッションで残っていること',
+		followUpsGuide:
+			'会話の流れに合うときは、これらがその後どうなったか、問いに答えが出たかを尋ねてください。一度にすべてではなく、1つずつ話題にしてください。',
+		followUpAction: '予定',
+		followUpQuestion: '未解決の問い',
+		today: '今日',
+		daysAgo: '{days}日前',
 	},
 
 	help: {
@@ -225,6 +383,19 @@ export const ja: Translations = {
 		questions: '問いかけ',
 		statisticsSummary: '統計サマリー',
 		generatingFeedback: 'コーチングフィードバックを生成中...',
+		usage: 'API使用量',
+		promptTokens: '入力トークン',
+		completionTokens: '出力トークン',
+		estimatedCost: '推定コスト',
+		usagePurposes: {
+			chat: 'チャット',
+			summary: '要約',
+			embedding: 'コンテキスト検索',
+			indexing: 'インデックス作成',
+			search: 'ノート検索',
+			report: 'レポートのフィードバック',
+			planning: '検索クエリの計画',
+		},
 	},
 
 	embedding: {
@@ -303,7 +474,8 @@ export const ja: Translations = {
 		},
 		strictnessPrompts: {
 			gentle: '優しく寄り添い、相手のペースを尊重する。批判は避け、肯定的なフィードバックを心がける。',
-			balanced: '共感しつつも、必要に応じて率直な意見を伝える。サポートとチャレンジのバランスを取る。',
+			balanced:
+				'共感しつつも、必要に応じて率直な意見を伝える。サポートとチャレンジのバランスを取る。',
 			strict: '直接的で率直なフィードバックを与える。言い訳を許さず、高い基準を求める。',
 		},
 		promptTemplate: {
@@ -520,6 +692,31 @@ export const ja: Translations = {
 - goalsは明確な目標・ゴールが言及された場合のみ抽出
 - suggestedActionsはLLMの提案、nextActionsはユーザーの発言から抽出`,
 
+		summaryRepair: `前回の回答はセッションの要約として使用できませんでした。
+
+## 問題点
+{issues}
+
+上記の出力形式に従い、修正した要約全体を1つのJSONオブジェクトとして返してください。説明やコードブロックは付けず、JSONのみを出力してください。`,
+
+		queryPlanning: `あなたは振り返りジャーナルの検索を手伝います。以下の会話の最後のメッセージに答えるために参照すべき過去のノートを探す、検索クエリを作ってください。
+
+## 出力形式
+次の形のJSONオブジェクトのみを出力してください:
+{"queries": ["..."], "entities": ["..."]}
+
+- queries: 1〜3個。それぞれ1つの話題に絞った短い検索文（会話で使われている言語で）。「はい」「そうです」のような返答は、直前の話題を補って具体的にする
+- entities: 会話の中心になっている人物・プロジェクト・組織・書籍の名前（会話中の表記のまま、なければ空配列）
+
+## 会話
+{conversation}`,
+
+		followUpResolution: `## 以前のセッションから残っている項目
+ユーザーが以前のセッションで残した次のアクションと未解決の問い:
+{followUps}
+
+この会話の中でユーザーが、ある項目を済ませた・答えが出た・もう必要ないと話した場合は、その番号を "resolvedFollowUps" に入れてください（例: "resolvedFollowUps": [2]）。話題に出ただけで片付いていない項目は含めないでください。片付いた項目をnextActionsやopenQuestionsに繰り返さないでください。`,
+
 		coachingFeedback: `あなたは専属のパーソナルコーチです。以下のセッションデータを分析し、週次/月次の振り返りフィードバックを提供してください。
 
 ## あなたの役割
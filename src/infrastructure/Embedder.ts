@@ -1,68 +1,106 @@
+import type { EmbeddingBackendType, UsagePurpose } from '../types';
+import type { EmbeddingBackend } from './EmbeddingBackend';
 import { getTranslations } from '../i18n';
+import { isAbortError, isTransientApiError, throwIfAborted, withRetry } from '../utils/errors';
 import { logger } from '../utils/logger';
 
 /**
- * Embedder using OpenRouter's embedding API
- * Avoids Transformers.js compatibility issues with Obsidian's CommonJS environment
+ * Embedder front-end: input validation, task prefixes and truncation
+ * The actual vectors come from a pluggable EmbeddingBackend (remote API or local)
  */
 export class Embedder {
-	private apiKey: string;
-	private model: string;
+	private backend: EmbeddingBackend;
 	private initialized = false;
 
-	constructor(apiKey: string, model: string) {
-		this.apiKey = apiKey;
-		this.model = model;
+	constructor(backend: EmbeddingBackend) {
+		this.backend = backend;
 	}
 
-	setApiKey(apiKey: string): void {
-		if (this.apiKey !== apiKey) {
-			this.apiKey = apiKey;
-			// Reset initialized flag to require re-validation
-			this.initialized = false;
-		}
+	/**
+	 * Swap the embedding backend (e.g. after settings change)
+	 * Vectors from different backends are not comparable, so callers should reindex
+	 */
+	setBackend(backend: EmbeddingBackend): void {
+		this.backend = backend;
+		// Reset initialized flag to require re-validation
+		this.initialized = false;
 	}
 
-	setModel(model: string): void {
-		if (this.model !== model) {
-			this.model = model;
-			// Model change doesn't require re-initialization
-			// as the new model will be used on next embed call
-		}
+	getBackendType(): EmbeddingBackendType {
+		return this.backend.type;
+	}
+
+	/**
+	 * Model identifier actually producing the vectors
+	 */
+	getModel(): string {
+		return this.backend.model;
 	}
 
-	private static readonly MIN_API_KEY_LENGTH = 20;
+	/**
+	 * Model whose vector space the stored vectors must share (see VectorStore.isCompatibleWith)
+	 * Fallback models are expected to share it, so failover does not change the id.
+	 */
+	getModelId(): string {
+		return this.backend.configuredModel;
+	}
+
+	/**
+	 * Everything besides the note text that determines a document vector
+	 * Part of the content hash, so switching backend, model or prefix language re-embeds.
+	 * Uses the configured model: a failover to a fallback model must not re-embed the vault.
+	 */
+	getDocumentFingerprint(): string {
+		const prefix = this.backend.usesTaskPrefixes
+			? getTranslations().embedding.documentPrefix
+			: '';
+		return `${this.backend.type}\u0000${this.backend.configuredModel}\u0000${prefix}`;
+	}
 
 	async initialize(): Promise<void> {
-		if (!this.apiKey) {
-			throw new Error('OpenRouter API key not set');
-		}
-		if (this.apiKey.length < Embedder.MIN_API_KEY_LENGTH) {
-			throw new Error('OpenRouter API key appears invalid (too short)');
+		if (!this.backend.isConfigured()) {
+			throw new Error(`Embedding backend not configured: ${this.backend.type}`);
 		}
 		this.initialized = true;
-		logger.info(`Embedder initialized with model: ${this.model}`);
+		logger.info(
+			`Embedder initialized with ${this.backend.type} backend: ${this.backend.model}`
+		);
 	}
 
-	async embedQuery(text: string): Promise<number[]> {
+	/**
+	 * @param signal - Cancels the request; rejects with an AbortError
+	 * @param purpose - Usage purpose; a conversation's query unless given
+	 */
+	async embedQuery(
+		text: string,
+		signal?: AbortSignal,
+		purpose: UsagePurpose = 'embedding'
+	): Promise<number[]> {
 		const t = getTranslations();
 		// Add query prefix for better retrieval
-		const prefixedText = `${t.embedding.queryPrefix}${text}`;
-		return this.embed(prefixedText);
+		const prefixedText = this.backend.usesTaskPrefixes
+			? `${t.embedding.queryPrefix}${text}`
+			: text;
+		return this.embed(prefixedText, signal, purpose);
 	}
 
-	async embedDocument(text: string): Promise<number[]> {
+	async embedDocument(text: string, signal?: AbortSignal): Promise<number[]> {
 		const t = getTranslations();
 		// Add document prefix
-		const prefixedText = `${t.embedding.documentPrefix}${text}`;
-		return this.embed(prefixedText);
+		const prefixedText = this.backend.usesTaskPrefixes
+			? `${t.embedding.documentPrefix}${text}`
+			: text;
+		return this.embed(prefixedText, signal, 'indexing');
 	}
 
-	private static readonly EMBEDDING_TIMEOUT_MS = 30000;
 	private static readonly MAX_EMBEDDING_CHARS = 8000;
 	private static readonly MIN_EMBEDDING_CHARS = 1;
 
-	private async embed(text: string): Promise<number[]> {
+	private async embed(
+		text: string,
+		signal: AbortSignal | undefined,
+		purpose: UsagePurpose
+	): Promise<number[]> {
 		// Input validation
 		if (typeof text !== 'string') {
 			throw new Error('Embedding input must be a string');
@@ -73,137 +111,131 @@ export class Embedder {
 			throw new Error('Embedding input is too short or empty');
 		}
 
-		// Capture API key at start to ensure consistent use throughout the method
-		// This prevents issues if setApiKey() is called during an embed operation
-		const apiKey = this.apiKey;
-		if (!apiKey) {
-			throw new Error('OpenRouter API key not set');
-		}
+		// Capture backend at start to ensure consistent use throughout the method
+		// This prevents issues if setBackend() is called during an embed operation
+		const backend = this.backend;
 
-		// Ensure embedder is initialized (may have been reset by setApiKey)
+		// Ensure embedder is initialized (may have been reset by setBackend)
 		if (!this.initialized) {
 			await this.initialize();
 		}
 
-		// Re-check API key after async initialize() in case it changed
-		if (this.apiKey !== apiKey) {
-			throw new Error('API key changed during embed operation, please retry');
+		// Truncate text if too long (using safe truncation to avoid splitting multi-byte chars)
+		let truncatedText = text;
+		if (text.length > Embedder.MAX_EMBEDDING_CHARS) {
+			truncatedText = this.safeTruncate(text, Embedder.MAX_EMBEDDING_CHARS);
+			logger.warn(
+				`Text truncated for embedding: ${text.length} → ${truncatedText.length} chars`
+			);
 		}
 
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), Embedder.EMBEDDING_TIMEOUT_MS);
-
-		try {
-			// Truncate text if too long (using safe truncation to avoid splitting multi-byte chars)
-			let truncatedText = text;
-			if (text.length > Embedder.MAX_EMBEDDING_CHARS) {
-				truncatedText = this.safeTruncate(text, Embedder.MAX_EMBEDDING_CHARS);
-				logger.warn(
-					`Text truncated for embedding: ${text.length} → ${truncatedText.length} chars`
-				);
-			}
-
-			const response = await fetch('https://openrouter.ai/api/v1/embeddings', {
-				method: 'POST',
-				headers: {
-					Authorization: `Bearer ${apiKey}`,
-					'Content-Type': 'application/json',
-					'HTTP-Referer': 'https://github.com/anthropics/obsidian-reflection-chat',
-					'X-Title': 'Reflection Chat',
-				},
-				body: JSON.stringify({
-					model: this.model,
-					input: truncatedText,
-				}),
-				signal: controller.signal,
-			});
-
-			if (!response.ok) {
-				// Parse error safely without exposing sensitive data
-				let errorMessage = `HTTP ${response.status}`;
-				try {
-					const errorBody = await response.json();
-					// Only extract safe error fields - redact BEFORE truncating to avoid partial key leak
-					if (errorBody.error?.message) {
-						const redacted = this.redactSecrets(String(errorBody.error.message));
-						errorMessage = redacted.slice(0, 200);
-					} else if (errorBody.message) {
-						const redacted = this.redactSecrets(String(errorBody.message));
-						errorMessage = redacted.slice(0, 200);
-					}
-				} catch {
-					// If JSON parsing fails, use status text only
-					errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-				}
-				throw new Error(`Embedding API error: ${errorMessage}`);
-			}
-
-			const data = await response.json();
-
-			if (!data.data || !data.data[0] || !data.data[0].embedding) {
-				throw new Error('Invalid embedding response');
-			}
+		const [vector] = await backend.embed([truncatedText], signal, purpose);
 
-			return data.data[0].embedding;
-		} catch (error) {
-			if (error instanceof Error && error.name === 'AbortError') {
-				throw new Error('Embedding request timed out');
-			}
-			logger.error('Embedding error:', error instanceof Error ? error : undefined);
-			throw error;
-		} finally {
-			clearTimeout(timeoutId);
+		// Re-check backend after the async call in case it was swapped
+		if (this.backend !== backend) {
+			throw new Error('Embedding backend changed during embed operation, please retry');
 		}
-	}
 
-	private static readonly CONCURRENCY_LIMIT = 5;
+		return vector;
+	}
 
-	/**
-	 * Result of a batch embedding operation for a single item
-	 */
-	public static readonly BatchResultStatus = {
-		SUCCESS: 'success',
-		FAILED: 'failed',
-	} as const;
+	// Batch sizing: stay well under typical request size and per-call input limits
+	private static readonly MAX_BATCH_CHARS = 40000;
+	private static readonly MAX_BATCH_ITEMS = 64;
 
 	/**
-	 * Batch embed multiple texts with controlled concurrency
-	 * Uses parallel processing with a concurrency limit to balance speed and rate limiting
-	 * Uses Promise.allSettled to handle individual failures gracefully
+	 * Embed many texts with as few API calls as possible (array input)
+	 * Batches are sized by a character budget; a failed batch is split in half and
+	 * retried so one bad input only costs its own vector, not the whole batch.
 	 *
 	 * @param texts - Array of texts to embed
-	 * @param isQuery - Whether to use query prefix (for search) or document prefix
-	 * @returns Object containing embeddings array and failure count for monitoring
+	 * @param options.isQuery - Whether to use query prefix (for search) or document prefix;
+	 *   document batches are reported as indexing usage
+	 * @param options.signal - Cancels remaining batches; rejects with an AbortError
+	 * @param options.onProgress - Called after each batch with completed/total counts
+	 * @returns Embeddings in input order (null for failed items) and the failure count
 	 */
-	async batchEmbed(
+	async embedBatch(
 		texts: string[],
-		isQuery = false
+		options: {
+			isQuery?: boolean;
+			signal?: AbortSignal;
+			onProgress?: (completed: number, total: number) => void;
+		} = {}
 	): Promise<{ embeddings: (number[] | null)[]; failureCount: number }> {
+		const t = getTranslations();
 		const embeddings: (number[] | null)[] = new Array(texts.length).fill(null);
 		let failureCount = 0;
+		let completed = 0;
 
-		// Process in batches with concurrency limit
-		for (let i = 0; i < texts.length; i += Embedder.CONCURRENCY_LIMIT) {
-			const batch = texts.slice(i, i + Embedder.CONCURRENCY_LIMIT);
-			const batchPromises = batch.map((text) =>
-				isQuery ? this.embedQuery(text) : this.embedDocument(text)
-			);
-
-			const batchResults = await Promise.allSettled(batchPromises);
-
-			for (let j = 0; j < batchResults.length; j++) {
-				const result = batchResults[j];
-				if (result.status === 'fulfilled') {
-					embeddings[i + j] = result.value;
-				} else {
-					logger.error(
-						`Embedding failed for text ${i + j}:`,
-						result.reason instanceof Error ? result.reason : undefined
-					);
-					embeddings[i + j] = null;
-					failureCount++;
+		if (!this.initialized) {
+			await this.initialize();
+		}
+		const backend = this.backend;
+		const purpose: UsagePurpose = options.isQuery ? 'embedding' : 'indexing';
+
+		// Prefix and truncate up front; empty inputs fail without an API call
+		const prefix = backend.usesTaskPrefixes
+			? options.isQuery
+				? t.embedding.queryPrefix
+				: t.embedding.documentPrefix
+			: '';
+		const inputs: { index: number; text: string }[] = [];
+		texts.forEach((text, index) => {
+			if (typeof text !== 'string' || text.trim().length < Embedder.MIN_EMBEDDING_CHARS) {
+				failureCount++;
+				completed++;
+				return;
+			}
+			inputs.push({
+				index,
+				text: this.safeTruncate(`${prefix}${text}`, Embedder.MAX_EMBEDDING_CHARS),
+			});
+		});
+
+		const embedGroup = async (group: { index: number; text: string }[]): Promise<void> => {
+			throwIfAborted(options.signal);
+			try {
+				const vectors = await withRetry(
+					() =>
+						backend.embed(
+							group.map((input) => input.text),
+							options.signal,
+							purpose
+						),
+					{ maxRetries: 2, delayMs: 1000, shouldRetry: isTransientApiError }
+				);
+				group.forEach((input, i) => {
+					embeddings[input.index] = vectors[i];
+				});
+			} catch (error) {
+				if (isAbortError(error)) throw error;
+				// Rate limits and outages hit every input alike; splitting would only add calls
+				if (group.length > 1 && !isTransientApiError(error)) {
+					// Isolate the failing input(s)
+					const middle = Math.ceil(group.length / 2);
+					await embedGroup(group.slice(0, middle));
+					await embedGroup(group.slice(middle));
+					return;
 				}
+				logger.error(
+					`Embedding failed for ${group.length} text(s) starting at ${group[0].index}:`,
+					error instanceof Error ? error : undefined
+				);
+				failureCount += group.length;
 			}
+		};
+
+		for (const batch of this.planBatches(inputs)) {
+			await embedGroup(batch);
+
+			// Vectors from a swapped backend would be mixed into this result
+			if (this.backend !== backend) {
+				throw new Error('Embedding backend changed during embed operation, please retry');
+			}
+
+			completed += batch.length;
+			options.onProgress?.(completed, texts.length);
 		}
 
 		// Log summary if there were failures
@@ -214,8 +246,36 @@ export class Embedder {
 		return { embeddings, failureCount };
 	}
 
+	/**
+	 * Group inputs into batches bounded by MAX_BATCH_CHARS and MAX_BATCH_ITEMS
+	 */
+	private planBatches<T extends { text: string }>(inputs: T[]): T[][] {
+		const batches: T[][] = [];
+		let current: T[] = [];
+		let currentChars = 0;
+
+		for (const input of inputs) {
+			const overBudget =
+				current.length > 0 &&
+				(currentChars + input.text.length > Embedder.MAX_BATCH_CHARS ||
+					current.length >= Embedder.MAX_BATCH_ITEMS);
+			if (overBudget) {
+				batches.push(current);
+				current = [];
+				currentChars = 0;
+			}
+			current.push(input);
+			currentChars += input.text.length;
+		}
+		if (current.length > 0) {
+			batches.push(current);
+		}
+
+		return batches;
+	}
+
 	isReady(): boolean {
-		return this.initialized && !!this.apiKey;
+		return this.initialized && this.backend.isConfigured();
 	}
 
 	/**
@@ -238,19 +298,4 @@ export class Embedder {
 
 		return text.slice(0, end);
 	}
-
-	/**
-	 * Redact potential secrets from error messages
-	 * Removes patterns that look like API keys, tokens, or credentials
-	 */
-	private redactSecrets(message: string): string {
-		// Redact common API key patterns (sk-xxx, key-xxx, etc.)
-		const apiKeyPattern = /\b(sk-|key-|api[_-]?key[_-]?)[a-zA-Z0-9_-]{10,}\b/gi;
-		let redacted = message.replace(apiKeyPattern, '[REDACTED]');
-		// Redact Bearer tokens
-		redacted = redacted.replace(/Bearer\s+[a-zA-Z0-9_.-]+/gi, 'Bearer [REDACTED]');
-		// Redact long alphanumeric strings that look like secrets (32+ chars)
-		redacted = redacted.replace(/\b[a-zA-Z0-9_-]{32,}\b/g, '[REDACTED]');
-		return redacted;
-	}
 }
@@ -0,0 +1,62 @@
+import type { EmbeddingBackendType, PluginSettings, UsageListener, UsagePurpose } from '../types';
+import { parseCustomHeaders } from './OpenAICompatibleClient';
+import {
+	OpenAICompatibleEmbeddingBackend,
+	OpenRouterEmbeddingBackend,
+} from './RemoteEmbeddingBackend';
+import { LocalEmbeddingBackend } from './LocalEmbeddingBackend';
+
+/**
+ * Turns text into vectors for the VectorStore
+ * Implementations must return one vector per input, in input order
+ */
+export interface EmbeddingBackend {
+	readonly type: EmbeddingBackendType;
+
+	/** Model identifier recorded alongside sessions */
+	readonly model: string;
+
+	/** Model selected in settings; identifies the vector space regardless of failover */
+	readonly configuredModel: string;
+
+	/** Whether query/document instruction prefixes improve retrieval for this backend */
+	readonly usesTaskPrefixes: boolean;
+
+	isConfigured(): boolean;
+
+	/**
+	 * @param signal - Cancels the request; rejects with an AbortError
+	 * @param purpose - Reported with the call's token usage
+	 */
+	embed(texts: string[], signal?: AbortSignal, purpose?: UsagePurpose): Promise<number[][]>;
+}
+
+/**
+ * Create the embedding backend selected in settings
+ * @param onUsage - Receives token counts for remote embedding calls
+ */
+export function createEmbeddingBackend(
+	settings: PluginSettings,
+	onUsage?: UsageListener
+): EmbeddingBackend {
+	switch (settings.embeddingBackend) {
+		case 'local':
+			return new LocalEmbeddingBackend();
+		case 'openai-compatible':
+			return new OpenAICompatibleEmbeddingBackend({
+				baseUrl: settings.customBaseUrl,
+				apiKey: settings.customApiKey,
+				headers: parseCustomHeaders(settings.customHeaders),
+				model: settings.embeddingModel,
+				fallbackModels: settings.embeddingFallbackModels,
+				onUsage,
+			});
+		default:
+			return new OpenRouterEmbeddingBackend(
+				settings.openRouterApiKey,
+				settings.embeddingModel,
+				settings.embeddingFallbackModels,
+				onUsage
+			);
+	}
+}
@@ -0,0 +1,530 @@
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest-neighbour search
+ * (Malkov & Yashunin, 2016) over cosine similarity.
+ *
+ * The index holds references to the caller's vectors rather than copies.
+ * Removal marks nodes deleted: they still route searches but never appear in
+ * results, and are dropped when the index is serialized.
+ */
+
+export interface HnswOptions {
+	m: number; // Links per node on upper layers (2m on layer 0)
+	efConstruction: number; // Candidate list size while inserting
+	efSearch: number; // Default candidate list size while searching
+}
+
+export interface HnswHit {
+	id: string;
+	score: number; // Cosine similarity
+}
+
+interface HnswNode {
+	id: string;
+	vector: number[];
+	norm: number;
+	hash?: string; // Content hash of the vector's source, to detect stale nodes after a reload
+	neighbors: number[][]; // Node indices per layer, 0..level
+	deleted: boolean;
+}
+
+// hnsw.bin: header, JSON node table, then neighbor lists as u32
+interface SerializedGraph {
+	m: number;
+	efConstruction: number;
+	entryPoint: number;
+	nodes: { id: string; level: number; hash?: string }[];
+}
+
+const DEFAULT_OPTIONS: HnswOptions = { m: 12, efConstruction: 64, efSearch: 64 };
+const MAGIC = 0x48564352; // 'RCVH' read as little-endian u32
+const FORMAT_VERSION = 1;
+
+/**
+ * Binary heap ordered by distance (min-heap, or max-heap when inverted)
+ */
+class DistanceHeap {
+	private items: { node: number; distance: number }[] = [];
+
+	constructor(private readonly max = false) {}
+
+	get size(): number {
+		return this.items.length;
+	}
+
+	peek(): { node: number; distance: number } | undefined {
+		return this.items[0];
+	}
+
+	push(node: number, distance: number): void {
+		const items = this.items;
+		items.push({ node, distance });
+		let i = items.length - 1;
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (!this.before(items[i].distance, items[parent].distance)) break;
+			[items[i], items[parent]] = [items[parent], items[i]];
+			i = parent;
+		}
+	}
+
+	pop(): { node: number; distance: number } | undefined {
+		const items = this.items;
+		const top = items[0];
+		const last = items.pop();
+		if (items.length > 0 && last) {
+			items[0] = last;
+			let i = 0;
+			for (;;) {
+				const left = 2 * i + 1;
+				const right = left + 1;
+				let next = i;
+				if (
+					left < items.length &&
+					this.before(items[left].distance, items[next].distance)
+				) {
+					next = left;
+				}
+				if (
+					right < items.length &&
+					this.before(items[right].distance, items[next].distance)
+				) {
+					next = right;
+				}
+				if (next === i) break;
+				[items[i], items[next]] = [items[next], items[i]];
+				i = next;
+			}
+		}
+		return top;
+	}
+
+	/** Contents sorted nearest first */
+	sorted(): { node: number; distance: number }[] {
+		return [...this.items].sort((a, b) => a.distance - b.distance);
+	}
+
+	private before(a: number, b: number): boolean {
+		return this.max ? a > b : a < b;
+	}
+}
+
+export class HnswIndex {
+	private readonly options: HnswOptions;
+	private readonly levelFactor: number;
+	private nodes: HnswNode[] = [];
+	private nodeById: Map<string, number> = new Map(); // Live nodes only
+	private entryPoint = -1;
+	private deletedCount = 0;
+	private visitMarks: number[] = []; // Per node: search generation that last visited it
+	private visitGeneration = 0;
+
+	constructor(options: Partial<HnswOptions> = {}) {
+		this.options = { ...DEFAULT_OPTIONS, ...options };
+		this.levelFactor = 1 / Math.log(this.options.m);
+	}
+
+	/** Number of live (not deleted) vectors */
+	get size(): number {
+		return this.nodeById.size;
+	}
+
+	/** Share of nodes that are deleted but still kept for routing */
+	get deletedRatio(): number {
+		return this.nodes.length === 0 ? 0 : this.deletedCount / this.nodes.length;
+	}
+
+	/**
+	 * Whether a live node exists for the id (and, if given, was added with this hash)
+	 */
+	has(id: string, hash?: string): boolean {
+		const index = this.nodeById.get(id);
+		if (index === undefined) return false;
+		return hash === undefined || this.nodes[index].hash === hash;
+	}
+
+	/**
+	 * Insert a vector, replacing any existing node with the same id
+	 */
+	add(id: string, vector: number[], hash?: string): void {
+		this.remove(id);
+
+		const level = Math.floor(-Math.log(1 - Math.random()) * this.levelFactor);
+		const index = this.nodes.length;
+		const node: HnswNode = {
+			id,
+			vector,
+			norm: this.norm(vector),
+			hash,
+			neighbors: Array.from({ length: level + 1 }, () => []),
+			deleted: false,
+		};
+		this.nodes.push(node);
+		this.visitMarks.push(0);
+		this.nodeById.set(id, index);
+
+		if (this.entryPoint === -1) {
+			this.entryPoint = index;
+			return;
+		}
+
+		const topLevel = this.nodes[this.entryPoint].neighbors.length - 1;
+		let current = this.entryPoint;
+		for (let layer = topLevel; layer > level; layer--) {
+			current = this.greedyClosest(node.vector, node.norm, current, layer);
+		}
+
+		let entries = [current];
+		for (let layer = Math.min(level, topLevel); layer >= 0; layer--) {
+			const candidates = this.searchLayer(
+				node.vector,
+				node.norm,
+				entries,
+				this.options.efConstruction,
+				layer
+			);
+			const maxLinks = layer === 0 ? this.options.m * 2 : this.options.m;
+			node.neighbors[layer] = this.selectNeighbors(candidates, maxLinks);
+
+			for (const neighbor of node.neighbors[layer]) {
+				this.link(neighbor, index, layer, maxLinks);
+			}
+			entries = candidates.map((candidate) => candidate.node);
+		}
+
+		if (level > topLevel) {
+			this.entryPoint = index;
+		}
+	}
+
+	/**
+	 * Mark a vector deleted
+	 * @returns false if no live node has the id
+	 */
+	remove(id: string): boolean {
+		const index = this.nodeById.get(id);
+		if (index === undefined) return false;
+
+		this.nodes[index].deleted = true;
+		this.nodeById.delete(id);
+		this.deletedCount++;
+		return true;
+	}
+
+	/**
+	 * Approximate k nearest live vectors, highest similarity first
+	 * @param accept - Optional predicate on ids; rejected nodes still route the search
+	 */
+	search(
+		query: number[],
+		k: number,
+		ef = this.options.efSearch,
+		accept?: (id: string) => boolean
+	): HnswHit[] {
+		if (this.entryPoint === -1 || this.size === 0 || k <= 0) return [];
+
+		const queryNorm = this.norm(query);
+		let current = this.entryPoint;
+		for (let layer = this.nodes[current].neighbors.length - 1; layer > 0; layer--) {
+			current = this.greedyClosest(query, queryNorm, current, layer);
+		}
+
+		const found = this.searchLayer(query, queryNorm, [current], Math.max(ef, k), 0, (node) => {
+			const candidate = this.nodes[node];
+			return !candidate.deleted && (!accept || accept(candidate.id));
+		});
+
+		return found.slice(0, k).map(({ node, distance }) => ({
+			id: this.nodes[node].id,
+			score: 1 - distance,
+		}));
+	}
+
+	/**
+	 * Encode the graph without its vectors; deleted nodes are dropped
+	 */
+	serialize(): ArrayBuffer {
+		// Renumber live nodes
+		const remap = new Map<number, number>();
+		this.nodes.forEach((node, index) => {
+			if (!node.deleted) remap.set(index, remap.size);
+		});
+		const live = this.nodes.filter((node) => !node.deleted);
+
+		const graph: SerializedGraph = {
+			m: this.options.m,
+			efConstruction: this.options.efConstruction,
+			entryPoint: remap.get(this.entryPoint) ?? remap.get(this.highestLiveNode()) ?? -1,
+			nodes: live.map((node) => ({
+				id: node.id,
+				level: node.neighbors.length - 1,
+				hash: node.hash,
+			})),
+		};
+
+		const links: number[] = [];
+		for (const node of live) {
+			for (const layer of node.neighbors) {
+				const kept = layer.filter((neighbor) => remap.has(neighbor));
+				links.push(kept.length, ...kept.map((neighbor) => remap.get(neighbor) ?? 0));
+			}
+		}
+
+		const json = new TextEncoder().encode(JSON.stringify(graph));
+		const jsonPadded = Math.ceil(json.byteLength / 4) * 4;
+		const buffer = new ArrayBuffer(12 + jsonPadded + links.length * 4);
+		const header = new DataView(buffer);
+		header.setUint32(0, MAGIC, true);
+		header.setUint32(4, FORMAT_VERSION, true);
+		header.setUint32(8, json.byteLength, true);
+		new Uint8Array(buffer, 12, json.byteLength).set(json);
+		new Uint32Array(buffer, 12 + jsonPadded, links.length).set(links);
+		return buffer;
+	}
+
+	/**
+	 * Restore a serialized graph, attaching vectors by id
+	 * Nodes whose vector is gone or whose hash no longer matches are left out;
+	 * callers re-add those vectors (see has()).
+	 * @throws Error if the data is not a valid graph file
+	 */
+	static deserialize(
+		buffer: ArrayBuffer,
+		getVector: (id: string) => { vector: number[]; hash?: string } | undefined,
+		options: Partial<HnswOptions> = {}
+	): HnswIndex {
+		if (buffer.byteLength < 12) {
+			throw new Error('Graph file is truncated');
+		}
+		const header = new DataView(buffer);
+		if (header.getUint32(0, true) !== MAGIC) {
+			throw new Error('Not a graph file');
+		}
+		if (header.getUint32(4, true) !== FORMAT_VERSION) {
+			throw new Error(`Unsupported graph format version: ${header.getUint32(4, true)}`);
+		}
+		const jsonLength = header.getUint32(8, true);
+		const jsonPadded = Math.ceil(jsonLength / 4) * 4;
+		if (
+			buffer.byteLength < 12 + jsonPadded ||
+			(buffer.byteLength - 12 - jsonPadded) % 4 !== 0
+		) {
+			throw new Error('Graph file is truncated');
+		}
+		const graph: SerializedGraph = JSON.parse(
+			new TextDecoder().decode(new Uint8Array(buffer, 12, jsonLength))
+		);
+		const links = new Uint32Array(buffer, 12 + jsonPadded);
+
+		const index = new HnswIndex({
+			...options,
+			m: graph.m,
+			efConstruction: graph.efConstruction,
+		});
+
+		let position = 0;
+		const read = (): number => {
+			if (position >= links.length) {
+				throw new Error('Graph file is truncated');
+			}
+			return links[position++];
+		};
+
+		for (const entry of graph.nodes) {
+			const neighbors: number[][] = [];
+			for (let layer = 0; layer <= entry.level; layer++) {
+				const count = read();
+				const layerLinks: number[] = [];
+				for (let i = 0; i < count; i++) {
+					const neighbor = read();
+					if (neighbor >= graph.nodes.length) {
+						throw new Error('Graph file references an unknown node');
+					}
+					layerLinks.push(neighbor);
+				}
+				neighbors.push(layerLinks);
+			}
+
+			const source = getVector(entry.id);
+			const stale = !source || source.hash !== entry.hash;
+			index.nodes.push({
+				id: entry.id,
+				// Stale nodes keep an empty vector: they are unreachable rather than misleading
+				vector: stale ? [] : source.vector,
+				norm: stale ? 0 : index.norm(source.vector),
+				hash: entry.hash,
+				neighbors,
+				deleted: stale,
+			});
+			index.visitMarks.push(0);
+			if (stale) {
+				index.deletedCount++;
+			} else {
+				index.nodeById.set(entry.id, index.nodes.length - 1);
+			}
+		}
+
+		const entryPoint = index.nodes[graph.entryPoint];
+		index.entryPoint =
+			entryPoint && !entryPoint.deleted ? graph.entryPoint : index.highestLiveNode();
+		return index;
+	}
+
+	/** Live node with the most layers, or -1 if there is none */
+	private highestLiveNode(): number {
+		let best = -1;
+		this.nodes.forEach((node, index) => {
+			if (
+				!node.deleted &&
+				(best === -1 || node.neighbors.length > this.nodes[best].neighbors.length)
+			) {
+				best = index;
+			}
+		});
+		return best;
+	}
+
+	private greedyClosest(
+		query: number[],
+		queryNorm: number,
+		start: number,
+		layer: number
+	): number {
+		let current = start;
+		let currentDistance = this.distance(query, queryNorm, current);
+		let improved = true;
+		while (improved) {
+			improved = false;
+			for (const neighbor of this.nodes[current].neighbors[layer] ?? []) {
+				const distance = this.distance(query, queryNorm, neighbor);
+				if (distance < currentDistance) {
+					current = neighbor;
+					currentDistance = distance;
+					improved = true;
+				}
+			}
+		}
+		return current;
+	}
+
+	/**
+	 * Best-first search on one layer
+	 * @param accept - Which visited nodes may enter the result list (all if omitted)
+	 * @returns up to ef accepted nodes, nearest first
+	 */
+	private searchLayer(
+		query: number[],
+		queryNorm: number,
+		entries: number[],
+		ef: number,
+		layer: number,
+		accept?: (node: number) => boolean
+	): { node: number; distance: number }[] {
+		const generation = ++this.visitGeneration;
+		const marks = this.visitMarks;
+		for (const entry of entries) {
+			marks[entry] = generation;
+		}
+		const candidates = new DistanceHeap();
+		const results = new DistanceHeap(true);
+
+		for (const entry of entries) {
+			const distance = this.distance(query, queryNorm, entry);
+			candidates.push(entry, distance);
+			if (!accept || accept(entry)) {
+				results.push(entry, distance);
+			}
+		}
+
+		while (candidates.size > 0) {
+			const nearest = candidates.pop();
+			if (!nearest) break;
+			const worst = results.peek();
+			if (worst && results.size >= ef && nearest.distance > worst.distance) break;
+
+			for (const neighbor of this.nodes[nearest.node].neighbors[layer] ?? []) {
+				if (marks[neighbor] === generation) continue;
+				marks[neighbor] = generation;
+				if (this.nodes[neighbor].vector.length === 0) continue; // Stale after reload
+
+				const distance = this.distance(query, queryNorm, neighbor);
+				const currentWorst = results.peek();
+				if (results.size < ef || (currentWorst && distance < currentWorst.distance)) {
+					candidates.push(neighbor, distance);
+					if (!accept || accept(neighbor)) {
+						results.push(neighbor, distance);
+						if (results.size > ef) results.pop();
+					}
+				}
+			}
+		}
+
+		return results.sorted();
+	}
+
+	/**
+	 * Neighbor selection heuristic: skip candidates closer to an already selected
+	 * neighbor than to the new node, which keeps links spread across clusters
+	 */
+	private selectNeighbors(
+		candidates: { node: number; distance: number }[],
+		maxLinks: number
+	): number[] {
+		const selected: number[] = [];
+		const skipped: number[] = [];
+		for (const candidate of candidates) {
+			if (selected.length >= maxLinks) break;
+			const node = this.nodes[candidate.node];
+			const dominated = selected.some(
+				(chosen) => this.distance(node.vector, node.norm, chosen) < candidate.distance
+			);
+			if (dominated) {
+				skipped.push(candidate.node);
+			} else {
+				selected.push(candidate.node);
+			}
+		}
+		// Fill up with the nearest skipped candidates
+		for (const node of skipped) {
+			if (selected.length >= maxLinks) break;
+			selected.push(node);
+		}
+		return selected;
+	}
+
+	private link(from: number, to: number, layer: number, maxLinks: number): void {
+		const node = this.nodes[from];
+		const links = node.neighbors[layer];
+		if (!links) return;
+		links.push(to);
+		if (links.length <= maxLinks) return;
+
+		const candidates = links
+			.map((neighbor) => ({
+				node: neighbor,
+				distance: this.distance(node.vector, node.norm, neighbor),
+			}))
+			.sort((a, b) => a.distance - b.distance);
+		node.neighbors[layer] = this.selectNeighbors(candidates, maxLinks);
+	}
+
+	/** Cosine distance (1 - similarity) between a vector and a node */
+	private distance(vector: number[], norm: number, node: number): number {
+		const other = this.nodes[node];
+		if (norm === 0 || other.norm === 0 || vector.length !== other.vector.length) {
+			return 1;
+		}
+		let dot = 0;
+		for (let i = 0; i < vector.length; i++) {
+			dot += vector[i] * other.vector[i];
+		}
+		return 1 - dot / (norm * other.norm);
+	}
+
+	private norm(vector: number[]): number {
+		let sum = 0;
+		for (const value of vector) {
+			sum += value * value;
+		}
+		return Math.sqrt(sum);
+	}
+}
@@ -0,0 +1,209 @@
+import type { App } from 'obsidian';
+import { TFile } from 'obsidian';
+import { logger } from '../utils/logger';
+
+export interface ManifestEntry {
+	mtime: number; // File modification time when indexed
+	size: number; // File size when indexed
+	hash: string; // Hash of the file content when indexed
+	indexedAt: number;
+	excluded?: boolean; // Read but left out of the index by an excluded tag
+}
+
+// index-manifest.json: what each note looked like when it was last fully indexed
+interface StoredManifest {
+	version: number;
+	fingerprint: string | null; // Embedding fingerprint the entries were indexed with
+	run: { startedAt: number } | null; // Full index run that has not finished yet
+	notes: Record<string, ManifestEntry>;
+}
+
+/**
+ * Record of which notes are indexed and in what state
+ * Lets a full index run skip notes that haven't changed, and serves as its
+ * checkpoint: entries are written as notes complete, and an unfinished run is
+ * remembered so it can resume after a restart.
+ */
+export class IndexManifest {
+	private app: App;
+	private filePath: string;
+	private fingerprint: string | null = null;
+	private run: StoredManifest['run'] = null;
+	private notes: Map<string, ManifestEntry> = new Map();
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+	private saveLock: Promise<void> = Promise.resolve(); // Mutex for file writes
+	private dirty = false;
+	private outdated = false; // Entries were written by an earlier version and dropped
+
+	private static readonly MANIFEST_FILE = 'index-manifest.json';
+	private static readonly MANIFEST_VERSION = 2; // 2: goal and report note types
+	private static readonly SAVE_DEBOUNCE_MS = 2000;
+
+	constructor(app: App, basePath: string) {
+		this.app = app;
+		this.filePath = basePath.endsWith('/')
+			? `${basePath}${IndexManifest.MANIFEST_FILE}`
+			: `${basePath}/${IndexManifest.MANIFEST_FILE}`;
+	}
+
+	async load(): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(this.filePath);
+		if (!(file instanceof TFile)) return;
+
+		try {
+			const stored: StoredManifest = JSON.parse(await this.app.vault.read(file));
+			if (stored.version !== IndexManifest.MANIFEST_VERSION || !stored.notes) {
+				logger.info('Index manifest format changed, notes will be rechecked');
+				this.outdated = true;
+				return;
+			}
+			this.fingerprint = typeof stored.fingerprint === 'string' ? stored.fingerprint : null;
+			this.run = typeof stored.run?.startedAt === 'number' ? stored.run : null;
+			for (const [path, entry] of Object.entries(stored.notes)) {
+				if (
+					typeof entry?.mtime === 'number' &&
+					typeof entry.size === 'number' &&
+					typeof entry.hash === 'string' &&
+					typeof entry.indexedAt === 'number'
+				) {
+					this.notes.set(path, entry);
+				}
+			}
+		} catch (error) {
+			logger.error(
+				'Failed to load index manifest, notes will be rechecked:',
+				error instanceof Error ? error : undefined
+			);
+		}
+	}
+
+	/**
+	 * Entry of a note, if it was indexed with the given embedding fingerprint
+	 */
+	get(path: string, fingerprint: string): ManifestEntry | undefined {
+		return fingerprint === this.fingerprint ? this.notes.get(path) : undefined;
+	}
+
+	/**
+	 * Record a note as fully indexed, or as excluded from the index
+	 * Entries of another fingerprint are dropped, since those notes need re-embedding.
+	 */
+	set(
+		path: string,
+		fingerprint: string,
+		stat: { mtime: number; size: number },
+		hash: string,
+		excluded = false
+	): void {
+		if (fingerprint !== this.fingerprint) {
+			this.fingerprint = fingerprint;
+			this.notes.clear();
+		}
+		const entry: ManifestEntry = {
+			mtime: stat.mtime,
+			size: stat.size,
+			hash,
+			indexedAt: Date.now(),
+		};
+		if (excluded) entry.excluded = true;
+		this.notes.set(path, entry);
+		this.scheduleSave();
+	}
+
+	delete(path: string): void {
+		if (this.notes.delete(path)) {
+			this.scheduleSave();
+		}
+	}
+
+	clear(): void {
+		this.notes.clear();
+		this.fingerprint = null;
+		this.scheduleSave();
+	}
+
+	/**
+	 * Whether a full index run was started and never finished (e.g. Obsidian was closed)
+	 */
+	hasUnfinishedRun(): boolean {
+		return this.run !== null;
+	}
+
+	/**
+	 * Whether the manifest was written by an earlier version, whose indexed metadata may
+	 * lack newer fields; a run re-reads every note (unchanged chunks need no API calls)
+	 */
+	isOutdated(): boolean {
+		return this.outdated;
+	}
+
+	startRun(): void {
+		this.outdated = false; // From here on, an interrupted run is resumed instead
+		this.run = { startedAt: Date.now() };
+		this.scheduleSave();
+	}
+
+	finishRun(): void {
+		if (this.run === null) return;
+		this.run = null;
+		this.scheduleSave();
+	}
+
+	/**
+	 * Write pending changes immediately (checkpoints and unload)
+	 */
+	async flush(): Promise<void> {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		if (this.dirty) {
+			await this.save();
+		}
+	}
+
+	private scheduleSave(): void {
+		this.dirty = true;
+		if (this.saveTimer) return;
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			void this.save();
+		}, IndexManifest.SAVE_DEBOUNCE_MS);
+	}
+
+	private async save(): Promise<void> {
+		const previousLock = this.saveLock;
+		let release: () => void = () => {
+			/* no-op default */
+		};
+		this.saveLock = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+
+		try {
+			await previousLock;
+			this.dirty = false;
+			const stored: StoredManifest = {
+				version: IndexManifest.MANIFEST_VERSION,
+				fingerprint: this.fingerprint,
+				run: this.run,
+				notes: Object.fromEntries(this.notes),
+			};
+			const content = JSON.stringify(stored);
+			const file = this.app.vault.getAbstractFileByPath(this.filePath);
+			if (file instanceof TFile) {
+				await this.app.vault.modify(file, content);
+			} else {
+				await this.app.vault.create(this.filePath, content);
+			}
+		} catch (error) {
+			this.dirty = true;
+			logger.error(
+				'Failed to save index manifest:',
+				error instanceof Error ? error : undefined
+			);
+		} finally {
+			release();
+		}
+	}
+}
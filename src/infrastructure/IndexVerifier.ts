@@ -0,0 +1,165 @@
+import type { App, TFile } from 'obsidian';
+import { TFile as ObsidianTFile } from 'obsidian';
+import { VectorStore } from './VectorStore';
+import { KeywordIndex } from './KeywordIndex';
+import { NoteIndexer } from './NoteIndexer';
+import { logger } from '../utils/logger';
+
+export type IndexIssueKind = 'orphan' | 'missing' | 'invalid' | 'dimension' | 'stale';
+
+export interface IndexIssue {
+	kind: IndexIssueKind;
+	path: string;
+	ids: string[]; // Affected item ids (empty for missing notes)
+}
+
+export interface IndexReport {
+	notes: number; // Target notes in the vault
+	items: number; // Stored vectors
+	dimension: number | null; // Expected vector length (the most common one)
+	issues: IndexIssue[];
+}
+
+export interface RepairResult {
+	repaired: number; // Notes fixed
+	failed: number;
+}
+
+/**
+ * Compares the vector store with the vault and repairs differences
+ * - orphan: vectors of a note that no longer exists (deleted or renamed while closed)
+ *   or is no longer in the indexing scope
+ * - missing: target note with no vectors (notes excluded by tag are expected to have none)
+ * - invalid: vectors that could not be loaded (corrupt shard, malformed vector)
+ * - dimension: vectors whose length differs from the rest of the store
+ * - stale: note modified after its vectors were last indexed
+ */
+export class IndexVerifier {
+	private app: App;
+	private vectorStore: VectorStore;
+	private keywordIndex: KeywordIndex;
+	private noteIndexer: NoteIndexer;
+
+	constructor(
+		app: App,
+		vectorStore: VectorStore,
+		keywordIndex: KeywordIndex,
+		noteIndexer: NoteIndexer
+	) {
+		this.app = app;
+		this.vectorStore = vectorStore;
+		this.keywordIndex = keywordIndex;
+		this.noteIndexer = noteIndexer;
+	}
+
+	verify(): IndexReport {
+		const notes = new Map<string, TFile>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (this.noteIndexer.isTargetFile(file)) {
+				notes.set(file.path, file);
+			}
+		}
+
+		const dimension = this.vectorStore.getDimension();
+		const issues: IndexIssue[] = [];
+		const storedPaths = new Set(this.vectorStore.getPaths());
+		let items = 0;
+
+		for (const path of storedPaths) {
+			const stored = this.vectorStore.getItemsByPath(path);
+			items += stored.length;
+
+			const file = notes.get(path);
+			if (!file) {
+				issues.push({ kind: 'orphan', path, ids: stored.map((item) => item.id) });
+				continue;
+			}
+
+			const wrongDimension = stored.filter((item) => item.vector.length !== dimension);
+			if (wrongDimension.length > 0) {
+				issues.push({
+					kind: 'dimension',
+					path,
+					ids: wrongDimension.map((item) => item.id),
+				});
+			}
+
+			// Items from before indexing times were recorded can't be judged
+			const indexedAt = stored.map((item) => item.indexedAt ?? Infinity);
+			if (file.stat.mtime > Math.min(...indexedAt)) {
+				issues.push({ kind: 'stale', path, ids: stored.map((item) => item.id) });
+			}
+		}
+
+		// Unloadable vectors of notes that are gone need no repair
+		const dropped = new Map<string, string[]>();
+		for (const { id, path } of this.vectorStore.getDroppedItems()) {
+			if (!notes.has(path)) continue;
+			dropped.set(path, [...(dropped.get(path) ?? []), id]);
+		}
+		for (const [path, ids] of dropped) {
+			issues.push({ kind: 'invalid', path, ids });
+		}
+
+		for (const [path, file] of notes) {
+			if (
+				!storedPaths.has(path) &&
+				!dropped.has(path) &&
+				!this.noteIndexer.isExcludedByTags(file)
+			) {
+				issues.push({ kind: 'missing', path, ids: [] });
+			}
+		}
+
+		return { notes: notes.size, items, dimension, issues };
+	}
+
+	/**
+	 * Delete orphaned and mismatched vectors, then reindex every affected note
+	 * @param onProgress - Called after each note with the number done and the total
+	 */
+	async repair(
+		report: IndexReport,
+		onProgress?: (done: number, total: number) => void
+	): Promise<RepairResult> {
+		// Drop vectors of another dimension first so the store is consistent again
+		// (indexing skips embedding while dimensions are mixed)
+		for (const issue of report.issues) {
+			if (issue.kind === 'dimension') {
+				for (const id of issue.ids) {
+					await this.vectorStore.delete(id);
+				}
+			}
+		}
+
+		const paths = [...new Set(report.issues.map((issue) => issue.path))];
+		let repaired = 0;
+		let failed = 0;
+
+		for (const path of paths) {
+			try {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (file instanceof ObsidianTFile && this.noteIndexer.isTargetFile(file)) {
+					await this.noteIndexer.indexFile(file);
+				} else {
+					this.keywordIndex.removeNote(path);
+					for (const item of this.vectorStore.getItemsByPath(path)) {
+						await this.vectorStore.delete(item.id);
+					}
+				}
+				this.vectorStore.forgetDroppedItems(path);
+				repaired++;
+			} catch (error) {
+				logger.error(
+					`Failed to repair index for ${path}:`,
+					error instanceof Error ? error : undefined
+				);
+				failed++;
+			}
+			onProgress?.(repaired + failed, paths.length);
+		}
+
+		logger.info(`Index repair: ${repaired} notes repaired, ${failed} failed`);
+		return { repaired, failed };
+	}
+}
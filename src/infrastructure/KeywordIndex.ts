@@ -0,0 +1,252 @@
+import type { App } from 'obsidian';
+import { TFile } from 'obsidian';
+import { matchesFilter, type VectorMetadata, type VectorSearchResult } from './VectorStore';
+import type { VectorFilter } from '../types';
+import { tokenize } from '../utils/tokenize';
+import { logger } from '../utils/logger';
+
+export interface KeywordDocument {
+	id: string; // Same id as the chunk's vector (`path#index`)
+	text: string;
+	metadata: VectorMetadata;
+}
+
+interface IndexedDocument {
+	metadata: VectorMetadata;
+	terms: Map<string, number>; // Term -> frequency in the document
+	length: number; // Total term count
+}
+
+// keyword-index.json: term frequencies per chunk, so loading needs no re-tokenizing
+interface StoredKeywordIndex {
+	version: number;
+	docs: { id: string; metadata: VectorMetadata; terms: Record<string, number> }[];
+}
+
+/**
+ * BM25 keyword index over the same chunks as the vector store
+ * Catches proper nouns, project codes and rare terms that embeddings tend to miss.
+ * Works without an embedding backend; kept in memory and persisted to
+ * keyword-index.json in the plugin folder.
+ */
+export class KeywordIndex {
+	private app: App;
+	private filePath: string;
+	private docs: Map<string, IndexedDocument> = new Map();
+	private postings: Map<string, Set<string>> = new Map(); // Term -> ids of documents with it
+	private idsByPath: Map<string, Set<string>> = new Map(); // Note path -> document ids
+	private totalLength = 0;
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+	private saveLock: Promise<void> = Promise.resolve(); // Mutex for file writes
+	private dirty = false;
+
+	private static readonly INDEX_FILE = 'keyword-index.json';
+	private static readonly INDEX_VERSION = 1; // Bump when tokenize() changes
+	private static readonly SAVE_DEBOUNCE_MS = 2000;
+	private static readonly K1 = 1.2; // Term frequency saturation
+	private static readonly B = 0.75; // Document length normalization
+
+	constructor(app: App, basePath: string) {
+		this.app = app;
+		this.filePath = basePath.endsWith('/')
+			? `${basePath}${KeywordIndex.INDEX_FILE}`
+			: `${basePath}/${KeywordIndex.INDEX_FILE}`;
+	}
+
+	/**
+	 * Number of indexed chunks
+	 */
+	get size(): number {
+		return this.docs.size;
+	}
+
+	async load(): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(this.filePath);
+		if (!(file instanceof TFile)) return;
+
+		try {
+			const stored: StoredKeywordIndex = JSON.parse(await this.app.vault.read(file));
+			if (stored.version !== KeywordIndex.INDEX_VERSION || !Array.isArray(stored.docs)) {
+				// Built with another tokenizer; the next index run rebuilds it
+				logger.info('Keyword index format changed, it will be rebuilt');
+				return;
+			}
+			for (const doc of stored.docs) {
+				if (!doc?.id || typeof doc.metadata?.path !== 'string' || !doc.terms) continue;
+				this.addDocument(doc.id, doc.metadata, new Map(Object.entries(doc.terms)));
+			}
+		} catch (error) {
+			logger.error(
+				'Failed to load keyword index, it will be rebuilt:',
+				error instanceof Error ? error : undefined
+			);
+		}
+	}
+
+	/**
+	 * Replace every indexed chunk of a note
+	 */
+	setNote(path: string, documents: KeywordDocument[]): void {
+		this.removeDocuments(path);
+		for (const doc of documents) {
+			const terms = new Map<string, number>();
+			for (const term of tokenize(doc.text)) {
+				terms.set(term, (terms.get(term) ?? 0) + 1);
+			}
+			this.addDocument(doc.id, doc.metadata, terms);
+		}
+		this.scheduleSave();
+	}
+
+	removeNote(path: string): void {
+		if (this.removeDocuments(path)) {
+			this.scheduleSave();
+		}
+	}
+
+	/**
+	 * Paths of every note with indexed chunks
+	 */
+	getPaths(): string[] {
+		return [...this.idsByPath.keys()];
+	}
+
+	/**
+	 * Rank chunks by BM25 score for the query terms
+	 * @returns up to `limit` results, highest score first (chunks sharing no term are omitted)
+	 */
+	search(query: string, limit: number, filter?: VectorFilter): VectorSearchResult[] {
+		const docCount = this.docs.size;
+		if (docCount === 0 || limit <= 0) return [];
+
+		const averageLength = this.totalLength / docCount;
+		const scores = new Map<string, number>();
+
+		for (const term of new Set(tokenize(query))) {
+			const ids = this.postings.get(term);
+			if (!ids) continue;
+
+			const idf = Math.log(1 + (docCount - ids.size + 0.5) / (ids.size + 0.5));
+			for (const id of ids) {
+				const doc = this.docs.get(id);
+				if (!doc) continue;
+				const tf = doc.terms.get(term) ?? 0;
+				const norm =
+					KeywordIndex.K1 *
+					(1 - KeywordIndex.B + (KeywordIndex.B * doc.length) / averageLength);
+				scores.set(
+					id,
+					(scores.get(id) ?? 0) + (idf * (tf * (KeywordIndex.K1 + 1))) / (tf + norm)
+				);
+			}
+		}
+
+		const results: VectorSearchResult[] = [];
+		for (const [id, score] of scores) {
+			const doc = this.docs.get(id);
+			if (!doc || (filter && !matchesFilter(doc.metadata, filter))) continue;
+			results.push({ id, score, metadata: doc.metadata });
+		}
+		return results.sort((a, b) => b.score - a.score).slice(0, limit);
+	}
+
+	/**
+	 * Write pending changes immediately (call on unload)
+	 */
+	async flush(): Promise<void> {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		if (this.dirty) {
+			await this.save();
+		}
+	}
+
+	private addDocument(id: string, metadata: VectorMetadata, terms: Map<string, number>): void {
+		let length = 0;
+		for (const [term, count] of terms) {
+			length += count;
+			const ids = this.postings.get(term) ?? new Set<string>();
+			ids.add(id);
+			this.postings.set(term, ids);
+		}
+		this.docs.set(id, { metadata, terms, length });
+		this.totalLength += length;
+
+		const ids = this.idsByPath.get(metadata.path) ?? new Set<string>();
+		ids.add(id);
+		this.idsByPath.set(metadata.path, ids);
+	}
+
+	/**
+	 * @returns whether the note had any documents
+	 */
+	private removeDocuments(path: string): boolean {
+		const ids = this.idsByPath.get(path);
+		if (!ids) return false;
+
+		for (const id of ids) {
+			const doc = this.docs.get(id);
+			if (!doc) continue;
+			for (const term of doc.terms.keys()) {
+				const termIds = this.postings.get(term);
+				termIds?.delete(id);
+				if (termIds?.size === 0) {
+					this.postings.delete(term);
+				}
+			}
+			this.totalLength -= doc.length;
+			this.docs.delete(id);
+		}
+		this.idsByPath.delete(path);
+		return true;
+	}
+
+	private scheduleSave(): void {
+		this.dirty = true;
+		if (this.saveTimer) return;
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			void this.save();
+		}, KeywordIndex.SAVE_DEBOUNCE_MS);
+	}
+
+	private async save(): Promise<void> {
+		const previousLock = this.saveLock;
+		let release: () => void = () => {
+			/* no-op default */
+		};
+		this.saveLock = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+
+		try {
+			await previousLock;
+			this.dirty = false;
+			const stored: StoredKeywordIndex = {
+				version: KeywordIndex.INDEX_VERSION,
+				docs: [...this.docs].map(([id, doc]) => ({
+					id,
+					metadata: doc.metadata,
+					terms: Object.fromEntries(doc.terms),
+				})),
+			};
+			const content = JSON.stringify(stored);
+			const file = this.app.vault.getAbstractFileByPath(this.filePath);
+			if (file instanceof TFile) {
+				await this.app.vault.modify(file, content);
+			} else {
+				await this.app.vault.create(this.filePath, content);
+			}
+		} catch (error) {
+			this.dirty = true;
+			logger.error(
+				'Failed to save keyword index:',
+				error instanceof Error ? error : undefined
+			);
+		} finally {
+			release();
+		}
+	}
+}
@@ -0,0 +1,89 @@
+import type {
+	ChatMessage,
+	LLMProviderType,
+	OpenRouterModel,
+	PluginSettings,
+	UsageListener,
+	UsagePurpose,
+} from '../types';
+import { OpenRouterClient } from './OpenRouterClient';
+import { OpenAICompatibleClient, parseCustomHeaders } from './OpenAICompatibleClient';
+
+export interface CompletionOptions {
+	model: string;
+	temperature?: number;
+	maxTokens?: number;
+	purpose?: UsagePurpose; // Attributed in usage tracking (default: chat)
+	fallbackModels?: string[]; // Tried in order when the model is rate-limited or down
+	onModelUsed?: (model: string) => void; // Called with the model that actually answered
+	responseFormat?: ResponseFormat; // Dropped automatically if the server rejects it
+	signal?: AbortSignal; // Cancels the request (rejects with an AbortError)
+}
+
+/**
+ * OpenAI `response_format` request parameter
+ */
+export type ResponseFormat =
+	| { type: 'json_object' }
+	| {
+			type: 'json_schema';
+			json_schema: { name: string; strict?: boolean; schema: Record<string, unknown> };
+	  };
+
+/**
+ * How far a model can be constrained to JSON output
+ * - json_schema: output follows a supplied schema
+ * - json_object: output is valid JSON, shape guided by the prompt only
+ * - none: unknown or unsupported; rely on the prompt
+ */
+export type StructuredOutputSupport = 'json_schema' | 'json_object' | 'none';
+
+export interface ConnectionTestResult {
+	success: boolean;
+	message: string;
+}
+
+/**
+ * Chat completion backend used by ChatEngine and ReportGenerator
+ * Implementations speak the OpenAI chat completions protocol
+ */
+export interface LLMProvider {
+	readonly type: LLMProviderType;
+
+	isConfigured(): boolean;
+
+	complete(messages: ChatMessage[], options: CompletionOptions): Promise<string>;
+
+	stream(
+		messages: ChatMessage[],
+		options: CompletionOptions,
+		onChunk: (chunk: string) => void
+	): Promise<string>;
+
+	fetchModels(): Promise<OpenRouterModel[]>;
+
+	getStructuredOutputSupport(model: string): Promise<StructuredOutputSupport>;
+
+	/**
+	 * Context window of a model in tokens, or null if unknown
+	 */
+	getContextLength(model: string): Promise<number | null>;
+
+	testConnection(): Promise<ConnectionTestResult>;
+}
+
+/**
+ * Create the LLM provider selected in settings
+ * @param onUsage - Receives token counts for every completed call
+ */
+export function createLLMProvider(settings: PluginSettings, onUsage?: UsageListener): LLMProvider {
+	if (settings.llmProvider === 'openai-compatible') {
+		return new OpenAICompatibleClient({
+			baseUrl: settings.customBaseUrl,
+			apiKey: settings.customApiKey,
+			headers: parseCustomHeaders(settings.customHeaders),
+			onUsage,
+		});
+	}
+	return new OpenRouterClient(settings.openRouterApiKey, onUsage);
+}
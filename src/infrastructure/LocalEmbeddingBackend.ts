@@ -0,0 +1,85 @@
+import type { EmbeddingBackendType } from '../types';
+import type { EmbeddingBackend } from './EmbeddingBackend';
+import { throwIfAborted } from '../utils/errors';
+
+/**
+ * Offline embedding backend using feature-hashed character n-grams
+ *
+ * Not a semantic model: similarity reflects shared surface forms (words, names,
+ * Japanese character bigrams/trigrams). Good enough to keep related-note lookup
+ * working without a network connection or API key.
+ */
+export class LocalEmbeddingBackend implements EmbeddingBackend {
+	readonly type: EmbeddingBackendType = 'local';
+	readonly usesTaskPrefixes = false;
+
+	static readonly DIMENSION = 512;
+	private static readonly NGRAM_SIZES = [2, 3] as const;
+
+	readonly model = `local-char-ngram-${LocalEmbeddingBackend.DIMENSION}`;
+	readonly configuredModel = this.model;
+
+	isConfigured(): boolean {
+		return true;
+	}
+
+	async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+		throwIfAborted(signal);
+		return texts.map((text) => this.vectorize(text));
+	}
+
+	private vectorize(text: string): number[] {
+		const counts = new Map<string, number>();
+		const addFeature = (feature: string) => {
+			counts.set(feature, (counts.get(feature) ?? 0) + 1);
+		};
+
+		// Split on whitespace, punctuation and symbols; CJK runs stay as one segment
+		const segments = text
+			.normalize('NFKC')
+			.toLowerCase()
+			.split(/[\s\p{P}\p{S}]+/u)
+			.filter((segment) => segment.length > 0);
+
+		for (const segment of segments) {
+			const chars = Array.from(segment);
+			// Whole-word feature helps space-delimited languages
+			addFeature(`w:${segment}`);
+			if (chars.length === 1) {
+				addFeature(`c:${segment}`);
+				continue;
+			}
+			for (const n of LocalEmbeddingBackend.NGRAM_SIZES) {
+				for (let i = 0; i + n <= chars.length; i++) {
+					addFeature(`${n}:${chars.slice(i, i + n).join('')}`);
+				}
+			}
+		}
+
+		const vector = new Array<number>(LocalEmbeddingBackend.DIMENSION).fill(0);
+		for (const [feature, count] of counts) {
+			const hash = this.fnv1a(feature);
+			const index = hash % LocalEmbeddingBackend.DIMENSION;
+			// Signed hashing keeps collisions from systematically inflating similarity
+			const sign = (hash >>> 16) & 1 ? 1 : -1;
+			// Sublinear term frequency so repeated words don't dominate
+			vector[index] += sign * (1 + Math.log(count));
+		}
+
+		const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+		if (norm === 0) return vector;
+		return vector.map((v) => v / norm);
+	}
+
+	/**
+	 * 32-bit FNV-1a hash (unsigned)
+	 */
+	private fnv1a(str: string): number {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < str.length; i++) {
+			hash ^= str.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return hash >>> 0;
+	}
+}
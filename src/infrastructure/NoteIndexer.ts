@@ -2,25 +2,81 @@ import type { App, TFile, TAbstractFile, EventRef } from 'obsidian';
 import { TFile as ObsidianTFile, Notice } from 'obsidian';
 import { Embedder } from './Embedder';
 import { VectorStore, VectorMetadata } from './VectorStore';
+import { KeywordIndex } from './KeywordIndex';
+import { IndexManifest } from './IndexManifest';
+import type { EntityType, Goal, GoalStatus, NoteType } from '../types';
 import {
 	parseFrontmatter,
 	getFrontmatterString,
 	getFrontmatterStringArray,
 } from '../utils/frontmatter';
+import { hashContent } from '../utils/hash';
+import { matchesAnyGlob } from '../utils/glob';
+import { splitIntoChunks, toPlainText } from '../utils/chunking';
+import { EmbeddingError, throwIfAborted } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { getTranslations } from '../i18n';
+import { getAllTranslations, getTranslations } from '../i18n';
+
+interface PreparedChunk {
+	id: string; // `path#index`
+	metadata: VectorMetadata;
+	text: string; // Embedding input
+	contentHash: string;
+}
+
+interface PreparedNote {
+	path: string;
+	stat: { mtime: number; size: number }; // File stat when read
+	hash: string; // Hash of the file content
+	tags: string[];
+	chunks: PreparedChunk[];
+}
+
+/**
+ * Notes indexed besides those in the journal and entities folders
+ */
+export interface IndexScope {
+	includeFolders: string[]; // Folder names or globs (see matchesGlob)
+	excludeFolders: string[]; // Applies to every folder, the journal and entities included
+	excludeTags: string[]; // Notes with any of these tags (or a nested tag under one) are skipped
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const EMPTY_SCOPE: IndexScope = { includeFolders: [], excludeFolders: [], excludeTags: [] };
+
+export interface IndexAllOptions {
+	full?: boolean; // Re-read every note, not only those changed since they were indexed
+	signal?: AbortSignal; // Stops the run; notes completed so far stay indexed
+	onProgress?: (done: number, total: number) => void; // Notes done of those needing work
+}
 
 export class NoteIndexer {
 	private static readonly DEBOUNCE_MS = 1000;
 	private static readonly MAX_SUMMARY_LENGTH = 500;
+	private static readonly MAX_CHUNK_LENGTH = 1500; // Longer sections are split at line breaks
+	private static readonly MAX_PASSAGE_LENGTH = 500; // Chunk text kept in metadata for display
 	private static readonly MAX_PENDING_UPDATES = 50; // Prevent memory leaks from rapid file changes
 	private static readonly MAX_RETRY_COUNT = 3; // Maximum retry attempts for dropped files
+	private static readonly FILES_PER_PASS = 200; // Notes read into memory per embedding pass
+	private static readonly ENTITY_TYPES: EntityType[] = [
+		'person',
+		'project',
+		'company',
+		'book',
+		'other',
+	];
+	private static readonly GOAL_STATUSES: GoalStatus[] = ['active', 'completed', 'archived'];
+	private static readonly GOAL_PRIORITIES: Goal['priority'][] = ['high', 'medium', 'low'];
 
 	private app: App;
 	private embedder: Embedder;
 	private vectorStore: VectorStore;
+	private keywordIndex: KeywordIndex;
+	private manifest: IndexManifest;
 	private journalFolder: string;
 	private entitiesFolder: string;
+	private scope: IndexScope;
 	private isIndexing = false;
 	private isDestroyed = false; // Flag to prevent operations after destroy
 	private isInitialized = false; // Prevent duplicate initialization
@@ -33,22 +89,43 @@ export class NoteIndexer {
 		app: App,
 		embedder: Embedder,
 		vectorStore: VectorStore,
+		keywordIndex: KeywordIndex,
+		manifest: IndexManifest,
 		journalFolder: string,
-		entitiesFolder: string
+		entitiesFolder: string,
+		scope: IndexScope = EMPTY_SCOPE
 	) {
 		this.app = app;
 		this.embedder = embedder;
 		this.vectorStore = vectorStore;
+		this.keywordIndex = keywordIndex;
+		this.manifest = manifest;
 		this.journalFolder = journalFolder;
 		this.entitiesFolder = entitiesFolder;
+		this.scope = scope;
 	}
 
-	updateSettings(journalFolder: string, entitiesFolder: string): void {
+	/**
+	 * Notes that leave or enter the scope are updated by the next full index run (Reindex)
+	 */
+	updateSettings(
+		journalFolder: string,
+		entitiesFolder: string,
+		scope: IndexScope = this.scope
+	): void {
 		const foldersChanged =
-			this.journalFolder !== journalFolder || this.entitiesFolder !== entitiesFolder;
+			this.journalFolder !== journalFolder ||
+			this.entitiesFolder !== entitiesFolder ||
+			!sameList(this.scope.includeFolders, scope.includeFolders) ||
+			!sameList(this.scope.excludeFolders, scope.excludeFolders);
+		// Manifest entries say nothing about the new tags, so every note is read again
+		if (!sameList(this.scope.excludeTags, scope.excludeTags)) {
+			this.manifest.clear();
+		}
 
 		this.journalFolder = journalFolder;
 		this.entitiesFolder = entitiesFolder;
+		this.scope = scope;
 
 		// Clear stale tracking data when folders change to prevent memory leaks
 		if (foldersChanged) {
@@ -114,7 +191,9 @@ export class NoteIndexer {
 		if (action === 'delete') {
 			// Cancel any pending update for this file
 			this.cancelPendingUpdate(file.path);
-			await this.vectorStore.delete(file.path);
+			this.manifest.delete(file.path);
+			this.keywordIndex.removeNote(file.path);
+			await this.vectorStore.deleteByPath(file.path);
 		} else {
 			// Debounce updates to avoid excessive indexing
 			this.debouncedIndex(file);
@@ -127,8 +206,10 @@ export class NoteIndexer {
 		// Cancel any pending update for old path
 		this.cancelPendingUpdate(oldPath);
 
-		// Delete old entry
-		await this.vectorStore.delete(oldPath);
+		// Delete old entries
+		this.manifest.delete(oldPath);
+		this.keywordIndex.removeNote(oldPath);
+		await this.vectorStore.deleteByPath(oldPath);
 
 		// Index with new path if it's a target file
 		if (this.isTargetFile(file)) {
@@ -245,16 +326,77 @@ export class NoteIndexer {
 		}
 	}
 
-	private isTargetFile(file: TFile): boolean {
+	/**
+	 * Whether a file belongs in the index: markdown under the journal or entities folder
+	 * or an included folder, and under no excluded folder
+	 * Excluded tags are only known once a note is read (see isExcludedByTags).
+	 */
+	isTargetFile(file: TFile): boolean {
 		if (!file.path.endsWith('.md')) return false;
+		if (matchesAnyGlob(file.path, this.scope.excludeFolders)) return false;
 
 		return (
 			file.path.startsWith(this.journalFolder + '/') ||
-			file.path.startsWith(this.entitiesFolder + '/')
+			file.path.startsWith(this.entitiesFolder + '/') ||
+			matchesAnyGlob(file.path, this.scope.includeFolders)
 		);
 	}
 
-	async indexAll(): Promise<{ indexed: number; errors: number }> {
+	/**
+	 * Whether a target note was left out of the index for an excluded tag when last read
+	 */
+	isExcludedByTags(file: TFile): boolean {
+		const entry = this.manifest.get(file.path, this.embedder.getDocumentFingerprint());
+		return entry?.excluded === true;
+	}
+
+	private hasExcludedTag(note: PreparedNote): boolean {
+		const excluded = this.scope.excludeTags.map(normalizeTag).filter((tag) => tag);
+		if (excluded.length === 0) return false;
+
+		return note.tags.some((tag) => {
+			const normalized = normalizeTag(tag);
+			return excluded.some((ex) => normalized === ex || normalized.startsWith(ex + '/'));
+		});
+	}
+
+	/**
+	 * Drop a note's chunks from both indexes and remember it as excluded
+	 */
+	private async excludeNote(note: PreparedNote, fingerprint: string): Promise<void> {
+		this.keywordIndex.removeNote(note.path);
+		await this.vectorStore.deleteByPath(note.path);
+		this.manifest.set(note.path, fingerprint, note.stat, note.hash, true);
+	}
+
+	/**
+	 * Remove indexed notes that are gone or no longer in the indexing scope
+	 */
+	private async pruneOutOfScope(): Promise<number> {
+		const paths = new Set([...this.vectorStore.getPaths(), ...this.keywordIndex.getPaths()]);
+		let pruned = 0;
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof ObsidianTFile && this.isTargetFile(file)) continue;
+
+			this.manifest.delete(path);
+			this.keywordIndex.removeNote(path);
+			await this.vectorStore.deleteByPath(path);
+			pruned++;
+		}
+		return pruned;
+	}
+
+	/**
+	 * Index target notes using batched embedding requests
+	 * Notes unchanged since their manifest entry are skipped without reading them;
+	 * chunks whose embedding input is unchanged only get their metadata refreshed.
+	 * Progress is checkpointed after every pass, so a run cut short by a restart
+	 * resumes where it stopped (see IndexManifest.hasUnfinishedRun).
+	 *
+	 * @throws AbortError when cancelled through `options.signal` (completed notes are kept)
+	 */
+	async indexAll(options: IndexAllOptions = {}): Promise<{ indexed: number; errors: number }> {
 		if (this.isIndexing) {
 			return { indexed: 0, errors: 0 };
 		}
@@ -265,35 +407,163 @@ export class NoteIndexer {
 			return { indexed: 0, errors: 0 };
 		}
 
+		const { full = false, signal, onProgress } = options;
 		this.isIndexing = true;
 		let indexed = 0;
+		let unchanged = 0;
+		let excluded = 0;
 		let errors = 0;
+		const fingerprint = this.embedder.getDocumentFingerprint();
+		this.manifest.startRun();
 
 		try {
-			// Get all markdown files in target folders
-			const files = this.app.vault.getMarkdownFiles().filter((f) => this.isTargetFile(f));
+			const pruned = await this.pruneOutOfScope();
+			if (pruned > 0) {
+				logger.info(`Removed ${pruned} notes outside the indexing scope`);
+			}
 
-			logger.info(`Indexing ${files.length} files...`);
+			const targets = this.app.vault.getMarkdownFiles().filter((f) => this.isTargetFile(f));
+			const files = full
+				? targets
+				: targets.filter((file) => !this.isIndexed(file, fingerprint));
+			unchanged = targets.length - files.length;
+			const total = files.length;
+			onProgress?.(0, total);
+
+			logger.info(`Indexing ${total} of ${targets.length} files...`);
+
+			// Read a slice of files at a time to bound memory on large vaults
+			for (let start = 0; start < total; start += NoteIndexer.FILES_PER_PASS) {
+				if (this.isDestroyed) break;
+				throwIfAborted(signal);
+
+				const slice = files.slice(start, start + NoteIndexer.FILES_PER_PASS);
+				const prepared: { note: PreparedNote; pending: PreparedChunk[] }[] = [];
+				for (const file of slice) {
+					try {
+						const note = await this.prepareFile(file);
+						if (this.hasExcludedTag(note)) {
+							await this.excludeNote(note, fingerprint);
+							excluded++;
+							continue;
+						}
+						if (!full && this.hasSameContent(note, fingerprint)) {
+							// Touched without an edit (e.g. by sync); only the stat changed
+							this.vectorStore.markIndexed(note.path);
+							this.recordIndexed(note, fingerprint);
+							unchanged++;
+							continue;
+						}
+						this.indexKeywords(note);
+						const pending = await this.reuseUnchangedChunks(note);
+						if (pending.length === 0) {
+							await this.removeStaleChunks(note);
+							this.recordIndexed(note, fingerprint);
+							unchanged++;
+							continue;
+						}
+						prepared.push({ note, pending });
+					} catch (error) {
+						logger.error(
+							`Failed to read ${file.path}:`,
+							error instanceof Error ? error : undefined
+						);
+						errors++;
+					}
+				}
 
-			for (const file of files) {
-				try {
-					await this.indexFile(file);
-					indexed++;
-				} catch (error) {
-					logger.error(
-						`Failed to index ${file.path}:`,
-						error instanceof Error ? error : undefined
+				if (prepared.length > 0) {
+					// Unchanged and unreadable notes in this slice count as done; a note is
+					// done once all of its chunks are
+					const settled = start + slice.length - prepared.length;
+					const chunkEnds: number[] = [];
+					for (const { pending } of prepared) {
+						chunkEnds.push((chunkEnds[chunkEnds.length - 1] ?? 0) + pending.length);
+					}
+					const { embeddings } = await this.embedder.embedBatch(
+						prepared.flatMap(({ pending }) => pending.map((chunk) => chunk.text)),
+						{
+							signal,
+							onProgress: (done) =>
+								onProgress?.(
+									settled + chunkEnds.filter((end) => end <= done).length,
+									total
+								),
+						}
 					);
-					errors++;
+					if (this.isDestroyed) break;
+
+					let cursor = 0;
+					for (const { note, pending } of prepared) {
+						const vectors = embeddings.slice(cursor, cursor + pending.length);
+						cursor += pending.length;
+						try {
+							if (await this.storeChunks(note, pending, vectors)) {
+								this.recordIndexed(note, fingerprint);
+								indexed++;
+							} else {
+								errors++; // No manifest entry, so the next run retries it
+							}
+						} catch (error) {
+							logger.error(
+								`Failed to index ${note.path}:`,
+								error instanceof Error ? error : undefined
+							);
+							errors++;
+						}
+					}
 				}
+
+				await this.checkpoint();
+				onProgress?.(Math.min(start + slice.length, total), total);
 			}
 
-			logger.info(`Indexed ${indexed} files, ${errors} errors`);
+			logger.info(
+				`Indexed ${indexed} files, ${unchanged} unchanged, ${excluded} excluded by tag, ${errors} errors`
+			);
 		} finally {
 			this.isIndexing = false;
+			// Only a run cut short by unloading is resumed; a cancelled one is left as is
+			if (!this.isDestroyed) {
+				this.manifest.finishRun();
+				await this.checkpoint();
+			}
 		}
 
-		return { indexed, errors };
+		return { indexed: indexed + unchanged, errors };
+	}
+
+	/**
+	 * Whether a note is indexed (or excluded) as it is now, judged by its manifest entry alone
+	 */
+	private isIndexed(file: TFile, fingerprint: string): boolean {
+		const entry = this.manifest.get(file.path, fingerprint);
+		return (
+			entry !== undefined &&
+			entry.mtime === file.stat.mtime &&
+			entry.size === file.stat.size &&
+			(entry.excluded === true || this.vectorStore.getItemsByPath(file.path).length > 0)
+		);
+	}
+
+	private hasSameContent(note: PreparedNote, fingerprint: string): boolean {
+		const entry = this.manifest.get(note.path, fingerprint);
+		return (
+			entry?.hash === note.hash &&
+			(entry.excluded === true || this.vectorStore.getItemsByPath(note.path).length > 0)
+		);
+	}
+
+	private recordIndexed(note: PreparedNote, fingerprint: string): void {
+		this.manifest.set(note.path, fingerprint, note.stat, note.hash);
+	}
+
+	/**
+	 * Persist vectors and the manifest together, so completed notes survive a restart
+	 */
+	private async checkpoint(): Promise<void> {
+		await this.vectorStore.flush();
+		await this.manifest.flush();
 	}
 
 	async indexFile(file: TFile): Promise<void> {
@@ -303,29 +573,46 @@ export class NoteIndexer {
 		}
 
 		try {
-			// Read file content
-			const content = await this.app.vault.read(file);
+			const note = await this.prepareFile(file);
 
 			// Check again after async operation
 			if (this.isDestroyed) return;
 
-			// Parse frontmatter and content
-			const { frontmatter, body } = parseFrontmatter(content);
+			const fingerprint = this.embedder.getDocumentFingerprint();
+			if (this.hasExcludedTag(note)) {
+				await this.excludeNote(note, fingerprint);
+				return;
+			}
+
+			this.indexKeywords(note);
 
-			// Extract metadata
-			const metadata = this.extractMetadata(file, frontmatter, body);
+			// Vectors of another model can't join the store; the reindex prompt takes care of it
+			if (!this.vectorStore.isCompatibleWith(this.embedder.getModelId())) {
+				logger.debug(`Skipping embedding of ${file.path}: model changed, reindex pending`);
+				return;
+			}
 
-			// Create text for embedding
-			const embeddingText = this.createEmbeddingText(metadata);
+			// Only sections that changed need the API (e.g. a session appended to the day)
+			const pending = await this.reuseUnchangedChunks(note);
+			if (pending.length === 0) {
+				await this.removeStaleChunks(note);
+				this.recordIndexed(note, fingerprint);
+				return;
+			}
 
-			// Generate embedding
-			const vector = await this.embedder.embedDocument(embeddingText);
+			const { embeddings, failureCount } = await this.embedder.embedBatch(
+				pending.map((chunk) => chunk.text)
+			);
 
 			// Check again after async operation
 			if (this.isDestroyed) return;
 
-			// Upsert to vector store
-			await this.vectorStore.upsert(file.path, vector, metadata);
+			if (await this.storeChunks(note, pending, embeddings)) {
+				this.recordIndexed(note, fingerprint);
+			}
+			if (failureCount > 0) {
+				throw new EmbeddingError(getTranslations().errors.embeddingGenerateFailed);
+			}
 		} catch (error) {
 			// Don't log errors if destroyed during operation
 			if (this.isDestroyed) return;
@@ -338,6 +625,146 @@ export class NoteIndexer {
 		}
 	}
 
+	/**
+	 * Update the keyword index; it needs no API, so it stays current even when embedding fails
+	 */
+	private indexKeywords(note: PreparedNote): void {
+		this.keywordIndex.setNote(
+			note.path,
+			note.chunks.map((chunk) => ({
+				id: chunk.id,
+				text: [chunk.text, ...chunk.metadata.tags].join('\n'),
+				metadata: chunk.metadata,
+			}))
+		);
+	}
+
+	/**
+	 * Store chunks whose embedding input is unchanged without calling the API
+	 * A chunk may take the vector of any stored chunk of the same note with the same
+	 * hash, so inserting a section doesn't re-embed everything after it.
+	 * @returns chunks that still need embedding
+	 */
+	private async reuseUnchangedChunks(note: PreparedNote): Promise<PreparedChunk[]> {
+		const vectorsByHash = new Map<string, number[]>();
+		for (const item of this.vectorStore.getItemsByPath(note.path)) {
+			if (item.contentHash) {
+				vectorsByHash.set(item.contentHash, item.vector);
+			}
+		}
+
+		const pending: PreparedChunk[] = [];
+		for (const chunk of note.chunks) {
+			if (this.vectorStore.getContentHash(chunk.id) === chunk.contentHash) {
+				// Same input at the same position; offsets or category may still differ
+				this.vectorStore.updateMetadata(chunk.id, chunk.metadata);
+				continue;
+			}
+			const vector = vectorsByHash.get(chunk.contentHash);
+			if (vector) {
+				await this.vectorStore.upsert(chunk.id, vector, chunk.metadata, chunk.contentHash);
+			} else {
+				pending.push(chunk);
+			}
+		}
+		return pending;
+	}
+
+	/**
+	 * Store freshly embedded chunks and drop chunks the note no longer has
+	 * @param vectors - Embeddings for `pending` in order (null where embedding failed)
+	 * @returns whether every chunk was stored
+	 */
+	private async storeChunks(
+		note: PreparedNote,
+		pending: PreparedChunk[],
+		vectors: (number[] | null)[]
+	): Promise<boolean> {
+		let complete = true;
+		for (let i = 0; i < pending.length; i++) {
+			const vector = vectors[i];
+			if (!vector) {
+				complete = false;
+				continue;
+			}
+			const chunk = pending[i];
+			await this.vectorStore.upsert(chunk.id, vector, chunk.metadata, chunk.contentHash);
+		}
+		await this.removeStaleChunks(note);
+		return complete;
+	}
+
+	/**
+	 * Delete stored items of the note that aren't among its current chunks
+	 * (sections removed, or the whole-note item from before chunking)
+	 */
+	private async removeStaleChunks(note: PreparedNote): Promise<void> {
+		const current = new Set(note.chunks.map((chunk) => chunk.id));
+		for (const item of this.vectorStore.getItemsByPath(note.path)) {
+			if (!current.has(item.id)) {
+				await this.vectorStore.delete(item.id);
+			}
+		}
+	}
+
+	/**
+	 * Read a note and split it into chunks with metadata, embedding text and content hash
+	 */
+	private async prepareFile(file: TFile): Promise<PreparedNote> {
+		// Read file content
+		const content = await this.app.vault.read(file);
+
+		// Parse frontmatter and content
+		const { frontmatter, body } = parseFrontmatter(content);
+		const bodyOffset = content.length - body.length;
+
+		// Extract metadata
+		const metadata = this.extractMetadata(file, frontmatter, body);
+		const fingerprint = this.embedder.getDocumentFingerprint();
+
+		// Decisions and insights get chunks of their own so they can match on their own
+		const separateSections = getAllTranslations().flatMap((t) => [
+			t.notes.decisions,
+			t.notes.insights,
+		]);
+		const chunks = splitIntoChunks(body, {
+			separateSections,
+			maxLength: NoteIndexer.MAX_CHUNK_LENGTH,
+		}).map((chunk) => ({
+			headings: chunk.headings,
+			offset: bodyOffset + chunk.offset,
+			plainText: toPlainText(chunk.text),
+		}));
+
+		// Notes with no body text are still findable by title and tags
+		if (chunks.length === 0) {
+			logger.warn(`Note has minimal content for embedding: ${file.path}`);
+			chunks.push({ headings: [], offset: 0, plainText: metadata.tags.join(' ') });
+		}
+
+		return {
+			path: file.path,
+			stat: { mtime: file.stat.mtime, size: file.stat.size },
+			hash: hashContent(content),
+			tags: metadata.tags,
+			chunks: chunks.map((chunk, index) => {
+				const text = [metadata.title, ...chunk.headings, chunk.plainText].join('\n').trim();
+				return {
+					id: `${file.path}#${index}`,
+					metadata: {
+						...metadata,
+						chunkIndex: index,
+						headings: chunk.headings,
+						offset: chunk.offset,
+						passage: chunk.plainText.slice(0, NoteIndexer.MAX_PASSAGE_LENGTH),
+					},
+					text,
+					contentHash: hashContent(`${fingerprint}\n${text}`),
+				};
+			}),
+		};
+	}
+
 	private extractMetadata(
 		file: TFile,
 		frontmatter: Record<string, unknown>,
@@ -369,35 +796,76 @@ export class NoteIndexer {
 		const frontmatterTags = getFrontmatterStringArray(safeFrontmatter, 'tags');
 		const allTags = [...new Set([...frontmatterTags, ...inlineTags])];
 
-		// Determine type
-		const type = file.path.startsWith(this.entitiesFolder + '/') ? 'entity' : 'session';
+		const type = this.getNoteType(file, getFrontmatterString(safeFrontmatter, 'type', ''));
 
-		return {
+		const metadata: VectorMetadata = {
 			path: file.path,
 			title,
 			date: getFrontmatterString(safeFrontmatter, 'date', this.getFileDate(file)),
 			summary: summaryText,
 			tags: allTags,
 			category: getFrontmatterString(safeFrontmatter, 'category', 'life'),
-			type: type as 'session' | 'entity',
+			type,
 		};
+		if (type === 'entity') {
+			const entityType = getFrontmatterString(safeFrontmatter, 'entity_type', 'other');
+			metadata.entityType = NoteIndexer.ENTITY_TYPES.includes(entityType as EntityType)
+				? (entityType as EntityType)
+				: 'other';
+		}
+		if (type === 'goal') {
+			const status = getFrontmatterString(safeFrontmatter, 'status', 'active');
+			const priority = getFrontmatterString(safeFrontmatter, 'priority', 'medium');
+			metadata.goalStatus = NoteIndexer.GOAL_STATUSES.includes(status as GoalStatus)
+				? (status as GoalStatus)
+				: 'active';
+			metadata.goalPriority = NoteIndexer.GOAL_PRIORITIES.includes(
+				priority as Goal['priority']
+			)
+				? (priority as Goal['priority'])
+				: 'medium';
+			metadata.date = getFrontmatterString(safeFrontmatter, 'created', metadata.date);
+		}
+		if (type === 'report') {
+			const period = this.getReportPeriod(safeFrontmatter, body);
+			if (period) {
+				metadata.periodStart = period.start;
+				metadata.periodEnd = period.end;
+				metadata.date = period.end;
+			}
+		}
+		return metadata;
 	}
 
-	private createEmbeddingText(metadata: VectorMetadata): string {
-		const parts = [
-			metadata.title || 'Untitled',
-			metadata.summary || '',
-			metadata.tags.join(' '),
-		];
-
-		const text = parts.join('\n').trim();
+	/**
+	 * Goals and reports are told apart by their frontmatter type (reports written before
+	 * it was added by their folder); notes from included folders are cited apart from sessions
+	 */
+	private getNoteType(file: TFile, declaredType: string): NoteType {
+		if (declaredType === 'goal') return 'goal';
+		if (declaredType === 'report' || file.path.startsWith(this.journalFolder + '/reports/')) {
+			return 'report';
+		}
+		if (file.path.startsWith(this.entitiesFolder + '/')) return 'entity';
+		if (file.path.startsWith(this.journalFolder + '/')) return 'session';
+		return 'note';
+	}
 
-		// Ensure we have meaningful content for embedding
-		if (!text || text === 'Untitled') {
-			logger.warn(`Note has minimal content for embedding: ${metadata.path}`);
+	/**
+	 * Days a report covers, from its frontmatter or else its "(start - end)" title
+	 */
+	private getReportPeriod(
+		frontmatter: Record<string, unknown>,
+		body: string
+	): { start: string; end: string } | null {
+		const start = getFrontmatterString(frontmatter, 'period_start', '');
+		const end = getFrontmatterString(frontmatter, 'period_end', '');
+		if (DATE_PATTERN.test(start) && DATE_PATTERN.test(end)) {
+			return { start, end };
 		}
 
-		return text || 'Untitled note';
+		const title = body.match(/^#\s+.*\((\d{4}-\d{2}-\d{2}) - (\d{4}-\d{2}-\d{2})\)/m);
+		return title ? { start: title[1], end: title[2] } : null;
 	}
 
 	private getFileDate(file: TFile): string {
@@ -411,3 +879,11 @@ export class NoteIndexer {
 		return new Date(file.stat.ctime).toISOString().split('T')[0];
 	}
 }
+
+function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+function sameList(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((value, index) => value === b[index]);
+}
@@ -0,0 +1,568 @@
+import type {
+	ApiUsage,
+	ChatMessage,
+	LLMProviderType,
+	OpenRouterModel,
+	StreamChunk,
+	UsageListener,
+} from '../types';
+import type {
+	CompletionOptions,
+	ConnectionTestResult,
+	LLMProvider,
+	StructuredOutputSupport,
+} from './LLMProvider';
+import {
+	ApiError,
+	createAbortError,
+	isTransientApiError,
+	throwIfAborted,
+	withRetry,
+} from '../utils/errors';
+import { getTranslations } from '../i18n';
+import { logger } from '../utils/logger';
+
+export interface OpenAICompatibleConfig {
+	baseUrl: string;
+	apiKey: string;
+	headers: Record<string, string>;
+	onUsage?: UsageListener;
+}
+
+/**
+ * Parse custom headers entered as "Name: value" lines
+ * Invalid lines are skipped so a typo can't break every request
+ */
+export function parseCustomHeaders(text: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	if (!text) return headers;
+
+	for (const line of text.split('\n')) {
+		const colonIndex = line.indexOf(':');
+		if (colonIndex <= 0) continue;
+
+		const name = line.slice(0, colonIndex).trim();
+		const value = line.slice(colonIndex + 1).trim();
+		// Only allow RFC 7230 token characters in header names
+		if (!/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(name) || !value) {
+			logger.warn(`Skipping invalid custom header line: ${name}`);
+			continue;
+		}
+		headers[name] = value;
+	}
+
+	return headers;
+}
+
+/**
+ * Client for any server implementing the OpenAI chat completions API
+ * (llama.cpp, Ollama, vLLM, LM Studio, ...). The API key is optional.
+ */
+export class OpenAICompatibleClient implements LLMProvider {
+	readonly type: LLMProviderType = 'openai-compatible';
+
+	protected baseUrl: string;
+	protected apiKey: string;
+	protected customHeaders: Record<string, string>;
+	private onUsage: UsageListener | null;
+	// Model id -> model info, loaded lazily from /models
+	private modelInfo: Promise<Map<string, OpenRouterModel>> | null = null;
+	private modelInfoLoadedAt = 0;
+	private timeout = 60000; // 60 seconds
+	private streamReadTimeout = 30000; // 30 seconds between chunks
+	private static readonly MAX_RESPONSE_LENGTH = 500000; // 500KB max response
+	private static readonly MODEL_LIST_RETRY_MS = 5 * 60 * 1000; // Refetch an empty model list after this
+
+	constructor(config: OpenAICompatibleConfig) {
+		this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+		this.apiKey = config.apiKey;
+		this.customHeaders = config.headers;
+		this.onUsage = config.onUsage ?? null;
+	}
+
+	setApiKey(apiKey: string): void {
+		this.apiKey = apiKey;
+	}
+
+	isConfigured(): boolean {
+		return /^https?:\/\/.+/.test(this.baseUrl);
+	}
+
+	/**
+	 * Message shown when a request is attempted before the client is configured
+	 */
+	protected getNotConfiguredMessage(): string {
+		return getTranslations().errors.endpointNotConfigured;
+	}
+
+	/**
+	 * Forward the API's usage block to the listener (servers may omit it)
+	 */
+	private reportUsage(
+		options: CompletionOptions,
+		model: string,
+		usage: ApiUsage | null | undefined
+	): void {
+		if (!this.onUsage || !usage) return;
+		try {
+			this.onUsage({
+				purpose: options.purpose ?? 'chat',
+				model,
+				promptTokens: Number(usage.prompt_tokens) || 0,
+				completionTokens: Number(usage.completion_tokens) || 0,
+			});
+		} catch (error) {
+			// Usage tracking must never break a completion
+			logger.error('Usage listener failed:', error instanceof Error ? error : undefined);
+		}
+	}
+
+	protected getHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+			...this.customHeaders,
+		};
+		if (this.apiKey) {
+			headers.Authorization = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
+	/**
+	 * @param signal - Caller's cancellation signal; aborting rejects with an AbortError
+	 *                 rather than the timeout error
+	 */
+	private async fetchWithTimeout(
+		url: string,
+		options: RequestInit,
+		signal?: AbortSignal
+	): Promise<Response> {
+		throwIfAborted(signal);
+		const controller = new AbortController();
+		const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+		const onAbort = () => controller.abort();
+		signal?.addEventListener('abort', onAbort);
+
+		try {
+			const response = await fetch(url, {
+				...options,
+				signal: controller.signal,
+			});
+			return response;
+		} catch (error) {
+			const t = getTranslations();
+			if (signal?.aborted) {
+				throw createAbortError();
+			}
+			if (error instanceof Error && error.name === 'AbortError') {
+				throw new ApiError(t.errors.timeout, 408);
+			}
+			throw ApiError.networkError(error as Error);
+		} finally {
+			clearTimeout(timeoutId);
+			signal?.removeEventListener('abort', onAbort);
+		}
+	}
+
+	/**
+	 * Run a request against the primary model, then each fallback in order
+	 * Only transient failures (rate limits, timeouts, 5xx) trigger a failover;
+	 * anything else (bad key, bad request) would fail the same way on every model.
+	 */
+	private async withFailover<T>(
+		options: CompletionOptions,
+		attempt: (model: string, hasFallback: boolean) => Promise<T>
+	): Promise<T> {
+		const models = [options.model, ...(options.fallbackModels ?? [])].filter(
+			(model, index, all) => model.length > 0 && all.indexOf(model) === index
+		);
+
+		let lastError: unknown = new ApiError('No model configured', 400);
+		for (let i = 0; i < models.length; i++) {
+			const hasFallback = i < models.length - 1;
+			try {
+				const result = await attempt(models[i], hasFallback);
+				if (i > 0) {
+					logger.info(`Request served by fallback model: ${models[i]}`);
+				}
+				options.onModelUsed?.(models[i]);
+				return result;
+			} catch (error) {
+				lastError = error;
+				if (!hasFallback || !isTransientApiError(error)) {
+					throw error;
+				}
+				const status = error instanceof ApiError ? error.statusCode : undefined;
+				logger.warn(
+					`Model ${models[i]} unavailable (${status ?? 'error'}), falling back to ${models[i + 1]}`
+				);
+			}
+		}
+		throw lastError;
+	}
+
+	async complete(messages: ChatMessage[], options: CompletionOptions): Promise<string> {
+		if (!this.isConfigured()) {
+			throw new ApiError(this.getNotConfiguredMessage(), 401);
+		}
+
+		// Validate messages array to prevent API errors
+		if (!messages || messages.length === 0) {
+			throw new ApiError('Messages array cannot be empty', 400);
+		}
+
+		try {
+			return await this.completeWithFailover(messages, options);
+		} catch (error) {
+			// Servers (or a fallback model) that don't understand response_format reject
+			// the request outright; the prompt alone still asks for the right format
+			if (options.responseFormat && error instanceof ApiError && error.statusCode === 400) {
+				logger.warn(
+					`Request with response_format rejected, retrying without it: ${error.message}`
+				);
+				return this.completeWithFailover(messages, {
+					...options,
+					responseFormat: undefined,
+				});
+			}
+			throw error;
+		}
+	}
+
+	private async completeWithFailover(
+		messages: ChatMessage[],
+		options: CompletionOptions
+	): Promise<string> {
+		return this.withFailover(options, (model, hasFallback) =>
+			withRetry(
+				async () => {
+					const response = await this.fetchWithTimeout(
+						`${this.baseUrl}/chat/completions`,
+						{
+							method: 'POST',
+							headers: this.getHeaders(),
+							body: JSON.stringify({
+								model,
+								messages,
+								temperature: options.temperature ?? 0.7,
+								max_tokens: options.maxTokens ?? 2048,
+								stream: false,
+								...(options.responseFormat
+									? { response_format: options.responseFormat }
+									: {}),
+							}),
+						},
+						options.signal
+					);
+
+					if (!response.ok) {
+						const errorBody = await response.json().catch(() => ({}));
+						throw ApiError.fromResponse(response.status, errorBody);
+					}
+
+					const data = await response.json();
+
+					// Validate response structure
+					if (!data || !Array.isArray(data.choices) || data.choices.length === 0) {
+						throw new ApiError('Invalid API response: missing choices array', 500);
+					}
+
+					this.reportUsage(options, model, data.usage);
+
+					// Ensure content is a string (API could return other types)
+					const rawContent = data.choices[0]?.message?.content;
+					const content = typeof rawContent === 'string' ? rawContent : '';
+
+					// Validate response length to prevent memory issues
+					if (content.length > OpenAICompatibleClient.MAX_RESPONSE_LENGTH) {
+						logger.warn('API response exceeded maximum length, truncating');
+						const t = getTranslations();
+						return (
+							content.slice(0, OpenAICompatibleClient.MAX_RESPONSE_LENGTH) +
+							t.errors.truncationMarker
+						);
+					}
+
+					return content;
+				},
+				{
+					// Fail over quickly instead of waiting out backoff when a fallback exists
+					maxRetries: hasFallback ? 0 : 2,
+					delayMs: 1000,
+					shouldRetry: (error) => {
+						if (error instanceof ApiError) {
+							// Retry on server errors and rate limits
+							return error.statusCode === 429 || (error.statusCode ?? 0) >= 500;
+						}
+						return false;
+					},
+				}
+			)
+		);
+	}
+
+	async stream(
+		messages: ChatMessage[],
+		options: CompletionOptions,
+		onChunk: (chunk: string) => void
+	): Promise<string> {
+		const t = getTranslations();
+		if (!this.isConfigured()) {
+			throw new ApiError(this.getNotConfiguredMessage(), 401);
+		}
+
+		// Validate messages array to prevent API errors
+		if (!messages || messages.length === 0) {
+			throw new ApiError('Messages array cannot be empty', 400);
+		}
+
+		// Failover is only possible before the first chunk arrives: once text has
+		// been shown to the user, switching models would produce a spliced answer
+		let model = options.model;
+		const response = await this.withFailover(options, async (candidate) => {
+			const res = await this.fetchWithTimeout(
+				`${this.baseUrl}/chat/completions`,
+				{
+					method: 'POST',
+					headers: this.getHeaders(),
+					body: JSON.stringify({
+						model: candidate,
+						messages,
+						temperature: options.temperature ?? 0.7,
+						max_tokens: options.maxTokens ?? 2048,
+						stream: true,
+						// Ask for a final chunk with token counts
+						stream_options: { include_usage: true },
+					}),
+				},
+				options.signal
+			);
+
+			if (!res.ok) {
+				const errorBody = await res.json().catch(() => ({}));
+				throw ApiError.fromResponse(res.status, errorBody);
+			}
+			model = candidate;
+			return res;
+		});
+
+		if (!response.body) {
+			throw new ApiError(t.errors.noResponseBody, 500);
+		}
+
+		let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+		const decoder = new TextDecoder();
+		let fullContent = '';
+		let buffer = '';
+
+		/**
+		 * Read with timeout - throws if no data received within streamReadTimeout
+		 * Uses settled flag to prevent double resolution and ensure cleanup
+		 */
+		const readWithTimeout = async (): Promise<ReadableStreamReadResult<Uint8Array>> => {
+			return new Promise((resolve, reject) => {
+				let settled = false;
+				const timeoutId = setTimeout(() => {
+					if (!settled) {
+						settled = true;
+						reject(new ApiError(t.errors.timeout, 408));
+					}
+				}, this.streamReadTimeout);
+
+				reader!
+					.read()
+					.then((result) => {
+						clearTimeout(timeoutId);
+						if (!settled) {
+							settled = true;
+							resolve(result);
+						}
+					})
+					.catch((error) => {
+						clearTimeout(timeoutId);
+						if (!settled) {
+							settled = true;
+							reject(error);
+						}
+					});
+			});
+		};
+
+		// Cancelling the reader closes the connection so the server stops generating
+		const onAbort = () => {
+			reader?.cancel().catch(() => {
+				/* already closed */
+			});
+		};
+		options.signal?.addEventListener('abort', onAbort);
+
+		try {
+			reader = response.body.getReader();
+
+			while (true) {
+				const { done, value } = await readWithTimeout();
+				if (done || options.signal?.aborted) break;
+
+				buffer += decoder.decode(value, { stream: true });
+
+				// Process complete lines
+				const lines = buffer.split('\n');
+				buffer = lines.pop() || '';
+
+				for (const line of lines) {
+					const trimmedLine = line.trim();
+					if (!trimmedLine || !trimmedLine.startsWith('data:')) continue;
+
+					const data = trimmedLine.slice(5).trim();
+					if (data === '[DONE]') continue;
+
+					try {
+						const chunk: StreamChunk = JSON.parse(data);
+						if (chunk.usage) {
+							this.reportUsage(options, model, chunk.usage);
+						}
+						const content = chunk.choices?.[0]?.delta?.content;
+						if (content) {
+							// Enforce response length limit to prevent memory issues
+							if (
+								fullContent.length + content.length >
+								OpenAICompatibleClient.MAX_RESPONSE_LENGTH
+							) {
+								logger.warn(
+									'Streaming response exceeded maximum length, truncating'
+								);
+								break;
+							}
+							fullContent += content;
+							onChunk(content);
+						}
+					} catch {
+						// Log skipped chunks at debug level for diagnosis
+						logger.debug(
+							`Skipped invalid JSON chunk: ${data.slice(0, 100)}${data.length > 100 ? '...' : ''}`
+						);
+					}
+				}
+			}
+		} catch (error) {
+			if (options.signal?.aborted) {
+				throw createAbortError();
+			}
+			throw error;
+		} finally {
+			options.signal?.removeEventListener('abort', onAbort);
+			if (reader) {
+				reader.releaseLock();
+			}
+		}
+
+		// A cancelled read ends like a normal stream; don't pass partial text off as complete
+		throwIfAborted(options.signal);
+
+		return fullContent;
+	}
+
+	async fetchModels(): Promise<OpenRouterModel[]> {
+		if (!this.isConfigured()) {
+			return [];
+		}
+
+		try {
+			const response = await this.fetchWithTimeout(`${this.baseUrl}/models`, {
+				method: 'GET',
+				headers: this.getHeaders(),
+			});
+
+			if (!response.ok) {
+				throw ApiError.fromResponse(response.status);
+			}
+
+			const data = await response.json();
+
+			// Validate response structure
+			if (!data || !Array.isArray(data.data)) {
+				logger.warn('Invalid models API response structure');
+				return [];
+			}
+
+			// Filter and validate each model
+			return data.data.filter(
+				(model: unknown): model is OpenRouterModel =>
+					typeof model === 'object' &&
+					model !== null &&
+					typeof (model as Record<string, unknown>).id === 'string'
+			);
+		} catch (error) {
+			logger.error('Failed to fetch models:', error instanceof Error ? error : undefined);
+			return [];
+		}
+	}
+
+	/**
+	 * Look up structured output support from the model list's supported_parameters
+	 * Servers that don't publish capabilities report 'none'
+	 */
+	async getStructuredOutputSupport(model: string): Promise<StructuredOutputSupport> {
+		const parameters = (await this.getModelInfo(model))?.supported_parameters;
+		if (!Array.isArray(parameters)) return 'none';
+		if (parameters.includes('structured_outputs')) return 'json_schema';
+		if (parameters.includes('response_format')) return 'json_object';
+		return 'none';
+	}
+
+	/**
+	 * Context window of a model from the model list's context_length
+	 * @returns null if the server doesn't publish it
+	 */
+	async getContextLength(model: string): Promise<number | null> {
+		const contextLength = (await this.getModelInfo(model))?.context_length;
+		return typeof contextLength === 'number' && contextLength > 0 ? contextLength : null;
+	}
+
+	private async getModelInfo(model: string): Promise<OpenRouterModel | undefined> {
+		// An empty list usually means the fetch failed; try again after a while
+		if (
+			this.modelInfo &&
+			(await this.modelInfo).size === 0 &&
+			Date.now() - this.modelInfoLoadedAt > OpenAICompatibleClient.MODEL_LIST_RETRY_MS
+		) {
+			this.modelInfo = null;
+		}
+		if (!this.modelInfo) {
+			this.modelInfoLoadedAt = Date.now();
+			this.modelInfo = this.fetchModels().then(
+				(models) => new Map(models.map((m) => [m.id, m]))
+			);
+		}
+		return (await this.modelInfo).get(model);
+	}
+
+	async testConnection(): Promise<ConnectionTestResult> {
+		const t = getTranslations();
+		if (!this.isConfigured()) {
+			return { success: false, message: this.getNotConfiguredMessage() };
+		}
+
+		try {
+			const response = await this.fetchWithTimeout(`${this.baseUrl}/models`, {
+				method: 'GET',
+				headers: this.getHeaders(),
+			});
+
+			if (response.ok) {
+				return { success: true, message: t.notices.connectionSuccess };
+			}
+
+			if (response.status === 401) {
+				return { success: false, message: t.errors.invalidApiKey };
+			}
+
+			return { success: false, message: `${t.notices.connectionFailed}${response.status}` };
+		} catch (error) {
+			if (error instanceof ApiError) {
+				return { success: false, message: error.message };
+			}
+			return { success: false, message: t.errors.networkError };
+		}
+	}
+}
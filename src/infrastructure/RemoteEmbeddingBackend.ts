@@ -0,0 +1,224 @@
+import type { EmbeddingBackendType, UsageListener, UsagePurpose } from '../types';
+import type { EmbeddingBackend } from './EmbeddingBackend';
+import type { OpenAICompatibleConfig } from './OpenAICompatibleClient';
+import { OPENROUTER_APP_HEADERS, OPENROUTER_BASE_URL } from './OpenRouterClient';
+import { ApiError, createAbortError, isTransientApiError, throwIfAborted } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export interface RemoteEmbeddingConfig extends OpenAICompatibleConfig {
+	model: string;
+	// Should produce the same vector space as `model` (e.g. the same model served elsewhere)
+	fallbackModels?: string[];
+}
+
+/**
+ * Embeddings via the OpenAI-compatible /embeddings endpoint
+ */
+export class OpenAICompatibleEmbeddingBackend implements EmbeddingBackend {
+	readonly type: EmbeddingBackendType = 'openai-compatible';
+	readonly usesTaskPrefixes = true;
+
+	protected baseUrl: string;
+	protected apiKey: string;
+	protected customHeaders: Record<string, string>;
+	private primaryModel: string;
+	private fallbackModels: string[];
+	private lastUsedModel: string;
+	private onUsage: UsageListener | null;
+
+	private static readonly EMBEDDING_TIMEOUT_MS = 30000;
+
+	constructor(config: RemoteEmbeddingConfig) {
+		this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+		this.apiKey = config.apiKey;
+		this.customHeaders = config.headers;
+		this.primaryModel = config.model;
+		this.fallbackModels = (config.fallbackModels ?? []).filter(
+			(model) => model.length > 0 && model !== config.model
+		);
+		this.lastUsedModel = config.model;
+		this.onUsage = config.onUsage ?? null;
+	}
+
+	/**
+	 * The model that produced the most recent vectors (primary until a failover happens)
+	 */
+	get model(): string {
+		return this.lastUsedModel;
+	}
+
+	get configuredModel(): string {
+		return this.primaryModel;
+	}
+
+	isConfigured(): boolean {
+		return /^https?:\/\/.+/.test(this.baseUrl) && this.primaryModel.length > 0;
+	}
+
+	protected getHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+			...this.customHeaders,
+		};
+		if (this.apiKey) {
+			headers.Authorization = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
+	async embed(
+		texts: string[],
+		signal?: AbortSignal,
+		purpose: UsagePurpose = 'embedding'
+	): Promise<number[][]> {
+		if (texts.length === 0) return [];
+
+		const models = [this.primaryModel, ...this.fallbackModels];
+		for (let i = 0; i < models.length; i++) {
+			try {
+				const vectors = await this.embedWithModel(texts, models[i], signal, purpose);
+				this.lastUsedModel = models[i];
+				return vectors;
+			} catch (error) {
+				if (i === models.length - 1 || !isTransientApiError(error)) {
+					throw error;
+				}
+				logger.warn(
+					`Embedding model ${models[i]} unavailable, falling back to ${models[i + 1]}`
+				);
+			}
+		}
+		// Unreachable: the loop either returns or throws on the last model
+		throw new Error('No embedding model configured');
+	}
+
+	private async embedWithModel(
+		texts: string[],
+		model: string,
+		signal: AbortSignal | undefined,
+		purpose: UsagePurpose
+	): Promise<number[][]> {
+		throwIfAborted(signal);
+		const controller = new AbortController();
+		const timeoutId = setTimeout(
+			() => controller.abort(),
+			OpenAICompatibleEmbeddingBackend.EMBEDDING_TIMEOUT_MS
+		);
+		const onAbort = () => controller.abort();
+		signal?.addEventListener('abort', onAbort);
+
+		try {
+			const response = await fetch(`${this.baseUrl}/embeddings`, {
+				method: 'POST',
+				headers: this.getHeaders(),
+				body: JSON.stringify({
+					model,
+					input: texts.length === 1 ? texts[0] : texts,
+				}),
+				signal: controller.signal,
+			});
+
+			if (!response.ok) {
+				// Parse error safely without exposing sensitive data
+				let errorMessage = `HTTP ${response.status}`;
+				try {
+					const errorBody = await response.json();
+					// Only extract safe error fields - redact BEFORE truncating to avoid partial key leak
+					if (errorBody.error?.message) {
+						const redacted = this.redactSecrets(String(errorBody.error.message));
+						errorMessage = redacted.slice(0, 200);
+					} else if (errorBody.message) {
+						const redacted = this.redactSecrets(String(errorBody.message));
+						errorMessage = redacted.slice(0, 200);
+					}
+				} catch {
+					// If JSON parsing fails, use status text only
+					errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+				}
+				throw new ApiError(`Embedding API error: ${errorMessage}`, response.status);
+			}
+
+			const data = await response.json();
+
+			if (!data || !Array.isArray(data.data) || data.data.length !== texts.length) {
+				throw new Error('Invalid embedding response');
+			}
+
+			if (this.onUsage && data.usage) {
+				this.onUsage({
+					purpose,
+					model,
+					promptTokens: Number(data.usage.prompt_tokens) || 0,
+					completionTokens: 0,
+				});
+			}
+
+			// Servers may return items out of order; restore input order via index
+			const items = [...data.data].sort(
+				(a: { index?: number }, b: { index?: number }) => (a.index ?? 0) - (b.index ?? 0)
+			);
+			return items.map((item: { embedding?: unknown }) => {
+				if (!Array.isArray(item.embedding)) {
+					throw new Error('Invalid embedding response');
+				}
+				return item.embedding as number[];
+			});
+		} catch (error) {
+			if (signal?.aborted) {
+				throw createAbortError();
+			}
+			if (error instanceof Error && error.name === 'AbortError') {
+				throw new ApiError('Embedding request timed out', 408);
+			}
+			logger.error('Embedding error:', error instanceof Error ? error : undefined);
+			throw error;
+		} finally {
+			clearTimeout(timeoutId);
+			signal?.removeEventListener('abort', onAbort);
+		}
+	}
+
+	/**
+	 * Redact potential secrets from error messages
+	 * Removes patterns that look like API keys, tokens, or credentials
+	 */
+	private redactSecrets(message: string): string {
+		// Redact common API key patterns (sk-xxx, key-xxx, etc.)
+		const apiKeyPattern = /\b(sk-|key-|api[_-]?key[_-]?)[a-zA-Z0-9_-]{10,}\b/gi;
+		let redacted = message.replace(apiKeyPattern, '[REDACTED]');
+		// Redact Bearer tokens
+		redacted = redacted.replace(/Bearer\s+[a-zA-Z0-9_.-]+/gi, 'Bearer [REDACTED]');
+		// Redact long alphanumeric strings that look like secrets (32+ chars)
+		redacted = redacted.replace(/\b[a-zA-Z0-9_-]{32,}\b/g, '[REDACTED]');
+		return redacted;
+	}
+}
+
+/**
+ * OpenRouter embeddings API - fixed base URL and a mandatory API key
+ */
+export class OpenRouterEmbeddingBackend extends OpenAICompatibleEmbeddingBackend {
+	readonly type: EmbeddingBackendType = 'openrouter';
+
+	private static readonly MIN_API_KEY_LENGTH = 20;
+
+	constructor(
+		apiKey: string,
+		model: string,
+		fallbackModels: string[] = [],
+		onUsage?: UsageListener
+	) {
+		super({
+			baseUrl: OPENROUTER_BASE_URL,
+			apiKey,
+			headers: OPENROUTER_APP_HEADERS,
+			model,
+			fallbackModels,
+			onUsage,
+		});
+	}
+
+	isConfigured(): boolean {
+		return this.apiKey.length >= OpenRouterEmbeddingBackend.MIN_API_KEY_LENGTH;
+	}
+}
@@ -1,6 +1,16 @@
 import { App, TFile, TFolder } from 'obsidian';
+import type {
+	EntityType,
+	Goal,
+	GoalStatus,
+	NoteType,
+	VectorEncoding,
+	VectorFilter,
+} from '../types';
 import { withRetry } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { decodeShard, encodeShard } from '../utils/vectorCodec';
+import { HnswIndex } from './HnswIndex';
 
 export interface VectorMetadata {
 	path: string;
@@ -9,13 +19,25 @@ export interface VectorMetadata {
 	summary: string;
 	tags: string[];
 	category: string;
-	type: 'session' | 'entity';
+	type: NoteType;
+	entityType?: EntityType; // Entity notes only (frontmatter entity_type)
+	goalStatus?: GoalStatus; // Goal notes only
+	goalPriority?: Goal['priority']; // Goal notes only
+	periodStart?: string; // Report notes only: first day covered (YYYY-MM-DD)
+	periodEnd?: string; // Report notes only: last day covered, also its date
+	// Chunk fields; absent on whole-note items indexed by earlier versions
+	chunkIndex?: number; // Position of the chunk within the note
+	headings?: string[]; // Headings enclosing the chunk, outermost first
+	offset?: number; // Character offset of the chunk in the note file
+	passage?: string; // Chunk text (plain, truncated) shown as the matching passage
 }
 
 export interface VectorItem {
 	id: string;
 	vector: number[];
 	metadata: VectorMetadata;
+	contentHash?: string; // Hash of the embedding input; unchanged input skips re-embedding
+	indexedAt?: number; // When the note was last indexed into this item (ms); absent in older stores
 }
 
 export interface VectorSearchResult {
@@ -24,16 +46,110 @@ export interface VectorSearchResult {
 	metadata: VectorMetadata;
 }
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+function normalizeTag(tag: string): string {
+	return tag.replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Whether metadata matches a search filter (see VectorFilter)
+ */
+export function matchesFilter(metadata: VectorMetadata, filter: VectorFilter): boolean {
+	if (filter.type && metadata.type !== filter.type) return false;
+	if (
+		filter.entityTypes &&
+		(!metadata.entityType || !filter.entityTypes.includes(metadata.entityType))
+	) {
+		return false;
+	}
+	if (
+		filter.goalStatuses &&
+		(!metadata.goalStatus || !filter.goalStatuses.includes(metadata.goalStatus))
+	) {
+		return false;
+	}
+	if (filter.categories && !filter.categories.includes(metadata.category)) return false;
+
+	if (filter.dateFrom || filter.dateTo) {
+		const date = DATE_PATTERN.exec(metadata.date ?? '')?.[0];
+		if (!date) return false;
+		if (filter.dateFrom && date < filter.dateFrom) return false;
+		if (filter.dateTo && date > filter.dateTo) return false;
+	}
+
+	if (filter.tags) {
+		const tags = new Set((metadata.tags || []).map(normalizeTag));
+		const { any, all, none } = filter.tags;
+		if (any && any.length > 0 && !any.some((tag) => tags.has(normalizeTag(tag)))) {
+			return false;
+		}
+		if (all && !all.every((tag) => tags.has(normalizeTag(tag)))) return false;
+		if (none && none.some((tag) => tags.has(normalizeTag(tag)))) return false;
+	}
+
+	if (
+		filter.pathPrefixes &&
+		filter.pathPrefixes.length > 0 &&
+		!filter.pathPrefixes.some((prefix) => metadata.path.startsWith(prefix))
+	) {
+		return false;
+	}
+	return true;
+}
+
+// index.json: metadata for every item, grouped by the shard file holding its vector
+interface StoredIndex {
+	version: number;
+	embedding?: StoredEmbedding; // Absent in indexes written before models were recorded
+	shards: StoredShard[];
+}
+
+interface StoredEmbedding {
+	model: string | null;
+	dimension: number | null;
+}
+
+interface StoredShard {
+	shard: number;
+	revision: number; // Must match the shard file header
+	items: StoredEntry[]; // In row order
+}
+
+interface StoredEntry {
+	id: string;
+	metadata: VectorMetadata;
+	contentHash?: string;
+	indexedAt?: number;
+}
+
 /**
  * Browser-compatible vector store using Obsidian's vault API
- * Stores each vector in a separate JSON file for better scalability
+ * Vectors are kept in a few binary shard files plus a JSON metadata index.
+ * Notes are assigned to shards by path, so saving after an edit rewrites one shard.
+ * Large stores are searched through an HNSW graph (hnsw.bin) instead of a linear scan.
+ * A note is stored as one item per chunk (id `path#index`), grouped by metadata.path
+ * The embedding model that produced the vectors is recorded so a model change can be
+ * detected; vectors of another dimension are rejected instead of silently scoring 0.
  */
 export class VectorStore {
 	private app: App;
 	private vectorsDir: string;
 	private items: Map<string, VectorItem> = new Map();
-	private dirtyItems: Set<string> = new Set(); // Track which items need saving
-	private deletedItems: Set<string> = new Set(); // Track deleted items
+	private idsByPath: Map<string, Set<string>> = new Map(); // Note path -> item ids
+	private idsByType: Map<NoteType, Set<string>> = new Map(); // Narrows type-filtered searches
+	private dimensionCounts: Map<number, number> = new Map(); // Vector length -> item count
+	private embeddingModel: string | null = null; // Model the stored vectors came from, if known
+	private droppedOnLoad: Map<string, string> = new Map(); // Unreadable item id -> note path
+	private encoding: VectorEncoding;
+	private dirtyShards: Set<number> = new Set(); // Shards whose file needs rewriting
+	private indexDirty = false; // Metadata changed without a vector change
+	private shardRevisions: number[]; // Revision of each shard file as last written or loaded
+	private annIndex: HnswIndex | null = null;
+	private annReady = false; // Graph holds every item; search is exact until then
+	private annBuild: Promise<void> | null = null;
+	private annDirty = false; // Graph changed since it was last written
+	private lastAnnSave = 0;
 	private initialized = false;
 	private isInitializing = false; // Prevent concurrent initialization
 	private initializationError: Error | null = null; // Track initialization failures
@@ -42,13 +158,40 @@ export class VectorStore {
 
 	private static readonly SAVE_DEBOUNCE_MS = 1000;
 	private static readonly LEGACY_INDEX_FILE = 'vector-index.json';
+	private static readonly INDEX_FILE = 'index.json';
+	private static readonly INDEX_VERSION = 2;
+	private static readonly SHARD_COUNT = 16;
 	private static readonly MAX_VECTOR_DIMENSION = 4096; // Maximum embedding dimension supported
 	private static readonly MIN_VECTOR_DIMENSION = 64; // Minimum expected embedding dimension
-	private static readonly MAX_ITEMS_LIMIT = 10000; // Maximum number of vectors to load
-
-	constructor(app: App, basePath: string) {
+	private static readonly ANN_FILE = 'hnsw.bin';
+	private static readonly ANN_THRESHOLD = 5000; // Below this many vectors an exact scan is fast enough
+	private static readonly ANN_EF_SEARCH = 64;
+	private static readonly ANN_FILTERED_EF_FACTOR = 4; // Wider retry when a filter left too few hits
+	private static readonly ANN_BUILD_BATCH = 50; // Graph inserts between yields to the UI
+	private static readonly ANN_SAVE_INTERVAL_MS = 60000; // The graph file is large; also written on flush
+	private static readonly ANN_MAX_DELETED_RATIO = 0.5; // Rebuild once this share of nodes is deleted
+
+	constructor(app: App, basePath: string, encoding: VectorEncoding = 'float32') {
 		this.app = app;
 		this.vectorsDir = basePath.endsWith('/') ? `${basePath}vectors` : `${basePath}/vectors`;
+		this.encoding = encoding;
+		this.shardRevisions = new Array<number>(VectorStore.SHARD_COUNT).fill(0);
+	}
+
+	/**
+	 * Change the on-disk encoding; existing shards are rewritten on the next save
+	 */
+	setEncoding(encoding: VectorEncoding): void {
+		if (encoding === this.encoding) return;
+		this.encoding = encoding;
+		if (!this.initialized || this.initializationError) return;
+
+		for (const item of this.items.values()) {
+			this.dirtyShards.add(this.shardFor(item.metadata.path));
+		}
+		if (this.dirtyShards.size > 0) {
+			this.scheduleSave();
+		}
 	}
 
 	/**
@@ -79,6 +222,15 @@ export class VectorStore {
 
 			// Mark as initialized but with error - allows graceful degradation
 			this.items = new Map();
+			this.idsByPath = new Map();
+			this.idsByType = new Map();
+			this.dimensionCounts = new Map();
+			this.embeddingModel = null;
+			// Never write an empty store over vectors that failed to load
+			this.dirtyShards.clear();
+			this.indexDirty = false;
+			this.annIndex = null;
+			this.annDirty = false;
 			this.initialized = true;
 			this.initializationError = err;
 			// Reset saveLock to prevent deadlock if it was modified during failed init
@@ -96,15 +248,19 @@ export class VectorStore {
 		// Ensure vectors directory exists - this is critical
 		await this.ensureDirectory(this.vectorsDir);
 
-		// Check for legacy single-file format and migrate if needed
-		await this.migrateFromLegacyFormat();
+		// Load binary shards
+		await this.loadShards();
+
+		// Move vectors stored by earlier versions into shards
+		await this.migrateToShards();
 
-		// Load all vector files
-		await this.loadAllVectors();
+		// Restore the search graph; missing vectors are added in the background
+		await this.loadAnnIndex();
 
 		this.initialized = true;
 		this.initializationError = null;
 		logger.info(`Vector store initialized with ${this.items.size} items`);
+		this.ensureAnnIndex();
 	}
 
 	/**
@@ -121,121 +277,278 @@ export class VectorStore {
 		return this.initializationError;
 	}
 
-	private async migrateFromLegacyFormat(): Promise<void> {
-		const basePath = this.vectorsDir.substring(0, this.vectorsDir.lastIndexOf('/'));
-		const legacyPath = `${basePath}/${VectorStore.LEGACY_INDEX_FILE}`;
+	private async loadShards(): Promise<void> {
+		const indexFile = this.app.vault.getAbstractFileByPath(this.getIndexPath());
+		if (!(indexFile instanceof TFile)) {
+			return; // Nothing stored yet, or only the per-file JSON format
+		}
 
-		const legacyFile = this.app.vault.getAbstractFileByPath(legacyPath);
-		if (!(legacyFile instanceof TFile)) {
-			return; // No legacy file, nothing to migrate
+		let index: StoredIndex;
+		try {
+			index = JSON.parse(await this.app.vault.read(indexFile));
+		} catch (error) {
+			logger.error(
+				'Failed to read vector index, vectors will be re-embedded:',
+				error instanceof Error ? error : undefined
+			);
+			this.markAllShardsDirty();
+			return;
+		}
+		if (index.version !== VectorStore.INDEX_VERSION || !Array.isArray(index.shards)) {
+			logger.warn(
+				`Unsupported vector index version ${index.version}, ignoring stored vectors`
+			);
+			this.markAllShardsDirty();
+			return;
+		}
+		if (typeof index.embedding?.model === 'string') {
+			this.embeddingModel = index.embedding.model;
 		}
 
-		logger.info('Migrating from legacy vector-index.json format...');
+		let skippedCount = 0;
 
-		try {
-			const content = await this.app.vault.read(legacyFile);
-			const legacyData = JSON.parse(content);
-
-			if (legacyData.items && Array.isArray(legacyData.items)) {
-				// Transactional migration: track all successful creations
-				const createdFiles: string[] = [];
-				let migrationFailed = false;
-
-				// Save each item as individual file
-				for (const item of legacyData.items) {
-					const fileName = this.getFileNameForId(item.id);
-					const filePath = `${this.vectorsDir}/${fileName}`;
-					try {
-						await this.app.vault.create(filePath, JSON.stringify(item));
-						createdFiles.push(filePath);
-					} catch (createError) {
-						logger.error(
-							`Failed to create vector file during migration: ${filePath}`,
-							createError instanceof Error ? createError : undefined
-						);
-						migrationFailed = true;
-						break;
-					}
+		for (const stored of index.shards) {
+			const vectors = await this.readShard(stored);
+			if (!vectors) {
+				// Drop the shard; its notes are re-embedded on the next index run
+				this.dirtyShards.add(stored.shard);
+				this.indexDirty = true;
+				for (const entry of Array.isArray(stored.items) ? stored.items : []) {
+					this.recordDropped(entry);
+					skippedCount++;
 				}
-
-				if (migrationFailed) {
-					// Rollback: delete any files we created
-					logger.warn('Migration failed, rolling back created files...');
-					for (const filePath of createdFiles) {
-						try {
-							const file = this.app.vault.getAbstractFileByPath(filePath);
-							if (file instanceof TFile) {
-								await this.app.vault.delete(file);
-							}
-						} catch {
-							// Ignore rollback errors
-						}
-					}
-					logger.error('Migration aborted, legacy file preserved');
+				continue;
+			}
+			this.shardRevisions[stored.shard] = stored.revision;
+
+			stored.items.forEach((entry, row) => {
+				// Validate item structure and vector dimensions
+				// A skipped row leaves the shard one row shorter than on disk, so the shard
+				// must be rewritten together with the index
+				if (!entry?.id || !entry.metadata || typeof entry.metadata.path !== 'string') {
+					this.dirtyShards.add(stored.shard);
+					skippedCount++;
+					return;
+				}
+				const vector = vectors[row];
+				if (!this.isValidVectorForLoad(vector)) {
+					logger.debug(`Skipping vector ${entry.id}: invalid vector`);
+					this.recordDropped(entry);
+					this.dirtyShards.add(stored.shard);
+					skippedCount++;
 					return;
 				}
 
-				logger.info(`Migrated ${legacyData.items.length} vectors to individual files`);
+				const item: VectorItem = { id: entry.id, vector, metadata: entry.metadata };
+				if (typeof entry.contentHash === 'string') {
+					item.contentHash = entry.contentHash; // Otherwise forces a re-embed on next index
+				}
+				if (typeof entry.indexedAt === 'number') {
+					item.indexedAt = entry.indexedAt;
+				}
+				this.setItem(item);
 
-				// Only delete legacy file after all items successfully migrated
-				await this.app.vault.delete(legacyFile);
-				logger.info('Deleted legacy vector-index.json');
+				const shard = this.shardFor(entry.metadata.path);
+				if (shard !== stored.shard) {
+					this.dirtyShards.add(shard);
+					this.dirtyShards.add(stored.shard);
+				}
+			});
+		}
+
+		if (skippedCount > 0) {
+			logger.warn(`Skipped ${skippedCount} invalid vectors during load`);
+			this.indexDirty = true;
+		}
+	}
+
+	private recordDropped(entry: StoredEntry | undefined): void {
+		if (entry?.id && typeof entry.metadata?.path === 'string') {
+			this.droppedOnLoad.set(entry.id, entry.metadata.path);
+		}
+	}
+
+	/**
+	 * Read and decode a shard listed in the index
+	 * @returns vectors in row order, or null if the file is missing, corrupt or out of sync
+	 */
+	private async readShard(stored: StoredShard): Promise<number[][] | null> {
+		if (
+			!Number.isInteger(stored?.shard) ||
+			stored.shard < 0 ||
+			stored.shard >= VectorStore.SHARD_COUNT ||
+			!Array.isArray(stored.items)
+		) {
+			logger.warn('Skipping malformed shard entry in vector index');
+			return null;
+		}
+
+		const path = this.getShardPath(stored.shard);
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			logger.warn(`Vector shard missing: ${path}`);
+			return null;
+		}
+
+		try {
+			const decoded = decodeShard(await this.app.vault.readBinary(file));
+			// A save interrupted between the shard and index writes leaves them out of sync
+			if (
+				decoded.revision !== stored.revision ||
+				decoded.vectors.length !== stored.items.length
+			) {
+				logger.warn(`Vector shard ${path} does not match the index, discarding`);
+				return null;
 			}
+			return decoded.vectors;
 		} catch (error) {
-			logger.error('Migration failed:', error instanceof Error ? error : undefined);
+			logger.error(
+				`Failed to load vector shard ${path}:`,
+				error instanceof Error ? error : undefined
+			);
+			return null;
 		}
 	}
 
-	private async loadAllVectors(): Promise<void> {
-		const folder = this.app.vault.getAbstractFileByPath(this.vectorsDir);
-		if (!folder) {
-			// Directory doesn't exist yet, nothing to load
-			return;
-		}
-		if (!(folder instanceof TFolder)) {
-			// Path exists but is not a folder (e.g., a file with same name)
-			logger.error(`Vector store path exists but is not a folder: ${this.vectorsDir}`);
-			return;
+	private async loadAnnIndex(): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(this.getAnnPath());
+		if (!(file instanceof TFile)) return;
+
+		try {
+			this.annIndex = HnswIndex.deserialize(await this.app.vault.readBinary(file), (id) => {
+				const item = this.items.get(id);
+				return item && { vector: item.vector, hash: item.contentHash };
+			});
+		} catch (error) {
+			logger.warn(
+				'Failed to load search graph, it will be rebuilt:',
+				error instanceof Error ? error : undefined
+			);
+			this.annIndex = null;
+			this.annDirty = true;
 		}
+	}
 
-		let loadedCount = 0;
-		let skippedCount = 0;
+	/**
+	 * Start building the search graph in the background when it is needed:
+	 * the store passed ANN_THRESHOLD, a loaded graph lacks items, or too many
+	 * of its nodes are deleted. Search stays exact until the build finishes.
+	 */
+	private ensureAnnIndex(): void {
+		if (this.annBuild) return;
 
-		for (const file of folder.children) {
-			// Enforce maximum items limit to prevent memory exhaustion
-			if (loadedCount >= VectorStore.MAX_ITEMS_LIMIT) {
-				logger.warn(
-					`Reached maximum vector limit (${VectorStore.MAX_ITEMS_LIMIT}), skipping remaining files`
+		if (this.annIndex && this.annIndex.deletedRatio > VectorStore.ANN_MAX_DELETED_RATIO) {
+			this.annIndex = null;
+			this.annReady = false;
+		}
+		const needed = this.annIndex
+			? !this.annReady
+			: this.items.size >= VectorStore.ANN_THRESHOLD;
+		if (!needed) return;
+
+		this.annBuild = this.buildAnnIndex()
+			.catch((error) => {
+				logger.error(
+					'Failed to build search graph:',
+					error instanceof Error ? error : undefined
 				);
-				break;
+			})
+			.finally(() => {
+				this.annBuild = null;
+			});
+	}
+
+	private async buildAnnIndex(): Promise<void> {
+		const index = this.annIndex ?? new HnswIndex();
+		// Set first so upserts during the build go into the new graph too
+		this.annIndex = index;
+		this.annReady = false;
+
+		let added = 0;
+		for (const id of [...this.items.keys()]) {
+			if (this.annIndex !== index) return; // Cleared meanwhile
+			const item = this.items.get(id);
+			if (!item || index.has(id, item.contentHash)) continue;
+
+			index.add(id, item.vector, item.contentHash);
+			if (++added % VectorStore.ANN_BUILD_BATCH === 0) {
+				await new Promise((resolve) => setTimeout(resolve, 0));
 			}
+		}
+		if (this.annIndex !== index) return;
 
-			if (file instanceof TFile && file.extension === 'json') {
-				try {
-					const content = await this.app.vault.read(file);
-					const item: VectorItem = JSON.parse(content);
-
-					// Validate item structure and vector dimensions
-					if (!item.id || !item.metadata) {
-						logger.debug(
-							`Skipping invalid vector file ${file.path}: missing required fields`
-						);
+		this.annReady = true;
+		if (added > 0) {
+			logger.info(`Search graph ready (${added} vectors added)`);
+			this.annDirty = true;
+			this.scheduleSave();
+		}
+	}
+
+	/**
+	 * Build the search graph now instead of waiting for the background build
+	 * Does nothing while the store is below the size where the graph is used.
+	 */
+	async buildSearchIndex(): Promise<void> {
+		this.ensureAnnIndex();
+		await this.annBuild;
+	}
+
+	/**
+	 * Import vectors from earlier storage formats, then remove the old files
+	 * - vector-index.json: single file holding every item
+	 * - vectors/*.json: one file per item
+	 * Old files are only deleted after the shards and index were written, so an
+	 * interrupted migration is retried on the next start.
+	 */
+	private async migrateToShards(): Promise<void> {
+		const sources: TFile[] = [];
+		let migratedCount = 0;
+		let skippedCount = 0;
+
+		const basePath = this.vectorsDir.substring(0, this.vectorsDir.lastIndexOf('/'));
+		const legacyFile = this.app.vault.getAbstractFileByPath(
+			`${basePath}/${VectorStore.LEGACY_INDEX_FILE}`
+		);
+		if (legacyFile instanceof TFile) {
+			try {
+				const legacyData = JSON.parse(await this.app.vault.read(legacyFile));
+				const legacyItems: unknown[] = Array.isArray(legacyData.items)
+					? legacyData.items
+					: [];
+				for (const item of legacyItems) {
+					if (this.importItem(item)) {
+						migratedCount++;
+					} else {
 						skippedCount++;
-						continue;
 					}
+				}
+				sources.push(legacyFile);
+			} catch (error) {
+				// Keep the legacy file so nothing is lost
+				logger.error(
+					'Failed to read legacy vector-index.json:',
+					error instanceof Error ? error : undefined
+				);
+			}
+		}
 
-					const vectorData = item.vector as unknown;
-					if (!this.isValidVectorForLoad(vectorData)) {
-						const vectorLen = Array.isArray(vectorData) ? vectorData.length : 0;
-						logger.debug(
-							`Skipping vector file ${file.path}: invalid vector (length: ${vectorLen})`
-						);
+		const folder = this.app.vault.getAbstractFileByPath(this.vectorsDir);
+		if (folder instanceof TFolder) {
+			for (const file of [...folder.children]) {
+				if (
+					!(file instanceof TFile) ||
+					file.extension !== 'json' ||
+					file.name === VectorStore.INDEX_FILE
+				) {
+					continue;
+				}
+				try {
+					if (this.importItem(JSON.parse(await this.app.vault.read(file)))) {
+						migratedCount++;
+					} else {
 						skippedCount++;
-						continue;
 					}
-
-					this.items.set(item.id, item);
-					loadedCount++;
 				} catch (error) {
 					logger.error(
 						`Failed to load vector file ${file.path}:`,
@@ -243,12 +556,59 @@ export class VectorStore {
 					);
 					skippedCount++;
 				}
+				sources.push(file);
 			}
 		}
 
+		if (sources.length === 0) return;
+
+		logger.info(`Migrating ${migratedCount} vectors to binary shards...`);
 		if (skippedCount > 0) {
-			logger.warn(`Skipped ${skippedCount} invalid vector files during load`);
+			logger.warn(`Skipped ${skippedCount} invalid vectors during migration`);
+		}
+
+		const failedShards = await this.writeChanges();
+		if (failedShards > 0) {
+			logger.error('Migration incomplete, previous vector files preserved');
+			return;
 		}
+
+		for (const file of sources) {
+			try {
+				await this.app.vault.delete(file);
+			} catch (error) {
+				logger.warn(
+					`Failed to delete migrated vector file ${file.path}:`,
+					error instanceof Error ? error : undefined
+				);
+			}
+		}
+		logger.info(`Migrated ${migratedCount} vectors to binary shards`);
+	}
+
+	/**
+	 * Add an item read from an earlier storage format
+	 * Items already loaded from shards win (left over from an interrupted migration).
+	 * @returns false if the item is invalid
+	 */
+	private importItem(data: unknown): boolean {
+		const item = data as VectorItem;
+		if (!item?.id || !item.metadata || typeof item.metadata.path !== 'string') {
+			return false;
+		}
+		if (!this.isValidVectorForLoad(item.vector as unknown)) {
+			return false;
+		}
+		if (this.items.has(item.id)) {
+			return true;
+		}
+
+		if (item.contentHash !== undefined && typeof item.contentHash !== 'string') {
+			delete item.contentHash; // Forces a re-embed on next index
+		}
+		this.setItem(item);
+		this.dirtyShards.add(this.shardFor(item.metadata.path));
+		return true;
 	}
 
 	/**
@@ -295,47 +655,36 @@ export class VectorStore {
 		return true;
 	}
 
-	private static readonly MAX_FILENAME_LENGTH = 100;
 	private static readonly INITIALIZATION_TIMEOUT_MS = 30000; // 30 seconds
 
-	/**
-	 * Validate and sanitize an ID to create a safe filename
-	 * Prevents path traversal attacks and invalid filenames
-	 */
-	private getFileNameForId(id: string): string {
-		// Validate input
-		if (!id || typeof id !== 'string') {
-			throw new Error('Invalid ID: must be a non-empty string');
-		}
+	private getIndexPath(): string {
+		return `${this.vectorsDir}/${VectorStore.INDEX_FILE}`;
+	}
 
-		// Remove all path traversal sequences (.. and variants)
-		let safeId = id
-			.replace(/\.\./g, '') // Standard path traversal
-			.replace(/\.+[/\\]/g, '') // Multiple dots followed by separator
-			.replace(/[/\\]\.+/g, ''); // Separator followed by multiple dots
+	private getAnnPath(): string {
+		return `${this.vectorsDir}/${VectorStore.ANN_FILE}`;
+	}
 
-		// Remove any remaining path separators
-		safeId = safeId.replace(/[/\\]/g, '_');
+	private getShardPath(shard: number): string {
+		return `${this.vectorsDir}/shard-${String(shard).padStart(2, '0')}.bin`;
+	}
 
-		// Replace special characters that might cause issues
-		safeId = safeId
-			.replace(/[:*?"<>|]/g, '_')
-			.replace(/\s+/g, '_')
-			.replace(/^\.+/, '') // Remove leading dots
-			.replace(/\.+$/, '') // Remove trailing dots (before extension)
-			.substring(0, VectorStore.MAX_FILENAME_LENGTH);
+	/**
+	 * Shard holding a note's vectors; all chunks of a note share one shard
+	 */
+	private shardFor(path: string): number {
+		return parseInt(this.hashCode(path), 16) % VectorStore.SHARD_COUNT;
+	}
 
-		// Ensure we have a valid filename
-		if (!safeId) {
-			// Fallback to hash of original ID if sanitization results in empty string
-			safeId = `id_${this.hashCode(id)}`;
+	private markAllShardsDirty(): void {
+		for (let shard = 0; shard < VectorStore.SHARD_COUNT; shard++) {
+			this.dirtyShards.add(shard);
 		}
-
-		return `${safeId}.json`;
+		this.indexDirty = true;
 	}
 
 	/**
-	 * Simple hash function for fallback filename generation
+	 * Simple string hash used to assign notes to shards
 	 */
 	private hashCode(str: string): string {
 		let hash = 0;
@@ -382,7 +731,10 @@ export class VectorStore {
 		}, VectorStore.SAVE_DEBOUNCE_MS);
 	}
 
-	private async saveChanges(): Promise<void> {
+	/**
+	 * @param force - Also write the search graph if it changed within ANN_SAVE_INTERVAL_MS
+	 */
+	private async saveChanges(force = false): Promise<void> {
 		// Use mutex to prevent concurrent save operations
 		// Pattern: capture previous lock, create new lock, wait for previous, then release
 		const previousLock = this.saveLock;
@@ -405,42 +757,12 @@ export class VectorStore {
 				);
 			});
 
-			// Capture items to save/delete (in case new changes come in during save)
-			const itemsToSave = new Set(this.dirtyItems);
-			const itemsToDelete = new Set(this.deletedItems);
-
-			// Save dirty items - only remove from dirtyItems if save succeeds
-			for (const id of itemsToSave) {
-				const item = this.items.get(id);
-				if (item) {
-					try {
-						await this.saveItem(item);
-						this.dirtyItems.delete(id); // Only clear on success
-					} catch (error) {
-						// Keep in dirtyItems for retry on next save cycle
-						logger.error(
-							`Failed to save item ${id}, will retry:`,
-							error instanceof Error ? error : undefined
-						);
-					}
-				} else {
-					// Item no longer exists, remove from dirty list
-					this.dirtyItems.delete(id);
-				}
-			}
-
-			// Delete removed items - only remove from deletedItems if delete succeeds
-			for (const id of itemsToDelete) {
-				try {
-					await this.deleteItemFile(id);
-					this.deletedItems.delete(id); // Only clear on success
-				} catch (error) {
-					// Keep in deletedItems for retry on next save cycle
-					logger.error(
-						`Failed to delete item ${id}, will retry:`,
-						error instanceof Error ? error : undefined
-					);
-				}
+			await this.writeChanges();
+			if (
+				this.annDirty &&
+				(force || Date.now() - this.lastAnnSave >= VectorStore.ANN_SAVE_INTERVAL_MS)
+			) {
+				await this.writeAnnIndex();
 			}
 		} finally {
 			// Always release the lock, even if an error occurred
@@ -448,48 +770,184 @@ export class VectorStore {
 		}
 	}
 
-	private async saveItem(item: VectorItem): Promise<void> {
-		const fileName = this.getFileNameForId(item.id);
-		const filePath = `${this.vectorsDir}/${fileName}`;
-		const content = JSON.stringify(item);
+	/**
+	 * Rewrite dirty shards, then the index
+	 * Shards that fail to write stay dirty for the next save and are left out of
+	 * the index so it never points at stale rows.
+	 * @returns number of shards that failed to write
+	 */
+	private async writeChanges(): Promise<number> {
+		if (this.dirtyShards.size === 0 && !this.indexDirty) return 0;
 
+		// Capture state synchronously (new changes may come in during the writes)
+		const shardsToWrite = new Set(this.dirtyShards);
+		this.dirtyShards.clear();
+		this.indexDirty = false;
+		const groups = this.groupByShard();
+
+		const failed = new Set<number>();
+		for (const shard of shardsToWrite) {
+			try {
+				await this.writeShard(shard, groups[shard]);
+			} catch (error) {
+				logger.error(
+					`Failed to save vector shard ${shard}, will retry:`,
+					error instanceof Error ? error : undefined
+				);
+				failed.add(shard);
+				this.dirtyShards.add(shard);
+			}
+		}
+
+		const index: StoredIndex = {
+			version: VectorStore.INDEX_VERSION,
+			embedding: { model: this.embeddingModel, dimension: this.getDimension() },
+			shards: groups.flatMap((items, shard) =>
+				items.length === 0 || failed.has(shard)
+					? []
+					: [
+							{
+								shard,
+								revision: this.shardRevisions[shard],
+								items: items.map((item) => ({
+									id: item.id,
+									metadata: item.metadata,
+									contentHash: item.contentHash,
+									indexedAt: item.indexedAt,
+								})),
+							},
+						]
+			),
+		};
 		try {
-			await withRetry(async () => {
-				const file = this.app.vault.getAbstractFileByPath(filePath);
-				if (file instanceof TFile) {
-					await this.app.vault.modify(file, content);
-				} else {
-					await this.app.vault.create(filePath, content);
-				}
-			});
+			await this.writeText(this.getIndexPath(), JSON.stringify(index));
 		} catch (error) {
 			logger.error(
-				`Failed to save vector ${item.id} after retries:`,
+				'Failed to save vector index, will retry:',
 				error instanceof Error ? error : undefined
 			);
+			this.indexDirty = true;
 		}
-	}
 
-	private async deleteItemFile(id: string): Promise<void> {
-		const fileName = this.getFileNameForId(id);
-		const filePath = `${this.vectorsDir}/${fileName}`;
+		return failed.size;
+	}
 
+	/**
+	 * Write the search graph, or delete it once the store no longer has one
+	 * A graph that is still being built is written after the build.
+	 */
+	private async writeAnnIndex(): Promise<void> {
+		const path = this.getAnnPath();
 		try {
+			if (!this.annIndex) {
+				await withRetry(async () => {
+					const file = this.app.vault.getAbstractFileByPath(path);
+					if (file instanceof TFile) {
+						await this.app.vault.delete(file);
+					}
+				});
+			} else if (this.annReady) {
+				const data = this.annIndex.serialize();
+				await withRetry(async () => {
+					const file = this.app.vault.getAbstractFileByPath(path);
+					if (file instanceof TFile) {
+						await this.app.vault.modifyBinary(file, data);
+					} else {
+						await this.app.vault.createBinary(path, data);
+					}
+				});
+			} else {
+				return;
+			}
+			this.annDirty = false;
+			this.lastAnnSave = Date.now();
+		} catch (error) {
+			logger.error(
+				'Failed to save search graph, will retry:',
+				error instanceof Error ? error : undefined
+			);
+		}
+	}
+
+	/**
+	 * Items per shard in row order (sorted by id)
+	 * Items whose dimension differs from the rest of their shard are not persisted.
+	 */
+	private groupByShard(): VectorItem[][] {
+		const groups: VectorItem[][] = Array.from({ length: VectorStore.SHARD_COUNT }, () => []);
+		for (const item of this.items.values()) {
+			groups[this.shardFor(item.metadata.path)].push(item);
+		}
+
+		return groups.map((items) => {
+			const counts = new Map<number, number>();
+			for (const item of items) {
+				counts.set(item.vector.length, (counts.get(item.vector.length) ?? 0) + 1);
+			}
+			if (counts.size <= 1) {
+				return items.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+			}
+
+			const dimension = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+			logger.warn(
+				`Vectors with mixed dimensions in one shard; keeping ${dimension}-dimensional vectors. Reindex to rebuild the rest.`
+			);
+			return items
+				.filter((item) => item.vector.length === dimension)
+				.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+		});
+	}
+
+	private async writeShard(shard: number, items: VectorItem[]): Promise<void> {
+		const path = this.getShardPath(shard);
+
+		if (items.length === 0) {
 			await withRetry(async () => {
-				const file = this.app.vault.getAbstractFileByPath(filePath);
+				const file = this.app.vault.getAbstractFileByPath(path);
 				if (file instanceof TFile) {
 					await this.app.vault.delete(file);
 				}
 			});
-		} catch (error) {
-			logger.error(
-				`Failed to delete vector file ${id} after retries:`,
-				error instanceof Error ? error : undefined
-			);
+			return;
 		}
+
+		const revision = this.shardRevisions[shard] + 1;
+		const data = encodeShard(
+			items.map((item) => item.vector),
+			this.encoding,
+			revision
+		);
+		await withRetry(async () => {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.app.vault.modifyBinary(file, data);
+			} else {
+				await this.app.vault.createBinary(path, data);
+			}
+		});
+		this.shardRevisions[shard] = revision;
+	}
+
+	private async writeText(path: string, content: string): Promise<void> {
+		await withRetry(async () => {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.app.vault.modify(file, content);
+			} else {
+				await this.app.vault.create(path, content);
+			}
+		});
 	}
 
-	async upsert(id: string, vector: number[], metadata: VectorMetadata): Promise<void> {
+	/**
+	 * @param contentHash - Hash of the text the vector was computed from (see getContentHash)
+	 */
+	async upsert(
+		id: string,
+		vector: number[],
+		metadata: VectorMetadata,
+		contentHash?: string
+	): Promise<void> {
 		if (!this.initialized) {
 			throw new Error('VectorStore not initialized');
 		}
@@ -507,16 +965,34 @@ export class VectorStore {
 				`Invalid vector: expected ${VectorStore.MIN_VECTOR_DIMENSION}-${VectorStore.MAX_VECTOR_DIMENSION} dimensions, got ${vectorLen}`
 			);
 		}
+		// Mixing dimensions would make every cross-dimension comparison score 0
+		const dimension = this.getDimension();
+		if (dimension !== null && vector.length !== dimension) {
+			throw new Error(
+				`Vector dimension ${vector.length} does not match the stored ${dimension}; reindex after changing the embedding model`
+			);
+		}
 
-		this.items.set(id, { id, vector, metadata });
-		this.dirtyItems.add(id);
-		this.deletedItems.delete(id); // In case it was marked for deletion
+		const previous = this.items.get(id);
+		if (previous) {
+			this.dirtyShards.add(this.shardFor(previous.metadata.path));
+		}
+		this.setItem({ id, vector, metadata, contentHash, indexedAt: Date.now() });
+		this.dirtyShards.add(this.shardFor(metadata.path));
+		if (this.annIndex) {
+			this.annIndex.add(id, vector, contentHash);
+			this.annDirty = true;
+		}
+		this.ensureAnnIndex();
 		this.scheduleSave();
 	}
 
 	/**
 	 * Search for similar vectors using cosine similarity
-	 * Uses optimized bounded result set with early termination for efficiency
+	 * Large stores use the HNSW graph; otherwise (or while the graph is being built)
+	 * a bounded exact scan with early termination is used. A type filter narrows the
+	 * exact scan to notes of that type, and a type with few notes is always scanned
+	 * exactly, since the graph would have to walk past every other note to find them.
 	 *
 	 * @param queryVector - The query embedding vector
 	 * @param limit - Maximum number of results to return (default: 5)
@@ -527,7 +1003,7 @@ export class VectorStore {
 	async search(
 		queryVector: number[],
 		limit: number = 5,
-		filter?: Partial<VectorMetadata>
+		filter?: VectorFilter
 	): Promise<VectorSearchResult[]> {
 		if (!this.initialized) {
 			throw new Error('VectorStore not initialized');
@@ -543,6 +1019,18 @@ export class VectorStore {
 			logger.warn('Invalid query vector provided to search');
 			return [];
 		}
+		if (this.dimensionCounts.size > 0 && !this.dimensionCounts.has(queryVector.length)) {
+			logger.warn(
+				`Query vector has ${queryVector.length} dimensions but the store holds ${this.getDimension()}; reindex after changing the embedding model`
+			);
+			return [];
+		}
+
+		const candidates = this.candidateIds(filter);
+		const candidateCount = candidates ? candidates.size : this.items.size;
+		if (this.annIndex && this.annReady && candidateCount >= VectorStore.ANN_THRESHOLD) {
+			return this.searchAnn(queryVector, limit, filter);
+		}
 
 		// Optimization: maintain a bounded result set with minimum score threshold
 		// This avoids sorting the entire result set at the end
@@ -550,7 +1038,11 @@ export class VectorStore {
 		let minScoreInResults = -Infinity;
 
 		// Take a snapshot of items to prevent issues if items are modified during iteration
-		const itemsSnapshot = Array.from(this.items.values());
+		const itemsSnapshot = candidates
+			? [...candidates]
+					.map((id) => this.items.get(id))
+					.filter((item): item is VectorItem => item !== undefined)
+			: Array.from(this.items.values());
 
 		for (const item of itemsSnapshot) {
 			// Skip items with invalid vectors (corrupted data)
@@ -559,7 +1051,7 @@ export class VectorStore {
 				continue;
 			}
 
-			if (filter && !this.matchesFilter(item.metadata, filter)) {
+			if (filter && !matchesFilter(item.metadata, filter)) {
 				continue;
 			}
 
@@ -596,6 +1088,53 @@ export class VectorStore {
 		return results;
 	}
 
+	/**
+	 * Ids of the notes of the filter's type, or null when the filter has no type
+	 */
+	private candidateIds(filter?: VectorFilter): Set<string> | null {
+		if (!filter?.type) return null;
+		return this.idsByType.get(filter.type) ?? new Set<string>();
+	}
+
+	/**
+	 * Search through the HNSW graph
+	 * When a filter leaves too few matches among the visited nodes, the search is
+	 * retried once with a wider candidate list rather than scanning every vector.
+	 */
+	private searchAnn(
+		queryVector: number[],
+		limit: number,
+		filter?: VectorFilter
+	): VectorSearchResult[] {
+		if (!this.annIndex) return [];
+
+		const accept = filter
+			? (id: string) => {
+					const item = this.items.get(id);
+					return item !== undefined && matchesFilter(item.metadata, filter);
+				}
+			: undefined;
+		const ef = Math.max(VectorStore.ANN_EF_SEARCH, limit * 2);
+		let hits = this.annIndex.search(queryVector, limit, ef, accept);
+		if (filter && hits.length < limit) {
+			hits = this.annIndex.search(
+				queryVector,
+				limit,
+				ef * VectorStore.ANN_FILTERED_EF_FACTOR,
+				accept
+			);
+		}
+
+		const results: VectorSearchResult[] = [];
+		for (const hit of hits) {
+			const item = this.items.get(hit.id);
+			if (item) {
+				results.push({ id: hit.id, score: hit.score, metadata: item.metadata });
+			}
+		}
+		return results;
+	}
+
 	/**
 	 * Binary search to find insertion index for maintaining descending order
 	 */
@@ -613,21 +1152,6 @@ export class VectorStore {
 		return left;
 	}
 
-	private matchesFilter(metadata: VectorMetadata, filter: Partial<VectorMetadata>): boolean {
-		for (const [key, value] of Object.entries(filter)) {
-			if (key === 'tags') {
-				const filterTags = value as string[];
-				const itemTags = metadata.tags || [];
-				if (!filterTags.some((t) => itemTags.includes(t))) {
-					return false;
-				}
-			} else if (metadata[key as keyof VectorMetadata] !== value) {
-				return false;
-			}
-		}
-		return true;
-	}
-
 	private static readonly EPSILON = 1e-10; // Threshold for near-zero magnitude detection
 
 	private cosineSimilarity(a: number[], b: number[]): number {
@@ -663,6 +1187,17 @@ export class VectorStore {
 		return Number.isFinite(similarity) ? similarity : 0;
 	}
 
+	/**
+	 * Cosine similarity between two stored vectors
+	 * @returns null if either id is not in the store
+	 */
+	similarity(idA: string, idB: string): number | null {
+		const a = this.items.get(idA);
+		const b = this.items.get(idB);
+		if (!a || !b) return null;
+		return this.cosineSimilarity(a.vector, b.vector);
+	}
+
 	/**
 	 * Validate that a vector is a valid array of finite numbers
 	 */
@@ -680,6 +1215,58 @@ export class VectorStore {
 		return true;
 	}
 
+	/**
+	 * Hash of the embedding input stored with an item (undefined for items indexed
+	 * before hashes were recorded, or not indexed at all)
+	 */
+	getContentHash(id: string): string | undefined {
+		return this.items.get(id)?.contentHash;
+	}
+
+	/**
+	 * Replace an item's metadata without touching its vector
+	 * Used when the note changed but its embedding input did not; the item counts
+	 * as freshly indexed either way
+	 * @returns false if the item does not exist
+	 */
+	updateMetadata(id: string, metadata: VectorMetadata): boolean {
+		const item = this.items.get(id);
+		if (!item) return false;
+
+		const indexedAt = Date.now();
+		if (item.metadata.path !== metadata.path) {
+			// Moves to another shard
+			this.dirtyShards.add(this.shardFor(item.metadata.path));
+			this.dirtyShards.add(this.shardFor(metadata.path));
+			this.setItem({ ...item, metadata, indexedAt });
+		} else {
+			this.unindexType(item);
+			item.metadata = metadata;
+			item.indexedAt = indexedAt;
+			this.indexType(item);
+		}
+		this.indexDirty = true;
+		this.scheduleSave();
+		return true;
+	}
+
+	/**
+	 * Count a note's items as freshly indexed without changing them
+	 * Used when the note was touched but its content is unchanged
+	 */
+	markIndexed(path: string): void {
+		const ids = this.idsByPath.get(path);
+		if (!ids || ids.size === 0) return;
+
+		const indexedAt = Date.now();
+		for (const id of ids) {
+			const item = this.items.get(id);
+			if (item) item.indexedAt = indexedAt;
+		}
+		this.indexDirty = true;
+		this.scheduleSave();
+	}
+
 	async delete(id: string): Promise<void> {
 		if (!this.initialized) {
 			throw new Error('VectorStore not initialized');
@@ -690,13 +1277,183 @@ export class VectorStore {
 			);
 		}
 
-		if (this.items.delete(id)) {
-			this.dirtyItems.delete(id);
-			this.deletedItems.add(id);
+		if (this.removeItem(id)) {
+			this.ensureAnnIndex();
 			this.scheduleSave();
 		}
 	}
 
+	/**
+	 * Delete every item (chunk) belonging to a note
+	 * @returns number of items deleted
+	 */
+	async deleteByPath(path: string): Promise<number> {
+		const ids = [...(this.idsByPath.get(path) ?? [])];
+		for (const id of ids) {
+			await this.delete(id);
+		}
+		return ids.length;
+	}
+
+	/**
+	 * Paths of every note with stored items
+	 */
+	getPaths(): string[] {
+		return [...this.idsByPath.keys()];
+	}
+
+	/**
+	 * Items that were in the index but could not be loaded (corrupt or missing shard,
+	 * invalid vector) and have not been stored again since
+	 */
+	getDroppedItems(): { id: string; path: string }[] {
+		return [...this.droppedOnLoad]
+			.filter(([id]) => !this.items.has(id))
+			.map(([id, path]) => ({ id, path }));
+	}
+
+	/**
+	 * Stop reporting unloadable items of a note (it has been reindexed or is gone)
+	 */
+	forgetDroppedItems(path: string): void {
+		for (const [id, droppedPath] of this.droppedOnLoad) {
+			if (droppedPath === path) {
+				this.droppedOnLoad.delete(id);
+			}
+		}
+	}
+
+	/**
+	 * Items stored for a note, in chunk order
+	 * The returned items are live; callers must not modify them.
+	 */
+	getItemsByPath(path: string): VectorItem[] {
+		const items: VectorItem[] = [];
+		for (const id of this.idsByPath.get(path) ?? []) {
+			const item = this.items.get(id);
+			if (item) items.push(item);
+		}
+		return items.sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0));
+	}
+
+	private setItem(item: VectorItem): void {
+		const previous = this.items.get(item.id);
+		if (previous) {
+			this.countDimension(previous.vector.length, -1);
+			if (previous.metadata.path !== item.metadata.path) {
+				this.unindexPath(previous);
+			}
+			this.unindexType(previous);
+		}
+		this.items.set(item.id, item);
+		this.countDimension(item.vector.length, 1);
+		const ids = this.idsByPath.get(item.metadata.path) ?? new Set<string>();
+		ids.add(item.id);
+		this.idsByPath.set(item.metadata.path, ids);
+		this.indexType(item);
+	}
+
+	private removeItem(id: string): boolean {
+		const item = this.items.get(id);
+		if (!item) return false;
+
+		this.items.delete(id);
+		this.unindexPath(item);
+		this.unindexType(item);
+		this.countDimension(item.vector.length, -1);
+		this.dirtyShards.add(this.shardFor(item.metadata.path));
+		if (this.annIndex?.remove(id)) {
+			this.annDirty = true;
+		}
+		return true;
+	}
+
+	private countDimension(dimension: number, delta: number): void {
+		const count = (this.dimensionCounts.get(dimension) ?? 0) + delta;
+		if (count > 0) {
+			this.dimensionCounts.set(dimension, count);
+		} else {
+			this.dimensionCounts.delete(dimension);
+		}
+	}
+
+	/**
+	 * Dimension of the stored vectors (the most common one if mixed), null when empty
+	 */
+	getDimension(): number | null {
+		let dimension: number | null = null;
+		let most = 0;
+		for (const [length, count] of this.dimensionCounts) {
+			if (count > most) {
+				dimension = length;
+				most = count;
+			}
+		}
+		return dimension;
+	}
+
+	/**
+	 * Whether vectors of more than one dimension are stored (e.g. an interrupted model switch)
+	 */
+	hasMixedDimensions(): boolean {
+		return this.dimensionCounts.size > 1;
+	}
+
+	/**
+	 * Embedding model the stored vectors came from; null if unknown (stored by an
+	 * earlier version, or nothing recorded yet)
+	 */
+	getEmbeddingModel(): string | null {
+		return this.embeddingModel;
+	}
+
+	/**
+	 * Record the embedding model of the stored vectors
+	 * Call once the store is known to match it (empty, or after a reindex).
+	 */
+	setEmbeddingModel(model: string): void {
+		if (!this.initialized || this.initializationError || model === this.embeddingModel) return;
+		this.embeddingModel = model;
+		this.indexDirty = true;
+		this.scheduleSave();
+	}
+
+	/**
+	 * Whether vectors from a model can be stored alongside and searched against the stored ones
+	 * An unknown stored model is judged by `dimension` (the length of a vector from the
+	 * model); without it the store is assumed to match.
+	 */
+	isCompatibleWith(model: string, dimension?: number): boolean {
+		if (this.items.size === 0) return true;
+		if (this.hasMixedDimensions()) return false;
+		if (this.embeddingModel !== null) return this.embeddingModel === model;
+		return dimension === undefined || dimension === this.getDimension();
+	}
+
+	private unindexPath(item: VectorItem): void {
+		const ids = this.idsByPath.get(item.metadata.path);
+		if (!ids) return;
+		ids.delete(item.id);
+		if (ids.size === 0) {
+			this.idsByPath.delete(item.metadata.path);
+		}
+	}
+
+	private indexType(item: VectorItem): void {
+		const ids = this.idsByType.get(item.metadata.type) ?? new Set<string>();
+		ids.add(item.id);
+		this.idsByType.set(item.metadata.type, ids);
+	}
+
+	private unindexType(item: VectorItem): void {
+		const ids = this.idsByType.get(item.metadata.type);
+		if (!ids) return;
+		ids.delete(item.id);
+		if (ids.size === 0) {
+			this.idsByType.delete(item.metadata.type);
+		}
+	}
+
 	async getItem(id: string): Promise<VectorSearchResult | null> {
 		if (!this.initialized) {
 			throw new Error('VectorStore not initialized');
@@ -727,14 +1484,19 @@ export class VectorStore {
 			);
 		}
 
-		// Mark all items for deletion
-		for (const id of this.items.keys()) {
-			this.deletedItems.add(id);
-		}
+		// Empty shards and the search graph are deleted on save
 		this.items.clear();
-		this.dirtyItems.clear();
-
-		await this.saveChanges();
+		this.idsByPath.clear();
+		this.idsByType.clear();
+		this.dimensionCounts.clear();
+		this.droppedOnLoad.clear();
+		this.embeddingModel = null;
+		this.markAllShardsDirty();
+		this.annIndex = null;
+		this.annReady = false;
+		this.annDirty = true;
+
+		await this.saveChanges(true);
 	}
 
 	async getStats(): Promise<{ count: number }> {
@@ -753,6 +1515,6 @@ export class VectorStore {
 			clearTimeout(this.saveTimeout);
 			this.saveTimeout = null;
 		}
-		await this.saveChanges();
+		await this.saveChanges(true);
 	}
 }
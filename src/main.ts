@@ -1,30 +1,56 @@
 import { Plugin, WorkspaceLeaf, Notice } from 'obsidian';
 import { ChatView, VIEW_TYPE_CHAT } from './ui/ChatView';
 import { SettingsTab } from './ui/SettingsTab';
+import { ReindexModal } from './ui/ReindexModal';
+import { SearchModal } from './ui/SearchModal';
+import { IndexReportModal } from './ui/IndexReportModal';
+import { IndexVerifier, type IndexReport } from './infrastructure/IndexVerifier';
 import { PluginSettings, DEFAULT_SETTINGS } from './types';
-import { OpenRouterClient } from './infrastructure/OpenRouterClient';
+import { createLLMProvider, type LLMProvider } from './infrastructure/LLMProvider';
 import { ChatEngine } from './core/ChatEngine';
 import { SessionManager } from './core/SessionManager';
 import { ReportGenerator } from './core/ReportGenerator';
 import { Embedder } from './infrastructure/Embedder';
+import { createEmbeddingBackend } from './infrastructure/EmbeddingBackend';
 import { VectorStore } from './infrastructure/VectorStore';
-import { NoteIndexer } from './infrastructure/NoteIndexer';
+import { KeywordIndex } from './infrastructure/KeywordIndex';
+import { NoteIndexer, type IndexScope } from './infrastructure/NoteIndexer';
 import { ContextRetriever } from './core/ContextRetriever';
+import { EntityDirectory } from './core/EntityDirectory';
+import { UsageTracker } from './core/UsageTracker';
 import { setLanguage, getTranslations } from './i18n';
 import { getCharacterById, buildCharacterPrompt, getPresetCharacters } from './core/CoachCharacter';
 import type { CoachCharacter } from './types';
 import { logger } from './utils/logger';
+import { validateBaseUrl } from './utils/sanitize';
+import type { RerankOptions } from './utils/rerank';
+import { isAbortError } from './utils/errors';
+import { IndexManifest } from './infrastructure/IndexManifest';
+import { IndexStatusBar } from './ui/IndexStatusBar';
 
 export default class ReflectionChatPlugin extends Plugin {
 	settings: PluginSettings = DEFAULT_SETTINGS;
-	openRouterClient: OpenRouterClient | null = null;
+	llmProvider: LLMProvider | null = null;
 	chatEngine: ChatEngine | null = null;
 	sessionManager: SessionManager | null = null;
 	reportGenerator: ReportGenerator | null = null;
 	embedder: Embedder | null = null;
 	vectorStore: VectorStore | null = null;
+	keywordIndex: KeywordIndex | null = null;
+	indexManifest: IndexManifest | null = null;
 	noteIndexer: NoteIndexer | null = null;
 	contextRetriever: ContextRetriever | null = null;
+	usageTracker: UsageTracker | null = null;
+	private embeddingModelMismatch = false; // Stored vectors came from another model
+	private promptedModel: string | null = null; // Model the reindex modal was last shown for
+	private modelCheckTimeout: ReturnType<typeof setTimeout> | null = null;
+	private indexStatusBar: IndexStatusBar | null = null;
+	private indexAbortController: AbortController | null = null; // Set while a full index run is active
+	private providerSettings: string | null = null; // Settings the LLM provider was built from
+	private embeddingSettings: string | null = null; // Settings the embedding backend was built from
+
+	private static readonly MODEL_CHECK_DEBOUNCE_MS = 1500; // Settings save on every keystroke
+	private static readonly SEARCH_RESULT_LIMIT = 20;
 
 	async onload() {
 		await this.loadSettings();
@@ -37,6 +63,9 @@ export default class ReflectionChatPlugin extends Plugin {
 		// Initialize components
 		await this.initializeComponents();
 
+		// Progress of full index runs (click to cancel)
+		this.indexStatusBar = new IndexStatusBar(this.addStatusBarItem());
+
 		// Register the chat view
 		this.registerView(VIEW_TYPE_CHAT, (leaf) => new ChatView(leaf, this));
 
@@ -63,6 +92,48 @@ export default class ReflectionChatPlugin extends Plugin {
 			},
 		});
 
+		// Add command to compare the index with the vault and repair it
+		this.addCommand({
+			id: 'verify-index',
+			name: t.commands.verifyIndex,
+			callback: () => {
+				this.verifyIndex();
+			},
+		});
+
+		// Add command to search notes with metadata filters
+		this.addCommand({
+			id: 'search-notes',
+			name: t.commands.searchNotes,
+			callback: () => {
+				const retriever = this.contextRetriever;
+				if (!retriever) return;
+				new SearchModal(this.app, (text, filter) =>
+					retriever.searchNotes(
+						text,
+						filter,
+						ReflectionChatPlugin.SEARCH_RESULT_LIMIT,
+						undefined,
+						'search'
+					)
+				).open();
+			},
+		});
+
+		// Add command to cancel a running chat response, summary or report
+		this.addCommand({
+			id: 'stop-generation',
+			name: t.commands.stopGeneration,
+			checkCallback: (checking: boolean) => {
+				const views = this.getChatViews().filter((view) => view.isGenerating());
+				if (views.length === 0) return false;
+				if (!checking) {
+					views.forEach((view) => view.stopGeneration());
+				}
+				return true;
+			},
+		});
+
 		// Add settings tab
 		this.addSettingTab(new SettingsTab(this.app, this));
 
@@ -72,6 +143,11 @@ export default class ReflectionChatPlugin extends Plugin {
 	}
 
 	async onunload() {
+		if (this.modelCheckTimeout) {
+			clearTimeout(this.modelCheckTimeout);
+			this.modelCheckTimeout = null;
+		}
+
 		// Cleanup note indexer (event listeners and pending timeouts)
 		if (this.noteIndexer) {
 			this.noteIndexer.destroy();
@@ -81,6 +157,17 @@ export default class ReflectionChatPlugin extends Plugin {
 		if (this.vectorStore) {
 			await this.vectorStore.flush();
 		}
+		if (this.keywordIndex) {
+			await this.keywordIndex.flush();
+		}
+		if (this.indexManifest) {
+			await this.indexManifest.flush();
+		}
+
+		// Persist usage recorded since the last debounced save
+		if (this.usageTracker) {
+			await this.usageTracker.flush();
+		}
 
 		// Detach all leaves of our view type
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_CHAT);
@@ -90,46 +177,81 @@ export default class ReflectionChatPlugin extends Plugin {
 		// Get plugin folder path for vector storage
 		const pluginPath = this.manifest.dir || '.obsidian/plugins/reflection-chat';
 
-		// Initialize OpenRouter client
-		this.openRouterClient = new OpenRouterClient(this.settings.openRouterApiKey);
+		// Initialize usage tracking (token counts and estimated cost per month)
+		this.usageTracker = new UsageTracker(this.app, pluginPath);
+		await this.usageTracker.load();
+		this.usageTracker.setPricingSource(
+			() => this.llmProvider?.fetchModels() ?? Promise.resolve([])
+		);
+
+		// Initialize LLM provider (OpenRouter or OpenAI-compatible endpoint)
+		this.llmProvider = createLLMProvider(this.settings, this.usageTracker.listener);
+		this.providerSettings = this.getProviderSettings();
+		if (this.llmProvider.isConfigured()) {
+			this.usageTracker.prefetchPricing();
+		}
 
 		// Initialize Chat Engine
 		this.chatEngine = new ChatEngine(
-			this.openRouterClient,
+			this.llmProvider,
 			this.settings.chatModel,
 			this.settings.summaryModel,
 			this.settings.systemPrompt,
 			this.getCharacterPrompt()
 		);
+		this.chatEngine.setFallbackModels(
+			this.settings.chatFallbackModels,
+			this.settings.summaryFallbackModels
+		);
+
+		// Entity names and aliases, shared by session saving and context retrieval
+		const entityDirectory = new EntityDirectory(this.app, this.settings.entitiesFolder);
 
 		// Initialize Session Manager
 		this.sessionManager = new SessionManager(
 			this.app,
 			this.settings.journalFolder,
-			this.settings.entitiesFolder
+			this.settings.entitiesFolder,
+			entityDirectory
 		);
 
 		// Initialize Report Generator
 		this.reportGenerator = new ReportGenerator(
 			this.app,
 			this.settings.journalFolder,
-			this.openRouterClient,
+			this.llmProvider,
 			this.settings.summaryModel
 		);
+		this.reportGenerator.setFallbackModels(this.settings.summaryFallbackModels);
+		this.reportGenerator.setUsageTracker(this.usageTracker);
 
-		// Initialize Embedder with OpenRouter API key and model
-		this.embedder = new Embedder(this.settings.openRouterApiKey, this.settings.embeddingModel);
+		// Initialize Embedder with the configured backend (remote API or local)
+		this.embedder = new Embedder(
+			createEmbeddingBackend(this.settings, this.usageTracker.listener)
+		);
+		this.embeddingSettings = this.getEmbeddingSettings();
 
 		// Initialize Vector Store
-		this.vectorStore = new VectorStore(this.app, pluginPath);
+		this.vectorStore = new VectorStore(this.app, pluginPath, this.settings.vectorEncoding);
+
+		// Initialize Keyword Index (BM25 over the same chunks)
+		this.keywordIndex = new KeywordIndex(this.app, pluginPath);
+		await this.keywordIndex.load();
+
+		// Initialize Index Manifest (which notes are indexed, and index run checkpoints)
+		this.indexManifest = new IndexManifest(this.app, pluginPath);
+		await this.indexManifest.load();
 
 		// Initialize Note Indexer
 		this.noteIndexer = new NoteIndexer(
 			this.app,
 			this.embedder,
 			this.vectorStore,
+			this.keywordIndex,
+			this.indexManifest,
 			this.settings.journalFolder,
-			this.settings.entitiesFolder
+			this.settings.entitiesFolder,
+			this.getIndexScope()
 		);
 
 		// Initialize Context Retriever
@@ -137,13 +259,60 @@ export default class ReflectionChatPlugin extends Plugin {
 			this.app,
 			this.embedder,
 			this.vectorStore,
+			this.keywordIndex,
 			this.settings.journalFolder,
 			this.settings.entitiesFolder,
 			this.settings.contextWindowDays,
-			this.settings.maxSemanticResults
+			this.settings.maxSemanticResults,
+			this.settings.keywordWeight,
+			this.getRerankOptions(),
+			entityDirectory
 		);
 	}
 
+	private getIndexScope(): IndexScope {
+		return {
+			includeFolders: this.settings.indexIncludeFolders,
+			excludeFolders: this.settings.indexExcludeFolders,
+			excludeTags: this.settings.indexExcludeTags,
+		};
+	}
+
+	/**
+	 * Settings the LLM provider is built from; any change requires a new provider
+	 */
+	private getProviderSettings(): string {
+		const { llmProvider, openRouterApiKey, customBaseUrl, customApiKey, customHeaders } =
+			this.settings;
+		return JSON.stringify([
+			llmProvider,
+			openRouterApiKey,
+			customBaseUrl,
+			customApiKey,
+			customHeaders,
+		]);
+	}
+
+	/**
+	 * Settings the embedding backend is built from, including the shared API connection
+	 */
+	private getEmbeddingSettings(): string {
+		const { embeddingBackend, embeddingModel, embeddingFallbackModels } = this.settings;
+		return JSON.stringify([
+			embeddingBackend,
+			embeddingModel,
+			embeddingFallbackModels,
+			this.getProviderSettings(),
+		]);
+	}
+
+	private getRerankOptions(): RerankOptions {
+		return {
+			diversity: this.settings.semanticDiversity,
+			recencyHalfLifeDays: this.settings.recencyHalfLifeDays,
+		};
+	}
+
 	private async initializeEmbedding(): Promise<void> {
 		const t = getTranslations();
 
@@ -165,13 +334,32 @@ export default class ReflectionChatPlugin extends Plugin {
 			// Update chat views to reflect embedding ready state
 			this.updateChatViewStatus();
 
+			// Offer a reindex if the notes were embedded with another model
+			await this.checkEmbeddingModel();
+
 			// Auto-index if enabled
-			if (this.settings.autoIndex) {
-				const stats = await this.vectorStore.getStats();
-				if (stats.count === 0) {
-					// First run, index all notes
-					await this.reindexNotes();
-				}
+			const stats = await this.vectorStore.getStats();
+			if (this.settings.autoIndex && stats.count === 0) {
+				// First run, index all notes
+				await this.reindexNotes();
+			} else if (
+				this.settings.autoIndex &&
+				this.keywordIndex?.size === 0 &&
+				!this.embeddingModelMismatch
+			) {
+				// Notes embedded before the keyword index existed; unchanged notes need no API calls
+				await this.runIndexAll(true);
+			} else if (
+				this.settings.autoIndex &&
+				this.indexManifest?.isOutdated() &&
+				!this.embeddingModelMismatch
+			) {
+				// Indexed by an earlier version; refresh note metadata such as goal and report types
+				await this.runIndexAll();
+			} else if (this.indexManifest?.hasUnfinishedRun() && !this.embeddingModelMismatch) {
+				// Obsidian was closed during an index run; finished notes are skipped
+				new Notice(t.notices.indexResuming);
+				await this.runIndexAll();
 			}
 		} catch (error) {
 			logger.error(
@@ -185,6 +373,13 @@ export default class ReflectionChatPlugin extends Plugin {
 		}
 	}
 
+	private getChatViews(): ChatView[] {
+		return this.app.workspace
+			.getLeavesOfType(VIEW_TYPE_CHAT)
+			.map((leaf) => leaf.view)
+			.filter((view): view is ChatView => view instanceof ChatView);
+	}
+
 	/**
 	 * Update the status bar of all open ChatView instances.
 	 * Called after embedding initialization completes or fails.
@@ -214,17 +409,183 @@ export default class ReflectionChatPlugin extends Plugin {
 			return;
 		}
 
-		new Notice(t.notices.indexing);
-
 		try {
-			const result = await this.noteIndexer.indexAll();
-			new Notice(`${t.notices.indexComplete} (${result.indexed} / ${result.errors} errors)`);
+			if (this.vectorStore && this.embedder && !this.vectorStore.hasInitializationError()) {
+				// Vectors of another model can't be updated in place, so start over
+				const model = this.embedder.getModelId();
+				if (this.embeddingModelMismatch || !this.vectorStore.isCompatibleWith(model)) {
+					await this.vectorStore.clear();
+					this.indexManifest?.clear();
+				}
+				this.vectorStore.setEmbeddingModel(model);
+				this.embeddingModelMismatch = false;
+				this.updateChatViewStatus();
+			}
+
+			const result = await this.runIndexAll();
+			if (result) {
+				new Notice(
+					`${t.notices.indexComplete} (${result.indexed} / ${result.errors} errors)`
+				);
+			}
 		} catch (error) {
 			logger.error('Reindex error:', error instanceof Error ? error : undefined);
 			new Notice(t.notices.indexFailed);
 		}
 	}
 
+	/**
+	 * Index notes changed since they were last indexed, with progress in the status bar
+	 * Clicking the status bar item cancels the run.
+	 * @param full - Re-read every note (e.g. to fill a new keyword index)
+	 * @returns null if cancelled or another run is active
+	 */
+	private async runIndexAll(full = false): Promise<{ indexed: number; errors: number } | null> {
+		if (!this.noteIndexer || this.indexAbortController) return null;
+
+		const controller = new AbortController();
+		this.indexAbortController = controller;
+		this.indexStatusBar?.start(() => controller.abort());
+		try {
+			return await this.noteIndexer.indexAll({
+				full,
+				signal: controller.signal,
+				onProgress: (done, total) => this.indexStatusBar?.update(done, total),
+			});
+		} catch (error) {
+			if (!isAbortError(error)) throw error;
+			new Notice(getTranslations().notices.indexCancelled);
+			return null;
+		} finally {
+			this.indexAbortController = null;
+			this.indexStatusBar?.finish();
+		}
+	}
+
+	/**
+	 * Compare the vector store with the vault and offer to repair differences
+	 */
+	private verifyIndex(): void {
+		const t = getTranslations();
+		const store = this.vectorStore;
+		if (!store || !this.keywordIndex || !this.noteIndexer || store.hasInitializationError()) {
+			new Notice(t.notices.verifyUnavailable);
+			return;
+		}
+		// Mixed dimensions are repairable; vectors of another model as a whole are not
+		if (this.embeddingModelMismatch && !store.hasMixedDimensions()) {
+			new Notice(t.notices.verifyNeedsReindex);
+			return;
+		}
+
+		const verifier = new IndexVerifier(this.app, store, this.keywordIndex, this.noteIndexer);
+		const report = verifier.verify();
+		new IndexReportModal(
+			this.app,
+			report,
+			() => void this.repairIndex(verifier, report)
+		).open();
+	}
+
+	private async repairIndex(verifier: IndexVerifier, report: IndexReport): Promise<void> {
+		const t = getTranslations();
+		const progressNotice = new Notice(t.notices.indexing, 0);
+		try {
+			const result = await verifier.repair(report, (done, total) => {
+				progressNotice.setMessage(
+					t.notices.repairProgress
+						.replace('{done}', String(done))
+						.replace('{total}', String(total))
+				);
+			});
+			new Notice(
+				t.notices.repairComplete
+					.replace('{repaired}', String(result.repaired))
+					.replace('{failed}', String(result.failed))
+			);
+		} catch (error) {
+			logger.error('Index repair error:', error instanceof Error ? error : undefined);
+			new Notice(t.notices.indexFailed);
+		} finally {
+			progressNotice.hide();
+			// Removing vectors of another dimension may have resolved a mismatch
+			void this.checkEmbeddingModel();
+		}
+	}
+
+	/**
+	 * Whether the stored vectors came from a different embedding model
+	 * Semantic search and background indexing are paused until a reindex.
+	 */
+	hasEmbeddingModelMismatch(): boolean {
+		return this.embeddingModelMismatch;
+	}
+
+	/**
+	 * Compare the selected embedding model with the one the stored vectors came from
+	 * A match (or an empty store) is recorded in the store; a mismatch is shown in the
+	 * chat status bar and a reindex is offered once per model.
+	 */
+	private async checkEmbeddingModel(): Promise<void> {
+		const store = this.vectorStore;
+		if (!store || !this.embedder?.isReady() || store.hasInitializationError()) return;
+
+		const model = this.embedder.getModelId();
+		const { count } = await store.getStats();
+		let dimension: number | undefined;
+		if (count > 0 && store.getEmbeddingModel() === null && !store.hasMixedDimensions()) {
+			// Stored before models were recorded: compare dimensions instead
+			try {
+				dimension = (
+					await this.embedder.embedQuery('dimension check', undefined, 'indexing')
+				).length;
+			} catch (error) {
+				logger.warn(
+					'Could not check the embedding dimension:',
+					error instanceof Error ? error : undefined
+				);
+				return;
+			}
+		}
+
+		this.embeddingModelMismatch = !store.isCompatibleWith(model, dimension);
+		this.updateChatViewStatus();
+		if (!this.embeddingModelMismatch) {
+			store.setEmbeddingModel(model);
+			return;
+		}
+
+		logger.warn(
+			`Embedding model changed (stored: ${store.getEmbeddingModel() ?? 'unknown'}, current: ${model}); semantic search paused until reindex`
+		);
+		if (model === this.promptedModel) return;
+		this.promptedModel = model;
+		new ReindexModal(
+			this.app,
+			{
+				storedModel: store.getEmbeddingModel(),
+				storedDimension: store.getDimension(),
+				currentModel: model,
+				itemCount: count,
+				mixedDimensions: store.hasMixedDimensions(),
+			},
+			() => void this.reindexNotes()
+		).open();
+	}
+
+	/**
+	 * Check the embedding model once settings stop changing
+	 */
+	private scheduleEmbeddingModelCheck(): void {
+		if (this.modelCheckTimeout) {
+			clearTimeout(this.modelCheckTimeout);
+		}
+		this.modelCheckTimeout = setTimeout(() => {
+			this.modelCheckTimeout = null;
+			void this.checkEmbeddingModel();
+		}, ReflectionChatPlugin.MODEL_CHECK_DEBOUNCE_MS);
+	}
+
 	async loadSettings() {
 		const loaded = await this.loadData();
 		this.settings = this.validateSettings(Object.assign({}, DEFAULT_SETTINGS, loaded));
@@ -240,7 +601,9 @@ export default class ReflectionChatPlugin extends Plugin {
 			typeof c.id === 'string' &&
 			typeof c.name === 'string' &&
 			(c.tone === 'formal' || c.tone === 'casual' || c.tone === 'friendly') &&
-			(c.strictness === 'gentle' || c.strictness === 'balanced' || c.strictness === 'strict') &&
+			(c.strictness === 'gentle' ||
+				c.strictness === 'balanced' ||
+				c.strictness === 'strict') &&
 			typeof c.personalityPrompt === 'string' &&
 			typeof c.isPreset === 'boolean'
 		);
@@ -255,6 +618,18 @@ export default class ReflectionChatPlugin extends Plugin {
 		return presetIds.includes(id) || customIds.includes(id);
 	}
 
+	/**
+	 * Keep only non-empty, unique entries from a stored list (fallback models, indexing scope)
+	 */
+	private sanitizeStringList(value: unknown): string[] {
+		if (!Array.isArray(value)) return [];
+		const models = value
+			.filter((v): v is string => typeof v === 'string')
+			.map((v) => v.trim())
+			.filter((v) => v.length > 0);
+		return [...new Set(models)];
+	}
+
 	/**
 	 * Validate and sanitize loaded settings, falling back to defaults for invalid values
 	 */
@@ -272,8 +647,22 @@ export default class ReflectionChatPlugin extends Plugin {
 				: DEFAULT_SETTINGS.selectedCharacterId;
 
 		return {
+			llmProvider:
+				settings.llmProvider === 'openrouter' ||
+				settings.llmProvider === 'openai-compatible'
+					? settings.llmProvider
+					: DEFAULT_SETTINGS.llmProvider,
 			openRouterApiKey:
 				typeof settings.openRouterApiKey === 'string' ? settings.openRouterApiKey : '',
+			customBaseUrl:
+				(typeof settings.customBaseUrl === 'string' &&
+					validateBaseUrl(settings.customBaseUrl)) ||
+				DEFAULT_SETTINGS.customBaseUrl,
+			customApiKey: typeof settings.customApiKey === 'string' ? settings.customApiKey : '',
+			customHeaders:
+				typeof settings.customHeaders === 'string'
+					? settings.customHeaders
+					: DEFAULT_SETTINGS.customHeaders,
 			chatModel:
 				typeof settings.chatModel === 'string'
 					? settings.chatModel
@@ -282,6 +671,15 @@ export default class ReflectionChatPlugin extends Plugin {
 				typeof settings.summaryModel === 'string'
 					? settings.summaryModel
 					: DEFAULT_SETTINGS.summaryModel,
+			chatFallbackModels: this.sanitizeStringList(settings.chatFallbackModels),
+			summaryFallbackModels: this.sanitizeStringList(settings.summaryFallbackModels),
+			embeddingFallbackModels: this.sanitizeStringList(settings.embeddingFallbackModels),
+			embeddingBackend:
+				settings.embeddingBackend === 'openrouter' ||
+				settings.embeddingBackend === 'openai-compatible' ||
+				settings.embeddingBackend === 'local'
+					? settings.embeddingBackend
+					: DEFAULT_SETTINGS.embeddingBackend,
 			embeddingModel:
 				typeof settings.embeddingModel === 'string'
 					? settings.embeddingModel
@@ -294,6 +692,9 @@ export default class ReflectionChatPlugin extends Plugin {
 				typeof settings.entitiesFolder === 'string'
 					? settings.entitiesFolder
 					: DEFAULT_SETTINGS.entitiesFolder,
+			indexIncludeFolders: this.sanitizeStringList(settings.indexIncludeFolders),
+			indexExcludeFolders: this.sanitizeStringList(settings.indexExcludeFolders),
+			indexExcludeTags: this.sanitizeStringList(settings.indexExcludeTags),
 			contextWindowDays:
 				typeof settings.contextWindowDays === 'number' && settings.contextWindowDays > 0
 					? settings.contextWindowDays
@@ -302,10 +703,42 @@ export default class ReflectionChatPlugin extends Plugin {
 				typeof settings.maxSemanticResults === 'number' && settings.maxSemanticResults > 0
 					? settings.maxSemanticResults
 					: DEFAULT_SETTINGS.maxSemanticResults,
+			keywordWeight:
+				typeof settings.keywordWeight === 'number' &&
+				settings.keywordWeight >= 0 &&
+				settings.keywordWeight <= 1
+					? settings.keywordWeight
+					: DEFAULT_SETTINGS.keywordWeight,
+			semanticDiversity:
+				typeof settings.semanticDiversity === 'number' &&
+				settings.semanticDiversity >= 0 &&
+				settings.semanticDiversity <= 1
+					? settings.semanticDiversity
+					: DEFAULT_SETTINGS.semanticDiversity,
+			recencyHalfLifeDays:
+				typeof settings.recencyHalfLifeDays === 'number' &&
+				Number.isFinite(settings.recencyHalfLifeDays) &&
+				settings.recencyHalfLifeDays >= 0
+					? settings.recencyHalfLifeDays
+					: DEFAULT_SETTINGS.recencyHalfLifeDays,
+			queryPlanning:
+				typeof settings.queryPlanning === 'boolean'
+					? settings.queryPlanning
+					: DEFAULT_SETTINGS.queryPlanning,
 			systemPrompt:
 				typeof settings.systemPrompt === 'string'
 					? settings.systemPrompt
 					: DEFAULT_SETTINGS.systemPrompt,
+			monthlyBudgetUsd:
+				typeof settings.monthlyBudgetUsd === 'number' &&
+				Number.isFinite(settings.monthlyBudgetUsd) &&
+				settings.monthlyBudgetUsd >= 0
+					? settings.monthlyBudgetUsd
+					: DEFAULT_SETTINGS.monthlyBudgetUsd,
+			budgetMode:
+				settings.budgetMode === 'warn' || settings.budgetMode === 'block'
+					? settings.budgetMode
+					: DEFAULT_SETTINGS.budgetMode,
 			language:
 				settings.language === 'ja' || settings.language === 'en'
 					? settings.language
@@ -314,6 +747,10 @@ export default class ReflectionChatPlugin extends Plugin {
 				typeof settings.autoIndex === 'boolean'
 					? settings.autoIndex
 					: DEFAULT_SETTINGS.autoIndex,
+			vectorEncoding:
+				settings.vectorEncoding === 'float32' || settings.vectorEncoding === 'int8'
+					? settings.vectorEncoding
+					: DEFAULT_SETTINGS.vectorEncoding,
 			selectedCharacterId,
 			customCharacters: validCustomCharacters,
 		};
@@ -344,14 +781,44 @@ export default class ReflectionChatPlugin extends Plugin {
 		}
 
 		// Update components with new settings
-		if (this.openRouterClient) {
-			this.openRouterClient.setApiKey(this.settings.openRouterApiKey);
+		// Settings save on every keystroke, so the provider and embedding backend are
+		// rebuilt only when the settings they are built from changed
+		const providerSettings = this.getProviderSettings();
+		if (providerSettings !== this.providerSettings) {
+			this.providerSettings = providerSettings;
+			this.llmProvider = createLLMProvider(this.settings, this.usageTracker?.listener);
+			// Pricing may differ between providers
+			this.usageTracker?.setPricingSource(
+				() => this.llmProvider?.fetchModels() ?? Promise.resolve([])
+			);
+			if (this.llmProvider.isConfigured()) {
+				this.usageTracker?.prefetchPricing();
+			}
+			if (this.chatEngine) {
+				this.chatEngine.setProvider(this.llmProvider);
+			}
+			if (this.reportGenerator) {
+				this.reportGenerator.setProvider(this.llmProvider);
+			}
 		}
-		if (this.embedder) {
-			this.embedder.setApiKey(this.settings.openRouterApiKey);
-			this.embedder.setModel(this.settings.embeddingModel);
+		const embeddingSettings = this.getEmbeddingSettings();
+		if (this.embedder && embeddingSettings !== this.embeddingSettings) {
+			this.embeddingSettings = embeddingSettings;
+			this.embedder.setBackend(
+				createEmbeddingBackend(this.settings, this.usageTracker?.listener)
+			);
+			// Re-validate eagerly so the status bar reflects the new backend right away
+			await this.embedder.initialize().catch(() => {
+				// Not configured yet (e.g. API key still being typed); embed() retries lazily
+			});
+			this.updateChatViewStatus();
+			this.scheduleEmbeddingModelCheck();
 		}
 		if (this.chatEngine) {
+			this.chatEngine.setFallbackModels(
+				this.settings.chatFallbackModels,
+				this.settings.summaryFallbackModels
+			);
 			this.chatEngine.updateSettings(
 				this.settings.chatModel,
 				this.settings.summaryModel,
@@ -366,6 +833,7 @@ export default class ReflectionChatPlugin extends Plugin {
 			);
 		}
 		if (this.reportGenerator) {
+			this.reportGenerator.setFallbackModels(this.settings.summaryFallbackModels);
 			this.reportGenerator.updateSettings(
 				this.settings.journalFolder,
 				this.settings.summaryModel
@@ -374,15 +842,22 @@ export default class ReflectionChatPlugin extends Plugin {
 		if (this.noteIndexer) {
 			this.noteIndexer.updateSettings(
 				this.settings.journalFolder,
-				this.settings.entitiesFolder
+				this.settings.entitiesFolder,
+				this.getIndexScope()
 			);
 		}
+		if (this.vectorStore) {
+			// Rewrites stored shards in the new encoding on the next save
+			this.vectorStore.setEncoding(this.settings.vectorEncoding);
+		}
 		if (this.contextRetriever) {
 			this.contextRetriever.updateSettings(
 				this.settings.journalFolder,
 				this.settings.entitiesFolder,
 				this.settings.contextWindowDays,
-				this.settings.maxSemanticResults
+				this.settings.maxSemanticResults,
+				this.settings.keywordWeight,
+				this.getRerankOptions()
 			);
 		}
 	}
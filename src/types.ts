@@ -63,8 +63,47 @@ export interface Session {
 export interface ConversationContext {
 	recentNotes: NoteSummary[];
 	semanticMatches: SearchResult[];
+	relatedNotes: SearchResult[]; // Indexed notes outside the journal and entities folders
 	linkedEntities: Entity[];
 	linkedGoals: Goal[];
+	followUps: FollowUp[]; // Open items from recent sessions, newest first
+	sources: ContextSource[]; // Every note above, with why it was included
+}
+
+// A next action or open question from a past session that is not checked off yet
+export interface FollowUp {
+	kind: 'action' | 'question';
+	text: string;
+	path: string; // Session note it was recorded in
+	date: string; // Date of that session (YYYY-MM-DD)
+	ageDays: number; // Days since that session
+}
+
+// Search queries and entity names drafted from the conversation before retrieval
+export interface QueryPlan {
+	queries: string[]; // 1-3 focused queries, each searched separately
+	entities: string[]; // Names of people, projects etc. the conversation is about
+}
+
+// Why a note is in the conversation context
+export type ContextReason = 'recent' | 'semantic' | 'entity' | 'goal' | 'followUp' | 'pinned';
+
+export interface ContextSource {
+	path: string;
+	title: string;
+	reason: ContextReason; // 'pinned' only for notes retrieval didn't find by itself
+	score?: number; // Search relevance of semantic matches
+	pinned: boolean;
+}
+
+/**
+ * The user's choices for the rest of a chat session, applied on every turn
+ * Pinned notes are always included (and kept first when space is short);
+ * excluded notes are never sent to the LLM.
+ */
+export interface ContextOverrides {
+	pinned: string[]; // Note paths
+	excluded: string[];
 }
 
 // Note Metadata
@@ -75,14 +114,26 @@ export interface NoteSummary {
 	summary: string;
 	tags: string[];
 	category: string;
-	type: 'session' | 'entity';
+	type: NoteType;
 }
 
+// Journal session, entity note, goal note, weekly/monthly report, or any other
+// note in the indexing scope
+export type NoteType = 'session' | 'entity' | 'goal' | 'report' | 'note';
+
 // Vector Search Result
 export interface SearchResult {
 	id: string;
 	score: number;
 	metadata: NoteSummary;
+	passage?: NotePassage; // Best matching part of the note (absent for whole-note matches)
+}
+
+// Section of a note matched by semantic search
+export interface NotePassage {
+	text: string;
+	headings: string[]; // Enclosing headings, outermost first
+	offset: number; // Character offset in the note file
 }
 
 // Entity (Person, Project, Book, etc.)
@@ -95,6 +146,25 @@ export interface Entity {
 
 export type EntityType = 'person' | 'project' | 'company' | 'book' | 'other';
 
+/**
+ * Metadata filter for note search; every given condition must hold
+ * Tags are compared without the leading # and case-insensitively.
+ */
+export interface VectorFilter {
+	type?: NoteType;
+	entityTypes?: EntityType[]; // Entity notes of any of these types
+	goalStatuses?: GoalStatus[]; // Goal notes with any of these statuses
+	categories?: string[]; // Any of these categories
+	dateFrom?: string; // YYYY-MM-DD, inclusive
+	dateTo?: string; // YYYY-MM-DD, inclusive
+	tags?: {
+		any?: string[]; // At least one of these
+		all?: string[]; // Every one of these
+		none?: string[]; // None of these
+	};
+	pathPrefixes?: string[]; // Note path starts with any of these
+}
+
 // Session Summary
 export interface SessionSummary {
 	summary: string;
@@ -110,6 +180,7 @@ export interface SessionSummary {
 	openQuestions?: string[];
 	timeframe?: Timeframe;
 	goals?: ExtractedGoal[];
+	resolvedFollowUps?: FollowUp[]; // Earlier follow-ups the user reported as done or answered
 }
 
 /**
@@ -278,21 +349,67 @@ export interface CoachCharacter {
 	isPreset: boolean;
 }
 
+/**
+ * LLM provider backend
+ * - openrouter: OpenRouter hosted API
+ * - openai-compatible: Any OpenAI-compatible server (llama.cpp, Ollama, vLLM, ...)
+ */
+export type LLMProviderType = 'openrouter' | 'openai-compatible';
+
+/**
+ * Embedding backend
+ * - openrouter: OpenRouter embeddings API
+ * - openai-compatible: /embeddings on the custom endpoint configured for the LLM provider
+ * - local: Built-in hashed character n-gram vectors (offline, no model download)
+ */
+export type EmbeddingBackendType = 'openrouter' | 'openai-compatible' | 'local';
+
+/**
+ * How vectors are stored on disk
+ * - float32: 4 bytes per value, lossless for the embeddings we receive
+ * - int8: 1 byte per value with a per-vector scale; a quarter of the size, slightly lossy
+ */
+export type VectorEncoding = 'float32' | 'int8';
+
+/**
+ * What to do once the monthly budget is exceeded
+ * - warn: Show a notice but keep going
+ * - block: Refuse new chat messages and reports until next month
+ */
+export type BudgetMode = 'warn' | 'block';
+
 // Plugin Settings
 export interface PluginSettings {
 	// API
+	llmProvider: LLMProviderType;
 	openRouterApiKey: string;
+	customBaseUrl: string;
+	customApiKey: string;
+	customHeaders: string; // "Name: value" per line
 	chatModel: string;
 	summaryModel: string;
+	embeddingBackend: EmbeddingBackendType;
 	embeddingModel: string;
+	// Ordered fallbacks tried when the primary model is rate-limited or unavailable
+	chatFallbackModels: string[];
+	summaryFallbackModels: string[];
+	embeddingFallbackModels: string[];
 
 	// Folders
 	journalFolder: string;
 	entitiesFolder: string;
+	// Indexing scope beyond the journal and entities folders (folder names or globs)
+	indexIncludeFolders: string[];
+	indexExcludeFolders: string[];
+	indexExcludeTags: string[]; // Notes with any of these tags are never indexed
 
 	// Context
 	contextWindowDays: number;
 	maxSemanticResults: number;
+	keywordWeight: number; // 0-1: share of keyword (BM25) ranking when fusing with vector search
+	semanticDiversity: number; // 0-1: MMR trade-off between relevance and novelty (0 = off)
+	recencyHalfLifeDays: number; // Age at which a related note's relevance halves (0 = off)
+	queryPlanning: boolean; // Ask the summary model for focused search queries before retrieval
 
 	// Prompt
 	systemPrompt: string;
@@ -301,27 +418,50 @@ export interface PluginSettings {
 	selectedCharacterId: string;
 	customCharacters: CoachCharacter[];
 
+	// Usage
+	monthlyBudgetUsd: number; // 0 = no budget
+	budgetMode: BudgetMode;
+
 	// Other
 	language: 'ja' | 'en';
 	autoIndex: boolean;
+	vectorEncoding: VectorEncoding;
 }
 
 // Default Settings
 // Note: systemPrompt is empty by default, meaning "use language default from translations"
 export const DEFAULT_SETTINGS: PluginSettings = {
+	llmProvider: 'openrouter',
 	openRouterApiKey: '',
+	customBaseUrl: 'http://localhost:11434/v1',
+	customApiKey: '',
+	customHeaders: '',
 	chatModel: 'anthropic/claude-sonnet-4.5',
 	summaryModel: 'anthropic/claude-haiku-4.5',
+	embeddingBackend: 'openrouter',
 	embeddingModel: 'qwen/qwen3-embedding-8b',
+	chatFallbackModels: [],
+	summaryFallbackModels: [],
+	embeddingFallbackModels: [],
 	journalFolder: 'journal',
 	entitiesFolder: 'entities',
+	indexIncludeFolders: [],
+	indexExcludeFolders: [],
+	indexExcludeTags: [],
 	contextWindowDays: 7,
 	maxSemanticResults: 5,
+	keywordWeight: 0.3,
+	semanticDiversity: 0.3,
+	recencyHalfLifeDays: 0,
+	queryPlanning: false,
 	systemPrompt: '',
 	selectedCharacterId: 'carl',
 	customCharacters: [],
+	monthlyBudgetUsd: 0,
+	budgetMode: 'warn',
 	language: 'ja',
 	autoIndex: true,
+	vectorEncoding: 'float32',
 };
 
 // OpenRouter Model
@@ -333,6 +473,7 @@ export interface OpenRouterModel {
 		prompt: string;
 		completion: string;
 	};
+	supported_parameters?: string[]; // e.g. 'response_format', 'structured_outputs'
 }
 
 // Chat Completion Message (OpenAI format)
@@ -348,6 +489,41 @@ export interface ModelInfo {
 	embeddingModel: string;
 }
 
+// Which feature an API call was made for
+// 'embedding' is a conversation's query; 'indexing' embeds notes and 'search' is a
+// search-modal query, both outside of any session
+export type UsagePurpose =
+	| 'chat'
+	| 'summary'
+	| 'embedding'
+	| 'indexing'
+	| 'search'
+	| 'report'
+	| 'planning';
+
+// Token counts reported by the API for a single call
+export interface UsageEvent {
+	purpose: UsagePurpose;
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+}
+
+export type UsageListener = (event: UsageEvent) => void;
+
+// Accumulated token usage and estimated cost
+export interface UsageTotals {
+	promptTokens: number;
+	completionTokens: number;
+	costUsd: number;
+}
+
+// Usage block returned by OpenAI-compatible APIs
+export interface ApiUsage {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+}
+
 // Streaming Chunk
 export interface StreamChunk {
 	choices: {
@@ -356,4 +532,6 @@ export interface StreamChunk {
 		};
 		finish_reason?: string;
 	}[];
+	// Sent on the final chunk when stream_options.include_usage is set
+	usage?: ApiUsage | null;
 }
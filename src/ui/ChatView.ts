@@ -1,35 +1,62 @@
 import { ItemView, WorkspaceLeaf, setIcon, Notice, MarkdownRenderer, Component } from 'obsidian';
 import type ReflectionChatPlugin from '../main';
-import type { Message, ConversationContext } from '../types';
+import type {
+	Message,
+	ConversationContext,
+	ContextOverrides,
+	ContextReason,
+	QueryPlan,
+	FollowUp,
+	SessionSummary,
+} from '../types';
 import { openPluginSettings } from '../types';
-import { getErrorMessage } from '../utils/errors';
+import {
+	getErrorMessage,
+	isAbortError,
+	SummaryExtractionError,
+	throwIfAborted,
+} from '../utils/errors';
 import { getTranslations } from '../i18n';
 import { logger } from '../utils/logger';
-import { generateId } from '../utils/sanitize';
+import { buildHeadingLink, generateId } from '../utils/sanitize';
 
 export const VIEW_TYPE_CHAT = 'reflection-chat-view';
 
 interface ChatViewState extends Record<string, unknown> {
 	messages: Message[];
+	contextOverrides?: ContextOverrides;
 }
 
+const REASON_ICONS: Record<ContextReason, string> = {
+	recent: 'calendar',
+	semantic: 'file-text',
+	entity: 'user',
+	goal: 'target',
+	followUp: 'list-checks',
+	pinned: 'pin',
+};
+
 export class ChatView extends ItemView {
 	private static readonly MAX_MESSAGE_HISTORY = 100;
 	private static readonly MAX_TEXTAREA_HEIGHT = 120;
 	private static readonly MAX_MESSAGE_LENGTH = 50000; // 50KB per message
 	private static readonly MAX_STREAMING_LENGTH = 100000; // 100KB for streaming content
+	private static readonly MAX_CONTEXT_OVERRIDES = 100; // Pinned or excluded notes restored from state
 
 	private plugin: ReflectionChatPlugin;
 	private messagesContainer: HTMLElement | null = null;
 	private inputEl: HTMLTextAreaElement | null = null;
 	private sendBtn: HTMLButtonElement | null = null;
+	private stopBtn: HTMLButtonElement | null = null;
 	private relatedPanel: HTMLElement | null = null;
 	private statusBar: HTMLElement | null = null;
+	private budgetWarningShown = false;
 
 	// Event handler references for cleanup
 	private inputResizeHandler: (() => void) | null = null;
 	private inputKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
 	private sendClickHandler: (() => void) | null = null;
+	private stopClickHandler: (() => void) | null = null;
 
 	// Button references for cleanup
 	private newChatBtn: HTMLButtonElement | null = null;
@@ -51,9 +78,12 @@ export class ChatView extends ItemView {
 	private isClosed = false; // Prevents operations after view is closed
 	private uiHealthy = true; // Tracks if UI is in a valid state after recovery failures
 	private streamingContent = '';
-	private currentStreamingAbortController: AbortController | null = null; // For canceling ongoing streams
+	private currentAbortController: AbortController | null = null; // For canceling the running request
 	private streamingTruncated = false; // Track if streaming was truncated
 	private currentStreamingElement: HTMLElement | null = null; // Cache for streaming element
+	private contextOverrides: ContextOverrides = { pinned: [], excluded: [] }; // For this chat session
+	private shownContext: ConversationContext | null = null; // Context of the latest message
+	private showSystemPrompt = false;
 
 	constructor(leaf: WorkspaceLeaf, plugin: ReflectionChatPlugin) {
 		super(leaf);
@@ -158,6 +188,14 @@ export class ChatView extends ItemView {
 			text: t.ui.send,
 		});
 
+		// Shown only while a request is running
+		this.stopBtn = inputWrapper.createEl('button', {
+			cls: 'reflection-chat-stop-btn',
+			attr: { 'aria-label': t.ui.stop },
+		});
+		setIcon(this.stopBtn.createSpan(), 'square');
+		this.stopBtn.createSpan({ text: t.ui.stop });
+
 		// Auto-resize textarea - store handler for cleanup
 		this.inputResizeHandler = () => {
 			if (this.inputEl) {
@@ -181,6 +219,10 @@ export class ChatView extends ItemView {
 		this.sendClickHandler = () => this.sendMessage();
 		this.sendBtn.addEventListener('click', this.sendClickHandler);
 
+		this.stopClickHandler = () => this.stopGeneration();
+		this.stopBtn.addEventListener('click', this.stopClickHandler);
+		this.updateSendButton();
+
 		// Action buttons
 		const actions = inputArea.createDiv({ cls: 'reflection-chat-actions' });
 
@@ -205,9 +247,9 @@ export class ChatView extends ItemView {
 		this.isClosed = true;
 
 		// Abort any ongoing streaming
-		if (this.currentStreamingAbortController) {
-			this.currentStreamingAbortController.abort();
-			this.currentStreamingAbortController = null;
+		if (this.currentAbortController) {
+			this.currentAbortController.abort();
+			this.currentAbortController = null;
 		}
 
 		// Remove event listeners before clearing element references
@@ -217,6 +259,7 @@ export class ChatView extends ItemView {
 		this.messagesContainer = null;
 		this.inputEl = null;
 		this.sendBtn = null;
+		this.stopBtn = null;
 		this.relatedPanel = null;
 		this.statusBar = null;
 		this.currentStreamingElement = null;
@@ -250,6 +293,9 @@ export class ChatView extends ItemView {
 		if (this.sendBtn && this.sendClickHandler) {
 			this.sendBtn.removeEventListener('click', this.sendClickHandler);
 		}
+		if (this.stopBtn && this.stopClickHandler) {
+			this.stopBtn.removeEventListener('click', this.stopClickHandler);
+		}
 
 		// Cleanup button listeners
 		if (this.newChatBtn && this.newChatHandler) {
@@ -275,6 +321,7 @@ export class ChatView extends ItemView {
 		this.inputResizeHandler = null;
 		this.inputKeydownHandler = null;
 		this.sendClickHandler = null;
+		this.stopClickHandler = null;
 		this.newChatHandler = null;
 		this.settingsHandler = null;
 		this.saveHandler = null;
@@ -326,6 +373,7 @@ export class ChatView extends ItemView {
 	getState(): ChatViewState {
 		return {
 			messages: this.messages,
+			contextOverrides: this.contextOverrides,
 		};
 	}
 
@@ -335,6 +383,9 @@ export class ChatView extends ItemView {
 		const originalCount = Array.isArray(rawObj?.messages) ? rawObj.messages.length : 0;
 
 		const chatState = this.validateChatState(state);
+		if (chatState?.contextOverrides) {
+			this.contextOverrides = chatState.contextOverrides;
+		}
 		if (chatState?.messages) {
 			// Warn if messages were filtered out during validation
 			const filteredCount = originalCount - chatState.messages.length;
@@ -370,21 +421,122 @@ export class ChatView extends ItemView {
 		this.statusBar.empty();
 
 		const t = getTranslations();
-		const isConfigured = this.plugin.openRouterClient?.isConfigured();
+		const isConfigured = this.plugin.llmProvider?.isConfigured();
 		const isEmbeddingReady = this.plugin.embedder?.isReady();
 
 		if (!isConfigured) {
 			this.statusBar.style.display = 'block';
 			this.statusBar.addClass('warning');
 			setIcon(this.statusBar.createSpan(), 'alert-triangle');
-			this.statusBar.createSpan({ text: t.notices.apiKeyNotSet });
+			this.statusBar.createSpan({ text: this.getNotConfiguredMessage() });
 		} else if (!isEmbeddingReady) {
 			this.statusBar.style.display = 'block';
 			this.statusBar.removeClass('warning');
 			setIcon(this.statusBar.createSpan(), 'loader');
 			this.statusBar.createSpan({ text: t.notices.embeddingLoading });
+		} else if (this.plugin.hasEmbeddingModelMismatch()) {
+			this.statusBar.style.display = 'block';
+			this.statusBar.addClass('warning');
+			setIcon(this.statusBar.createSpan(), 'alert-triangle');
+			this.statusBar.createSpan({ text: t.ui.embeddingModelMismatch });
 		} else {
-			this.statusBar.style.display = 'none';
+			// Show which embedding backend serves semantic search
+			this.statusBar.style.display = 'block';
+			this.statusBar.removeClass('warning');
+			const backendType = this.plugin.embedder?.getBackendType() ?? 'openrouter';
+			const labels = t.settings.api.embeddingBackendOptions;
+			const label =
+				backendType === 'local'
+					? labels.local
+					: backendType === 'openai-compatible'
+						? labels.openaiCompatible
+						: labels.openrouter;
+			setIcon(this.statusBar.createSpan(), backendType === 'local' ? 'hard-drive' : 'cloud');
+			this.statusBar.createSpan({
+				text: t.ui.embeddingBackendStatus.replace('{backend}', label),
+			});
+		}
+	}
+
+	/**
+	 * Enforce the monthly budget before making a new API call
+	 * Saving a session is always allowed so conversations aren't lost.
+	 * @returns false if the call should be blocked
+	 */
+	private checkBudget(): boolean {
+		const { monthlyBudgetUsd, budgetMode } = this.plugin.settings;
+		const tracker = this.plugin.usageTracker;
+		if (!tracker || !tracker.isOverBudget(monthlyBudgetUsd)) {
+			return true;
+		}
+
+		const t = getTranslations();
+		const spent = tracker.getMonthUsage().costUsd.toFixed(2);
+		const budget = monthlyBudgetUsd.toFixed(2);
+
+		if (budgetMode === 'block') {
+			new Notice(
+				t.notices.budgetBlocked.replace('{spent}', spent).replace('{budget}', budget)
+			);
+			return false;
+		}
+
+		// Warn once per view to avoid a notice on every message
+		if (!this.budgetWarningShown) {
+			this.budgetWarningShown = true;
+			new Notice(
+				t.notices.budgetExceeded.replace('{spent}', spent).replace('{budget}', budget)
+			);
+		}
+		return true;
+	}
+
+	/**
+	 * Setup hint for an unconfigured provider (API key vs. endpoint URL)
+	 */
+	private getNotConfiguredMessage(): string {
+		const t = getTranslations();
+		return this.plugin.settings.llmProvider === 'openai-compatible'
+			? t.errors.endpointNotConfigured
+			: t.notices.apiKeyNotSet;
+	}
+
+	/**
+	 * Whether a chat response, summary or report is being generated
+	 */
+	isGenerating(): boolean {
+		return this.currentAbortController !== null;
+	}
+
+	/**
+	 * Cancel the running request; the API call itself is aborted, not just the UI
+	 */
+	stopGeneration(): void {
+		if (!this.currentAbortController) return;
+		this.currentAbortController.abort();
+		new Notice(getTranslations().notices.generationStopped);
+	}
+
+	/**
+	 * Start a cancellable request, aborting any previous one
+	 * Create the new controller first to prevent a gap where the controller is null
+	 */
+	private beginRequest(): AbortController {
+		const oldController = this.currentAbortController;
+		const controller = new AbortController();
+		this.currentAbortController = controller;
+		if (oldController) {
+			oldController.abort();
+		}
+		return controller;
+	}
+
+	/**
+	 * Release the controller unless a newer request has replaced it
+	 */
+	private endRequest(controller: AbortController): void {
+		if (this.currentAbortController === controller) {
+			this.currentAbortController = null;
 		}
 	}
 
@@ -402,11 +554,12 @@ export class ChatView extends ItemView {
 	private clearChat(): void {
 		this.messages = [];
 		this.streamingContent = '';
+		this.plugin.usageTracker?.resetSession();
+		this.plugin.chatEngine?.resetAnsweredModels();
+		this.contextOverrides = { pinned: [], excluded: [] };
+		this.shownContext = null;
 		this.renderMessages();
-
-		if (this.relatedPanel) {
-			this.relatedPanel.style.display = 'none';
-		}
+		this.renderRelatedPanel();
 	}
 
 	private renderEmptyState(): void {
@@ -602,20 +755,19 @@ export class ChatView extends ItemView {
 		}
 
 		// Check if API is configured
-		if (!this.plugin.openRouterClient?.isConfigured()) {
-			new Notice(t.notices.apiKeyNotSet);
+		if (!this.plugin.llmProvider?.isConfigured()) {
+			new Notice(this.getNotConfiguredMessage());
 			openPluginSettings(this.app, 'reflection-chat');
 			return;
 		}
 
-		// Cancel any ongoing streaming before starting new one
-		// Create new controller first to prevent gap where controller is null
-		const oldController = this.currentStreamingAbortController;
-		this.currentStreamingAbortController = new AbortController();
-		if (oldController) {
-			oldController.abort();
+		if (!this.checkBudget()) {
+			return;
 		}
 
+		// Cancel any ongoing streaming before starting new one
+		const controller = this.beginRequest();
+
 		// Clear input
 		this.inputEl.value = '';
 		this.inputEl.style.height = 'auto';
@@ -637,14 +789,17 @@ export class ChatView extends ItemView {
 
 		try {
 			// Get context
-			const context = await this.getContext(content);
+			const context = await this.getContext(content, controller.signal);
 
 			// Show related notes if any
 			this.showRelatedNotes(context);
 
 			// Stream response (AbortController already created at method start)
 			this.streamingContent = '';
-			await this.streamResponse(content, context);
+			await this.streamResponse(content, context, controller);
+			if (this.showSystemPrompt) {
+				this.renderRelatedPanel(); // Now shows this turn's prompt
+			}
 
 			// Notify user if content was truncated
 			if (this.streamingTruncated) {
@@ -662,7 +817,7 @@ export class ChatView extends ItemView {
 			this.finalizeStreamingMessage();
 		} catch (error) {
 			// Don't show error for aborted requests
-			if (error instanceof Error && error.name === 'AbortError') {
+			if (isAbortError(error)) {
 				logger.info('Streaming aborted by user');
 				// Remove partial streaming content on abort to avoid inconsistent state
 				// (content visible in UI but not saved to history)
@@ -676,7 +831,7 @@ export class ChatView extends ItemView {
 			const errorMsg = getErrorMessage(error);
 			this.renderError(errorMsg);
 		} finally {
-			this.currentStreamingAbortController = null;
+			this.endRequest(controller);
 			this.currentStreamingElement = null; // Clear cached element
 			this.isLoading = false;
 			this.updateSendButton();
@@ -748,6 +903,10 @@ ${t.help.tip}`;
 			return;
 		}
 
+		if (!this.checkBudget()) {
+			return;
+		}
+
 		// Set loading state
 		this.isLoading = true;
 		this.updateSendButton();
@@ -843,6 +1002,9 @@ ${t.help.tip}`;
 		this.scrollToBottom();
 	}
 
+	/**
+	 * Generate a report as a cancellable request; a stopped report is not saved
+	 */
 	private async generateAndShowReport(
 		command: import('../core/ReportGenerator').ReportCommand
 	): Promise<void> {
@@ -854,7 +1016,22 @@ ${t.help.tip}`;
 			return;
 		}
 
-		const { content, filePath } = await reportGenerator.generateReport(command);
+		const controller = this.beginRequest();
+		this.updateSendButton();
+		let result: { content: string; filePath: string };
+		try {
+			result = await reportGenerator.generateReport(command, controller.signal);
+		} catch (error) {
+			if (isAbortError(error)) {
+				logger.info('Report generation aborted by user');
+				return;
+			}
+			throw error;
+		} finally {
+			this.endRequest(controller);
+			this.updateSendButton();
+		}
+		const { content, filePath } = result;
 
 		// Check if no sessions found
 		const { startDate, endDate } = reportGenerator.getDateRange(command);
@@ -900,11 +1077,24 @@ ${t.help.tip}`;
 		}
 	}
 
-	private async getContext(message: string): Promise<ConversationContext> {
-		if (this.plugin.embedder?.isReady() && this.plugin.contextRetriever) {
+	/**
+	 * Context for the next reply
+	 * Not gated on the embedder: keyword, recent, entity and follow-up context still
+	 * work while embeddings are unavailable, and vector search then finds nothing.
+	 */
+	private async getContext(message: string, signal: AbortSignal): Promise<ConversationContext> {
+		if (this.plugin.contextRetriever) {
 			try {
-				return await this.plugin.contextRetriever.retrieve(message, this.messages);
+				const plan = await this.planQueries(signal);
+				return await this.plugin.contextRetriever.retrieve(
+					message,
+					this.messages,
+					signal,
+					this.contextOverrides,
+					plan
+				);
 			} catch (error) {
+				if (isAbortError(error)) throw error;
 				logger.error(
 					'Context retrieval error:',
 					error instanceof Error ? error : undefined
@@ -915,107 +1105,235 @@ ${t.help.tip}`;
 		return {
 			recentNotes: [],
 			semanticMatches: [],
+			relatedNotes: [],
 			linkedEntities: [],
 			linkedGoals: [],
+			followUps: [],
+			sources: [],
 		};
 	}
 
-	private async streamResponse(userMessage: string, context: ConversationContext): Promise<void> {
+	/**
+	 * Search queries drafted by the summary model, when query planning is on
+	 * A failed plan falls back to searching with the conversation text.
+	 */
+	private async planQueries(signal: AbortSignal): Promise<QueryPlan | null> {
+		if (!this.plugin.settings.queryPlanning || !this.plugin.chatEngine) return null;
+		try {
+			return await this.plugin.chatEngine.planQueries(this.messages, signal);
+		} catch (error) {
+			if (isAbortError(error)) throw error;
+			logger.warn(
+				'Query planning failed, searching with the conversation text:',
+				error instanceof Error ? error.message : error
+			);
+			return null;
+		}
+	}
+
+	private async streamResponse(
+		userMessage: string,
+		context: ConversationContext,
+		abortController: AbortController
+	): Promise<void> {
 		if (!this.plugin.chatEngine) {
 			throw new Error('Chat engine not initialized');
 		}
 
-		// Capture abort controller reference to avoid race conditions
-		const abortController = this.currentStreamingAbortController;
-
 		// Check if already aborted
-		if (abortController?.signal.aborted) {
-			throw new Error('Streaming aborted');
-		}
-
-		await this.plugin.chatEngine.chatStream(this.messages, context, (chunk: string) => {
-			// Check if view is closed or aborted
-			if (this.isClosed || abortController?.signal.aborted) {
-				return; // Stop processing chunks
-			}
+		throwIfAborted(abortController.signal);
+
+		await this.plugin.chatEngine.chatStream(
+			this.messages,
+			context,
+			(chunk: string) => {
+				// Check if view is closed or aborted
+				if (this.isClosed || abortController.signal.aborted) {
+					return; // Stop processing chunks
+				}
 
-			try {
-				// Enforce streaming content limit to prevent memory issues
-				if (this.streamingContent.length < ChatView.MAX_STREAMING_LENGTH) {
-					this.streamingContent += chunk;
-					this.renderStreamingMessage(this.streamingContent);
-				} else if (!this.streamingTruncated) {
-					// Mark as truncated only once
-					this.streamingTruncated = true;
-					this.streamingContent += '... (truncated)';
-					this.renderStreamingMessage(this.streamingContent);
+				try {
+					// Enforce streaming content limit to prevent memory issues
+					if (this.streamingContent.length < ChatView.MAX_STREAMING_LENGTH) {
+						this.streamingContent += chunk;
+						this.renderStreamingMessage(this.streamingContent);
+					} else if (!this.streamingTruncated) {
+						// Mark as truncated only once
+						this.streamingTruncated = true;
+						this.streamingContent += '... (truncated)';
+						this.renderStreamingMessage(this.streamingContent);
+					}
+				} catch (renderError) {
+					// Abort stream on rendering errors to avoid wasting resources
+					logger.error(
+						'Error rendering streaming message, aborting stream:',
+						renderError instanceof Error ? renderError : undefined
+					);
+					abortController.abort();
 				}
-			} catch (renderError) {
-				// Abort stream on rendering errors to avoid wasting resources
-				logger.error(
-					'Error rendering streaming message, aborting stream:',
-					renderError instanceof Error ? renderError : undefined
-				);
-				abortController?.abort();
-			}
-		});
+			},
+			abortController.signal
+		);
 	}
 
 	private showRelatedNotes(context: ConversationContext): void {
-		if (!this.relatedPanel) return;
+		this.shownContext = context;
+		this.renderRelatedPanel();
+	}
 
-		const t = getTranslations();
-		const hasRelated =
-			context.recentNotes.length > 0 ||
-			context.semanticMatches.length > 0 ||
-			context.linkedEntities.length > 0;
+	/**
+	 * Context inspector: each note in the context with why it was included, controls
+	 * to pin or exclude it for the rest of the session, and the system prompt sent
+	 */
+	private renderRelatedPanel(): void {
+		if (!this.relatedPanel) return;
 
 		// Always clean up old related item handlers before re-rendering or hiding
 		this.cleanupRelatedItemHandlers();
 
-		if (!hasRelated) {
+		const context = this.shownContext;
+		const { pinned, excluded } = this.contextOverrides;
+		const sources = (context?.sources ?? []).filter(
+			(source) => !excluded.includes(source.path)
+		);
+		if (!context || (sources.length === 0 && excluded.length === 0)) {
 			this.relatedPanel.style.display = 'none';
 			return;
 		}
 
+		const t = getTranslations();
 		this.relatedPanel.empty();
 		this.relatedPanel.style.display = 'block';
 
 		const header = this.relatedPanel.createDiv({ cls: 'reflection-chat-related-header' });
 		setIcon(header.createSpan(), 'link');
 		header.createSpan({ text: t.ui.relatedNotes });
+		this.addRelatedButton(
+			header,
+			'code',
+			this.showSystemPrompt ? t.ui.hideSystemPrompt : t.ui.showSystemPrompt,
+			() => {
+				this.showSystemPrompt = !this.showSystemPrompt;
+				this.renderRelatedPanel();
+			}
+		);
 
 		const items = this.relatedPanel.createDiv({ cls: 'reflection-chat-related-items' });
+		const matches = [...context.semanticMatches, ...context.relatedNotes];
 
-		for (const match of context.semanticMatches.slice(0, 3)) {
+		for (const source of sources) {
 			const item = items.createDiv({ cls: 'reflection-chat-related-item' });
-			setIcon(item.createSpan(), 'file-text');
-			item.createSpan({ text: match.metadata.title });
+			const match = matches.find((m) => m.metadata.path === source.path);
+			const icon =
+				source.reason === 'semantic' && match?.metadata.type === 'note'
+					? 'sticky-note'
+					: REASON_ICONS[source.reason];
+			setIcon(item.createSpan(), icon);
+
+			const headings = match?.passage?.headings ?? [];
+			item.createSpan({
+				cls: 'reflection-chat-related-title',
+				text: [source.title, ...headings.slice(0, 1)].join(' › '),
+			});
+			if (match?.passage) {
+				item.setAttr('aria-label', match.passage.text);
+			}
+
+			const reason = t.ui.contextReasons[source.reason];
+			item.createSpan({
+				cls: 'reflection-chat-related-reason',
+				text: source.score !== undefined ? `${reason} ${source.score.toFixed(3)}` : reason,
+			});
+
+			const isPinned = pinned.includes(source.path);
+			this.addRelatedButton(
+				item,
+				isPinned ? 'pin-off' : 'pin',
+				isPinned ? t.ui.unpin : t.ui.pin,
+				() => this.updateContextOverrides(source.path, isPinned ? 'unpin' : 'pin')
+			);
+			this.addRelatedButton(item, 'eye-off', t.ui.excludeFromContext, () =>
+				this.updateContextOverrides(source.path, 'exclude')
+			);
+
+			// Heading subpath (note#Section#Subsection) opens at the matching section
+			const linkText = buildHeadingLink(source.path, headings);
 			const handler = () => {
-				this.app.workspace.openLinkText(match.metadata.path, '', true);
+				this.app.workspace.openLinkText(linkText, '', true);
 			};
 			item.addEventListener('click', handler);
 			this.dynamicClickHandlers.push({ element: item, handler });
 		}
 
-		for (const entity of context.linkedEntities.slice(0, 3)) {
-			// Skip entities with missing or invalid data
-			if (!entity.path || !entity.name) {
-				logger.error('Corrupted entity data: missing path or name');
-				continue;
+		if (excluded.length > 0) {
+			const excludedEl = this.relatedPanel.createDiv({
+				cls: 'reflection-chat-related-items',
+			});
+			excludedEl.createDiv({
+				cls: 'reflection-chat-related-subheader',
+				text: t.ui.excludedNotes,
+			});
+			for (const path of excluded) {
+				const item = excludedEl.createDiv({
+					cls: 'reflection-chat-related-item is-excluded',
+				});
+				setIcon(item.createSpan(), 'eye-off');
+				item.createSpan({
+					cls: 'reflection-chat-related-title',
+					text: path.split('/').pop()?.replace(/\.md$/, '') ?? path,
+				});
+				this.addRelatedButton(item, 'eye', t.ui.includeInContext, () =>
+					this.updateContextOverrides(path, 'include')
+				);
 			}
-			const item = items.createDiv({ cls: 'reflection-chat-related-item' });
-			setIcon(item.createSpan(), 'user');
-			item.createSpan({ text: entity.name });
-			const entityPath = entity.path; // Capture for closure
-			const handler = () => {
-				this.app.workspace.openLinkText(entityPath, '', true);
-			};
-			item.addEventListener('click', handler);
-			this.dynamicClickHandlers.push({ element: item, handler });
+		}
+
+		if (this.showSystemPrompt) {
+			this.relatedPanel.createEl('pre', {
+				cls: 'reflection-chat-system-prompt',
+				text: this.plugin.chatEngine?.getLastSystemPrompt() ?? t.ui.noSystemPrompt,
+			});
 		}
 	}
 
+	/**
+	 * Icon button inside the related panel (doesn't trigger the item's own click)
+	 */
+	private addRelatedButton(
+		parent: HTMLElement,
+		icon: string,
+		label: string,
+		onClick: () => void
+	): void {
+		const button = parent.createEl('button', {
+			cls: 'clickable-icon reflection-chat-related-action',
+			attr: { 'aria-label': label },
+		});
+		setIcon(button, icon);
+		const handler = (event?: Event) => {
+			event?.stopPropagation();
+			onClick();
+		};
+		button.addEventListener('click', handler);
+		this.dynamicClickHandlers.push({ element: button, handler });
+	}
+
+	/**
+	 * Pin, unpin, exclude or re-include a note for the rest of this chat session
+	 * Takes effect from the next message.
+	 */
+	private updateContextOverrides(
+		path: string,
+		action: 'pin' | 'unpin' | 'exclude' | 'include'
+	): void {
+		const pinned = this.contextOverrides.pinned.filter((p) => p !== path);
+		const excluded = this.contextOverrides.excluded.filter((p) => p !== path);
+		if (action === 'pin') pinned.push(path);
+		if (action === 'exclude') excluded.push(path);
+		this.contextOverrides = { pinned, excluded };
+		this.renderRelatedPanel();
+	}
+
 	/**
 	 * Clean up related item click handlers before re-rendering
 	 * Removes handlers for elements that are children of relatedPanel
@@ -1035,6 +1353,16 @@ ${t.help.tip}`;
 		this.dynamicClickHandlers = handlersToKeep;
 	}
 
+	private async getOpenFollowUps(): Promise<FollowUp[]> {
+		if (!this.plugin.contextRetriever) return [];
+		try {
+			return await this.plugin.contextRetriever.getFollowUps(this.contextOverrides.excluded);
+		} catch (error) {
+			logger.error('Error reading follow-ups:', error instanceof Error ? error : undefined);
+			return [];
+		}
+	}
+
 	private async saveSession(): Promise<void> {
 		const t = getTranslations();
 
@@ -1043,7 +1371,7 @@ ${t.help.tip}`;
 			return;
 		}
 
-		if (!this.plugin.openRouterClient || !this.plugin.openRouterClient.isConfigured()) {
+		if (!this.plugin.llmProvider || !this.plugin.llmProvider.isConfigured()) {
 			new Notice(t.notices.apiKeyRequired);
 			return;
 		}
@@ -1053,12 +1381,28 @@ ${t.help.tip}`;
 			return;
 		}
 
+		const controller = this.beginRequest();
 		this.isLoading = true;
 		this.updateSendButton();
 		new Notice(t.notices.saving);
 
 		try {
-			const summary = await this.plugin.chatEngine.generateSummary(this.messages);
+			// Open items from earlier sessions, so the summary can close those the user did
+			const followUps = await this.getOpenFollowUps();
+			let summary: SessionSummary;
+			try {
+				summary = await this.plugin.chatEngine.generateSummary(
+					this.messages,
+					controller.signal,
+					followUps
+				);
+			} catch (error) {
+				if (!(error instanceof SummaryExtractionError)) throw error;
+				// Let the user decide rather than silently saving a near-empty note
+				new Notice(error.message);
+				if (!confirm(t.dialogs.saveDegradedSummary)) return;
+				summary = error.fallbackSummary;
+			}
 
 			if (!this.plugin.sessionManager.getSession()) {
 				this.plugin.sessionManager.startSession();
@@ -1068,12 +1412,19 @@ ${t.help.tip}`;
 				this.plugin.sessionManager.addMessage(msg);
 			}
 
+			// Record the models that actually answered (differs from settings after failover)
+			const answered = this.plugin.chatEngine.getAnsweredModels();
 			const modelInfo = {
-				chatModel: this.plugin.settings.chatModel,
-				summaryModel: this.plugin.settings.summaryModel,
-				embeddingModel: this.plugin.settings.embeddingModel,
+				chatModel: answered.chat.join(', ') || this.plugin.settings.chatModel,
+				summaryModel: answered.summary.join(', ') || this.plugin.settings.summaryModel,
+				embeddingModel:
+					this.plugin.embedder?.getModel() ?? this.plugin.settings.embeddingModel,
 			};
-			const file = await this.plugin.sessionManager.saveSession(summary, modelInfo);
+			const file = await this.plugin.sessionManager.saveSession(
+				summary,
+				modelInfo,
+				this.plugin.usageTracker?.getSessionUsage()
+			);
 
 			if (file) {
 				new Notice(t.notices.saved);
@@ -1082,9 +1433,15 @@ ${t.help.tip}`;
 
 			this.clearChat();
 		} catch (error) {
+			// Stopped: keep the chat so it can be saved later
+			if (isAbortError(error)) {
+				logger.info('Session save aborted by user');
+				return;
+			}
 			logger.error('Save error:', error instanceof Error ? error : undefined);
 			new Notice(`${t.notices.saveFailed}: ${getErrorMessage(error)}`);
 		} finally {
+			this.endRequest(controller);
 			this.isLoading = false;
 			this.updateSendButton();
 		}
@@ -1096,6 +1453,9 @@ ${t.help.tip}`;
 			this.sendBtn.disabled = this.isLoading;
 			this.sendBtn.textContent = this.isLoading ? t.ui.sending : t.ui.send;
 		}
+		if (this.stopBtn) {
+			this.stopBtn.style.display = this.isGenerating() ? '' : 'none';
+		}
 		if (this.inputEl) {
 			this.inputEl.disabled = this.isLoading;
 		}
@@ -1128,6 +1488,19 @@ ${t.help.tip}`;
 			);
 		});
 
-		return { messages: validMessages };
+		// Pinned and excluded note paths
+		const overrides = obj.contextOverrides as Record<string, unknown> | undefined;
+		const paths = (value: unknown): string[] =>
+			Array.isArray(value)
+				? value
+						.filter((path): path is string => typeof path === 'string')
+						.slice(0, ChatView.MAX_CONTEXT_OVERRIDES)
+				: [];
+		const contextOverrides =
+			typeof overrides === 'object' && overrides !== null
+				? { pinned: paths(overrides.pinned), excluded: paths(overrides.excluded) }
+				: undefined;
+
+		return { messages: validMessages, contextOverrides };
 	}
 }
@@ -0,0 +1,84 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { IndexIssueKind, IndexReport } from '../infrastructure/IndexVerifier';
+import { getTranslations } from '../i18n';
+
+/**
+ * Modal listing the differences found by the "Verify index" command
+ * Offers a one-click repair when there is anything to fix.
+ */
+export class IndexReportModal extends Modal {
+	private static readonly MAX_PATHS_PER_KIND = 10;
+	private static readonly KINDS: IndexIssueKind[] = [
+		'orphan',
+		'missing',
+		'invalid',
+		'dimension',
+		'stale',
+	];
+
+	private report: IndexReport;
+	private onRepair: () => void;
+
+	constructor(app: App, report: IndexReport, onRepair: () => void) {
+		super(app);
+		this.report = report;
+		this.onRepair = onRepair;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const t = getTranslations().dialogs.verifyIndex;
+		const { notes, items, issues } = this.report;
+
+		contentEl.createEl('h2', { text: t.title });
+		contentEl.createEl('p', {
+			text: t.summary.replace('{notes}', String(notes)).replace('{items}', String(items)),
+		});
+
+		if (issues.length === 0) {
+			contentEl.createEl('p', { text: t.noIssues });
+		}
+
+		for (const kind of IndexReportModal.KINDS) {
+			const paths = issues.filter((issue) => issue.kind === kind).map((issue) => issue.path);
+			if (paths.length === 0) continue;
+
+			contentEl.createEl('h4', { text: `${t[kind]} (${paths.length})` });
+			const list = contentEl.createEl('ul');
+			for (const path of paths.slice(0, IndexReportModal.MAX_PATHS_PER_KIND)) {
+				list.createEl('li', { text: path });
+			}
+			if (paths.length > IndexReportModal.MAX_PATHS_PER_KIND) {
+				list.createEl('li', {
+					text: t.more.replace(
+						'{count}',
+						String(paths.length - IndexReportModal.MAX_PATHS_PER_KIND)
+					),
+				});
+			}
+		}
+
+		const buttons = new Setting(contentEl);
+		if (issues.length > 0) {
+			buttons.addButton((button) =>
+				button
+					.setButtonText(t.repair)
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onRepair();
+					})
+			);
+		}
+		buttons.addButton((button) =>
+			button.setButtonText(t.close).onClick(() => {
+				this.close();
+			})
+		);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
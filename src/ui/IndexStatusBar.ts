@@ -0,0 +1,41 @@
+import { setIcon } from 'obsidian';
+import { getTranslations } from '../i18n';
+
+/**
+ * Status bar item showing the progress of a full index run
+ * Hidden while idle; clicking it cancels the run.
+ */
+export class IndexStatusBar {
+	private el: HTMLElement;
+	private labelEl: HTMLElement;
+	private onCancel: (() => void) | null = null;
+
+	constructor(el: HTMLElement) {
+		this.el = el;
+		el.addClass('reflection-chat-index-status');
+		setIcon(el.createSpan({ cls: 'reflection-chat-index-status-icon' }), 'refresh-cw');
+		this.labelEl = el.createSpan();
+		el.addEventListener('click', () => this.onCancel?.());
+		el.style.display = 'none';
+	}
+
+	start(onCancel: () => void): void {
+		this.onCancel = onCancel;
+		this.el.setAttribute('aria-label', getTranslations().ui.indexStatusCancel);
+		this.update(0, 0);
+		this.el.style.display = '';
+	}
+
+	update(done: number, total: number): void {
+		this.labelEl.setText(
+			getTranslations()
+				.ui.indexStatus.replace('{done}', String(done))
+				.replace('{total}', String(total))
+		);
+	}
+
+	finish(): void {
+		this.onCancel = null;
+		this.el.style.display = 'none';
+	}
+}
@@ -0,0 +1,65 @@
+import { App, Modal, Setting } from 'obsidian';
+import { getTranslations } from '../i18n';
+
+export interface ReindexPrompt {
+	storedModel: string | null; // null if the index predates model tracking
+	storedDimension: number | null;
+	currentModel: string;
+	itemCount: number;
+	mixedDimensions: boolean;
+}
+
+/**
+ * Modal shown when the stored vectors came from a different embedding model
+ * Offers to rebuild the index now; "Later" leaves semantic search paused.
+ */
+export class ReindexModal extends Modal {
+	private prompt: ReindexPrompt;
+	private onReindex: () => void;
+
+	constructor(app: App, prompt: ReindexPrompt, onReindex: () => void) {
+		super(app);
+		this.prompt = prompt;
+		this.onReindex = onReindex;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const t = getTranslations().dialogs.reindex;
+		const { storedModel, storedDimension, currentModel, itemCount, mixedDimensions } =
+			this.prompt;
+
+		contentEl.createEl('h2', { text: t.title });
+
+		const stored =
+			storedModel ?? t.unknownModel.replace('{dimension}', String(storedDimension ?? '?'));
+		const description = mixedDimensions
+			? t.mixedDimensions.replace('{count}', String(itemCount))
+			: t.description
+					.replace('{stored}', stored)
+					.replace('{current}', currentModel)
+					.replace('{count}', String(itemCount));
+		contentEl.createEl('p', { text: description });
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText(t.reindexNow)
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onReindex();
+					})
+			)
+			.addButton((button) =>
+				button.setButtonText(t.later).onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
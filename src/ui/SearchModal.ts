@@ -0,0 +1,118 @@
+import { App, Modal, setIcon } from 'obsidian';
+import type { NoteType, SearchResult, VectorFilter } from '../types';
+import { getTranslations } from '../i18n';
+import { logger } from '../utils/logger';
+import { buildHeadingLink } from '../utils/sanitize';
+import { parseSearchQuery } from '../utils/searchQuery';
+
+export type NoteSearch = (text: string, filter: VectorFilter) => Promise<SearchResult[]>;
+
+const TYPE_ICONS: Record<NoteType, string> = {
+	session: 'file-text',
+	entity: 'user',
+	goal: 'target',
+	report: 'bar-chart-2',
+	note: 'sticky-note',
+};
+
+/**
+ * Modal for searching notes with free text plus filter operators
+ * (category:, #tag, -#tag, after:, ...; see parseSearchQuery)
+ * Searches on Enter only, since every search may embed the query through the API.
+ */
+export class SearchModal extends Modal {
+	private search: NoteSearch;
+	private resultsEl: HTMLElement | null = null;
+	private searchId = 0; // Drops results of a search superseded by a newer one
+
+	constructor(app: App, search: NoteSearch) {
+		super(app);
+		this.search = search;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const t = getTranslations().search;
+
+		contentEl.addClass('reflection-chat-search');
+		contentEl.createEl('h2', { text: t.title });
+
+		const input = contentEl.createEl('input', {
+			type: 'text',
+			cls: 'reflection-chat-search-input',
+			attr: { placeholder: t.placeholder },
+		});
+		contentEl.createDiv({ cls: 'reflection-chat-search-help', text: t.syntaxHelp });
+		this.resultsEl = contentEl.createDiv({ cls: 'reflection-chat-search-results' });
+
+		input.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter' && !event.isComposing) {
+				event.preventDefault();
+				void this.runSearch(input.value);
+			}
+		});
+		input.focus();
+	}
+
+	onClose(): void {
+		this.searchId++;
+		this.resultsEl = null;
+		this.contentEl.empty();
+	}
+
+	private async runSearch(input: string): Promise<void> {
+		const resultsEl = this.resultsEl;
+		if (!resultsEl) return;
+		const t = getTranslations().search;
+
+		const { text, filter } = parseSearchQuery(input);
+		resultsEl.empty();
+		if (!text) {
+			resultsEl.createDiv({ cls: 'reflection-chat-search-empty', text: t.textRequired });
+			return;
+		}
+
+		const searchId = ++this.searchId;
+		resultsEl.createDiv({ cls: 'reflection-chat-search-empty', text: t.searching });
+		let results: SearchResult[];
+		try {
+			results = await this.search(text, filter);
+		} catch (error) {
+			logger.error('Note search failed:', error instanceof Error ? error : undefined);
+			results = [];
+		}
+		if (searchId !== this.searchId) return;
+
+		resultsEl.empty();
+		if (results.length === 0) {
+			resultsEl.createDiv({ cls: 'reflection-chat-search-empty', text: t.noResults });
+			return;
+		}
+
+		for (const result of results) {
+			const item = resultsEl.createDiv({ cls: 'reflection-chat-search-result' });
+			const titleRow = item.createDiv({ cls: 'reflection-chat-search-result-title' });
+			setIcon(titleRow.createSpan(), TYPE_ICONS[result.metadata.type]);
+			const headings = result.passage?.headings ?? [];
+			titleRow.createSpan({
+				text: [result.metadata.title, ...headings.slice(0, 1)].join(' › '),
+			});
+			titleRow.createSpan({
+				cls: 'reflection-chat-search-result-date',
+				text: result.metadata.date,
+			});
+			const snippet = result.passage?.text ?? result.metadata.summary;
+			if (snippet) {
+				item.createDiv({ cls: 'reflection-chat-search-result-passage', text: snippet });
+			}
+			item.addEventListener('click', () => {
+				void this.app.workspace.openLinkText(
+					buildHeadingLink(result.metadata.path, headings),
+					'',
+					true
+				);
+				this.close();
+			});
+		}
+	}
+}
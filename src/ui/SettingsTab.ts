@@ -1,9 +1,17 @@
 import { App, PluginSettingTab, Setting, Notice, Modal } from 'obsidian';
 import type ReflectionChatPlugin from '../main';
 import { getTranslations, setLanguage, type Language } from '../i18n';
-import { validateFolderPath } from '../utils/sanitize';
+import { validateBaseUrl, validateFolderPath } from '../utils/sanitize';
 import { logger } from '../utils/logger';
-import type { CoachCharacter, CoachTone, CoachStrictness } from '../types';
+import type {
+	BudgetMode,
+	CoachCharacter,
+	CoachTone,
+	CoachStrictness,
+	EmbeddingBackendType,
+	LLMProviderType,
+	VectorEncoding,
+} from '../types';
 import { getPresetCharacters, generateCustomCharacterId } from '../core/CoachCharacter';
 
 export class SettingsTab extends PluginSettingTab {
@@ -43,27 +51,128 @@ export class SettingsTab extends PluginSettingTab {
 		containerEl.createEl('h3', { text: t.settings.api.heading });
 
 		new Setting(containerEl)
-			.setName(t.settings.api.apiKey)
-			.setDesc(t.settings.api.apiKeyDesc)
-			.addText((text) => {
-				text.setPlaceholder('sk-or-...')
-					.setValue(this.plugin.settings.openRouterApiKey)
+			.setName(t.settings.api.provider)
+			.setDesc(t.settings.api.providerDesc)
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('openrouter', t.settings.api.providerOptions.openrouter)
+					.addOption('openai-compatible', t.settings.api.providerOptions.openaiCompatible)
+					.setValue(this.plugin.settings.llmProvider)
 					.onChange(async (value) => {
-						this.plugin.settings.openRouterApiKey = value;
+						this.plugin.settings.llmProvider = value as LLMProviderType;
+						await this.safeSettingsSave();
+						// Model lists differ per provider
+						this.modelOptions = [];
+						this.embeddingModelOptions = [];
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t.settings.api.embeddingBackend)
+			.setDesc(t.settings.api.embeddingBackendDesc)
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('openrouter', t.settings.api.embeddingBackendOptions.openrouter)
+					.addOption(
+						'openai-compatible',
+						t.settings.api.embeddingBackendOptions.openaiCompatible
+					)
+					.addOption('local', t.settings.api.embeddingBackendOptions.local)
+					.setValue(this.plugin.settings.embeddingBackend)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingBackend = value as EmbeddingBackendType;
+						await this.safeSettingsSave();
+						this.display();
+					});
+			});
+
+		const isCustomProvider = this.plugin.settings.llmProvider === 'openai-compatible';
+		const embeddingBackend = this.plugin.settings.embeddingBackend;
+		// Credentials are shared between chat and embeddings, so show each group once
+		const usesOpenRouter = !isCustomProvider || embeddingBackend === 'openrouter';
+		const usesCustomEndpoint = isCustomProvider || embeddingBackend === 'openai-compatible';
+
+		if (usesOpenRouter) {
+			const apiKeySetting = new Setting(containerEl)
+				.setName(t.settings.api.apiKey)
+				.setDesc(t.settings.api.apiKeyDesc)
+				.addText((text) => {
+					text.setPlaceholder('sk-or-...')
+						.setValue(this.plugin.settings.openRouterApiKey)
+						.onChange(async (value) => {
+							this.plugin.settings.openRouterApiKey = value;
+							await this.plugin.saveSettings();
+						});
+					// Mask the API key input
+					text.inputEl.type = 'password';
+					text.inputEl.autocomplete = 'off';
+				});
+			if (!isCustomProvider) {
+				this.addTestConnectionButton(apiKeySetting);
+			}
+		}
+
+		if (usesCustomEndpoint) {
+			containerEl.createEl('h4', { text: t.settings.api.customEndpoint });
+
+			const baseUrlSetting = new Setting(containerEl)
+				.setName(t.settings.api.baseUrl)
+				.setDesc(t.settings.api.baseUrlDesc)
+				.addText((text) => {
+					text.setPlaceholder('http://localhost:11434/v1')
+						.setValue(this.plugin.settings.customBaseUrl)
+						.onChange(async (value) => {
+							const validated = validateBaseUrl(value);
+							if (validated === null) {
+								// Don't nag while the user is still typing the scheme
+								const typed = value.trim().toLowerCase();
+								if (
+									typed &&
+									!'http://'.startsWith(typed) &&
+									!'https://'.startsWith(typed)
+								) {
+									new Notice(t.notices.invalidBaseUrl);
+								}
+								return;
+							}
+							this.plugin.settings.customBaseUrl = validated;
+							await this.plugin.saveSettings();
+						});
+				});
+			if (isCustomProvider) {
+				this.addTestConnectionButton(baseUrlSetting);
+			}
+
+			new Setting(containerEl)
+				.setName(t.settings.api.customApiKey)
+				.setDesc(t.settings.api.customApiKeyDesc)
+				.addText((text) => {
+					text.setValue(this.plugin.settings.customApiKey).onChange(async (value) => {
+						this.plugin.settings.customApiKey = value;
 						await this.plugin.saveSettings();
 					});
-				// Mask the API key input
-				text.inputEl.type = 'password';
-				text.inputEl.autocomplete = 'off';
-			})
-			.addButton((button) =>
-				button.setButtonText(t.settings.api.testConnection).onClick(async () => {
-					await this.testConnection();
-				})
-			);
+					// Mask the API key input
+					text.inputEl.type = 'password';
+					text.inputEl.autocomplete = 'off';
+				});
+
+			new Setting(containerEl)
+				.setName(t.settings.api.customHeaders)
+				.setDesc(t.settings.api.customHeadersDesc)
+				.addTextArea((text) => {
+					text.setPlaceholder('X-Api-Version: 2')
+						.setValue(this.plugin.settings.customHeaders)
+						.onChange(async (value) => {
+							this.plugin.settings.customHeaders = value;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 3;
+				});
+		}
 
-		// Fetch models if API key is set (errors handled internally)
-		if (this.plugin.settings.openRouterApiKey) {
+		// Fetch models if the provider is configured (errors handled internally)
+		if (this.plugin.llmProvider?.isConfigured()) {
 			try {
 				await this.fetchModels();
 			} catch {
@@ -72,98 +181,83 @@ export class SettingsTab extends PluginSettingTab {
 			}
 		}
 
-		new Setting(containerEl)
-			.setName(t.settings.api.chatModel)
-			.setDesc(t.settings.api.chatModelDesc)
-			.addDropdown((dropdown) => {
-				// Add models fetched from OpenRouter
-				if (this.modelOptions.length > 0) {
-					for (const model of this.modelOptions) {
-						dropdown.addOption(model.value, model.label);
-					}
-				} else {
-					// Fallback: show current setting if no models fetched
-					dropdown.addOption(
-						this.plugin.settings.chatModel,
-						this.plugin.settings.chatModel
-					);
-				}
+		this.addModelSetting(
+			containerEl,
+			t.settings.api.chatModel,
+			t.settings.api.chatModelDesc,
+			'chatModel'
+		);
+		this.addModelSetting(
+			containerEl,
+			t.settings.api.summaryModel,
+			t.settings.api.summaryModelDesc,
+			'summaryModel'
+		);
+		this.addFallbackModelsSetting(containerEl, 'chatFallbackModels');
+		this.addFallbackModelsSetting(containerEl, 'summaryFallbackModels');
 
-				dropdown.setValue(this.plugin.settings.chatModel);
-				dropdown.onChange(async (value) => {
-					this.plugin.settings.chatModel = value;
-					await this.plugin.saveSettings();
+		if (embeddingBackend === 'openai-compatible') {
+			new Setting(containerEl)
+				.setName(t.settings.api.embeddingModel)
+				.setDesc(t.settings.api.embeddingModelDesc)
+				.addText((text) => {
+					text.setValue(this.plugin.settings.embeddingModel).onChange(async (value) => {
+						const trimmed = value.trim();
+						if (!trimmed) return;
+						this.plugin.settings.embeddingModel = trimmed;
+						await this.plugin.saveSettings();
+					});
 				});
-			});
+		} else if (embeddingBackend === 'openrouter') {
+			new Setting(containerEl)
+				.setName(t.settings.api.embeddingModel)
+				.setDesc(t.settings.api.embeddingModelDesc)
+				.addDropdown((dropdown) => {
+					// Add default embedding model options and track them
+					const defaultEmbeddingModels = [
+						'qwen/qwen3-embedding-8b',
+						'qwen/qwen3-embedding-0.6b',
+						'openai/text-embedding-3-small',
+						'openai/text-embedding-3-large',
+					];
+					const addedModels = new Set<string>(defaultEmbeddingModels);
 
-		new Setting(containerEl)
-			.setName(t.settings.api.summaryModel)
-			.setDesc(t.settings.api.summaryModelDesc)
-			.addDropdown((dropdown) => {
-				// Add models fetched from OpenRouter
-				if (this.modelOptions.length > 0) {
-					for (const model of this.modelOptions) {
-						dropdown.addOption(model.value, model.label);
-					}
-				} else {
-					// Fallback: show current setting if no models fetched
 					dropdown.addOption(
-						this.plugin.settings.summaryModel,
-						this.plugin.settings.summaryModel
+						'qwen/qwen3-embedding-8b',
+						t.settings.api.embeddingModelOptions.qwen8b
+					);
+					dropdown.addOption(
+						'qwen/qwen3-embedding-0.6b',
+						t.settings.api.embeddingModelOptions.qwen06b
+					);
+					dropdown.addOption(
+						'openai/text-embedding-3-small',
+						t.settings.api.embeddingModelOptions.openai3small
+					);
+					dropdown.addOption(
+						'openai/text-embedding-3-large',
+						t.settings.api.embeddingModelOptions.openai3large
 					);
-				}
-
-				dropdown.setValue(this.plugin.settings.summaryModel);
-				dropdown.onChange(async (value) => {
-					this.plugin.settings.summaryModel = value;
-					await this.plugin.saveSettings();
-				});
-			});
-
-		new Setting(containerEl)
-			.setName(t.settings.api.embeddingModel)
-			.setDesc(t.settings.api.embeddingModelDesc)
-			.addDropdown((dropdown) => {
-				// Add default embedding model options and track them
-				const defaultEmbeddingModels = [
-					'qwen/qwen3-embedding-8b',
-					'qwen/qwen3-embedding-0.6b',
-					'openai/text-embedding-3-small',
-					'openai/text-embedding-3-large',
-				];
-				const addedModels = new Set<string>(defaultEmbeddingModels);
-
-				dropdown.addOption(
-					'qwen/qwen3-embedding-8b',
-					t.settings.api.embeddingModelOptions.qwen8b
-				);
-				dropdown.addOption(
-					'qwen/qwen3-embedding-0.6b',
-					t.settings.api.embeddingModelOptions.qwen06b
-				);
-				dropdown.addOption(
-					'openai/text-embedding-3-small',
-					t.settings.api.embeddingModelOptions.openai3small
-				);
-				dropdown.addOption(
-					'openai/text-embedding-3-large',
-					t.settings.api.embeddingModelOptions.openai3large
-				);
 
-				// Add fetched embedding models (use Set instead of DOM query to avoid CSS selector injection)
-				for (const model of this.embeddingModelOptions) {
-					if (!addedModels.has(model.value)) {
-						dropdown.addOption(model.value, model.label);
-						addedModels.add(model.value);
+					// Add fetched embedding models (use Set instead of DOM query to avoid CSS selector injection)
+					for (const model of this.embeddingModelOptions) {
+						if (!addedModels.has(model.value)) {
+							dropdown.addOption(model.value, model.label);
+							addedModels.add(model.value);
+						}
 					}
-				}
 
-				dropdown.setValue(this.plugin.settings.embeddingModel);
-				dropdown.onChange(async (value) => {
-					this.plugin.settings.embeddingModel = value;
-					await this.plugin.saveSettings();
+					dropdown.setValue(this.plugin.settings.embeddingModel);
+					dropdown.onChange(async (value) => {
+						this.plugin.settings.embeddingModel = value;
+						await this.plugin.saveSettings();
+					});
 				});
-			});
+		}
+
+		if (embeddingBackend !== 'local') {
+			this.addFallbackModelsSetting(containerEl, 'embeddingFallbackModels');
+		}
 
 		// Folder Settings
 		containerEl.createEl('h3', { text: t.settings.folders.heading });
@@ -222,6 +316,10 @@ export class SettingsTab extends PluginSettingTab {
 					});
 			});
 
+		this.addIndexScopeSetting(containerEl, 'indexIncludeFolders');
+		this.addIndexScopeSetting(containerEl, 'indexExcludeFolders');
+		this.addIndexScopeSetting(containerEl, 'indexExcludeTags');
+
 		// Context Settings
 		containerEl.createEl('h3', { text: t.settings.context.heading });
 
@@ -253,6 +351,58 @@ export class SettingsTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName(t.settings.context.keywordWeight)
+			.setDesc(t.settings.context.keywordWeightDesc)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 1, 0.1)
+					.setValue(this.plugin.settings.keywordWeight)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.keywordWeight = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.settings.context.diversity)
+			.setDesc(t.settings.context.diversityDesc)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 1, 0.1)
+					.setValue(this.plugin.settings.semanticDiversity)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.semanticDiversity = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.settings.context.recencyHalfLife)
+			.setDesc(t.settings.context.recencyHalfLifeDesc)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 365, 15)
+					.setValue(this.plugin.settings.recencyHalfLifeDays)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.recencyHalfLifeDays = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t.settings.context.queryPlanning)
+			.setDesc(t.settings.context.queryPlanningDesc)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.queryPlanning).onChange(async (value) => {
+					this.plugin.settings.queryPlanning = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		// Coach Character Settings
 		containerEl.createEl('h3', { text: t.coach.settings.heading });
 
@@ -295,14 +445,9 @@ export class SettingsTab extends PluginSettingTab {
 				)
 				.addButton((button) =>
 					button.setButtonText(t.coach.settings.editCustom).onClick(() => {
-						new CustomCharacterModal(
-							this.app,
-							this.plugin,
-							customChar,
-							async () => {
-								await this.display();
-							}
-						).open();
+						new CustomCharacterModal(this.app, this.plugin, customChar, async () => {
+							await this.display();
+						}).open();
 					})
 				)
 				.addButton((button) =>
@@ -359,6 +504,56 @@ export class SettingsTab extends PluginSettingTab {
 			})
 		);
 
+		// Usage & Budget Settings
+		containerEl.createEl('h3', { text: t.settings.usage.heading });
+
+		const monthUsage = this.plugin.usageTracker?.getMonthUsage();
+		if (monthUsage) {
+			containerEl.createEl('p', {
+				cls: 'setting-item-description',
+				text: t.settings.usage.currentMonth
+					.replace('{cost}', monthUsage.costUsd.toFixed(4))
+					.replace(
+						'{tokens}',
+						(monthUsage.promptTokens + monthUsage.completionTokens).toLocaleString()
+					),
+			});
+		}
+
+		new Setting(containerEl)
+			.setName(t.settings.usage.monthlyBudget)
+			.setDesc(t.settings.usage.monthlyBudgetDesc)
+			.addText((text) => {
+				text.setPlaceholder('0')
+					.setValue(String(this.plugin.settings.monthlyBudgetUsd))
+					.onChange(async (value) => {
+						const budget = value.trim() === '' ? 0 : Number(value);
+						if (!Number.isFinite(budget) || budget < 0) {
+							new Notice(t.notices.invalidBudget);
+							return;
+						}
+						this.plugin.settings.monthlyBudgetUsd = budget;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text.inputEl.step = '0.5';
+			});
+
+		new Setting(containerEl)
+			.setName(t.settings.usage.budgetMode)
+			.setDesc(t.settings.usage.budgetModeDesc)
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('warn', t.settings.usage.budgetModes.warn)
+					.addOption('block', t.settings.usage.budgetModes.block)
+					.setValue(this.plugin.settings.budgetMode)
+					.onChange(async (value) => {
+						this.plugin.settings.budgetMode = value as BudgetMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		// Other Settings
 		containerEl.createEl('h3', { text: t.settings.other.heading });
 
@@ -398,6 +593,20 @@ export class SettingsTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(containerEl)
+			.setName(t.settings.other.vectorEncoding)
+			.setDesc(t.settings.other.vectorEncodingDesc)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption('float32', t.settings.other.vectorEncodings.float32)
+					.addOption('int8', t.settings.other.vectorEncodings.int8)
+					.setValue(this.plugin.settings.vectorEncoding)
+					.onChange(async (value) => {
+						this.plugin.settings.vectorEncoding = value as VectorEncoding;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName(t.settings.other.reindex)
 			.setDesc(t.settings.other.reindexDesc)
@@ -408,14 +617,140 @@ export class SettingsTab extends PluginSettingTab {
 			);
 	}
 
+	/**
+	 * Ordered fallback model list, one model ID per line
+	 */
+	private addFallbackModelsSetting(
+		containerEl: HTMLElement,
+		key: 'chatFallbackModels' | 'summaryFallbackModels' | 'embeddingFallbackModels'
+	): void {
+		const t = getTranslations();
+		const names = {
+			chatFallbackModels: t.settings.api.chatFallbackModels,
+			summaryFallbackModels: t.settings.api.summaryFallbackModels,
+			embeddingFallbackModels: t.settings.api.embeddingFallbackModels,
+		};
+		const desc =
+			key === 'embeddingFallbackModels'
+				? t.settings.api.embeddingFallbackModelsDesc
+				: t.settings.api.fallbackModelsDesc;
+
+		new Setting(containerEl)
+			.setName(names[key])
+			.setDesc(desc)
+			.addTextArea((text) => {
+				text.setPlaceholder('openai/gpt-4.1-mini')
+					.setValue(this.plugin.settings[key].join('\n'))
+					.onChange(async (value) => {
+						const models = value
+							.split('\n')
+							.map((line) => line.trim())
+							.filter((line) => line.length > 0);
+						this.plugin.settings[key] = [...new Set(models)];
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+	}
+
+	/**
+	 * Indexing scope list (folders, globs or tags), one per line
+	 */
+	private addIndexScopeSetting(
+		containerEl: HTMLElement,
+		key: 'indexIncludeFolders' | 'indexExcludeFolders' | 'indexExcludeTags'
+	): void {
+		const t = getTranslations().settings.folders;
+		const labels = {
+			indexIncludeFolders: [t.includeFolders, t.includeFoldersDesc, 'Areas/*'],
+			indexExcludeFolders: [t.excludeFolders, t.excludeFoldersDesc, 'Archive'],
+			indexExcludeTags: [t.excludeTags, t.excludeTagsDesc, 'private'],
+		};
+		const [name, desc, placeholder] = labels[key];
+
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addTextArea((text) => {
+				text.setPlaceholder(placeholder)
+					.setValue(this.plugin.settings[key].join('\n'))
+					.onChange(async (value) => {
+						const entries = value
+							.split('\n')
+							.map((line) => line.trim())
+							.filter((line) => line.length > 0);
+						this.plugin.settings[key] = [...new Set(entries)];
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+	}
+
+	/**
+	 * Chat/summary model picker. Local servers may not expose /models, so fall
+	 * back to free text there instead of a single-entry dropdown.
+	 */
+	private addModelSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		key: 'chatModel' | 'summaryModel'
+	): void {
+		const setting = new Setting(containerEl).setName(name).setDesc(desc);
+
+		if (this.modelOptions.length === 0 && this.plugin.settings.llmProvider !== 'openrouter') {
+			setting.addText((text) => {
+				text.setValue(this.plugin.settings[key]).onChange(async (value) => {
+					const trimmed = value.trim();
+					if (!trimmed) return;
+					this.plugin.settings[key] = trimmed;
+					await this.plugin.saveSettings();
+				});
+			});
+			return;
+		}
+
+		setting.addDropdown((dropdown) => {
+			// Add models fetched from the provider
+			if (this.modelOptions.length > 0) {
+				for (const model of this.modelOptions) {
+					dropdown.addOption(model.value, model.label);
+				}
+				// Keep the current value selectable even if the provider no longer lists it
+				if (!this.modelOptions.some((model) => model.value === this.plugin.settings[key])) {
+					dropdown.addOption(this.plugin.settings[key], this.plugin.settings[key]);
+				}
+			} else {
+				// Fallback: show current setting if no models fetched
+				dropdown.addOption(this.plugin.settings[key], this.plugin.settings[key]);
+			}
+
+			dropdown.setValue(this.plugin.settings[key]);
+			dropdown.onChange(async (value) => {
+				this.plugin.settings[key] = value;
+				await this.plugin.saveSettings();
+			});
+		});
+	}
+
+	private addTestConnectionButton(setting: Setting): void {
+		setting.addButton((button) =>
+			button
+				.setButtonText(getTranslations().settings.api.testConnection)
+				.onClick(async () => {
+					await this.testConnection();
+				})
+		);
+	}
+
 	private async testConnection(): Promise<void> {
-		if (!this.plugin.openRouterClient) {
+		if (!this.plugin.llmProvider) {
 			const t = getTranslations();
 			new Notice(t.errors.notInitialized);
 			return;
 		}
 
-		const result = await this.plugin.openRouterClient.testConnection();
+		const result = await this.plugin.llmProvider.testConnection();
 		new Notice(result.message);
 
 		if (result.success) {
@@ -427,7 +762,7 @@ export class SettingsTab extends PluginSettingTab {
 	private static readonly FETCH_TIMEOUT_MS = 30000; // 30 second timeout for model fetch
 
 	private async fetchModels(): Promise<void> {
-		if (!this.plugin.openRouterClient?.isConfigured()) {
+		if (!this.plugin.llmProvider?.isConfigured()) {
 			return;
 		}
 
@@ -448,12 +783,16 @@ export class SettingsTab extends PluginSettingTab {
 		}, SettingsTab.FETCH_TIMEOUT_MS);
 
 		try {
-			// Use OpenRouterClient to avoid duplicating API key handling
-			const models = await this.plugin.openRouterClient.fetchModels();
+			// Use the active provider to avoid duplicating API key handling
+			const models = await this.plugin.llmProvider.fetchModels();
+			this.plugin.usageTracker?.updatePricing(models);
+			const isOpenRouter = this.plugin.llmProvider.type === 'openrouter';
 
 			// Chat/Summary models
 			this.modelOptions = models
 				.filter((model) => {
+					// Local servers only list what the user has loaded, so show everything
+					if (!isOpenRouter) return !model.id.includes('embedding');
 					// Filter major LLM providers
 					const id = model.id.toLowerCase();
 					return (
@@ -565,17 +904,15 @@ class CustomCharacterModal extends Modal {
 		});
 
 		// Personality Prompt
-		new Setting(contentEl)
-			.setName(t.coach.settings.personalityPrompt)
-			.addTextArea((text) => {
-				text.setPlaceholder(t.coach.settings.personalityPromptPlaceholder)
-					.setValue(this.personalityValue)
-					.onChange((value) => {
-						this.personalityValue = value;
-					});
-				text.inputEl.rows = 5;
-				text.inputEl.style.width = '100%';
-			});
+		new Setting(contentEl).setName(t.coach.settings.personalityPrompt).addTextArea((text) => {
+			text.setPlaceholder(t.coach.settings.personalityPromptPlaceholder)
+				.setValue(this.personalityValue)
+				.onChange((value) => {
+					this.personalityValue = value;
+				});
+			text.inputEl.rows = 5;
+			text.inputEl.style.width = '100%';
+		});
 
 		// Buttons
 		new Setting(contentEl)
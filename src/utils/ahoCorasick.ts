@@ -0,0 +1,79 @@
+// Multi-pattern substring search
+
+export interface PatternMatch {
+	pattern: number; // Index into the patterns the matcher was built with
+	start: number; // Offset of the match in the searched text
+	end: number; // Offset just past the match
+}
+
+interface TrieNode {
+	next: Map<string, number>;
+	fail: number;
+	output: number[]; // Patterns ending here, including those reached by failure links
+}
+
+/**
+ * Aho-Corasick automaton: finds every occurrence of many patterns in one pass
+ * over the text, so the cost doesn't grow with the number of patterns.
+ * Matching is by UTF-16 code unit and case-sensitive; normalize both sides first.
+ */
+export class AhoCorasick {
+	private nodes: TrieNode[] = [{ next: new Map(), fail: 0, output: [] }];
+	private lengths: number[];
+
+	constructor(patterns: string[]) {
+		this.lengths = patterns.map((pattern) => pattern.length);
+		patterns.forEach((pattern, index) => {
+			if (pattern.length === 0) return;
+			let node = 0;
+			for (let i = 0; i < pattern.length; i++) {
+				const char = pattern[i];
+				let child = this.nodes[node].next.get(char);
+				if (child === undefined) {
+					child = this.nodes.length;
+					this.nodes.push({ next: new Map(), fail: 0, output: [] });
+					this.nodes[node].next.set(char, child);
+				}
+				node = child;
+			}
+			this.nodes[node].output.push(index);
+		});
+		this.buildFailureLinks();
+	}
+
+	search(text: string): PatternMatch[] {
+		const matches: PatternMatch[] = [];
+		let node = 0;
+		for (let i = 0; i < text.length; i++) {
+			const char = text[i];
+			while (node !== 0 && !this.nodes[node].next.has(char)) {
+				node = this.nodes[node].fail;
+			}
+			node = this.nodes[node].next.get(char) ?? 0;
+			for (const pattern of this.nodes[node].output) {
+				matches.push({ pattern, start: i + 1 - this.lengths[pattern], end: i + 1 });
+			}
+		}
+		return matches;
+	}
+
+	/**
+	 * Breadth-first, so a node's failure target is complete before its children need it
+	 */
+	private buildFailureLinks(): void {
+		const queue: number[] = [...this.nodes[0].next.values()];
+		for (let head = 0; head < queue.length; head++) {
+			const node = queue[head];
+			for (const [char, child] of this.nodes[node].next) {
+				let fail = this.nodes[node].fail;
+				while (fail !== 0 && !this.nodes[fail].next.has(char)) {
+					fail = this.nodes[fail].fail;
+				}
+				const target = this.nodes[fail].next.get(char);
+				this.nodes[child].fail = target !== undefined && target !== child ? target : 0;
+				this.nodes[child].output.push(...this.nodes[this.nodes[child].fail].output);
+				queue.push(child);
+			}
+		}
+	}
+}
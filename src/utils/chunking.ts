@@ -0,0 +1,133 @@
+// Split markdown notes into passages for chunk-level indexing
+
+export interface NoteChunk {
+	text: string; // Raw markdown of the chunk, headings included
+	headings: string[]; // Enclosing headings below the note title, outermost first
+	offset: number; // Character offset of the chunk within the input
+}
+
+export interface ChunkOptions {
+	// Level-3 headings whose blocks become chunks of their own (e.g. decisions)
+	separateSections: string[];
+	maxLength: number;
+}
+
+interface Heading {
+	level: number;
+	text: string;
+}
+
+/**
+ * Split a note body at level-1/2 headings and around separate level-3 blocks
+ * A separate block ends at the next level-1..3 heading or <details> element.
+ * Chunks longer than maxLength are split further at line boundaries.
+ * Chunks without any text besides headings and markup are dropped.
+ */
+export function splitIntoChunks(body: string, options: ChunkOptions): NoteChunk[] {
+	const separate = new Set(options.separateSections.map((s) => s.trim().toLowerCase()));
+	const chunks: NoteChunk[] = [];
+	const stack: Heading[] = [];
+
+	let chunkStart = 0;
+	let chunkHeadings: string[] = [];
+	let inSeparateBlock = false;
+
+	const flush = (end: number) => {
+		const text = body.slice(chunkStart, end);
+		if (hasContent(text)) {
+			chunks.push(...splitLongChunk(text, chunkHeadings, chunkStart, options.maxLength));
+		}
+		chunkStart = end;
+	};
+
+	let lineStart = 0;
+	while (lineStart < body.length) {
+		const newline = body.indexOf('\n', lineStart);
+		const lineEnd = newline === -1 ? body.length : newline;
+		const line = body.slice(lineStart, lineEnd);
+		const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+
+		if (inSeparateBlock && /^<details[\s>]/.test(line)) {
+			// A collapsed block (the conversation log) belongs to the section, not the block
+			flush(lineStart);
+			stack.pop();
+			chunkHeadings = stack.filter((h) => h.level > 1).map((h) => h.text);
+			inSeparateBlock = false;
+		} else if (match) {
+			const level = match[1].length;
+			const text = match[2];
+			const isSeparate = level === 3 && separate.has(text.toLowerCase());
+			const startsChunk = level <= 2 || isSeparate || (inSeparateBlock && level <= 3);
+
+			if (startsChunk) {
+				flush(lineStart);
+			}
+			while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+				stack.pop();
+			}
+			stack.push({ level, text });
+			if (startsChunk) {
+				chunkHeadings = stack.filter((h) => h.level > 1).map((h) => h.text);
+				inSeparateBlock = isSeparate;
+			}
+		}
+
+		lineStart = lineEnd + 1;
+	}
+	flush(body.length);
+
+	return chunks;
+}
+
+/**
+ * Chunk text without markdown headings, HTML tags and excess whitespace
+ */
+export function toPlainText(markdown: string): string {
+	return markdown
+		.replace(/^#{1,6}\s+.*$/gm, '')
+		.replace(/<[^>]+>/g, '')
+		.replace(/[ \t]+/g, ' ')
+		.replace(/\n{2,}/g, '\n')
+		.trim();
+}
+
+function hasContent(text: string): boolean {
+	return toPlainText(text).length > 0;
+}
+
+function splitLongChunk(
+	text: string,
+	headings: string[],
+	offset: number,
+	maxLength: number
+): NoteChunk[] {
+	if (text.length <= maxLength) {
+		return [{ text, headings, offset }];
+	}
+
+	const pieces: NoteChunk[] = [];
+	let pieceStart = 0;
+	let lastBreak = -1; // End of the last complete line within the current piece
+
+	for (let i = 0; i < text.length; i++) {
+		if (i - pieceStart >= maxLength) {
+			// Prefer ending at a line boundary; hard-split lines longer than maxLength
+			const end = lastBreak > pieceStart ? lastBreak : i;
+			pieces.push({
+				text: text.slice(pieceStart, end),
+				headings,
+				offset: offset + pieceStart,
+			});
+			pieceStart = end;
+			lastBreak = -1;
+		}
+		if (text[i] === '\n') {
+			lastBreak = i + 1;
+		}
+	}
+	if (pieceStart < text.length) {
+		pieces.push({ text: text.slice(pieceStart), headings, offset: offset + pieceStart });
+	}
+
+	return pieces.filter((piece) => hasContent(piece.text));
+}
@@ -0,0 +1,114 @@
+// Fitting retrieved context and conversation history into a token budget
+
+import { estimateTokens } from './tokens';
+
+export interface PackItem {
+	text: string;
+	brief?: string; // Shorter form used when the full text doesn't fit
+}
+
+export interface PackSection<K extends string = string> {
+	key: K;
+	heading: string; // Counted once the section has an item
+	weight: number; // Share of the budget relative to the other sections
+	items: PackItem[]; // Most valuable first
+}
+
+export interface PackedSection<K extends string = string> {
+	key: K;
+	heading: string;
+	lines: string[];
+}
+
+const LINE_OVERHEAD = 1; // Newline between lines
+const MESSAGE_OVERHEAD = 4; // Role and separators of a chat message
+
+/**
+ * Choose the context lines that fit in `budget` tokens
+ * Each section first fills its weighted share, best items first; an item that doesn't
+ * fit in full goes in brief, and the first that doesn't fit at all ends the section.
+ * Tokens other sections left unused then go to the remaining items, heaviest section
+ * first. So the lowest-value items are shortened, then dropped.
+ *
+ * @returns Sections with at least one line, in input order, and the tokens they use
+ */
+export function packSections<K extends string>(
+	sections: PackSection<K>[],
+	budget: number
+): { sections: PackedSection<K>[]; tokens: number } {
+	const active = sections.filter((section) => section.items.length > 0);
+	const totalWeight = active.reduce((sum, section) => sum + section.weight, 0);
+	const states = active.map((section) => ({
+		section,
+		lines: [] as string[],
+		next: 0, // Index of the first item not yet placed
+		used: 0,
+	}));
+
+	// Adds items while they fit in `limit` more tokens; returns the tokens used
+	const fill = (state: (typeof states)[number], limit: number): number => {
+		let spent = 0;
+		while (state.next < state.section.items.length) {
+			const item = state.section.items[state.next];
+			const heading = state.lines.length === 0 ? lineCost(state.section.heading) : 0;
+			const text = [item.text, item.brief].find(
+				(candidate): candidate is string =>
+					candidate !== undefined && spent + heading + lineCost(candidate) <= limit
+			);
+			if (text === undefined) break;
+			state.lines.push(text);
+			spent += heading + lineCost(text);
+			state.next++;
+		}
+		state.used += spent;
+		return spent;
+	};
+
+	for (const state of states) {
+		const share = totalWeight > 0 ? (budget * state.section.weight) / totalWeight : 0;
+		fill(state, Math.floor(share));
+	}
+
+	let leftover = budget - states.reduce((sum, state) => sum + state.used, 0);
+	const byWeight = [...states].sort((a, b) => b.section.weight - a.section.weight);
+	for (const state of byWeight) {
+		if (leftover <= 0) break;
+		leftover -= fill(state, leftover);
+	}
+
+	return {
+		sections: states
+			.filter((state) => state.lines.length > 0)
+			.map((state) => ({
+				key: state.section.key,
+				heading: state.section.heading,
+				lines: state.lines,
+			})),
+		tokens: states.reduce((sum, state) => sum + state.used, 0),
+	};
+}
+
+/**
+ * Keep the newest messages that fit in `budget` tokens
+ * The latest message is always kept, even if it alone exceeds the budget.
+ *
+ * @returns Kept messages in their original order, and how many older ones were left out
+ */
+export function packHistory<T extends { content: string }>(
+	messages: T[],
+	budget: number
+): { messages: T[]; omitted: number } {
+	let used = 0;
+	let start = messages.length;
+	while (start > 0) {
+		const cost = estimateTokens(messages[start - 1].content) + MESSAGE_OVERHEAD;
+		if (start < messages.length && used + cost > budget) break;
+		used += cost;
+		start--;
+	}
+	return { messages: messages.slice(start), omitted: start };
+}
+
+function lineCost(text: string): number {
+	return estimateTokens(text) + LINE_OVERHEAD;
+}
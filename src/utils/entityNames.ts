@@ -0,0 +1,149 @@
+// Name forms for recognizing entity mentions ("田中さん" for 田中部長, "the X project" for Xプロジェクト)
+
+// Honorifics and job titles that may follow a person's name
+const PERSON_SUFFIXES = [
+	'さん',
+	'様',
+	'さま',
+	'くん',
+	'君',
+	'ちゃん',
+	'氏',
+	'先生',
+	'先輩',
+	'部長',
+	'課長',
+	'係長',
+	'社長',
+	'室長',
+	'所長',
+	'主任',
+	'専務',
+	'常務',
+	'-san',
+	'-sama',
+	'-kun',
+	'-chan',
+	'-sensei',
+	' san',
+];
+const PROJECT_SUFFIXES = ['プロジェクト', 'pj', ' project', ' pj'];
+const PERSON_PREFIXES = ['mr. ', 'mrs. ', 'ms. ', 'dr. ', 'prof. ', 'mr ', 'mrs ', 'ms ', 'dr '];
+
+const WIDE_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const MIN_WIDE_CORE = 2; // "田中" alone is a name; "林" alone is too common
+const MIN_LATIN_CORE = 3;
+const MIN_FUZZY_LENGTH = 5; // Shorter names differ in meaning by one letter
+
+/**
+ * Case- and width-insensitive form used on both sides of matching
+ */
+export function normalizeName(text: string): string {
+	return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalized forms that refer to a name: the name itself, the name without an
+ * honorific, title or "project" suffix, and the same core with the other suffixes
+ * of its kind. A core alone is kept only if it is distinctive enough.
+ */
+export function nameForms(name: string): string[] {
+	const normalized = normalizeName(name);
+	if (!normalized) return [];
+	const forms = new Set([normalized]);
+
+	let core = normalized;
+	for (const prefix of PERSON_PREFIXES) {
+		if (core.startsWith(prefix) && core.length > prefix.length) {
+			core = core.slice(prefix.length);
+			break;
+		}
+	}
+
+	let suffixes: string[] = [];
+	for (const group of [PERSON_SUFFIXES, PROJECT_SUFFIXES]) {
+		const suffix = group.find((s) => core.endsWith(s) && core.length > s.length);
+		if (suffix) {
+			core = core.slice(0, -suffix.length).replace(/[\s-]+$/, '');
+			suffixes = group;
+			break;
+		}
+	}
+
+	if (core !== normalized && core) {
+		if (isDistinctive(core)) forms.add(core);
+		for (const suffix of suffixes) {
+			forms.add(core + suffix);
+		}
+	}
+	return [...forms];
+}
+
+/**
+ * Whether a match of `form` ending at `end` in `text` stands on its own
+ * Latin-script edges must not run into other letters ("sato" in "satoshi");
+ * Japanese has no spaces, so kana and kanji edges are always accepted.
+ */
+export function isWholeMatch(text: string, start: number, end: number): boolean {
+	const first = text[start];
+	const last = text[end - 1];
+	const before = text[start - 1];
+	const after = text[end];
+	if (before && !WIDE_CHAR.test(first) && isLatinWordChar(before)) return false;
+	if (after && !WIDE_CHAR.test(last) && isLatinWordChar(after)) return false;
+	return true;
+}
+
+/**
+ * Words long enough to be compared with fuzzyMatches
+ */
+export function fuzzyCandidates(text: string): string[] {
+	const words = text.match(/[\p{L}\p{N}]+/gu) ?? [];
+	return [...new Set(words)].filter(
+		(word) => word.length >= MIN_FUZZY_LENGTH && !WIDE_CHAR.test(word)
+	);
+}
+
+/**
+ * One typo apart: a letter inserted, deleted, replaced, or two adjacent letters swapped
+ * Only for Latin-script words of at least MIN_FUZZY_LENGTH letters.
+ */
+export function fuzzyMatches(a: string, b: string): boolean {
+	if (a === b) return true;
+	if (Math.min(a.length, b.length) < MIN_FUZZY_LENGTH || Math.abs(a.length - b.length) > 1) {
+		return false;
+	}
+	if (WIDE_CHAR.test(a) || WIDE_CHAR.test(b)) return false;
+	return editDistance(a, b) <= 1;
+}
+
+function isDistinctive(core: string): boolean {
+	const wide = [...core].filter((char) => WIDE_CHAR.test(char)).length;
+	return wide > 0 ? core.length >= MIN_WIDE_CORE : core.length >= MIN_LATIN_CORE;
+}
+
+function isLatinWordChar(char: string): boolean {
+	return WORD_CHAR.test(char) && !WIDE_CHAR.test(char);
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+	const rows = a.length + 1;
+	const cols = b.length + 1;
+	const d: number[][] = Array.from({ length: rows }, (_, i) =>
+		Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+	);
+	for (let i = 1; i < rows; i++) {
+		for (let j = 1; j < cols; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return d[a.length][b.length];
+}
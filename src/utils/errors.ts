@@ -1,3 +1,4 @@
+import type { SessionSummary } from '../types';
 import { getTranslations } from '../i18n';
 
 // API error response body structure
@@ -100,6 +101,21 @@ export class StorageError extends ReflectionChatError {
 	}
 }
 
+/**
+ * The summary model never produced usable structured output
+ * Carries a minimal fallback summary so the caller can decide whether to save it
+ */
+export class SummaryExtractionError extends ReflectionChatError {
+	constructor(
+		message: string,
+		public readonly fallbackSummary: SessionSummary,
+		public readonly issues: string[]
+	) {
+		super(message, 'SUMMARY_EXTRACTION_ERROR');
+		this.name = 'SummaryExtractionError';
+	}
+}
+
 // User-friendly error messages
 export function getErrorMessage(error: unknown): string {
 	const t = getTranslations();
@@ -125,6 +141,36 @@ export function getErrorMessage(error: unknown): string {
 	return t.errors.unknown;
 }
 
+/**
+ * Error thrown when the user cancels an operation
+ * Named 'AbortError' like the one fetch() throws, so callers need only one check
+ */
+export function createAbortError(): Error {
+	const error = new Error('Operation aborted');
+	error.name = 'AbortError';
+	return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+	return error instanceof Error && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw createAbortError();
+	}
+}
+
+/**
+ * Whether an API error is likely transient for this model
+ * (rate limit, timeout, server-side failure) - worth retrying or failing over
+ */
+export function isTransientApiError(error: unknown): boolean {
+	if (!(error instanceof ApiError)) return false;
+	const status = error.statusCode ?? 0;
+	return status === 408 || status === 429 || status >= 500;
+}
+
 // Retry utility
 export async function withRetry<T>(
 	fn: () => Promise<T>,
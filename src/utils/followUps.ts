@@ -0,0 +1,64 @@
+// Next actions and open questions, kept as task lists in session notes
+
+import type { FollowUp } from '../types';
+import { getAllTranslations } from '../i18n';
+
+export interface FollowUpItem {
+	kind: FollowUp['kind'];
+	text: string;
+	done: boolean;
+}
+
+const HEADING = /^#{2,6}\s+(.+?)\s*$/;
+const TASK = /^\s*[-*]\s+\[([ xX])\]\s+(.+?)\s*$/;
+
+/**
+ * Task items under the next-action and open-question headings of a note
+ * Headings in any UI language are recognized, since notes outlive language changes.
+ */
+export function parseFollowUpItems(content: string): FollowUpItem[] {
+	const items: FollowUpItem[] = [];
+	let kind: FollowUp['kind'] | null = null;
+	for (const line of content.split('\n')) {
+		const heading = line.match(HEADING);
+		if (heading) {
+			kind = headingKind(heading[1]);
+			continue;
+		}
+		const task = kind ? line.match(TASK) : null;
+		if (kind && task) {
+			items.push({ kind, text: task[2], done: task[1] !== ' ' });
+		}
+	}
+	return items;
+}
+
+/**
+ * Check off the first open item with this text under a heading of its kind
+ * @returns the content unchanged when no open item matches
+ */
+export function checkOffFollowUp(content: string, kind: FollowUp['kind'], text: string): string {
+	const lines = content.split('\n');
+	let current: FollowUp['kind'] | null = null;
+	for (let i = 0; i < lines.length; i++) {
+		const heading = lines[i].match(HEADING);
+		if (heading) {
+			current = headingKind(heading[1]);
+			continue;
+		}
+		const task = current === kind ? lines[i].match(TASK) : null;
+		if (task && task[1] === ' ' && task[2] === text.trim()) {
+			lines[i] = lines[i].replace('[ ]', '[x]');
+			return lines.join('\n');
+		}
+	}
+	return content;
+}
+
+function headingKind(heading: string): FollowUp['kind'] | null {
+	for (const t of getAllTranslations()) {
+		if (heading === t.notes.nextActions) return 'action';
+		if (heading === t.notes.openQuestions) return 'question';
+	}
+	return null;
+}
@@ -129,6 +129,7 @@ function unquoteString(value: string): string {
 /**
  * Parse frontmatter from markdown content
  * Supports simple YAML frontmatter with string, array values
+ * Arrays may be inline ([a, b]) or block lists ("- a" lines under an empty key)
  * Handles quoted strings, escaped quotes, and commas in array values
  */
 export function parseFrontmatter(content: string): ParsedNote {
@@ -146,11 +147,25 @@ export function parseFrontmatter(content: string): ParsedNote {
 	const frontmatter: Record<string, unknown> = {};
 	const lines = frontmatterStr.split('\n');
 
+	let listKey: string | null = null; // Key with an empty value, which block list items belong to
+
 	for (const line of lines) {
 		// Skip empty lines and comments
 		const trimmedLine = line.trim();
 		if (!trimmedLine || trimmedLine.startsWith('#')) continue;
 
+		const listItem = /^\s*-\s+(.*)$/.exec(line);
+		if (listItem) {
+			if (listKey === null) continue;
+			const items = Array.isArray(frontmatter[listKey])
+				? (frontmatter[listKey] as string[])
+				: [];
+			const item = unquoteString(listItem[1]);
+			if (item && items.length < MAX_INLINE_ARRAY_ITEMS) items.push(item);
+			frontmatter[listKey] = items;
+			continue;
+		}
+
 		const colonIndex = line.indexOf(':');
 		if (colonIndex === -1) continue;
 
@@ -158,6 +173,7 @@ export function parseFrontmatter(content: string): ParsedNote {
 		if (!key) continue; // Skip if no key
 
 		const rawValue = line.slice(colonIndex + 1).trim();
+		listKey = rawValue === '' ? key : null;
 
 		// Handle arrays (inline format: [item1, item2])
 		if (rawValue.startsWith('[') && rawValue.endsWith(']')) {
@@ -173,3 +189,41 @@ export function parseFrontmatter(content: string): ParsedNote {
 
 	return { frontmatter, body };
 }
+
+/**
+ * Add an item to a frontmatter list, creating the key or the frontmatter if missing
+ * Inline and block lists keep their format; a single string value becomes a list.
+ * Returns the content unchanged if the list already has the item.
+ */
+export function addFrontmatterListItem(content: string, key: string, item: string): string {
+	const { frontmatter } = parseFrontmatter(content);
+	const current = frontmatter[key];
+	if (current === item || (isStringArray(current) && current.includes(item))) return content;
+
+	const quoted = JSON.stringify(item);
+	const match = content.match(/^---\n([\s\S]*?)\n---\n/);
+	if (!match) {
+		return `---\n${key}: [${quoted}]\n---\n${content}`;
+	}
+
+	const lines = match[1].split('\n');
+	const index = lines.findIndex((line) => line.slice(0, line.indexOf(':')).trim() === key);
+	if (index === -1) {
+		lines.push(`${key}: [${quoted}]`);
+	} else {
+		const rawValue = lines[index].slice(lines[index].indexOf(':') + 1).trim();
+		if (rawValue === '') {
+			// Block list: append after its last item
+			let end = index + 1;
+			while (end < lines.length && /^\s*-\s/.test(lines[end])) end++;
+			const indent = end > index + 1 ? (lines[end - 1].match(/^\s*/)?.[0] ?? '') : '  ';
+			lines.splice(end, 0, `${indent}- ${quoted}`);
+		} else if (rawValue.startsWith('[') && rawValue.endsWith(']')) {
+			const inner = rawValue.slice(1, -1).trim();
+			lines[index] = `${key}: [${inner ? `${inner}, ` : ''}${quoted}]`;
+		} else {
+			lines[index] = `${key}: [${JSON.stringify(unquoteString(rawValue))}, ${quoted}]`;
+		}
+	}
+	return `---\n${lines.join('\n')}\n---\n${content.slice(match[0].length)}`;
+}
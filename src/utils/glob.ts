@@ -0,0 +1,57 @@
+// Folder glob matching for the indexing scope settings
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Whether a vault path is matched by a folder name or glob
+ *   *  any characters within one path segment
+ *   ** any characters across segments
+ *   ?  one character other than /
+ * A pattern matches a path when it matches the path itself or any folder above it,
+ * so "Projects" and "Areas/*" cover everything beneath those folders.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+	const normalized = pattern.trim().replace(/^\/+|\/+$/g, '');
+	if (!normalized) return false;
+
+	const regex = toRegExp(normalized);
+	const segments = path.split('/');
+	for (let end = segments.length; end > 0; end--) {
+		if (regex.test(segments.slice(0, end).join('/'))) return true;
+	}
+	return false;
+}
+
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+	return patterns.some((pattern) => matchesGlob(path, pattern));
+}
+
+function toRegExp(pattern: string): RegExp {
+	const cached = patternCache.get(pattern);
+	if (cached) return cached;
+
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*' && pattern[i + 1] === '*') {
+			// "**/" also matches no folder at all
+			if (pattern[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i++;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	const regex = new RegExp(`^${source}$`);
+	patternCache.set(pattern, regex);
+	return regex;
+}
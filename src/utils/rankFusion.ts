@@ -0,0 +1,37 @@
+// Merging ranked result lists from different retrievers
+
+export interface RankedList<T> {
+	results: T[]; // Best first
+	weight: number; // Share of this list in the fused score (0 leaves it out)
+}
+
+/**
+ * Weighted reciprocal rank fusion
+ * Each item scores sum(weight / (k + rank)) over the lists it appears in, so only
+ * ranks matter and scores from different retrievers never need to be comparable.
+ * The first occurrence of an id (in list order) is kept as the returned item.
+ *
+ * @param k - Dampens the gap between top ranks (60 is the usual choice)
+ * @returns Items sorted by fused score, highest first
+ */
+export function fuseRankings<T extends { id: string }>(
+	lists: RankedList<T>[],
+	k = 60
+): { item: T; score: number }[] {
+	const fused = new Map<string, { item: T; score: number }>();
+
+	for (const { results, weight } of lists) {
+		if (weight <= 0) continue;
+		results.forEach((item, index) => {
+			const contribution = weight / (k + index + 1);
+			const entry = fused.get(item.id);
+			if (entry) {
+				entry.score += contribution;
+			} else {
+				fused.set(item.id, { item, score: contribution });
+			}
+		});
+	}
+
+	return [...fused.values()].sort((a, b) => b.score - a.score);
+}
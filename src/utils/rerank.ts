@@ -0,0 +1,108 @@
+// Reranking of related notes before they go into the system prompt
+
+import { tokenize } from './tokenize';
+
+export interface RerankOptions {
+	diversity: number; // 0-1: 0 ranks by relevance only, higher favors notes unlike those already picked
+	recencyHalfLifeDays: number; // Age at which a note's relevance halves (0 = no decay)
+}
+
+interface Rankable {
+	id: string;
+	score: number;
+	metadata: { date: string };
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Pick `limit` results by maximal marginal relevance, after decaying scores by age
+ * Each step takes the result maximizing
+ *   (1 - diversity) * relevance - diversity * (highest similarity to a picked result)
+ * so near-duplicate sessions from the same week give way to other topics.
+ * With diversity 0 and no decay this is the top `limit` by score.
+ *
+ * @param results - Candidates, typically a few times `limit`
+ * @param similarity - Similarity of two results in [0, 1]
+ * @param today - Reference date for note age
+ */
+export function rerankResults<T extends Rankable>(
+	results: T[],
+	similarity: (a: T, b: T) => number,
+	options: RerankOptions,
+	limit: number,
+	today: Date = new Date()
+): T[] {
+	if (results.length === 0 || limit <= 0) return [];
+
+	// Normalize so relevance and similarity share a scale (fused scores are tiny)
+	const decayed = results.map(
+		(result) =>
+			result.score * recencyFactor(result.metadata.date, options.recencyHalfLifeDays, today)
+	);
+	const maxScore = Math.max(...decayed);
+	const relevance = decayed.map((score) => (maxScore > 0 ? score / maxScore : 0));
+
+	const diversity = Math.max(0, Math.min(1, options.diversity));
+	const remaining = results.map((_, index) => index);
+	const maxSimilarity = results.map(() => 0); // To any picked result
+	const picked: T[] = [];
+
+	while (picked.length < limit && remaining.length > 0) {
+		let best = 0;
+		let bestValue = -Infinity;
+		remaining.forEach((index, position) => {
+			const value = (1 - diversity) * relevance[index] - diversity * maxSimilarity[index];
+			if (value > bestValue) {
+				bestValue = value;
+				best = position;
+			}
+		});
+
+		const [index] = remaining.splice(best, 1);
+		const chosen = results[index];
+		picked.push(chosen);
+		if (diversity > 0) {
+			for (const other of remaining) {
+				maxSimilarity[other] = Math.max(
+					maxSimilarity[other],
+					similarity(chosen, results[other])
+				);
+			}
+		}
+	}
+
+	return picked;
+}
+
+/**
+ * Exponential decay by note age: 1 today, 0.5 at the half-life
+ * Notes without a readable date are not decayed.
+ */
+export function recencyFactor(date: string, halfLifeDays: number, today: Date): number {
+	if (!(halfLifeDays > 0)) return 1;
+
+	const match = DATE_PATTERN.exec(date);
+	if (!match) return 1;
+	const noteDay = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+	const currentDay = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+	const ageDays = Math.max(0, (currentDay - noteDay) / MS_PER_DAY);
+	return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Jaccard similarity of the terms in two texts
+ * Fallback for results without stored vectors (e.g. keyword-only matches).
+ */
+export function termSimilarity(a: string, b: string): number {
+	const termsA = new Set(tokenize(a));
+	const termsB = new Set(tokenize(b));
+	if (termsA.size === 0 || termsB.size === 0) return 0;
+
+	let shared = 0;
+	for (const term of termsA) {
+		if (termsB.has(term)) shared++;
+	}
+	return shared / (termsA.size + termsB.size - shared);
+}
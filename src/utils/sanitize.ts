@@ -61,6 +61,20 @@ export function escapeRegex(str: string): string {
 	return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+/**
+ * Link text that opens a note at a heading (note#Section#Subsection)
+ * Characters with a meaning in link syntax are removed from the headings.
+ */
+export function buildHeadingLink(path: string, headings: string[]): string {
+	const subpaths = headings.map((heading) =>
+		heading
+			.replace(/[#|^[\]]/g, ' ')
+			.replace(/\s+/g, ' ')
+			.trim()
+	);
+	return [path, ...subpaths].join('#');
+}
+
 /**
  * Validate and normalize a folder path
  * Returns null if path is invalid, otherwise returns normalized path
@@ -117,3 +131,27 @@ export function validateFolderPath(path: string): string | null {
 
 	return normalized;
 }
+
+/**
+ * Validate an HTTP(S) endpoint URL for a custom LLM server
+ * Returns the URL without trailing slashes, or null if invalid
+ */
+export function validateBaseUrl(url: string): string | null {
+	if (!url || typeof url !== 'string') {
+		return null;
+	}
+
+	const trimmed = url.trim();
+	if (!/^https?:\/\//i.test(trimmed)) {
+		return null;
+	}
+
+	try {
+		// Throws on malformed URLs (spaces in host, missing host, etc.)
+		new URL(trimmed);
+	} catch {
+		return null;
+	}
+
+	return trimmed.replace(/\/+$/, '');
+}
@@ -0,0 +1,129 @@
+// Parsing of the note search syntax into free text and a VectorFilter
+
+import type { EntityType, GoalStatus, NoteType, VectorFilter } from '../types';
+
+export interface ParsedSearchQuery {
+	text: string; // Free text for vector and keyword search
+	filter: VectorFilter;
+}
+
+const NOTE_TYPES: NoteType[] = ['session', 'entity', 'goal', 'report', 'note'];
+const ENTITY_TYPES: EntityType[] = ['person', 'project', 'company', 'book', 'other'];
+const GOAL_STATUSES: GoalStatus[] = ['active', 'completed', 'archived'];
+const ABSOLUTE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE = /^(\d{1,4})d$/; // Days before today
+
+/**
+ * Split search input into free text and filter operators
+ *   type:session|entity|goal|report|note    entity:person,project    status:active,completed
+ *   category:career,idea
+ *   #tag (required)   -#tag (excluded)   tag:a,b (any of)
+ *   after:2025-01-01 | after:90d    before:2025-06-30 | before:7d
+ *   path:journal/2025
+ * Unknown operators and malformed values are kept as free text.
+ *
+ * @param today - Reference date for relative dates such as 90d
+ */
+export function parseSearchQuery(input: string, today: Date = new Date()): ParsedSearchQuery {
+	const filter: VectorFilter = {};
+	const words: string[] = [];
+
+	for (const token of input.split(/\s+/).filter((t) => t.length > 0)) {
+		if (token.startsWith('-#') && token.length > 2) {
+			addTags(filter, 'none', [token.slice(2)]);
+			continue;
+		}
+		if (token.startsWith('#') && token.length > 1) {
+			addTags(filter, 'all', [token.slice(1)]);
+			continue;
+		}
+
+		const separator = token.indexOf(':');
+		const operator = separator > 0 ? token.slice(0, separator).toLowerCase() : '';
+		const value = token.slice(separator + 1);
+		const values = value.split(',').filter((v) => v.length > 0);
+		if (!operator || values.length === 0 || !applyOperator(filter, operator, values, today)) {
+			words.push(token);
+		}
+	}
+
+	return { text: words.join(' '), filter };
+}
+
+/**
+ * @returns false if the operator is unknown or its value is malformed
+ */
+function applyOperator(
+	filter: VectorFilter,
+	operator: string,
+	values: string[],
+	today: Date
+): boolean {
+	switch (operator) {
+		case 'type': {
+			const type = values[0].toLowerCase() as NoteType;
+			if (!NOTE_TYPES.includes(type)) return false;
+			filter.type = type;
+			return true;
+		}
+		case 'status': {
+			const statuses = values.map((v) => v.toLowerCase() as GoalStatus);
+			if (!statuses.every((s) => GOAL_STATUSES.includes(s))) return false;
+			filter.goalStatuses = [...(filter.goalStatuses ?? []), ...statuses];
+			return true;
+		}
+		case 'entity': {
+			const types = values.map((v) => v.toLowerCase() as EntityType);
+			if (!types.every((t) => ENTITY_TYPES.includes(t))) return false;
+			filter.entityTypes = [...(filter.entityTypes ?? []), ...types];
+			return true;
+		}
+		case 'category':
+			filter.categories = [
+				...(filter.categories ?? []),
+				...values.map((v) => v.toLowerCase()),
+			];
+			return true;
+		case 'tag':
+			addTags(filter, 'any', values);
+			return true;
+		case 'after':
+		case 'before': {
+			const date = resolveDate(values[0], today);
+			if (!date) return false;
+			if (operator === 'after') {
+				filter.dateFrom = date;
+			} else {
+				filter.dateTo = date;
+			}
+			return true;
+		}
+		case 'path':
+			filter.pathPrefixes = [...(filter.pathPrefixes ?? []), values.join(',')];
+			return true;
+		default:
+			return false;
+	}
+}
+
+function addTags(filter: VectorFilter, kind: 'any' | 'all' | 'none', tags: string[]): void {
+	filter.tags = filter.tags ?? {};
+	filter.tags[kind] = [...(filter.tags[kind] ?? []), ...tags];
+}
+
+/**
+ * YYYY-MM-DD as given, or N days before today for "Nd"
+ */
+function resolveDate(value: string, today: Date): string | null {
+	if (ABSOLUTE_DATE.test(value)) return value;
+
+	const relative = RELATIVE_DATE.exec(value);
+	if (!relative) return null;
+	const date = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+	date.setDate(date.getDate() - parseInt(relative[1], 10));
+	return [
+		date.getFullYear(),
+		String(date.getMonth() + 1).padStart(2, '0'),
+		String(date.getDate()).padStart(2, '0'),
+	].join('-');
+}
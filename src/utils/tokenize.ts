@@ -0,0 +1,43 @@
+// Tokenization for the keyword index (Japanese and English mixed text)
+
+// Runs of Japanese script; 々 and ー continue a word
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}々ー]+/u;
+// Letters and digits, optionally joined by - _ . (project codes like PRJ-42, v1.2)
+const WORD_RUN = /[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/u;
+const TOKEN_RUN = new RegExp(`${CJK_RUN.source}|${WORD_RUN.source}`, 'gu');
+
+/**
+ * Split text into search terms
+ * - Japanese runs become overlapping character bigrams (a single character stays
+ *   as is), so words match without a dictionary-based segmenter
+ * - Other words are lowercased; joined words like "prj-42" yield the whole word
+ *   and each part
+ * Input is NFKC-normalized so full-width letters and half-width katakana match
+ * their usual forms.
+ */
+export function tokenize(text: string): string[] {
+	const tokens: string[] = [];
+	const normalized = text.normalize('NFKC').toLowerCase();
+
+	for (const [run] of normalized.matchAll(TOKEN_RUN)) {
+		if (CJK_RUN.test(run[0])) {
+			const chars = [...run];
+			if (chars.length === 1) {
+				tokens.push(run);
+				continue;
+			}
+			for (let i = 0; i < chars.length - 1; i++) {
+				tokens.push(chars[i] + chars[i + 1]);
+			}
+			continue;
+		}
+
+		tokens.push(run);
+		const parts = run.split(/[-_.]/);
+		if (parts.length > 1) {
+			tokens.push(...parts);
+		}
+	}
+
+	return tokens;
+}
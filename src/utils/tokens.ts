@@ -0,0 +1,15 @@
+// Rough token counts for fitting prompts into a model's context window
+
+// Kana, kanji, hangul and full-width forms: about one token per character
+const WIDE_CHARS = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+const CHARS_PER_TOKEN = 4; // Typical for English and other Latin-script text
+
+/**
+ * Estimate the token count of a text without a model-specific tokenizer
+ * Errs high for Japanese so budgets computed from it stay within the window.
+ */
+export function estimateTokens(text: string): number {
+	if (!text) return 0;
+	const wide = text.match(WIDE_CHARS)?.length ?? 0;
+	return wide + Math.ceil((text.length - wide) / CHARS_PER_TOKEN);
+}
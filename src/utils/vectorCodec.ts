@@ -0,0 +1,136 @@
+// Binary encoding of vector shard files
+
+import type { VectorEncoding } from '../types';
+
+/**
+ * Shard file layout (header fields little-endian):
+ *   0  magic 'RCVS'
+ *   4  u8 format version
+ *   5  u8 encoding (0 = float32, 1 = int8)
+ *   6  u16 reserved
+ *   8  u32 dimension
+ *   12 u32 vector count
+ *   16 u32 revision (must match the index entry, guards against torn writes)
+ *   20 float32: count * dimension float32 values
+ *      int8:    count float32 scales, then count * dimension int8 values
+ * Vector data uses typed arrays in platform byte order; every platform
+ * Obsidian runs on is little-endian.
+ */
+const MAGIC = 0x53564352; // 'RCVS' read as little-endian u32
+const FORMAT_VERSION = 1;
+const HEADER_BYTES = 20;
+const ENCODING_IDS: Record<VectorEncoding, number> = { float32: 0, int8: 1 };
+
+export interface DecodedShard {
+	encoding: VectorEncoding;
+	dimension: number;
+	revision: number;
+	vectors: number[][];
+}
+
+/**
+ * Pack equal-length vectors into a shard file
+ * int8 quantizes each vector symmetrically with its own scale (max |value| / 127),
+ * which keeps cosine similarity within about 1% of the float32 value.
+ */
+export function encodeShard(
+	vectors: number[][],
+	encoding: VectorEncoding,
+	revision: number
+): ArrayBuffer {
+	const dimension = vectors[0]?.length ?? 0;
+	if (vectors.some((vector) => vector.length !== dimension)) {
+		throw new Error('All vectors in a shard must have the same dimension');
+	}
+
+	const count = vectors.length;
+	const dataBytes = encoding === 'int8' ? count * 4 + count * dimension : count * dimension * 4;
+	const buffer = new ArrayBuffer(HEADER_BYTES + dataBytes);
+
+	const header = new DataView(buffer);
+	header.setUint32(0, MAGIC, true);
+	header.setUint8(4, FORMAT_VERSION);
+	header.setUint8(5, ENCODING_IDS[encoding]);
+	header.setUint32(8, dimension, true);
+	header.setUint32(12, count, true);
+	header.setUint32(16, revision, true);
+
+	if (encoding === 'int8') {
+		const scales = new Float32Array(buffer, HEADER_BYTES, count);
+		const values = new Int8Array(buffer, HEADER_BYTES + count * 4, count * dimension);
+		vectors.forEach((vector, row) => {
+			let max = 0;
+			for (const value of vector) {
+				max = Math.max(max, Math.abs(value));
+			}
+			const scale = max / 127;
+			scales[row] = scale;
+			if (scale === 0) return;
+			for (let i = 0; i < dimension; i++) {
+				values[row * dimension + i] = Math.round(vector[i] / scale);
+			}
+		});
+	} else {
+		const values = new Float32Array(buffer, HEADER_BYTES, count * dimension);
+		vectors.forEach((vector, row) => values.set(vector, row * dimension));
+	}
+
+	return buffer;
+}
+
+/**
+ * Unpack a shard file
+ * @throws Error if the data is not a shard file or is truncated
+ */
+export function decodeShard(buffer: ArrayBuffer): DecodedShard {
+	if (buffer.byteLength < HEADER_BYTES) {
+		throw new Error('Shard file is truncated');
+	}
+
+	const header = new DataView(buffer);
+	if (header.getUint32(0, true) !== MAGIC) {
+		throw new Error('Not a vector shard file');
+	}
+	const version = header.getUint8(4);
+	if (version !== FORMAT_VERSION) {
+		throw new Error(`Unsupported shard format version: ${version}`);
+	}
+	const encodingId = header.getUint8(5);
+	const encoding = (Object.keys(ENCODING_IDS) as VectorEncoding[]).find(
+		(key) => ENCODING_IDS[key] === encodingId
+	);
+	if (!encoding) {
+		throw new Error(`Unknown shard encoding: ${encodingId}`);
+	}
+	const dimension = header.getUint32(8, true);
+	const count = header.getUint32(12, true);
+	const revision = header.getUint32(16, true);
+
+	const dataBytes = encoding === 'int8' ? count * 4 + count * dimension : count * dimension * 4;
+	if (buffer.byteLength !== HEADER_BYTES + dataBytes) {
+		throw new Error(
+			`Shard file size mismatch: expected ${HEADER_BYTES + dataBytes} bytes, got ${buffer.byteLength}`
+		);
+	}
+
+	const vectors: number[][] = [];
+	if (encoding === 'int8') {
+		const scales = new Float32Array(buffer, HEADER_BYTES, count);
+		const values = new Int8Array(buffer, HEADER_BYTES + count * 4, count * dimension);
+		for (let row = 0; row < count; row++) {
+			const scale = scales[row];
+			const vector = new Array<number>(dimension);
+			for (let i = 0; i < dimension; i++) {
+				vector[i] = values[row * dimension + i] * scale;
+			}
+			vectors.push(vector);
+		}
+	} else {
+		const values = new Float32Array(buffer, HEADER_BYTES, count * dimension);
+		for (let row = 0; row < count; row++) {
+			vectors.push(Array.from(values.subarray(row * dimension, (row + 1) * dimension)));
+		}
+	}
+
+	return { encoding, dimension, revision, vectors };
+}
@@ -0,0 +1,332 @@
+import { describe, expect, it } from 'vitest';
+import { ChatEngine } from '../../src/core/ChatEngine';
+import { OpenRouterClient } from '../../src/infrastructure/OpenRouterClient';
+import { SummaryExtractionError } from '../../src/utils/errors';
+import type { FollowUp, Message, UsageEvent } from '../../src/types';
+import { replayInteractions, testApiKey, useFetchFixture } from '../helpers/fetchReplay';
+
+const SUMMARY_MODEL = 'anthropic/claude-3.5-haiku';
+const OPENROUTER = 'https://openrouter.ai/api/v1';
+
+const conversation: Message[] = [
+	{
+		id: 'm1',
+		role: 'user',
+		content: 'I want to get 800 on the TOEIC in March but work is busy.',
+		timestamp: 1,
+	},
+	{ id: 'm2', role: 'assistant', content: 'When in your day is it quietest?', timestamp: 2 },
+	{
+		id: 'm3',
+		role: 'user',
+		content: 'Mornings. Tanaka said I can have lighter hours too.',
+		timestamp: 3,
+	},
+];
+
+function createEngine(summaryModel = SUMMARY_MODEL, usage: UsageEvent[] = []): ChatEngine {
+	const client = new OpenRouterClient(testApiKey(), (event) => usage.push(event));
+	return new ChatEngine(client, 'openai/gpt-4o-mini', summaryModel, '');
+}
+
+describe('ChatEngine.generateSummary', () => {
+	it('extracts a fenced JSON summary with entities, goals and values intact', async () => {
+		const http = useFetchFixture('summary-structured');
+		const usage: UsageEvent[] = [];
+
+		const summary = await createEngine(SUMMARY_MODEL, usage).generateSummary(conversation);
+		http.save();
+
+		expect(summary.category).toBe('career');
+		expect(summary.tags).toEqual(['english', 'career', 'study-habits']);
+		expect(summary.entities.map((e) => e.name)).toEqual(['Tanaka', 'TOEIC']);
+		expect(summary.relations).toHaveLength(1);
+		expect(summary.values[0]).toMatchObject({ value: 'growth', sentiment: 'positive' });
+		expect(summary.goals?.[0]).toMatchObject({
+			name: 'TOEIC 800',
+			type: 'achievement',
+			priority: 'high',
+			nextActions: ['Buy the official practice book'],
+		});
+		expect(usage).toEqual([
+			{
+				purpose: 'summary',
+				model: SUMMARY_MODEL,
+				promptTokens: 812,
+				completionTokens: 356,
+			},
+		]);
+		http.assertDone();
+	});
+
+	it('requests schema-constrained output when the model supports it', async () => {
+		const http = useFetchFixture('summary-structured');
+
+		await createEngine().generateSummary(conversation);
+
+		const request = http.calls.find((call) => call.url.endsWith('/chat/completions'));
+		expect(request?.body).toMatchObject({
+			model: SUMMARY_MODEL,
+			response_format: {
+				type: 'json_schema',
+				json_schema: { name: 'session_summary', strict: false },
+			},
+		});
+	});
+
+	it('feeds validation problems back to the model and uses the repaired answer', async () => {
+		const http = useFetchFixture('summary-repair');
+
+		const summary = await createEngine('meta-llama/llama-3.1-8b-instruct').generateSummary(
+			conversation
+		);
+		http.save();
+
+		expect(summary.summary).toContain('Dr. Sato');
+		expect(summary.entities).toEqual([
+			{
+				name: 'Dr. Sato',
+				type: 'person',
+				description: 'Family doctor',
+				context: 'Appointment next week',
+			},
+		]);
+		const [, repair] = http.calls.filter((call) => call.url.endsWith('/chat/completions'));
+		const messages = (repair.body as { messages: { role: string; content: string }[] })
+			.messages;
+		expect(messages[2].content).toContain('not valid JSON');
+		// No structured output support advertised for this model
+		expect(repair.body).not.toHaveProperty('response_format');
+		http.assertDone();
+	});
+
+	it('throws SummaryExtractionError with a fallback once repairs run out', async () => {
+		const garbage = {
+			status: 200,
+			body: { choices: [{ message: { content: 'Sorry, I cannot help with that.' } }] },
+		};
+		const http = replayInteractions([
+			{
+				request: { method: 'GET', url: `${OPENROUTER}/models` },
+				response: { status: 200, body: { data: [] } },
+			},
+			{
+				request: { method: 'POST', url: `${OPENROUTER}/chat/completions` },
+				response: garbage,
+			},
+			{
+				request: { method: 'POST', url: `${OPENROUTER}/chat/completions` },
+				response: garbage,
+			},
+			{
+				request: { method: 'POST', url: `${OPENROUTER}/chat/completions` },
+				response: garbage,
+			},
+		]);
+
+		const error = await createEngine()
+			.generateSummary(conversation)
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(SummaryExtractionError);
+		const extraction = error as SummaryExtractionError;
+		expect(extraction.fallbackSummary.summary).toContain('TOEIC');
+		expect(extraction.issues.join()).toContain('not valid JSON');
+		http.assertDone();
+	});
+
+	it('accepts a summary without tags instead of asking for a repair', async () => {
+		const content = JSON.stringify({
+			summary: 'A short check-in.',
+			tags: [],
+			category: 'life',
+		});
+		const http = replayInteractions([
+			{
+				request: { method: 'GET', url: `${OPENROUTER}/models` },
+				response: { status: 200, body: { data: [] } },
+			},
+			{
+				request: { method: 'POST', url: `${OPENROUTER}/chat/completions` },
+				response: { status: 200, body: { choices: [{ message: { content } }] } },
+			},
+		]);
+
+		const summary = await createEngine().generateSummary(conversation);
+
+		expect(summary).toMatchObject({ summary: 'A short check-in.', tags: [], category: 'life' });
+		http.assertDone();
+	});
+
+	it('marks the earlier follow-ups the user reported as done', async () => {
+		const followUps: FollowUp[] = [
+			{ kind: 'action', text: 'Ask Tanaka', path: 'j/a.md', date: '2025-03-10', ageDays: 4 },
+			{
+				kind: 'question',
+				text: 'Which course?',
+				path: 'j/b.md',
+				date: '2025-03-12',
+				ageDays: 2,
+			},
+		];
+		const content = JSON.stringify({
+			summary: 'Tanaka agreed to lighter hours.',
+			tags: ['career'],
+			category: 'career',
+			resolvedFollowUps: [1, 1, 7],
+		});
+		const http = replayInteractions([
+			{
+				request: { method: 'GET', url: `${OPENROUTER}/models` },
+				response: { status: 200, body: { data: [] } },
+			},
+			{
+				request: { method: 'POST', url: `${OPENROUTER}/chat/completions` },
+				response: { status: 200, body: { choices: [{ message: { content } }] } },
+			},
+		]);
+
+		const summary = await createEngine().generateSummary(conversation, undefined, followUps);
+
+		expect(summary.resolvedFollowUps).toEqual([followUps[0]]);
+		const request = http.calls.find((call) => call.url.endsWith('/chat/completions'));
+		const prompt = (request?.body as { messages: { content: string }[] }).messages[0].content;
+		expect(prompt).toContain('1. [planned, 4 days ago] Ask Tanaka');
+		expect(prompt).toContain('2. [open question, 2 days ago] Which course?');
+	});
+
+	it('does not call the API for an empty conversation', async () => {
+		const http = replayInteractions([]);
+
+		const summary = await createEngine().generateSummary([]);
+
+		expect(summary.entities).toEqual([]);
+		expect(http.calls).toHaveLength(0);
+	});
+});
+
+describe('ChatEngine.chatStream', () => {
+	it('fits context and history into the model context window, newest first', async () => {
+		const http = replayInteractions([
+			{
+				request: { method: 'GET', url: `${OPENROUTER}/models` },
+				response: {
+					status: 200,
+					body: { data: [{ id: 'openai/gpt-4o-mini', context_length: 2000 }] },
+				},
+			},
+			{
+				request: { method: 'POST', url: `${OPENROUTER}/chat/completions` },
+				response: {
+					status: 200,
+					sse: ['{"choices":[{"delta":{"content":"Let us plan."}}]}', '[DONE]'],
+				},
+			},
+		]);
+		const history: Message[] = Array.from({ length: 40 }, (_, i) => ({
+			id: `m${i}`,
+			role: i % 2 === 0 ? 'user' : 'assistant',
+			content: `Message ${i}: ${'study plan details '.repeat(20)}`,
+			timestamp: i,
+		}));
+		const entities = Array.from({ length: 30 }, (_, i) => ({
+			name: `Person ${i}`,
+			type: 'person' as const,
+			description: 'Colleague who '.repeat(30),
+			path: `entities/Person ${i}.md`,
+		}));
+
+		const reply = await createEngine().chatStream(
+			history,
+			{
+				recentNotes: [],
+				semanticMatches: [],
+				relatedNotes: [],
+				linkedEntities: entities,
+				linkedGoals: [],
+				followUps: [],
+				sources: [],
+			},
+			() => undefined
+		);
+
+		expect(reply).toBe('Let us plan.');
+		const request = http.calls.find((call) => call.url.endsWith('/chat/completions'));
+		const messages = (request?.body as { messages: { role: string; content: string }[] })
+			.messages;
+		const [system, ...kept] = messages;
+		expect(kept.length).toBeLessThan(history.length);
+		expect(kept[kept.length - 1].content).toBe(history[history.length - 1].content);
+		expect(system.content).toContain('[[Person 0]]');
+		expect(system.content).not.toContain('[[Person 29]]');
+		expect(system.content).toContain(`(${history.length - kept.length} earlier messages`);
+		const promptLength = messages.reduce((sum, m) => sum + m.content.length, 0);
+		expect(promptLength / 4).toBeLessThan(2000 * 0.75);
+		http.assertDone();
+	});
+});
+
+describe('ChatEngine.planQueries', () => {
+	it('parses deduplicated queries and entity names from the summary model', async () => {
+		const http = replayInteractions([
+			{
+				request: { method: 'GET', url: `${OPENROUTER}/models` },
+				response: { status: 200, body: { data: [] } },
+			},
+			{
+				request: {
+					method: 'POST',
+					url: `${OPENROUTER}/chat/completions`,
+					body: { model: SUMMARY_MODEL },
+				},
+				response: {
+					status: 200,
+					body: {
+						choices: [
+							{
+								message: {
+									content:
+										'```json\n{"queries": ["TOEIC morning study", "TOEIC morning study", " lighter work hours ", "", 3, "March exam", "extra"], "entities": ["Tanaka"]}\n```',
+								},
+							},
+						],
+						usage: { prompt_tokens: 120, completion_tokens: 40 },
+					},
+				},
+			},
+		]);
+		const usage: UsageEvent[] = [];
+
+		const plan = await createEngine(SUMMARY_MODEL, usage).planQueries(conversation);
+
+		expect(plan).toEqual({
+			queries: ['TOEIC morning study', 'lighter work hours', 'March exam'],
+			entities: ['Tanaka'],
+		});
+		const request = http.calls.find((call) => call.url.endsWith('/chat/completions'));
+		const prompt = (request?.body as { messages: { content: string }[] }).messages[0].content;
+		expect(prompt).toContain('Tanaka said I can have lighter hours too.');
+		expect(usage.map((event) => event.purpose)).toEqual(['planning']);
+		http.assertDone();
+	});
+
+	it('returns null when the model gives no queries', async () => {
+		replayInteractions([
+			{
+				request: { method: 'GET', url: `${OPENROUTER}/models` },
+				response: { status: 200, body: { data: [] } },
+			},
+			{
+				request: { method: 'POST', url: `${OPENROUTER}/chat/completions` },
+				response: {
+					status: 200,
+					body: {
+						choices: [{ message: { content: '{"queries": [], "entities": []}' } }],
+					},
+				},
+			},
+		]);
+
+		expect(await createEngine().planQueries(conversation)).toBeNull();
+	});
+});
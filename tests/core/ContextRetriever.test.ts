@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { ContextRetriever } from '../../src/core/ContextRetriever';
+import { NoteIndexer } from '../../src/infrastructure/NoteIndexer';
+import { Embedder } from '../../src/infrastructure/Embedder';
+import { VectorStore } from '../../src/infrastructure/VectorStore';
+import { KeywordIndex } from '../../src/infrastructure/KeywordIndex';
+import { IndexManifest } from '../../src/infrastructure/IndexManifest';
+import { LocalEmbeddingBackend } from '../../src/infrastructure/LocalEmbeddingBackend';
+import { createTestApp, type InMemoryVault } from '../helpers/InMemoryVault';
+
+const PLUGIN_DIR = '.obsidian/plugins/reflection-chat';
+const NOTE = 'journal/2025-03-14.md';
+
+function session(time: string, summary: string, decision: string): string {
+	return `## ${time}
+
+### Summary
+${summary}
+
+### Pending Decisions
+- ${decision}
+`;
+}
+
+const header = `---
+date: 2025-03-14
+type: session
+category: career
+tags: [english]
+---
+
+# 2025-03-14 Session
+
+`;
+
+describe('ContextRetriever', () => {
+	let vault: InMemoryVault;
+	let embedder: Embedder;
+	let store: VectorStore;
+	let keywords: KeywordIndex;
+	let manifest: IndexManifest;
+	let indexer: NoteIndexer;
+
+	beforeEach(async () => {
+		const testApp = createTestApp({
+			[NOTE]:
+				header +
+				session('09:30', 'Planned TOEIC study around work.', 'Study every morning'),
+		});
+		vault = testApp.vault;
+		embedder = new Embedder(new LocalEmbeddingBackend());
+		store = new VectorStore(testApp.app, PLUGIN_DIR);
+		await store.initialize();
+		keywords = new KeywordIndex(testApp.app, PLUGIN_DIR);
+		manifest = new IndexManifest(testApp.app, PLUGIN_DIR);
+		indexer = new NoteIndexer(
+			testApp.app,
+			embedder,
+			store,
+			keywords,
+			manifest,
+			'journal',
+			'entities'
+		);
+	});
+
+	afterEach(async () => {
+		vi.useRealTimers();
+		indexer.destroy();
+		await store.flush();
+		await keywords.flush();
+		await manifest.flush();
+	});
+
+	function createRetriever(keywordWeight: number): ContextRetriever {
+		return new ContextRetriever(
+			{ vault } as never,
+			embedder,
+			store,
+			keywords,
+			'journal',
+			'entities',
+			7,
+			3,
+			keywordWeight,
+			{ diversity: 0, recencyHalfLifeDays: 0 }
+		);
+	}
+
+	async function rewrite(content: string): Promise<void> {
+		await vault.modify(vault.getAbstractFileByPath(NOTE) as TFile, content);
+	}
+
+	it('honors notes pinned or excluded for the session and says why each is included', async () => {
+		const entity = 'entities/Tanaka.md';
+		await vault.create(entity, '---\ntype: entity\n---\n\n# Tanaka\n\n## Overview\nTeam lead');
+		await indexer.indexAll();
+		const retriever = createRetriever(0.3);
+
+		const context = await retriever.retrieve('TOEIC study', []);
+		expect(context.sources).toEqual([
+			{
+				path: NOTE,
+				title: '2025-03-14 Session',
+				reason: 'semantic',
+				score: expect.any(Number),
+				pinned: false,
+			},
+		]);
+
+		const overridden = await retriever.retrieve('TOEIC study', [], undefined, {
+			pinned: [entity],
+			excluded: [NOTE],
+		});
+		expect(overridden.semanticMatches).toEqual([]);
+		expect(overridden.recentNotes).toEqual([]);
+		expect(overridden.linkedEntities.map((e) => e.name)).toEqual(['Tanaka']);
+		expect(overridden.sources).toEqual([
+			{ path: entity, title: 'Tanaka', reason: 'pinned', pinned: true },
+		]);
+	});
+
+	it('searches each planned query and looks up planned entity names', async () => {
+		await rewrite(
+			header +
+				session('09:30', 'Planned TOEIC study around work.', 'Study every morning') +
+				'\n' +
+				session('21:05', 'Discussed the PRJ-42 estimate.', 'Send the estimate next week')
+		);
+		await vault.create('entities/Tanaka.md', '---\ntype: entity\n---\n\n# Tanaka\n');
+		await indexer.indexAll();
+		const retriever = createRetriever(1);
+
+		const unplanned = await retriever.retrieve('Yes, exactly', []);
+		expect(unplanned.semanticMatches).toEqual([]);
+
+		const planned = await retriever.retrieve('Yes, exactly', [], undefined, undefined, {
+			queries: ['PRJ-42 estimate', 'TOEIC study'],
+			entities: ['Tanaka'],
+		});
+		expect(planned.semanticMatches.map((match) => match.metadata.path)).toEqual([NOTE]);
+		expect(planned.linkedEntities.map((e) => e.name)).toEqual(['Tanaka']);
+	});
+
+	it('lists open follow-ups from recent sessions with their age, newest state first', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(new Date('2025-03-19T12:00:00Z'));
+		const tasks = (actions: string, questions: string) =>
+			`# Session\n\n## 09:30\n\n### Next Actions\n${actions}\n\n### Open Questions\n${questions}\n`;
+		await rewrite(
+			header +
+				tasks(
+					'- [ ] Talk to my manager\n- [x] Book the exam',
+					'- [ ] Should I change teams?'
+				)
+		);
+		await vault.create(
+			'journal/2025-03-17.md',
+			tasks('- [x] Talk to my manager\n- [ ] Buy the practice book', '- [ ] Which course?')
+		);
+		await vault.create('journal/2025-01-10.md', tasks('- [ ] Renew passport', ''));
+		const retriever = createRetriever(0.3);
+
+		expect(await retriever.getFollowUps()).toEqual([
+			{
+				kind: 'action',
+				text: 'Buy the practice book',
+				path: 'journal/2025-03-17.md',
+				date: '2025-03-17',
+				ageDays: 2,
+			},
+			{
+				kind: 'question',
+				text: 'Which course?',
+				path: 'journal/2025-03-17.md',
+				date: '2025-03-17',
+				ageDays: 2,
+			},
+			{
+				kind: 'question',
+				text: 'Should I change teams?',
+				path: NOTE,
+				date: '2025-03-14',
+				ageDays: 5,
+			},
+		]);
+
+		const context = await retriever.retrieve('Hello', [], undefined, {
+			pinned: [],
+			excluded: [NOTE],
+		});
+		expect(context.followUps.map((item) => item.text)).toEqual([
+			'Buy the practice book',
+			'Which course?',
+		]);
+	});
+});
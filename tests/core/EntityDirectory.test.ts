@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { EntityDirectory } from '../../src/core/EntityDirectory';
+import { createTestApp } from '../helpers/InMemoryVault';
+
+function createDirectory(files: Record<string, string>) {
+	const { app, vault } = createTestApp(files);
+	return { directory: new EntityDirectory(app, 'entities'), vault };
+}
+
+const paths = (files: { path: string }[]) => files.map((file) => file.path).sort();
+
+describe('EntityDirectory', () => {
+	const files = {
+		'entities/田中部長.md': '---\ntype: entity\naliases:\n  - Tanaka\n---\n',
+		'entities/Xプロジェクト.md': '---\ntype: entity\n---\n',
+		'entities/Watanabe.md': '---\ntype: entity\naliases: [ナベさん]\n---\n',
+		'entities/Sato.md': '---\ntype: entity\n---\n',
+		'entities/Run a marathon.md': '---\ntype: goal\n---\n',
+		'journal/Tanaka.md': 'not an entity',
+	};
+
+	it('finds entities mentioned by alias, honorific variant or typo', async () => {
+		const { directory } = createDirectory(files);
+
+		expect(paths(await directory.findMentions('Tanaka-san liked the X project'))).toEqual([
+			'entities/Xプロジェクト.md',
+			'entities/田中部長.md',
+		]);
+		expect(paths(await directory.findMentions('昨日田中さんとナベさんに会った'))).toEqual([
+			'entities/Watanabe.md',
+			'entities/田中部長.md',
+		]);
+		expect(paths(await directory.findMentions('Lunch with WATANBE and Satoshi'))).toEqual([
+			'entities/Watanabe.md',
+		]);
+		expect(await directory.findMentions('Run a marathon')).toEqual([]);
+	});
+
+	it('resolves a name to a single note and picks up alias changes', async () => {
+		const { directory, vault } = createDirectory(files);
+
+		expect((await directory.resolve('田中さん'))?.path).toBe('entities/田中部長.md');
+		expect((await directory.resolve('sato'))?.path).toBe('entities/Sato.md');
+		expect(await directory.resolve('Suzuki')).toBeNull();
+
+		const sato = vault.getAbstractFileByPath('entities/Sato.md');
+		await vault.modify(sato as never, '---\ntype: entity\naliases: [Suzuki]\n---\n');
+		expect((await directory.resolve('Suzuki'))?.path).toBe('entities/Sato.md');
+	});
+});
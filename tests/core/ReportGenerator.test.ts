@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { App } from 'obsidian';
+import { ReportGenerator } from '../../src/core/ReportGenerator';
+import { UsageTracker } from '../../src/core/UsageTracker';
+import { OpenRouterClient } from '../../src/infrastructure/OpenRouterClient';
+import { createTestApp, type InMemoryVault } from '../helpers/InMemoryVault';
+import { replayInteractions, testApiKey, useFetchFixture } from '../helpers/fetchReplay';
+
+function sessionNote(
+	date: string,
+	category: string,
+	tags: string[],
+	usage: { prompt: number; completion: number; cost: number },
+	insights: string[] = []
+): string {
+	return `---
+date: ${date}
+type: session
+category: ${category}
+tags: [${tags.join(', ')}]
+entities: []
+prompt_tokens: ${usage.prompt}
+completion_tokens: ${usage.completion}
+cost_usd: ${usage.cost.toFixed(6)}
+---
+
+# ${date} Session
+
+## 09:00
+
+### Summary
+Session on ${date}.
+
+### Tags
+${tags.map((tag) => `#${tag}`).join(' ')}
+${insights.length > 0 ? `\n### Insights\n${insights.map((i) => `- ${i}`).join('\n')}\n` : ''}`;
+}
+
+const journal = {
+	'journal/2025-03-03.md': sessionNote('2025-03-03', 'career', ['work'], {
+		prompt: 100,
+		completion: 10,
+		cost: 0.001,
+	}),
+	'journal/2025-03-10.md': sessionNote(
+		'2025-03-10',
+		'career',
+		['work', 'english'],
+		{ prompt: 200, completion: 20, cost: 0.002 },
+		['Mornings are quiet']
+	),
+	'journal/2025-03-12.md': sessionNote(
+		'2025-03-12',
+		'wellness',
+		['sleep', 'work'],
+		{ prompt: 300, completion: 30, cost: 0.003 },
+		['Mornings are quiet', 'Sleep affects focus']
+	),
+	'journal/reports/2025-03-11-notes.md': sessionNote('2025-03-11', 'life', ['report'], {
+		prompt: 999,
+		completion: 999,
+		cost: 9,
+	}),
+	'inbox/2025-03-11.md': '# Not a session',
+};
+
+const MODEL = 'anthropic/claude-3.5-haiku';
+
+describe('ReportGenerator', () => {
+	let app: App;
+	let vault: InMemoryVault;
+	let generator: ReportGenerator;
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(new Date(2025, 2, 14, 18, 0)); // Friday
+		const testApp = createTestApp(journal);
+		app = testApp.app;
+		vault = testApp.vault;
+		generator = new ReportGenerator(app, 'journal', new OpenRouterClient(testApiKey()), MODEL);
+	});
+
+	it('parses /report commands', () => {
+		expect(generator.parseCommand('/report weekly')).toEqual({
+			type: 'weekly',
+			period: 'rolling',
+		});
+		expect(generator.parseCommand('/report Monthly last')).toEqual({
+			type: 'monthly',
+			period: 'last',
+		});
+		expect(generator.parseCommand('/report yearly')).toBeNull();
+		expect(generator.parseCommand('weekly report')).toBeNull();
+	});
+
+	it('collects journal sessions in range, skipping reports and other folders', async () => {
+		const sessions = await generator.fetchSessions(
+			new Date(2025, 2, 8, 0, 0),
+			new Date(2025, 2, 14, 23, 59)
+		);
+
+		expect(sessions.map((s) => s.date)).toEqual(['2025-03-10', '2025-03-12']);
+		expect(sessions[0]).toMatchObject({
+			summary: 'Session on 2025-03-10.',
+			category: 'career',
+			tags: ['work', 'english'],
+			insights: ['Mornings are quiet'],
+		});
+	});
+
+	it('aggregates categories, tags and insights', async () => {
+		const command = { type: 'monthly' as const, period: 'rolling' as const };
+		const { startDate, endDate } = generator.getDateRange(command);
+		const sessions = await generator.fetchSessions(startDate, endDate);
+
+		const data = generator.aggregateSessions(command, sessions, startDate, endDate);
+
+		expect(data.startDate).toBe('2025-02-13');
+		expect(data.endDate).toBe('2025-03-14');
+		expect(data.categoryBreakdown).toEqual({ career: 2, wellness: 1 });
+		expect(data.allTags).toEqual(['work', 'english', 'sleep']);
+		expect(data.allInsights).toEqual(['Mornings are quiet', 'Sleep affects focus']);
+	});
+
+	it('generates and saves a weekly report with coaching feedback', async () => {
+		const http = useFetchFixture('report-feedback');
+
+		const { filePath, content } = await generator.generateReport({
+			type: 'weekly',
+			period: 'rolling',
+		});
+		http.save();
+
+		expect(filePath).toBe('journal/reports/weekly-2025-03-14.md');
+		expect(vault.getContent(filePath)).toBe(content);
+		expect(content).toContain('(2025-03-08 - 2025-03-14)');
+		expect(content).toContain('You kept a steady morning study routine all week.');
+		expect(content).toContain('- Protect the morning slot on busy days');
+		http.assertDone();
+	});
+
+	it('saves a report without feedback when the period has no sessions', async () => {
+		const http = replayInteractions([]);
+
+		const { filePath } = await generator.generateReport({ type: 'monthly', period: 'last' });
+
+		expect(filePath).toBe('journal/reports/monthly-2025-02.md');
+		expect(vault.getContent(filePath)).toBeDefined();
+		expect(http.calls).toHaveLength(0);
+	});
+
+	it('reports the usage the tracker recorded for the month, not session frontmatter', async () => {
+		const tracker = new UsageTracker(app, '.obsidian/plugins/reflection-chat');
+		tracker.updatePricing([
+			{
+				id: MODEL,
+				name: MODEL,
+				context_length: 128000,
+				pricing: { prompt: '0.000001', completion: '0.000002' },
+			},
+		]);
+		vi.setSystemTime(new Date(2025, 1, 20, 12, 0));
+		tracker.record({
+			purpose: 'chat',
+			model: MODEL,
+			promptTokens: 1000,
+			completionTokens: 100,
+		});
+		tracker.record({
+			purpose: 'report',
+			model: MODEL,
+			promptTokens: 2000,
+			completionTokens: 0,
+		});
+		vi.setSystemTime(new Date(2025, 2, 14, 18, 0));
+		tracker.record({ purpose: 'chat', model: MODEL, promptTokens: 5000, completionTokens: 0 });
+		generator.setUsageTracker(tracker);
+
+		const { content } = await generator.generateReport({ type: 'monthly', period: 'last' });
+
+		expect(content).toContain('## API Usage (2025-02)');
+		expect(content).toContain('- Prompt tokens: 3,000');
+		expect(content).toContain('- Estimated cost: $0.0032');
+		expect(content).toContain('  - Report feedback: $0.0020 (2,000)');
+		expect(content).toContain('  - Chat: $0.0012 (1,100)');
+		await tracker.flush();
+	});
+});
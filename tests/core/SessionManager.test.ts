@@ -0,0 +1,220 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionManager } from '../../src/core/SessionManager';
+import { parseFrontmatter } from '../../src/utils/frontmatter';
+import type { SessionSummary } from '../../src/types';
+import { createTestApp, type InMemoryVault } from '../helpers/InMemoryVault';
+
+const summary: SessionSummary = {
+	summary: 'Planned TOEIC study around work.',
+	tags: ['english', 'career'],
+	category: 'career',
+	decisions: ['Study every morning'],
+	insights: [],
+	entities: [
+		{
+			name: 'Tanaka',
+			type: 'person',
+			description: 'Team lead',
+			context: 'Offered lighter hours',
+		},
+	],
+	relations: [],
+	values: [{ value: 'growth', context: 'Overseas projects', sentiment: 'positive' }],
+	goals: [
+		{
+			name: 'TOEIC 800',
+			description: 'Score 800 in March',
+			type: 'achievement',
+			priority: 'high',
+			timeframe: 'short-term',
+			status: 'active',
+			context: 'Set a morning study slot',
+			suggestedActions: [],
+			nextActions: ['Buy the practice book'],
+		},
+	],
+};
+
+const usage = { promptTokens: 1000, completionTokens: 200, costUsd: 0.0015 };
+
+describe('SessionManager.saveSession', () => {
+	let vault: InMemoryVault;
+	let manager: SessionManager;
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(new Date(2025, 2, 14, 9, 30));
+		const testApp = createTestApp();
+		vault = testApp.vault;
+		manager = new SessionManager(testApp.app, 'journal', 'entities');
+	});
+
+	function recordSession(userText: string): void {
+		manager.startSession();
+		manager.addMessage({ id: 'u', role: 'user', content: userText, timestamp: Date.now() });
+		manager.addMessage({
+			id: 'a',
+			role: 'assistant',
+			content: 'Tell me more.',
+			timestamp: Date.now(),
+		});
+	}
+
+	it('creates a daily note with frontmatter, sections and the conversation log', async () => {
+		recordSession('I want to improve my English.');
+
+		const file = await manager.saveSession(
+			summary,
+			{ chatModel: 'chat/model', summaryModel: 'summary/model', embeddingModel: 'embed' },
+			usage
+		);
+
+		expect(file?.path).toBe('journal/2025-03-14.md');
+		const content = vault.getContent('journal/2025-03-14.md') ?? '';
+		const { frontmatter, body } = parseFrontmatter(content);
+		expect(frontmatter).toMatchObject({
+			date: '2025-03-14',
+			type: 'session',
+			category: 'career',
+			tags: ['english', 'career'],
+			entities: ['Tanaka'],
+			chat_model: 'chat/model',
+			prompt_tokens: '1000',
+		});
+		expect(body).toContain('## 09:30');
+		expect(body).toContain('- [[Tanaka]] - Offered lighter hours');
+		expect(body).toContain('- + growth: Overseas projects');
+		expect(body).toContain('I want to improve my English.');
+		expect(manager.getSession()).toBeNull();
+	});
+
+	it('appends later sessions to the same daily note and sums usage', async () => {
+		recordSession('Morning session');
+		await manager.saveSession(summary, undefined, usage);
+
+		vi.setSystemTime(new Date(2025, 2, 14, 21, 5));
+		recordSession('Evening session');
+		await manager.saveSession(summary, undefined, usage);
+
+		const content = vault.getContent('journal/2025-03-14.md') ?? '';
+		expect(content.match(/^## \d{2}:\d{2}$/gm)).toEqual(['## 09:30', '## 21:05']);
+		const { frontmatter } = parseFrontmatter(content);
+		expect(frontmatter).toMatchObject({
+			prompt_tokens: '2000',
+			completion_tokens: '400',
+			cost_usd: '0.003000',
+		});
+	});
+
+	it('creates entity and goal notes on first mention', async () => {
+		recordSession('First mention');
+		await manager.saveSession(summary);
+
+		expect(vault.listFiles()).toEqual([
+			'entities/TOEIC 800.md',
+			'entities/Tanaka.md',
+			'journal/2025-03-14.md',
+		]);
+		const entity = vault.getContent('entities/Tanaka.md') ?? '';
+		expect(parseFrontmatter(entity).frontmatter).toEqual({
+			type: 'entity',
+			entity_type: 'person',
+		});
+		expect(entity).toContain('- [[2025-03-14]] - Offered lighter hours');
+
+		const goal = vault.getContent('entities/TOEIC 800.md') ?? '';
+		expect(parseFrontmatter(goal).frontmatter).toMatchObject({
+			type: 'goal',
+			priority: 'high',
+			status: 'active',
+			created: '2025-03-14',
+		});
+		expect(goal).toContain('- [ ] Buy the practice book');
+	});
+
+	it('adds new session links to existing notes without duplicating them', async () => {
+		recordSession('Day one');
+		await manager.saveSession(summary);
+		recordSession('Day one again');
+		await manager.saveSession(summary);
+
+		vi.setSystemTime(new Date(2025, 2, 15, 8, 0));
+		recordSession('Day two');
+		await manager.saveSession(summary);
+
+		const entity = vault.getContent('entities/Tanaka.md') ?? '';
+		expect(entity.match(/- \[\[2025-03-14\]\]/g)).toHaveLength(1);
+		expect(entity).toContain('- [[2025-03-15]] - Offered lighter hours');
+
+		const goal = vault.getContent('entities/TOEIC 800.md') ?? '';
+		expect(goal).toContain('- 2025-03-15: Set a morning study slot');
+		expect(goal.match(/- \[\[2025-03-15\]\]/g)).toHaveLength(1);
+	});
+
+	it('adds sessions to the note an entity is known by and records new aliases', async () => {
+		await vault.create(
+			'entities/田中部長.md',
+			'---\ntype: entity\naliases:\n  - Tanaka\n---\n\n# 田中部長\n'
+		);
+		const entity = { type: 'person' as const, description: 'Team lead', context: 'Met' };
+		recordSession('Talked with my boss');
+		await manager.saveSession({
+			...summary,
+			entities: [
+				{ ...entity, name: 'Tanaka' },
+				{ ...entity, name: '田中さん' },
+			],
+			goals: [],
+		});
+
+		expect(vault.listFiles()).toEqual(['entities/田中部長.md', 'journal/2025-03-14.md']);
+		const body = vault.getContent('journal/2025-03-14.md') ?? '';
+		expect(body).toContain('- [[田中部長|Tanaka]] - Met');
+		expect(body).toContain('- [[田中部長|田中さん]] - Met');
+
+		const note = vault.getContent('entities/田中部長.md') ?? '';
+		expect(parseFrontmatter(note).frontmatter.aliases).toEqual(['Tanaka', '田中さん']);
+		expect(note).toContain('- [[2025-03-14]] - Met');
+	});
+
+	it('records next actions and open questions as tasks and checks off resolved ones', async () => {
+		recordSession('Day one');
+		await manager.saveSession({
+			...summary,
+			nextActions: [{ action: 'Talk to my manager', priority: 'high', suggested: false }],
+			openQuestions: ['Should I\nchange teams?'],
+			goals: [],
+		});
+		const path = 'journal/2025-03-14.md';
+		const first = vault.getContent(path) ?? '';
+		expect(first).toContain('### Next Actions\n- [ ] Talk to my manager');
+		expect(first).toContain('### Open Questions\n- [ ] Should I change teams?');
+
+		vi.setSystemTime(new Date(2025, 2, 19, 20, 0));
+		recordSession('I finally talked to my manager.');
+		await manager.saveSession({
+			...summary,
+			goals: [],
+			resolvedFollowUps: [
+				{
+					kind: 'action',
+					text: 'Talk to my manager',
+					path,
+					date: '2025-03-14',
+					ageDays: 5,
+				},
+			],
+		});
+
+		const updated = vault.getContent(path) ?? '';
+		expect(updated).toContain('- [x] Talk to my manager');
+		expect(updated).toContain('- [ ] Should I change teams?');
+	});
+
+	it('does not write anything for a session without messages', async () => {
+		manager.startSession();
+
+		expect(await manager.saveSession(summary)).toBeNull();
+		expect(vault.listFiles()).toEqual([]);
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { UsageTracker } from '../../src/core/UsageTracker';
+import type { OpenRouterModel } from '../../src/types';
+import { createTestApp } from '../helpers/InMemoryVault';
+
+const MODEL = 'openai/gpt-4o-mini';
+
+describe('UsageTracker', () => {
+	it('costs calls made before pricing arrived once it does', async () => {
+		const tracker = new UsageTracker(createTestApp().app, '.obsidian/plugins/reflection-chat');
+		let deliver: (models: OpenRouterModel[]) => void = () => undefined;
+		tracker.setPricingSource(
+			() =>
+				new Promise<OpenRouterModel[]>((resolve) => {
+					deliver = resolve;
+				})
+		);
+
+		tracker.record({
+			purpose: 'chat',
+			model: MODEL,
+			promptTokens: 1000,
+			completionTokens: 100,
+		});
+		tracker.record({
+			purpose: 'report',
+			model: MODEL,
+			promptTokens: 1000,
+			completionTokens: 0,
+		});
+		tracker.record({
+			purpose: 'chat',
+			model: 'local/llama',
+			promptTokens: 10,
+			completionTokens: 0,
+		});
+		expect(tracker.getMonthUsage().costUsd).toBe(0);
+
+		deliver([
+			{
+				id: MODEL,
+				name: MODEL,
+				context_length: 128000,
+				pricing: { prompt: '0.000001', completion: '0.000002' },
+			},
+		]);
+		await Promise.resolve();
+
+		expect(tracker.getMonthUsage().costUsd).toBeCloseTo(0.0022, 10);
+		expect(tracker.getSessionUsage().costUsd).toBeCloseTo(0.0012, 10);
+		await tracker.flush();
+	});
+
+	it('keeps indexing and search calls out of the session totals', async () => {
+		const tracker = new UsageTracker(createTestApp().app, '.obsidian/plugins/reflection-chat');
+		for (const purpose of ['embedding', 'indexing', 'search', 'chat'] as const) {
+			tracker.record({
+				purpose,
+				model: 'local/llama',
+				promptTokens: 100,
+				completionTokens: 0,
+			});
+		}
+
+		expect(tracker.getMonthUsage().promptTokens).toBe(400);
+		expect(tracker.getSessionUsage().promptTokens).toBe(200);
+		await tracker.flush();
+	});
+});
@@ -0,0 +1,198 @@
+import type { App } from 'obsidian';
+import { TAbstractFile, TFile, TFolder, type EventRef } from '../mocks/obsidian';
+
+type VaultEvent = 'create' | 'modify' | 'delete' | 'rename';
+
+/**
+ * In-memory stand-in for Obsidian's Vault
+ * Paths are vault-relative without a leading slash, like the real API.
+ * Parent folders are created implicitly so fixtures can list files only.
+ */
+export class InMemoryVault {
+	private contents = new Map<string, string | ArrayBuffer>();
+	private entries = new Map<string, TAbstractFile>();
+	private listeners: EventRef[] = [];
+	private readonly root = new TFolder('/');
+
+	/**
+	 * @param files - Initial files keyed by path
+	 * @param now - Clock used for file stat times
+	 */
+	constructor(
+		files: Record<string, string> = {},
+		private now: () => number = () => Date.now()
+	) {
+		for (const [path, content] of Object.entries(files)) {
+			this.writeFile(path, content);
+		}
+	}
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		return this.entries.get(path) ?? null;
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return this.getFiles().filter((file) => file.extension === 'md');
+	}
+
+	getFiles(): TFile[] {
+		return [...this.entries.values()].filter((entry): entry is TFile => entry instanceof TFile);
+	}
+
+	async read(file: TFile): Promise<string> {
+		const content = this.contents.get(file.path);
+		if (content === undefined) {
+			throw new Error(`ENOENT: ${file.path}`);
+		}
+		return typeof content === 'string' ? content : new TextDecoder().decode(content);
+	}
+
+	async readBinary(file: TFile): Promise<ArrayBuffer> {
+		const content = this.contents.get(file.path);
+		if (content === undefined) {
+			throw new Error(`ENOENT: ${file.path}`);
+		}
+		return typeof content === 'string'
+			? new TextEncoder().encode(content).buffer
+			: content.slice(0);
+	}
+
+	async cachedRead(file: TFile): Promise<string> {
+		return this.read(file);
+	}
+
+	async create(path: string, content: string): Promise<TFile> {
+		if (this.entries.has(path)) {
+			throw new Error('File already exists.');
+		}
+		const file = this.writeFile(path, content);
+		this.trigger('create', file);
+		return file;
+	}
+
+	async createBinary(path: string, data: ArrayBuffer): Promise<TFile> {
+		if (this.entries.has(path)) {
+			throw new Error('File already exists.');
+		}
+		const file = this.writeFile(path, data.slice(0));
+		this.trigger('create', file);
+		return file;
+	}
+
+	async modify(file: TFile, content: string): Promise<void> {
+		this.replaceContent(file, content);
+	}
+
+	async modifyBinary(file: TFile, data: ArrayBuffer): Promise<void> {
+		this.replaceContent(file, data.slice(0));
+	}
+
+	async delete(file: TAbstractFile): Promise<void> {
+		if (file instanceof TFolder) {
+			for (const child of [...file.children]) {
+				await this.delete(child);
+			}
+		}
+		this.entries.delete(file.path);
+		this.contents.delete(file.path);
+		if (file.parent) {
+			file.parent.children = file.parent.children.filter((child) => child !== file);
+		}
+		this.trigger('delete', file);
+	}
+
+	async createFolder(path: string): Promise<TFolder> {
+		if (this.entries.has(path)) {
+			throw new Error('Folder already exists.');
+		}
+		return this.ensureFolder(path);
+	}
+
+	on(name: VaultEvent, callback: (...args: unknown[]) => unknown): EventRef {
+		const ref = { name, callback };
+		this.listeners.push(ref);
+		return ref;
+	}
+
+	offref(ref: EventRef): void {
+		this.listeners = this.listeners.filter((listener) => listener !== ref);
+	}
+
+	trigger(name: VaultEvent, ...args: unknown[]): void {
+		for (const listener of this.listeners.filter((l) => l.name === name)) {
+			listener.callback(...args);
+		}
+	}
+
+	// --- Test helpers ---
+
+	/** Text content of a file, or undefined if it doesn't exist or is binary */
+	getContent(path: string): string | undefined {
+		const content = this.contents.get(path);
+		return typeof content === 'string' ? content : undefined;
+	}
+
+	/** Size of a file in bytes (characters for text files), or undefined if it doesn't exist */
+	getSize(path: string): number | undefined {
+		const content = this.contents.get(path);
+		if (content === undefined) return undefined;
+		return typeof content === 'string' ? content.length : content.byteLength;
+	}
+
+	/** Sorted paths of all files (folders excluded) */
+	listFiles(): string[] {
+		return this.getFiles()
+			.map((file) => file.path)
+			.sort();
+	}
+
+	private replaceContent(file: TFile, content: string | ArrayBuffer): void {
+		if (!this.contents.has(file.path)) {
+			throw new Error(`ENOENT: ${file.path}`);
+		}
+		this.contents.set(file.path, content);
+		file.stat = { ...file.stat, mtime: this.now(), size: this.getSize(file.path) ?? 0 };
+		this.trigger('modify', file);
+	}
+
+	private writeFile(path: string, content: string | ArrayBuffer): TFile {
+		const parent = this.ensureFolder(path.split('/').slice(0, -1).join('/'));
+		const time = this.now();
+		const size = typeof content === 'string' ? content.length : content.byteLength;
+		const file = new TFile(path, { ctime: time, mtime: time, size });
+		file.parent = parent;
+		parent.children.push(file);
+		this.entries.set(path, file);
+		this.contents.set(path, content);
+		return file;
+	}
+
+	private ensureFolder(path: string): TFolder {
+		if (!path) return this.root;
+
+		const existing = this.entries.get(path);
+		if (existing instanceof TFolder) return existing;
+		if (existing) {
+			throw new Error(`Not a folder: ${path}`);
+		}
+
+		const parent = this.ensureFolder(path.split('/').slice(0, -1).join('/'));
+		const folder = new TFolder(path);
+		folder.parent = parent;
+		parent.children.push(folder);
+		this.entries.set(path, folder);
+		return folder;
+	}
+}
+
+/**
+ * Build an App whose vault lives in memory
+ */
+export function createTestApp(
+	files: Record<string, string> = {},
+	now?: () => number
+): { app: App; vault: InMemoryVault } {
+	const vault = new InMemoryVault(files, now);
+	const app = { vault } as unknown as App;
+	return { app, vault };
+}
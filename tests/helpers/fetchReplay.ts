@@ -0,0 +1,251 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { vi } from 'vitest';
+import { createAbortError } from '../../src/utils/errors';
+
+/**
+ * Recorded HTTP exchanges ("fixtures") for running API-backed code offline
+ *
+ * Replay (default): global fetch is replaced with a stub that answers from the
+ * fixture. A request matches the first unused interaction with the same method
+ * and URL whose recorded body is a subset of the actual JSON body, so fixtures
+ * only need the fields a test cares about. Unmatched requests throw.
+ *
+ * Record (RECORD_FIXTURES=1): requests go to the real network and the
+ * exchanges are written back to the fixture file, with credentials left out.
+ */
+
+export interface RecordedRequest {
+	method: string;
+	url: string;
+	body?: unknown; // Subset of the JSON request body
+}
+
+export interface RecordedResponse {
+	status: number;
+	headers?: Record<string, string>;
+	body?: unknown; // JSON body
+	sse?: string[]; // Server-sent event payloads (the part after "data: ")
+	sseError?: string; // Replay only: the stream fails with this message after the events
+}
+
+export interface Interaction {
+	request: RecordedRequest;
+	response: RecordedResponse;
+}
+
+export interface Fixture {
+	interactions: Interaction[];
+}
+
+export interface FetchSession {
+	/** Requests made so far, with parsed JSON bodies */
+	readonly calls: RecordedRequest[];
+	/** Fail if any recorded interaction was never requested (replay only) */
+	assertDone(): void;
+	/** Write recorded interactions to disk (record only; no-op when replaying) */
+	save(): void;
+}
+
+const FIXTURES_DIR = fileURLToPath(new URL('../fixtures/', import.meta.url));
+
+export const isRecording = process.env.RECORD_FIXTURES === '1';
+
+/**
+ * API key for tests: the real key when recording, a placeholder otherwise
+ */
+export function testApiKey(): string {
+	if (isRecording) {
+		const key = process.env.OPENROUTER_API_KEY;
+		if (!key) throw new Error('OPENROUTER_API_KEY is required when RECORD_FIXTURES=1');
+		return key;
+	}
+	return 'sk-or-test-0000000000000000000000';
+}
+
+/**
+ * Stub global fetch with the named fixture (tests/fixtures/<name>.json)
+ * The stub is removed by vi.unstubAllGlobals() in tests/setup.ts.
+ */
+export function useFetchFixture(name: string): FetchSession {
+	const path = join(FIXTURES_DIR, `${name}.json`);
+	return isRecording ? recordTo(path) : replay(loadFixture(path));
+}
+
+/**
+ * Stub global fetch with inline interactions
+ */
+export function replayInteractions(interactions: Interaction[]): FetchSession {
+	return replay({ interactions });
+}
+
+function loadFixture(path: string): Fixture {
+	const fixture = JSON.parse(readFileSync(path, 'utf8')) as Fixture;
+	if (!Array.isArray(fixture.interactions)) {
+		throw new Error(`Invalid fixture: ${path}`);
+	}
+	return fixture;
+}
+
+function replay(fixture: Fixture): FetchSession {
+	const used = new Set<number>();
+	const calls: RecordedRequest[] = [];
+
+	vi.stubGlobal('fetch', async (input: string | URL | Request, init?: RequestInit) => {
+		const request = toRecordedRequest(input, init);
+		calls.push(request);
+
+		if (init?.signal?.aborted) {
+			throw createAbortError();
+		}
+
+		const index = fixture.interactions.findIndex(
+			(interaction, i) => !used.has(i) && matches(interaction.request, request)
+		);
+		if (index === -1) {
+			throw new Error(
+				`No recorded response for ${request.method} ${request.url}\n` +
+					JSON.stringify(request.body, null, 2)?.slice(0, 2000)
+			);
+		}
+		used.add(index);
+		return toResponse(fixture.interactions[index].response, init?.signal ?? undefined);
+	});
+
+	return {
+		calls,
+		assertDone() {
+			const pending = fixture.interactions
+				.filter((_, i) => !used.has(i))
+				.map((interaction) => `${interaction.request.method} ${interaction.request.url}`);
+			if (pending.length > 0) {
+				throw new Error(`Recorded interactions never requested:\n${pending.join('\n')}`);
+			}
+		},
+		save() {
+			/* replay only */
+		},
+	};
+}
+
+function recordTo(path: string): FetchSession {
+	const realFetch = globalThis.fetch;
+	const interactions: Interaction[] = [];
+	const calls: RecordedRequest[] = [];
+
+	vi.stubGlobal('fetch', async (input: string | URL | Request, init?: RequestInit) => {
+		const request = toRecordedRequest(input, init);
+		calls.push(request);
+
+		const response = await realFetch(input, init);
+		const contentType = response.headers.get('content-type') ?? '';
+		const text = await response.clone().text();
+		const recorded: RecordedResponse = {
+			status: response.status,
+			headers: contentType ? { 'content-type': contentType } : undefined,
+		};
+		if (contentType.includes('text/event-stream')) {
+			recorded.sse = text
+				.split('\n')
+				.filter((line) => line.startsWith('data: '))
+				.map((line) => line.slice('data: '.length));
+		} else {
+			recorded.body = parseJson(text) ?? text;
+		}
+		interactions.push({ request, response: recorded });
+		return response;
+	});
+
+	return {
+		calls,
+		assertDone() {
+			/* nothing to check against while recording */
+		},
+		save() {
+			mkdirSync(dirname(path), { recursive: true });
+			writeFileSync(path, JSON.stringify({ interactions }, null, '\t') + '\n');
+		},
+	};
+}
+
+function toRecordedRequest(input: string | URL | Request, init?: RequestInit): RecordedRequest {
+	const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+	const method = (init?.method ?? 'GET').toUpperCase();
+	const body = typeof init?.body === 'string' ? (parseJson(init.body) ?? init.body) : undefined;
+	// Headers are deliberately not kept: they carry the API key
+	return body === undefined ? { method, url } : { method, url, body };
+}
+
+function matches(expected: RecordedRequest, actual: RecordedRequest): boolean {
+	return (
+		expected.method.toUpperCase() === actual.method &&
+		expected.url === actual.url &&
+		(expected.body === undefined || isSubset(expected.body, actual.body))
+	);
+}
+
+/**
+ * Whether every field in `expected` has the same value in `actual`
+ * Arrays must match element by element (each element as a subset).
+ */
+function isSubset(expected: unknown, actual: unknown): boolean {
+	if (Array.isArray(expected)) {
+		return (
+			Array.isArray(actual) &&
+			expected.length === actual.length &&
+			expected.every((item, i) => isSubset(item, actual[i]))
+		);
+	}
+	if (expected && typeof expected === 'object') {
+		if (!actual || typeof actual !== 'object' || Array.isArray(actual)) return false;
+		return Object.entries(expected).every(([key, value]) =>
+			isSubset(value, (actual as Record<string, unknown>)[key])
+		);
+	}
+	return expected === actual;
+}
+
+function toResponse(recorded: RecordedResponse, signal?: AbortSignal): Response {
+	if (recorded.sse) {
+		const encoder = new TextEncoder();
+		const events = recorded.sse;
+		let index = 0;
+		const stream = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (signal?.aborted) {
+					controller.error(createAbortError());
+				} else if (index < events.length) {
+					controller.enqueue(encoder.encode(`data: ${events[index++]}\n\n`));
+				} else if (recorded.sseError) {
+					controller.error(new TypeError(recorded.sseError));
+				} else {
+					controller.close();
+				}
+			},
+		});
+		return new Response(stream, {
+			status: recorded.status,
+			headers: { 'content-type': 'text/event-stream', ...recorded.headers },
+		});
+	}
+
+	const body =
+		recorded.body === undefined
+			? null
+			: typeof recorded.body === 'string'
+				? recorded.body
+				: JSON.stringify(recorded.body);
+	return new Response(body, {
+		status: recorded.status,
+		headers: { 'content-type': 'application/json', ...recorded.headers },
+	});
+}
+
+function parseJson(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+}
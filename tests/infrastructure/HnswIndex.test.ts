@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { HnswIndex } from '../../src/infrastructure/HnswIndex';
+
+// Deterministic pseudo-random vectors in clusters, like embeddings of related notes
+function makeVectors(count: number, dimension = 32): number[][] {
+	let seed = 42;
+	const random = () => {
+		seed = (seed * 1103515245 + 12345) % 2147483648;
+		return seed / 2147483648 - 0.5;
+	};
+	const centers = Array.from({ length: 20 }, () =>
+		Array.from({ length: dimension }, () => random())
+	);
+	return Array.from({ length: count }, (_, i) =>
+		centers[i % centers.length].map((value) => value + random() * 0.6)
+	);
+}
+
+function exactTop(vectors: number[][], query: number[], k: number, skip = new Set<number>()) {
+	const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+	return vectors
+		.map((v, i) => ({
+			id: `v${i}`,
+			score: v.reduce((sum, x, j) => sum + x * query[j], 0) / (norm(v) * norm(query)),
+		}))
+		.filter((_, i) => !skip.has(i))
+		.sort((a, b) => b.score - a.score)
+		.slice(0, k)
+		.map((hit) => hit.id);
+}
+
+function recall(found: string[], expected: string[]): number {
+	return found.filter((id) => expected.includes(id)).length / expected.length;
+}
+
+describe('HnswIndex', () => {
+	const vectors = makeVectors(1500);
+	const queries = makeVectors(1530).slice(1500);
+
+	function build(): HnswIndex {
+		const index = new HnswIndex();
+		vectors.forEach((vector, i) => index.add(`v${i}`, vector, `h${i}`));
+		return index;
+	}
+
+	it('finds nearly all true nearest neighbours', () => {
+		const index = build();
+
+		let total = 0;
+		for (const query of queries) {
+			const found = index.search(query, 10).map((hit) => hit.id);
+			total += recall(found, exactTop(vectors, query, 10));
+		}
+
+		expect(index.size).toBe(1500);
+		expect(total / queries.length).toBeGreaterThan(0.9);
+	});
+
+	it('returns exact cosine scores in descending order', () => {
+		const hits = build().search(vectors[7], 5);
+
+		expect(hits[0]).toEqual({ id: 'v7', score: expect.closeTo(1, 6) });
+		for (let i = 1; i < hits.length; i++) {
+			expect(hits[i].score).toBeLessThanOrEqual(hits[i - 1].score);
+		}
+	});
+
+	it('never returns removed or rejected vectors', () => {
+		const index = build();
+		const removed = new Set<number>();
+		for (let i = 0; i < 1500; i += 3) {
+			index.remove(`v${i}`);
+			removed.add(i);
+		}
+
+		const hits = index.search(vectors[0], 10, 64, (id) => id !== 'v1');
+
+		expect(index.size).toBe(1000);
+		expect(hits.map((hit) => hit.id)).not.toContain('v0');
+		expect(hits.map((hit) => hit.id)).not.toContain('v1');
+		expect(
+			recall(
+				hits.map((hit) => hit.id),
+				exactTop(vectors, vectors[0], 11, removed).filter((id) => id !== 'v1')
+			)
+		).toBeGreaterThan(0.8);
+	});
+
+	it('restores a serialized graph and leaves out vectors that changed', () => {
+		const index = build();
+		index.remove('v5');
+
+		const restored = HnswIndex.deserialize(index.serialize(), (id) => {
+			const i = Number(id.slice(1));
+			return { vector: vectors[i], hash: i === 3 ? 'changed' : `h${i}` };
+		});
+
+		expect(restored.size).toBe(1498);
+		expect(restored.has('v3')).toBe(false);
+		expect(restored.has('v4', 'h4')).toBe(true);
+		expect(restored.search(vectors[4], 1)[0].id).toBe('v4');
+		let total = 0;
+		for (const query of queries) {
+			const found = restored.search(query, 10).map((hit) => hit.id);
+			total += recall(found, exactTop(vectors, query, 10, new Set([3, 5])));
+		}
+		expect(total / queries.length).toBeGreaterThan(0.9);
+	});
+
+	it('rejects data that is not a graph file', () => {
+		expect(() => HnswIndex.deserialize(new ArrayBuffer(4), () => undefined)).toThrow();
+		expect(() =>
+			HnswIndex.deserialize(
+				new TextEncoder().encode('{"nodes":[]} padding').buffer,
+				() => undefined
+			)
+		).toThrow(/Not a graph file/);
+	});
+});
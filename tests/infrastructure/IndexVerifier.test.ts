@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { IndexVerifier } from '../../src/infrastructure/IndexVerifier';
+import { NoteIndexer } from '../../src/infrastructure/NoteIndexer';
+import { Embedder } from '../../src/infrastructure/Embedder';
+import { VectorStore } from '../../src/infrastructure/VectorStore';
+import { KeywordIndex } from '../../src/infrastructure/KeywordIndex';
+import { IndexManifest } from '../../src/infrastructure/IndexManifest';
+import { LocalEmbeddingBackend } from '../../src/infrastructure/LocalEmbeddingBackend';
+import { createTestApp, type InMemoryVault } from '../helpers/InMemoryVault';
+
+const PLUGIN_DIR = '.obsidian/plugins/reflection-chat';
+
+function note(day: number, text: string): [string, string] {
+	const date = `2025-03-${String(day).padStart(2, '0')}`;
+	return [`journal/${date}.md`, `---\ndate: ${date}\n---\n\n# ${date}\n\n${text}\n`];
+}
+
+async function openIndex(vault: InMemoryVault) {
+	const app = { vault } as never;
+	const store = new VectorStore(app, PLUGIN_DIR);
+	await store.initialize();
+	const keywords = new KeywordIndex(app, PLUGIN_DIR);
+	const indexer = new NoteIndexer(
+		app,
+		new Embedder(new LocalEmbeddingBackend()),
+		store,
+		keywords,
+		new IndexManifest(app, PLUGIN_DIR),
+		'journal',
+		'entities'
+	);
+	return { store, keywords, indexer, verifier: new IndexVerifier(app, store, keywords, indexer) };
+}
+
+function summarize(issues: { kind: string; path: string }[]): string[] {
+	return issues.map((issue) => `${issue.kind} ${issue.path}`).sort();
+}
+
+describe('IndexVerifier', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('finds orphaned, missing and stale notes and repairs them', async () => {
+		// Only the clock is faked; file times and index times both come from it
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const { vault } = createTestApp(
+			Object.fromEntries([
+				note(1, 'Talked about the job change.'),
+				note(2, 'Planned TOEIC study.'),
+				note(3, 'Read a book on habits.'),
+			])
+		);
+		const { store, keywords, indexer, verifier } = await openIndex(vault);
+		await indexer.indexAll();
+		expect(verifier.verify().issues).toEqual([]);
+
+		// Changes made while the plugin was not watching
+		vi.advanceTimersByTime(60000);
+		await vault.delete(vault.getAbstractFileByPath('journal/2025-03-01.md') as TFile);
+		await vault.modify(
+			vault.getAbstractFileByPath('journal/2025-03-02.md') as TFile,
+			note(2, 'Planned TOEIC study and booked the exam.')[1]
+		);
+		await vault.create(...note(4, 'Weekly review.'));
+
+		const report = verifier.verify();
+		expect(summarize(report.issues)).toEqual([
+			'missing journal/2025-03-04.md',
+			'orphan journal/2025-03-01.md',
+			'stale journal/2025-03-02.md',
+		]);
+
+		vi.advanceTimersByTime(60000);
+		expect(await verifier.repair(report)).toEqual({ repaired: 3, failed: 0 });
+		expect(verifier.verify().issues).toEqual([]);
+		expect(store.getItemsByPath('journal/2025-03-01.md')).toEqual([]);
+		expect(keywords.search('job change', 5)).toEqual([]);
+
+		indexer.destroy();
+		await store.flush();
+		await keywords.flush();
+	});
+
+	it('does not report a note touched without an edit once it was reindexed', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const [path, content] = note(1, 'Talked about the job change.');
+		const { vault } = createTestApp({ [path]: content });
+		const { store, keywords, indexer, verifier } = await openIndex(vault);
+		await indexer.indexAll();
+
+		// e.g. a sync client rewriting the file as it was
+		vi.advanceTimersByTime(60000);
+		await vault.modify(vault.getAbstractFileByPath(path) as TFile, content);
+		expect(summarize(verifier.verify().issues)).toEqual([`stale ${path}`]);
+
+		vi.advanceTimersByTime(60000);
+		await indexer.indexAll();
+		expect(verifier.verify().issues).toEqual([]);
+
+		indexer.destroy();
+		await store.flush();
+		await keywords.flush();
+	});
+
+	it('reports vectors lost to a corrupt shard and re-embeds them', async () => {
+		const { vault } = createTestApp(
+			Object.fromEntries([note(1, 'Talked about the job change.'), note(2, 'Planned study.')])
+		);
+		const first = await openIndex(vault);
+		await first.indexer.indexAll();
+		await first.store.flush();
+		first.indexer.destroy();
+
+		const index = JSON.parse(vault.getContent(`${PLUGIN_DIR}/vectors/index.json`) ?? '');
+		const shard = index.shards[0];
+		await vault.modifyBinary(
+			vault.getAbstractFileByPath(
+				`${PLUGIN_DIR}/vectors/shard-${String(shard.shard).padStart(2, '0')}.bin`
+			) as TFile,
+			new ArrayBuffer(8)
+		);
+
+		const { store, indexer, verifier } = await openIndex(vault);
+		const report = verifier.verify();
+		const lostPaths = new Set<string>(
+			shard.items.map((item: { metadata: { path: string } }) => item.metadata.path)
+		);
+		expect(summarize(report.issues)).toEqual([...lostPaths].map((path) => `invalid ${path}`));
+
+		await verifier.repair(report);
+		expect(verifier.verify().issues).toEqual([]);
+		expect((await store.getStats()).count).toBe(2);
+		indexer.destroy();
+		await store.flush();
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { KeywordIndex } from '../../src/infrastructure/KeywordIndex';
+import type { VectorMetadata } from '../../src/infrastructure/VectorStore';
+import { createTestApp } from '../helpers/InMemoryVault';
+
+const PLUGIN_DIR = '.obsidian/plugins/reflection-chat';
+
+function metadata(path: string, type: 'session' | 'entity' = 'session'): VectorMetadata {
+	return {
+		path,
+		title: path,
+		date: '2025-03-14',
+		summary: '',
+		tags: [],
+		category: 'life',
+		type,
+	};
+}
+
+function addNote(index: KeywordIndex, path: string, texts: string[], type?: 'session' | 'entity') {
+	index.setNote(
+		path,
+		texts.map((text, i) => ({ id: `${path}#${i}`, text, metadata: metadata(path, type) }))
+	);
+}
+
+describe('KeywordIndex', () => {
+	it('ranks chunks with rare query terms first', () => {
+		const { app } = createTestApp();
+		const index = new KeywordIndex(app, PLUGIN_DIR);
+		addNote(index, 'journal/a.md', [
+			'仕事の進め方について考えた',
+			'佐藤さんと新規事業の話をした',
+		]);
+		addNote(index, 'journal/b.md', ['仕事が忙しかった', '仕事の後にジムへ行った']);
+		addNote(index, 'entities/佐藤.md', ['佐藤さんは上司'], 'entity');
+
+		const results = index.search('佐藤さんとの仕事', 5, { type: 'session' });
+
+		expect(results[0].id).toBe('journal/a.md#1');
+		expect(results.every((r) => r.metadata.type === 'session')).toBe(true);
+		expect(index.search('存在しない語句', 5)).toEqual([]);
+	});
+
+	it('replaces and removes the chunks of a note', () => {
+		const { app } = createTestApp();
+		const index = new KeywordIndex(app, PLUGIN_DIR);
+		addNote(index, 'journal/a.md', ['TOEIC study', 'morning run']);
+
+		addNote(index, 'journal/a.md', ['evening run']);
+		expect(index.size).toBe(1);
+		expect(index.search('toeic', 5)).toEqual([]);
+
+		index.removeNote('journal/a.md');
+		expect(index.size).toBe(0);
+		expect(index.search('run', 5)).toEqual([]);
+	});
+
+	it('persists term frequencies and restores them on load', async () => {
+		const { app, vault } = createTestApp();
+		const index = new KeywordIndex(app, PLUGIN_DIR);
+		addNote(index, 'journal/a.md', ['PRJ-42 kickoff', 'lunch']);
+		await index.flush();
+		expect(vault.listFiles()).toContain(`${PLUGIN_DIR}/keyword-index.json`);
+
+		const reloaded = new KeywordIndex(app, PLUGIN_DIR);
+		await reloaded.load();
+
+		expect(reloaded.size).toBe(2);
+		expect(reloaded.search('prj-42', 5).map((r) => r.id)).toEqual(['journal/a.md#0']);
+	});
+});
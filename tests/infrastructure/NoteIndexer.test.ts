@@ -0,0 +1,360 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { NoteIndexer } from '../../src/infrastructure/NoteIndexer';
+import { Embedder } from '../../src/infrastructure/Embedder';
+import { VectorStore } from '../../src/infrastructure/VectorStore';
+import { KeywordIndex } from '../../src/infrastructure/KeywordIndex';
+import { IndexManifest } from '../../src/infrastructure/IndexManifest';
+import { LocalEmbeddingBackend } from '../../src/infrastructure/LocalEmbeddingBackend';
+import { ContextRetriever } from '../../src/core/ContextRetriever';
+import { createTestApp, type InMemoryVault } from '../helpers/InMemoryVault';
+
+const PLUGIN_DIR = '.obsidian/plugins/reflection-chat';
+const NOTE = 'journal/2025-03-14.md';
+
+/**
+ * Local n-gram backend that records every text it embeds
+ */
+class RecordingBackend extends LocalEmbeddingBackend {
+	embedded: string[] = [];
+	failOn: string | null = null; // Requests with a text containing this fail
+
+	async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+		const failOn = this.failOn;
+		if (failOn && texts.some((text) => text.includes(failOn))) {
+			throw new Error('Embedding request failed');
+		}
+		this.embedded.push(...texts);
+		return super.embed(texts, signal);
+	}
+}
+
+function session(time: string, summary: string, decision: string): string {
+	return `## ${time}
+
+### Summary
+${summary}
+
+### Pending Decisions
+- ${decision}
+
+<details>
+<summary>Conversation Log</summary>
+
+**You**: ${summary}
+</details>
+`;
+}
+
+const header = `---
+date: 2025-03-14
+type: session
+category: career
+tags: [english]
+---
+
+# 2025-03-14 Session
+
+`;
+
+describe('NoteIndexer chunk indexing', () => {
+	let vault: InMemoryVault;
+	let backend: RecordingBackend;
+	let store: VectorStore;
+	let keywords: KeywordIndex;
+	let manifest: IndexManifest;
+	let indexer: NoteIndexer;
+	let embedder: Embedder;
+
+	beforeEach(async () => {
+		const testApp = createTestApp({
+			[NOTE]:
+				header +
+				session('09:30', 'Planned TOEIC study around work.', 'Study every morning'),
+		});
+		vault = testApp.vault;
+		backend = new RecordingBackend();
+		embedder = new Embedder(backend);
+		store = new VectorStore(testApp.app, PLUGIN_DIR);
+		await store.initialize();
+		keywords = new KeywordIndex(testApp.app, PLUGIN_DIR);
+		manifest = new IndexManifest(testApp.app, PLUGIN_DIR);
+		indexer = new NoteIndexer(
+			testApp.app,
+			embedder,
+			store,
+			keywords,
+			manifest,
+			'journal',
+			'entities'
+		);
+	});
+
+	afterEach(async () => {
+		indexer.destroy();
+		await store.flush();
+		await keywords.flush();
+		await manifest.flush();
+	});
+
+	function createRetriever(keywordWeight: number): ContextRetriever {
+		return new ContextRetriever(
+			{ vault } as never,
+			embedder,
+			store,
+			keywords,
+			'journal',
+			'entities',
+			7,
+			3,
+			keywordWeight,
+			{ diversity: 0, recencyHalfLifeDays: 0 }
+		);
+	}
+
+	async function rewrite(content: string): Promise<void> {
+		await vault.modify(vault.getAbstractFileByPath(NOTE) as TFile, content);
+	}
+
+	it('stores one item per section and decision block with offsets into the note', async () => {
+		expect(await indexer.indexAll()).toEqual({ indexed: 1, errors: 0 });
+
+		const items = store.getItemsByPath(NOTE);
+		expect(items.map((item) => item.id)).toEqual([`${NOTE}#0`, `${NOTE}#1`, `${NOTE}#2`]);
+		expect(items.map((item) => item.metadata.headings)).toEqual([
+			['09:30'],
+			['09:30', 'Pending Decisions'],
+			['09:30'],
+		]);
+		expect(items[1].metadata.passage).toBe('- Study every morning');
+
+		const content = vault.getContent(NOTE) ?? '';
+		expect(content.slice(items[0].metadata.offset)).toMatch(/^## 09:30/);
+		expect(content.slice(items[1].metadata.offset)).toMatch(/^### Pending Decisions/);
+		// The conversation log after a decision block is chunked with its session, without markup
+		expect(items[2].metadata.passage).toContain('**You**: Planned TOEIC study');
+		expect(items[2].metadata.passage).not.toContain('<details>');
+	});
+
+	it('embeds only new sections when a session is appended', async () => {
+		await indexer.indexAll();
+		backend.embedded = [];
+
+		await rewrite(
+			header +
+				session('21:05', 'Reviewed the day.', 'Sleep before midnight') +
+				'\n' +
+				session('09:30', 'Planned TOEIC study around work.', 'Study every morning')
+		);
+		await indexer.indexFile(vault.getAbstractFileByPath(NOTE) as TFile);
+
+		// The earlier session moved down but its text is unchanged, so its vectors are reused
+		expect(backend.embedded).toHaveLength(3);
+		expect(backend.embedded.join('\n')).toContain('Reviewed the day.');
+		expect(store.getItemsByPath(NOTE).map((item) => item.metadata.headings?.[0])).toEqual([
+			'21:05',
+			'21:05',
+			'21:05',
+			'09:30',
+			'09:30',
+			'09:30',
+		]);
+	});
+
+	it('removes chunks a note no longer has, including pre-chunking items', async () => {
+		await store.upsert(NOTE, new Array(512).fill(0.1), {
+			path: NOTE,
+			title: 'old',
+			date: '2025-03-14',
+			summary: 'whole note',
+			tags: [],
+			category: 'career',
+			type: 'session',
+		});
+		await indexer.indexAll();
+		expect(store.getItemsByPath(NOTE).map((item) => item.id)).toEqual([
+			`${NOTE}#0`,
+			`${NOTE}#1`,
+			`${NOTE}#2`,
+		]);
+
+		await rewrite(header + '## 09:30\n\nShort note.\n');
+		await indexer.indexFile(vault.getAbstractFileByPath(NOTE) as TFile);
+
+		expect(store.getItemsByPath(NOTE).map((item) => item.id)).toEqual([`${NOTE}#0`]);
+	});
+
+	it('skips the API entirely when nothing changed', async () => {
+		await indexer.indexAll();
+		backend.embedded = [];
+
+		expect(await indexer.indexAll()).toEqual({ indexed: 1, errors: 0 });
+		expect(backend.embedded).toEqual([]);
+	});
+
+	it('returns the matching passage once per note from semantic search', async () => {
+		await rewrite(
+			header +
+				session('09:30', 'Planned TOEIC study around work.', 'Study every morning') +
+				'\n' +
+				session('21:05', 'Talked about sleeping earlier.', 'Sleep before midnight')
+		);
+		await indexer.indexAll();
+		const retriever = createRetriever(0.3);
+
+		const context = await retriever.retrieve('Sleep before midnight', []);
+
+		expect(context.semanticMatches).toHaveLength(1);
+		expect(context.semanticMatches[0].passage).toEqual({
+			text: '- Sleep before midnight',
+			headings: ['21:05', 'Pending Decisions'],
+			offset: expect.any(Number),
+		});
+	});
+
+	it('pauses indexing and semantic search while the stored model differs', async () => {
+		await indexer.indexAll();
+		store.setEmbeddingModel('another-model');
+		backend.embedded = [];
+
+		await rewrite(
+			header + session('09:30', 'Planned TOEIC study around work.', 'Study on weekends')
+		);
+		await indexer.indexFile(vault.getAbstractFileByPath(NOTE) as TFile);
+		const vectorOnly = await createRetriever(0).retrieve('Study on weekends', []);
+		const hybrid = await createRetriever(0.3).retrieve('Study on weekends', []);
+
+		expect(backend.embedded).toEqual([]);
+		expect(vectorOnly.semanticMatches).toEqual([]);
+		// The keyword index needs no embeddings and stays current
+		expect(hybrid.semanticMatches[0].passage?.text).toBe('- Study on weekends');
+	});
+
+	it('finds project codes and Japanese names through the keyword index', async () => {
+		await rewrite(
+			header +
+				session('09:30', 'Planned TOEIC study around work.', 'Study every morning') +
+				'\n' +
+				session('21:05', '田中さんとPRJ-42の進め方を相談した。', '来週までに見積もりを出す')
+		);
+		await indexer.indexAll();
+
+		const context = await createRetriever(1).retrieve('PRJ-42 の件', []);
+
+		expect(context.semanticMatches).toHaveLength(1);
+		expect(context.semanticMatches[0].passage?.headings).toEqual(['21:05']);
+	});
+
+	it('re-reads only notes that failed or changed since they were indexed', async () => {
+		const other = 'journal/2025-03-15.md';
+		await vault.create(other, header + session('08:00', 'Booked the exam.', 'Pay the fee'));
+		backend.failOn = 'Booked';
+		expect(await indexer.indexAll()).toEqual({ indexed: 1, errors: 1 });
+
+		backend.failOn = null;
+		backend.embedded = [];
+		const read = vi.spyOn(vault, 'read');
+		expect(await indexer.indexAll()).toEqual({ indexed: 2, errors: 0 });
+
+		const readNotes = read.mock.calls
+			.map(([file]) => file.path)
+			.filter((path) => path.startsWith('journal/'));
+		expect(readNotes).toEqual([other]);
+		expect(backend.embedded.some((text) => text.includes('Booked'))).toBe(true);
+		expect(backend.embedded.some((text) => text.includes('TOEIC'))).toBe(false);
+	});
+
+	it('indexes included folders as notes and leaves out excluded folders and tags', async () => {
+		const book = 'Areas/reading/Word Power.md';
+		const secret = 'Areas/private/salary.md';
+		const tagged = 'journal/2025-03-16.md';
+		await vault.create(book, '# Word Power\n\nVocabulary drills that helped with TOEIC.');
+		await vault.create(secret, '# Salary\n\nTOEIC score needed for the raise.');
+		await vault.create(
+			tagged,
+			header.replace('[english]', '[private/diary]') +
+				session('22:00', 'TOEIC worries.', 'Rest')
+		);
+		indexer.updateSettings('journal', 'entities', {
+			includeFolders: ['Areas/*'],
+			excludeFolders: ['**/private'],
+			excludeTags: ['#Private'],
+		});
+
+		expect(await indexer.indexAll()).toEqual({ indexed: 2, errors: 0 });
+		expect(store.getPaths().sort()).toEqual([book, NOTE]);
+		expect(store.getItemsByPath(book)[0].metadata.type).toBe('note');
+
+		const context = await createRetriever(0.5).retrieve('TOEIC vocabulary', []);
+		expect(context.relatedNotes.map((match) => match.metadata.path)).toEqual([book]);
+		expect(context.semanticMatches.map((match) => match.metadata.path)).toEqual([NOTE]);
+
+		// Narrowing the scope drops notes on the next run; lifting the tag rule adds them
+		indexer.updateSettings('journal', 'entities', {
+			includeFolders: [],
+			excludeFolders: [],
+			excludeTags: [],
+		});
+		await indexer.indexAll();
+		expect(store.getPaths().sort()).toEqual([NOTE, tagged]);
+		expect(keywords.getPaths()).not.toContain(book);
+	});
+
+	it('types goal and report notes and links goals relevant to the conversation', async () => {
+		const goal = (status: string) =>
+			`---\ntype: goal\ngoal_type: learning\npriority: high\nstatus: ${status}\ncreated: 2024-01-10\n---\n\n`;
+		await vault.create(
+			'entities/Score 900.md',
+			goal('active') + '# Score 900\n\n## Overview\nReach 900 on the TOEIC exam.'
+		);
+		await vault.create(
+			'entities/Pass Eiken.md',
+			goal('completed') + '# Pass Eiken\n\n## Overview\nPass the TOEIC-like Eiken exam.'
+		);
+		await vault.create(
+			'journal/reports/weekly-2025-W11.md',
+			'# 📊 Weekly Report (2025-03-08 - 2025-03-14)\n\nStudied TOEIC twice.'
+		);
+		await indexer.indexAll();
+
+		const [active] = store.getItemsByPath('entities/Score 900.md');
+		expect(active.metadata).toMatchObject({
+			type: 'goal',
+			goalStatus: 'active',
+			goalPriority: 'high',
+			date: '2024-01-10',
+		});
+		const [report] = store.getItemsByPath('journal/reports/weekly-2025-W11.md');
+		expect(report.metadata).toMatchObject({
+			type: 'report',
+			periodStart: '2025-03-08',
+			periodEnd: '2025-03-14',
+			date: '2025-03-14',
+		});
+
+		const context = await createRetriever(0.5).retrieve('How is my TOEIC exam prep?', []);
+		expect(context.linkedGoals.map((g) => g.name)).toEqual(['Score 900']);
+		expect(context.semanticMatches.map((match) => match.metadata.path)).toEqual([NOTE]);
+	});
+
+	it('keeps an interrupted run for resuming and finishes it on the next run', async () => {
+		const reload = async () => {
+			const reloaded = new IndexManifest({ vault } as never, PLUGIN_DIR);
+			await reloaded.load();
+			return reloaded;
+		};
+		manifest.startRun(); // As if Obsidian closed during a run
+		await manifest.flush();
+		expect((await reload()).hasUnfinishedRun()).toBe(true);
+
+		const cancelled = new AbortController();
+		cancelled.abort();
+		await expect(indexer.indexAll({ signal: cancelled.signal })).rejects.toThrow();
+		expect(store.getItemsByPath(NOTE)).toEqual([]);
+
+		const progress: number[] = [];
+		await indexer.indexAll({ onProgress: (done) => progress.push(done) });
+		expect(progress[progress.length - 1]).toBe(1);
+		expect((await reload()).hasUnfinishedRun()).toBe(false);
+	});
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { OpenAICompatibleClient } from '../../src/infrastructure/OpenAICompatibleClient';
+import { ApiError } from '../../src/utils/errors';
+import type { ChatMessage } from '../../src/types';
+import {
+	replayInteractions,
+	type Interaction,
+	type RecordedResponse,
+} from '../helpers/fetchReplay';
+
+const BASE_URL = 'http://localhost:8080/v1';
+const PRIMARY = 'llama-3.1-70b';
+const FALLBACK = 'llama-3.1-8b';
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'How did the week go?' }];
+
+function createClient(): OpenAICompatibleClient {
+	return new OpenAICompatibleClient({ baseUrl: BASE_URL, apiKey: '', headers: {} });
+}
+
+function completion(model: string, status: number, content = ''): Interaction {
+	return {
+		request: { method: 'POST', url: `${BASE_URL}/chat/completions`, body: { model } },
+		response:
+			status === 200
+				? { status, body: { choices: [{ message: { content } }] } }
+				: { status, body: { error: { message: `${model} failed` } } },
+	};
+}
+
+function stream(model: string, response: RecordedResponse): Interaction {
+	return {
+		request: { method: 'POST', url: `${BASE_URL}/chat/completions`, body: { model } },
+		response,
+	};
+}
+
+function chunk(content: string): string {
+	return JSON.stringify({ choices: [{ delta: { content } }] });
+}
+
+describe('OpenAICompatibleClient failover', () => {
+	it.each([429, 503])('moves on to the fallback model after a %i', async (status) => {
+		const http = replayInteractions([
+			completion(PRIMARY, status),
+			completion(FALLBACK, 200, 'A steady week.'),
+		]);
+		const used: string[] = [];
+
+		const answer = await createClient().complete(messages, {
+			model: PRIMARY,
+			fallbackModels: [FALLBACK],
+			onModelUsed: (model) => used.push(model),
+		});
+
+		expect(answer).toBe('A steady week.');
+		expect(used).toEqual([FALLBACK]);
+		http.assertDone();
+	});
+
+	it.each([400, 401])('does not fail over after a %i', async (status) => {
+		const http = replayInteractions([completion(PRIMARY, status)]);
+		const used: string[] = [];
+
+		const error = await createClient()
+			.complete(messages, {
+				model: PRIMARY,
+				fallbackModels: [FALLBACK],
+				onModelUsed: (model) => used.push(model),
+			})
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(ApiError);
+		expect((error as ApiError).statusCode).toBe(status);
+		expect(http.calls).toHaveLength(1);
+		expect(used).toEqual([]);
+	});
+
+	it('fails a stream over when the model is unavailable before streaming', async () => {
+		const http = replayInteractions([
+			completion(PRIMARY, 503),
+			stream(FALLBACK, { status: 200, sse: [chunk('A steady '), chunk('week.')] }),
+		]);
+		const chunks: string[] = [];
+		const used: string[] = [];
+
+		const answer = await createClient().stream(
+			messages,
+			{ model: PRIMARY, fallbackModels: [FALLBACK], onModelUsed: (m) => used.push(m) },
+			(text) => chunks.push(text)
+		);
+
+		expect(answer).toBe('A steady week.');
+		expect(chunks).toEqual(['A steady ', 'week.']);
+		expect(used).toEqual([FALLBACK]);
+		http.assertDone();
+	});
+
+	it('does not fail a stream over once a chunk has arrived', async () => {
+		const http = replayInteractions([
+			stream(PRIMARY, { status: 200, sse: [chunk('A steady ')], sseError: 'terminated' }),
+			stream(FALLBACK, { status: 200, sse: [chunk('A steady week.')] }),
+		]);
+		const chunks: string[] = [];
+
+		await expect(
+			createClient().stream(
+				messages,
+				{ model: PRIMARY, fallbackModels: [FALLBACK] },
+				(text) => chunks.push(text)
+			)
+		).rejects.toThrow('terminated');
+
+		// Switching models now would splice two answers together
+		expect(chunks).toEqual(['A steady ']);
+		expect(http.calls).toHaveLength(1);
+	});
+});
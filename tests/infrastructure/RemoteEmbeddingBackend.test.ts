@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { OpenAICompatibleEmbeddingBackend } from '../../src/infrastructure/RemoteEmbeddingBackend';
+import type { UsageEvent } from '../../src/types';
+import { replayInteractions } from '../helpers/fetchReplay';
+
+const BASE_URL = 'http://localhost:8080/v1';
+const PRIMARY = 'bge-m3';
+const FALLBACK = 'bge-m3-backup';
+
+describe('OpenAICompatibleEmbeddingBackend', () => {
+	it('fails over to the fallback embedding model when the primary is unavailable', async () => {
+		const http = replayInteractions([
+			{
+				request: {
+					method: 'POST',
+					url: `${BASE_URL}/embeddings`,
+					body: { model: PRIMARY },
+				},
+				response: { status: 503, body: { error: { message: 'Model is loading' } } },
+			},
+			{
+				request: {
+					method: 'POST',
+					url: `${BASE_URL}/embeddings`,
+					body: { model: FALLBACK },
+				},
+				response: {
+					status: 200,
+					body: {
+						data: [
+							{ index: 1, embedding: [0, 1] },
+							{ index: 0, embedding: [1, 0] },
+						],
+						usage: { prompt_tokens: 12 },
+					},
+				},
+			},
+		]);
+		const usage: UsageEvent[] = [];
+		const backend = new OpenAICompatibleEmbeddingBackend({
+			baseUrl: BASE_URL,
+			apiKey: '',
+			headers: {},
+			model: PRIMARY,
+			fallbackModels: [FALLBACK],
+			onUsage: (event) => usage.push(event),
+		});
+
+		const vectors = await backend.embed(
+			['Planned TOEIC study', 'Slept early'],
+			undefined,
+			'indexing'
+		);
+
+		expect(vectors).toEqual([
+			[1, 0],
+			[0, 1],
+		]);
+		expect(backend.model).toBe(FALLBACK);
+		expect(backend.configuredModel).toBe(PRIMARY);
+		expect(usage).toEqual([
+			{ purpose: 'indexing', model: FALLBACK, promptTokens: 12, completionTokens: 0 },
+		]);
+		http.assertDone();
+	});
+});
@@ -0,0 +1,297 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import {
+	VectorStore,
+	matchesFilter,
+	type VectorMetadata,
+} from '../../src/infrastructure/VectorStore';
+import { HnswIndex } from '../../src/infrastructure/HnswIndex';
+import { createTestApp, type InMemoryVault } from '../helpers/InMemoryVault';
+
+const PLUGIN_DIR = '.obsidian/plugins/reflection-chat';
+const VECTORS_DIR = `${PLUGIN_DIR}/vectors`;
+
+function vector(seed: number): number[] {
+	return Array.from({ length: 64 }, (_, i) => Math.sin(seed * 31 + i));
+}
+
+function metadata(path: string): VectorMetadata {
+	return {
+		path,
+		title: path,
+		date: '2025-03-14',
+		summary: `Summary of ${path}`,
+		tags: ['career'],
+		category: 'career',
+		type: 'session',
+	};
+}
+
+async function openStore(vault: InMemoryVault, encoding?: 'float32' | 'int8') {
+	const store = new VectorStore({ vault } as never, PLUGIN_DIR, encoding);
+	await store.initialize();
+	return store;
+}
+
+async function fillStore(store: VectorStore, notes: number): Promise<void> {
+	for (let n = 0; n < notes; n++) {
+		const path = `journal/2025-03-${String(n + 1).padStart(2, '0')}.md`;
+		await store.upsert(`${path}#0`, vector(n), metadata(path), `hash-${n}`);
+	}
+	await store.flush();
+}
+
+describe('VectorStore binary storage', () => {
+	it('saves vectors to shards and restores them on the next start', async () => {
+		const { vault } = createTestApp();
+		await fillStore(await openStore(vault), 20);
+
+		const files = vault.listFiles();
+		expect(files).toContain(`${VECTORS_DIR}/index.json`);
+		expect(files.every((f) => f.endsWith('.bin') || f.endsWith('index.json'))).toBe(true);
+		expect(files.length).toBeLessThanOrEqual(17);
+
+		const reopened = await openStore(vault);
+		expect(await reopened.getStats()).toEqual({ count: 20 });
+		expect(reopened.getContentHash('journal/2025-03-05.md#0')).toBe('hash-4');
+		const [best] = await reopened.search(vector(4), 1);
+		expect(best.id).toBe('journal/2025-03-05.md#0');
+		expect(best.score).toBeCloseTo(1, 5);
+	});
+
+	it('migrates per-file JSON and legacy vector-index.json, then removes them', async () => {
+		const item = (n: number) => ({
+			id: `journal/note-${n}.md`,
+			vector: vector(n),
+			metadata: metadata(`journal/note-${n}.md`),
+		});
+		const { vault } = createTestApp({
+			[`${VECTORS_DIR}/journal_note-1.md.json`]: JSON.stringify(item(1)),
+			[`${VECTORS_DIR}/journal_note-2.md.json`]: JSON.stringify(item(2)),
+			[`${VECTORS_DIR}/broken.json`]: '{not json',
+			[`${PLUGIN_DIR}/vector-index.json`]: JSON.stringify({ items: [item(3)] }),
+		});
+
+		const store = await openStore(vault);
+
+		expect(await store.getStats()).toEqual({ count: 3 });
+		expect(vault.listFiles().some((f) => f.endsWith('.md.json'))).toBe(false);
+		expect(vault.listFiles()).not.toContain(`${PLUGIN_DIR}/vector-index.json`);
+		expect(vault.listFiles()).not.toContain(`${VECTORS_DIR}/broken.json`);
+
+		const reopened = await openStore(vault);
+		expect((await reopened.search(vector(3), 1))[0].id).toBe('journal/note-3.md');
+	});
+
+	it('rewrites only the shard of the note that changed', async () => {
+		const { vault } = createTestApp();
+		const store = await openStore(vault);
+		await fillStore(store, 20);
+		const modifyBinary = vi.spyOn(vault, 'modifyBinary');
+		const createBinary = vi.spyOn(vault, 'createBinary');
+
+		await store.upsert(
+			'journal/2025-03-01.md#0',
+			vector(99),
+			metadata('journal/2025-03-01.md')
+		);
+		await store.flush();
+
+		expect(modifyBinary.mock.calls.length + createBinary.mock.calls.length).toBe(1);
+	});
+
+	it('drops a shard that is out of sync with the index and keeps the rest', async () => {
+		const { vault } = createTestApp();
+		await fillStore(await openStore(vault), 20);
+		const index = JSON.parse(vault.getContent(`${VECTORS_DIR}/index.json`) ?? '');
+		const torn = index.shards[0];
+		torn.revision += 1; // As if the index was written but the shard was not
+
+		await vault.modify(
+			vault.getAbstractFileByPath(`${VECTORS_DIR}/index.json`) as TFile,
+			JSON.stringify(index)
+		);
+		const reopened = await openStore(vault);
+
+		expect(await reopened.getStats()).toEqual({ count: 20 - torn.items.length });
+		expect(await reopened.getItem(torn.items[0].id)).toBeNull();
+	});
+
+	it('rewrites the shard of a skipped row so the rest of it survives the next load', async () => {
+		const { vault } = createTestApp();
+		await fillStore(await openStore(vault), 20);
+		const index = JSON.parse(vault.getContent(`${VECTORS_DIR}/index.json`) ?? '');
+		const shard = index.shards.find((s: { items: unknown[] }) => s.items.length > 1);
+		const [broken, ...kept] = shard.items;
+		delete broken.metadata;
+		await vault.modify(
+			vault.getAbstractFileByPath(`${VECTORS_DIR}/index.json`) as TFile,
+			JSON.stringify(index)
+		);
+
+		const reopened = await openStore(vault);
+		await reopened.flush();
+		expect(await reopened.getStats()).toEqual({ count: 19 });
+
+		const again = await openStore(vault);
+		expect(await again.getStats()).toEqual({ count: 19 });
+		expect(await again.getItem(kept[0].id)).not.toBeNull();
+	});
+
+	it('re-encodes stored vectors as int8 when the setting changes', async () => {
+		const { vault } = createTestApp();
+		const store = await openStore(vault);
+		await fillStore(store, 20);
+		const sizeOf = () =>
+			vault
+				.listFiles()
+				.filter((f) => f.endsWith('.bin'))
+				.reduce((sum, f) => sum + (vault.getSize(f) ?? 0), 0);
+		const float32Size = sizeOf();
+
+		store.setEncoding('int8');
+		await store.flush();
+
+		expect(sizeOf()).toBeLessThan(float32Size / 3);
+		const reopened = await openStore(vault, 'int8');
+		const [best] = await reopened.search(vector(7), 1);
+		expect(best.id).toBe('journal/2025-03-08.md#0');
+		expect(best.score).toBeGreaterThan(0.999);
+	});
+
+	it('searches large stores through a persisted HNSW graph', { timeout: 60000 }, async () => {
+		const { vault } = createTestApp();
+		const store = await openStore(vault);
+		for (let n = 0; n < 5001; n++) {
+			const path = `journal/note-${n}.md`;
+			await store.upsert(`${path}#0`, vector(n), metadata(path), `hash-${n}`);
+		}
+		await store.buildSearchIndex();
+		await store.delete('journal/note-10.md#0');
+		await store.flush();
+		expect(vault.listFiles()).toContain(`${VECTORS_DIR}/hnsw.bin`);
+
+		const reopened = await openStore(vault);
+		await reopened.buildSearchIndex();
+		const graphSearch = vi.spyOn(HnswIndex.prototype, 'search');
+
+		const [best] = await reopened.search(vector(1234), 1);
+		const nearDeleted = await reopened.search(vector(10), 5);
+
+		expect(graphSearch).toHaveBeenCalled();
+		expect(best.id).toBe('journal/note-1234.md#0');
+		expect(nearDeleted.map((r) => r.id)).not.toContain('journal/note-10.md#0');
+	});
+
+	it(
+		'searches a rare note type in a large store without scanning every vector',
+		{ timeout: 60000 },
+		async () => {
+			const { vault } = createTestApp();
+			const store = await openStore(vault);
+			for (let n = 0; n < 5001; n++) {
+				const path = `journal/note-${n}.md`;
+				await store.upsert(`${path}#0`, vector(n), metadata(path), `hash-${n}`);
+			}
+			for (let n = 0; n < 3; n++) {
+				const path = `goals/goal-${n}.md`;
+				await store.upsert(`${path}#0`, vector(9000 + n), {
+					...metadata(path),
+					type: 'goal',
+				});
+			}
+			await store.buildSearchIndex();
+			const graphSearch = vi.spyOn(HnswIndex.prototype, 'search');
+			const exactScore = vi.spyOn(VectorStore.prototype as never, 'cosineSimilarity');
+
+			const goals = await store.search(vector(9001), 5, { type: 'goal' });
+			expect(goals.map((r) => r.id)[0]).toBe('goals/goal-1.md#0');
+			expect(goals).toHaveLength(3);
+			expect(graphSearch).not.toHaveBeenCalled();
+			expect(exactScore).toHaveBeenCalledTimes(3);
+
+			const [session] = await store.search(vector(1234), 1, { type: 'session' });
+			expect(session.id).toBe('journal/note-1234.md#0');
+			expect(graphSearch).toHaveBeenCalled();
+			expect(exactScore).toHaveBeenCalledTimes(3);
+		}
+	);
+});
+
+describe('VectorStore embedding model tracking', () => {
+	it('records the model and dimension and rejects vectors of another dimension', async () => {
+		const { vault } = createTestApp();
+		const store = await openStore(vault);
+		store.setEmbeddingModel('model-a');
+		await fillStore(store, 3);
+
+		const index = JSON.parse(vault.getContent(`${VECTORS_DIR}/index.json`) ?? '{}');
+		expect(index.embedding).toEqual({ model: 'model-a', dimension: 64 });
+
+		const reopened = await openStore(vault);
+		expect(reopened.getEmbeddingModel()).toBe('model-a');
+		expect(reopened.isCompatibleWith('model-a')).toBe(true);
+		expect(reopened.isCompatibleWith('model-b')).toBe(false);
+
+		const wide = Array.from({ length: 128 }, (_, i) => Math.cos(i));
+		await expect(
+			reopened.upsert('journal/other.md#0', wide, metadata('journal/other.md'))
+		).rejects.toThrow(/dimension/);
+		expect(await reopened.search(wide, 3)).toEqual([]);
+
+		await reopened.clear();
+		expect(reopened.getEmbeddingModel()).toBeNull();
+		expect(reopened.getDimension()).toBeNull();
+		expect(reopened.isCompatibleWith('model-b')).toBe(true);
+	});
+
+	it('judges an index without a recorded model by dimension', async () => {
+		const { vault } = createTestApp();
+		await fillStore(await openStore(vault), 3);
+
+		const store = await openStore(vault);
+		expect(store.getEmbeddingModel()).toBeNull();
+		expect(store.isCompatibleWith('model-a', 64)).toBe(true);
+		expect(store.isCompatibleWith('model-a', 128)).toBe(false);
+	});
+});
+
+describe('matchesFilter', () => {
+	const note: VectorMetadata = {
+		...metadata('journal/2025/2025-03-14.md'),
+		date: '2025-03-14 21:05',
+		tags: ['#Career', 'work'],
+	};
+	const entity: VectorMetadata = {
+		...metadata('entities/Tanaka.md'),
+		type: 'entity',
+		entityType: 'person',
+		category: 'other',
+	};
+
+	it('limits by date range, ignoring the time of day', () => {
+		expect(matchesFilter(note, { dateFrom: '2025-03-14', dateTo: '2025-03-14' })).toBe(true);
+		expect(matchesFilter(note, { dateFrom: '2025-03-15' })).toBe(false);
+		expect(matchesFilter(note, { dateTo: '2025-03-13' })).toBe(false);
+		expect(matchesFilter({ ...note, date: '' }, { dateFrom: '2025-01-01' })).toBe(false);
+	});
+
+	it('matches tags without # and case, with any, all and none', () => {
+		expect(matchesFilter(note, { tags: { all: ['career', '#Work'] } })).toBe(true);
+		expect(matchesFilter(note, { tags: { all: ['career', 'private'] } })).toBe(false);
+		expect(matchesFilter(note, { tags: { any: ['private', 'work'] } })).toBe(true);
+		expect(matchesFilter(note, { tags: { any: ['private'] } })).toBe(false);
+		expect(matchesFilter(note, { tags: { none: ['CAREER'] } })).toBe(false);
+	});
+
+	it('combines type, entity type, category and path conditions', () => {
+		expect(matchesFilter(note, { categories: ['career'], pathPrefixes: ['journal/'] })).toBe(
+			true
+		);
+		expect(matchesFilter(note, { categories: ['idea'] })).toBe(false);
+		expect(matchesFilter(note, { pathPrefixes: ['entities/'] })).toBe(false);
+		expect(matchesFilter(note, { entityTypes: ['person'] })).toBe(false);
+		expect(matchesFilter(entity, { type: 'entity', entityTypes: ['person'] })).toBe(true);
+		expect(matchesFilter(entity, { type: 'session' })).toBe(false);
+	});
+});
@@ -0,0 +1,64 @@
+/**
+ * Runtime stand-in for the 'obsidian' module (aliased in vitest.config.ts)
+ * Only what the plugin touches outside of UI code is implemented.
+ */
+
+export interface EventRef {
+	name: string;
+	callback: (...args: unknown[]) => unknown;
+}
+
+export abstract class TAbstractFile {
+	path: string;
+	name: string;
+	parent: TFolder | null = null;
+
+	constructor(path: string) {
+		this.path = path;
+		this.name = path.split('/').pop() ?? path;
+	}
+}
+
+export class TFile extends TAbstractFile {
+	basename: string;
+	extension: string;
+	stat: { ctime: number; mtime: number; size: number };
+
+	constructor(path: string, stat: { ctime: number; mtime: number; size: number }) {
+		super(path);
+		const dot = this.name.lastIndexOf('.');
+		this.basename = dot > 0 ? this.name.slice(0, dot) : this.name;
+		this.extension = dot > 0 ? this.name.slice(dot + 1) : '';
+		this.stat = stat;
+	}
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.path === '/';
+	}
+}
+
+export class Notice {
+	static readonly shown: string[] = [];
+	message: string;
+
+	constructor(message: string | DocumentFragment, _duration?: number) {
+		this.message = String(message);
+		Notice.shown.push(this.message);
+	}
+
+	setMessage(message: string | DocumentFragment): this {
+		this.message = String(message);
+		return this;
+	}
+
+	hide(): void {
+		/* nothing rendered */
+	}
+}
+
+// Type-only in the plugin code; exported so value imports resolve
+export class App {}
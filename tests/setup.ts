@@ -0,0 +1,12 @@
+import { afterEach, vi } from 'vitest';
+import { setLanguage } from '../src/i18n';
+import { logger } from '../src/utils/logger';
+
+// Assertions are written against the English templates
+setLanguage('en');
+logger.setLevel('error');
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.unstubAllGlobals();
+});
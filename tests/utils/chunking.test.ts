@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { splitIntoChunks, toPlainText } from '../../src/utils/chunking';
+
+const options = { separateSections: ['Decisions', 'Insights'], maxLength: 1000 };
+
+const body = `# 2025-03-14 Session
+
+## 09:30
+
+### Summary
+Planned TOEIC study.
+
+### Decisions
+- Study every morning
+
+### Insights
+- Mornings are quiet
+
+### Entities
+- [[Tanaka]] - Offered lighter hours
+
+## 21:05
+
+### Summary
+Reviewed the day.
+`;
+
+describe('splitIntoChunks', () => {
+	it('splits at session headings and around decision/insight blocks', () => {
+		const chunks = splitIntoChunks(body, options);
+
+		expect(chunks.map((c) => c.headings)).toEqual([
+			['09:30'],
+			['09:30', 'Decisions'],
+			['09:30', 'Insights'],
+			['09:30', 'Entities'],
+			['21:05'],
+		]);
+		expect(toPlainText(chunks[0].text)).toBe('Planned TOEIC study.');
+		expect(toPlainText(chunks[1].text)).toBe('- Study every morning');
+		expect(toPlainText(chunks[4].text)).toBe('Reviewed the day.');
+	});
+
+	it('reports offsets that point at the chunk in the input', () => {
+		for (const chunk of splitIntoChunks(body, options)) {
+			expect(body.slice(chunk.offset, chunk.offset + chunk.text.length)).toBe(chunk.text);
+		}
+	});
+
+	it('drops chunks with nothing but headings and markup', () => {
+		const chunks = splitIntoChunks('# Title\n\n## Empty\n\n<details>\n</details>\n', options);
+		expect(chunks).toEqual([]);
+	});
+
+	it('splits long sections at line breaks', () => {
+		const lines = Array.from({ length: 30 }, (_, i) => `Line ${i} ${'x'.repeat(40)}`);
+		const text = `## Log\n${lines.join('\n')}\n`;
+
+		const chunks = splitIntoChunks(text, { ...options, maxLength: 200 });
+
+		expect(chunks.length).toBeGreaterThan(5);
+		for (const chunk of chunks) {
+			expect(chunk.text.length).toBeLessThanOrEqual(200);
+			expect(chunk.headings).toEqual(['Log']);
+			expect(text.slice(chunk.offset, chunk.offset + chunk.text.length)).toBe(chunk.text);
+		}
+		expect(chunks.map((c) => c.text).join('')).toBe(text);
+	});
+
+	it('ends a decision block at the collapsed conversation log', () => {
+		const chunks = splitIntoChunks(
+			'## 09:30\n### Decisions\n- Rest\n\n<details>\n<summary>Log</summary>\nHi\n</details>\n',
+			options
+		);
+		expect(chunks.map((c) => c.headings)).toEqual([['09:30', 'Decisions'], ['09:30']]);
+		expect(toPlainText(chunks[1].text)).toBe('Log\nHi');
+	});
+
+	it('does not treat tags as headings', () => {
+		const chunks = splitIntoChunks('## 09:30\n#english #career\n', options);
+		expect(chunks).toHaveLength(1);
+		expect(toPlainText(chunks[0].text)).toBe('#english #career');
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { packHistory, packSections } from '../../src/utils/contextPacker';
+import { estimateTokens } from '../../src/utils/tokens';
+
+const item = (text: string, brief?: string) => ({ text, brief });
+
+describe('estimateTokens', () => {
+	it('counts Japanese characters one by one and Latin text by four characters', () => {
+		expect(estimateTokens('')).toBe(0);
+		expect(estimateTokens('12345678')).toBe(2);
+		expect(estimateTokens('振り返り')).toBe(4);
+	});
+});
+
+describe('packSections', () => {
+	it('shortens, then drops, the lowest-value items of a section over its share', () => {
+		const long = 'x'.repeat(200); // 50 tokens
+		const { sections, tokens } = packSections(
+			[
+				{
+					key: 'a',
+					heading: 'A',
+					weight: 1,
+					items: [item(long, 'first'), item(long, 'second'), item(long, 'third')],
+				},
+				{ key: 'b', heading: 'B', weight: 1, items: [item('short')] },
+			],
+			120
+		);
+
+		// A keeps its best item in full and shortens the rest to fit its share
+		expect(sections).toEqual([
+			{ key: 'a', heading: 'A', lines: [long, 'second', 'third'] },
+			{ key: 'b', heading: 'B', lines: ['short'] },
+		]);
+		expect(tokens).toBeLessThanOrEqual(120);
+
+		// With less room the last items go entirely; B's unused share goes to A
+		const tight = packSections(
+			[
+				{ key: 'a', heading: 'A', weight: 1, items: [item(long), item(long), item(long)] },
+				{ key: 'b', heading: 'B', weight: 1, items: [item('short')] },
+			],
+			110
+		);
+		expect(tight.sections[0].lines).toEqual([long, long]);
+	});
+
+	it('leaves out sections without items', () => {
+		const { sections, tokens } = packSections(
+			[{ key: 'a', heading: 'A', weight: 1, items: [] }],
+			100
+		);
+
+		expect(sections).toEqual([]);
+		expect(tokens).toBe(0);
+	});
+});
+
+describe('packHistory', () => {
+	it('keeps the newest messages that fit and always the latest one', () => {
+		const messages = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)].map((content) => ({
+			content,
+		}));
+
+		expect(packHistory(messages, 30)).toEqual({ messages: messages.slice(1), omitted: 1 });
+		expect(packHistory(messages, 0)).toEqual({ messages: messages.slice(2), omitted: 2 });
+	});
+});
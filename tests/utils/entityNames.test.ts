@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AhoCorasick } from '../../src/utils/ahoCorasick';
+import { fuzzyMatches, isWholeMatch, nameForms } from '../../src/utils/entityNames';
+
+describe('AhoCorasick', () => {
+	it('finds every occurrence of overlapping patterns in one pass', () => {
+		const matcher = new AhoCorasick(['he', 'she', 'hers', '田中']);
+		const found = matcher
+			.search('ushers met 田中')
+			.map((m) => [m.pattern, m.start, m.end])
+			.sort();
+		expect(found).toEqual([
+			[0, 2, 4],
+			[1, 1, 4],
+			[2, 2, 6],
+			[3, 11, 13],
+		]);
+	});
+});
+
+describe('nameForms', () => {
+	it('strips honorifics and titles and swaps them for others of the same kind', () => {
+		const forms = nameForms('田中部長');
+		expect(forms).toContain('田中部長');
+		expect(forms).toContain('田中');
+		expect(forms).toContain('田中さん');
+		expect(nameForms('Tanaka-san')).toContain('tanaka');
+		expect(nameForms('Dr. Sato')).toContain('sato');
+	});
+
+	it('keeps a short core only with a suffix', () => {
+		const forms = nameForms('Xプロジェクト');
+		expect(forms).toContain('x project');
+		expect(forms).not.toContain('x');
+		expect(nameForms('林部長')).not.toContain('林');
+		expect(nameForms('ＡＢＣ')).toEqual(['abc']);
+	});
+});
+
+describe('isWholeMatch', () => {
+	it('requires word edges for Latin names but not Japanese ones', () => {
+		expect(isWholeMatch('satoshi', 0, 4)).toBe(false);
+		expect(isWholeMatch('sato-san', 0, 4)).toBe(true);
+		expect(isWholeMatch('昨日田中さんと', 2, 4)).toBe(true);
+	});
+});
+
+describe('fuzzyMatches', () => {
+	it('allows one typo in longer Latin names only', () => {
+		expect(fuzzyMatches('watanabe', 'watanbe')).toBe(true);
+		expect(fuzzyMatches('watanabe', 'watnaabe')).toBe(true);
+		expect(fuzzyMatches('watanabe', 'wetanbe')).toBe(false);
+		expect(fuzzyMatches('sato', 'sata')).toBe(false);
+	});
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { matchesGlob } from '../../src/utils/glob';
+
+describe('matchesGlob', () => {
+	it('matches a folder name against everything beneath it', () => {
+		expect(matchesGlob('Projects/app/plan.md', 'Projects')).toBe(true);
+		expect(matchesGlob('Projects/app/plan.md', '/Projects/')).toBe(true);
+		expect(matchesGlob('ProjectsOld/plan.md', 'Projects')).toBe(false);
+	});
+
+	it('keeps * and ? within one segment and lets ** cross segments', () => {
+		expect(matchesGlob('Areas/health/log.md', 'Areas/*')).toBe(true);
+		expect(matchesGlob('Areas/health/log.md', 'Areas/h?alth')).toBe(true);
+		expect(matchesGlob('Areas/health/log.md', '*/log.md')).toBe(false);
+		expect(matchesGlob('Areas/health/log.md', '**/log.md')).toBe(true);
+		expect(matchesGlob('log.md', '**/log.md')).toBe(true);
+		expect(matchesGlob('a/b/private/c.md', '**/private')).toBe(true);
+	});
+
+	it('treats other characters literally', () => {
+		expect(matchesGlob('Books (2025)/a.md', 'Books (2025)')).toBe(true);
+		expect(matchesGlob('Books 2025/a.md', 'Books (2025)')).toBe(false);
+		expect(matchesGlob('notes/a.md', '  ')).toBe(false);
+	});
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { fuseRankings } from '../../src/utils/rankFusion';
+
+describe('fuseRankings', () => {
+	it('ranks items found by both lists first and respects weights', () => {
+		const a = { id: 'a' };
+		const b = { id: 'b' };
+		const c = { id: 'c' };
+
+		const fused = fuseRankings([
+			{ results: [a, b], weight: 0.5 },
+			{ results: [c, b], weight: 0.5 },
+		]);
+		expect(fused[0].item).toBe(b);
+
+		const vectorOnly = fuseRankings([
+			{ results: [a, b], weight: 1 },
+			{ results: [c], weight: 0 },
+		]);
+		expect(vectorOnly.map((entry) => entry.item.id)).toEqual(['a', 'b']);
+	});
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { recencyFactor, rerankResults, termSimilarity } from '../../src/utils/rerank';
+
+function result(id: string, score: number, date = '2025-06-30') {
+	return { id, score, metadata: { date } };
+}
+
+// Sessions a1-a3 are about one topic, b1 about another
+const topic = (id: string) => id[0];
+const sameTopic = (a: { id: string }, b: { id: string }) => (topic(a.id) === topic(b.id) ? 1 : 0);
+const today = new Date(2025, 5, 30);
+
+describe('rerankResults', () => {
+	const results = [result('a1', 1), result('a2', 0.95), result('a3', 0.9), result('b1', 0.6)];
+
+	it('keeps score order when diversity and decay are off', () => {
+		const ranked = rerankResults(
+			results,
+			sameTopic,
+			{ diversity: 0, recencyHalfLifeDays: 0 },
+			3,
+			today
+		);
+		expect(ranked.map((r) => r.id)).toEqual(['a1', 'a2', 'a3']);
+	});
+
+	it('trades near-duplicates for another topic', () => {
+		const ranked = rerankResults(
+			results,
+			sameTopic,
+			{ diversity: 0.5, recencyHalfLifeDays: 0 },
+			3,
+			today
+		);
+		expect(ranked.map((r) => r.id)).toEqual(['a1', 'b1', 'a2']);
+	});
+
+	it('prefers newer notes with a recency half-life', () => {
+		const dated = [result('old', 1, '2025-03-01'), result('new', 0.8, '2025-06-28')];
+		const ranked = rerankResults(
+			dated,
+			sameTopic,
+			{ diversity: 0, recencyHalfLifeDays: 30 },
+			2,
+			today
+		);
+		expect(ranked.map((r) => r.id)).toEqual(['new', 'old']);
+
+		expect(recencyFactor('2025-05-31', 30, today)).toBeCloseTo(0.5);
+		expect(recencyFactor('undated', 30, today)).toBe(1);
+	});
+});
+
+describe('termSimilarity', () => {
+	it('measures shared terms', () => {
+		expect(termSimilarity('TOEIC study plan', 'toeic study')).toBeCloseTo(2 / 3);
+		expect(termSimilarity('転職の相談', '英語の勉強')).toBe(0);
+	});
+});
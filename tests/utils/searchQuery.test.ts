@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery } from '../../src/utils/searchQuery';
+
+describe('parseSearchQuery', () => {
+	it('separates filter operators from the free text', () => {
+		const { text, filter } = parseSearchQuery(
+			'転職の相談 type:session category:Career,idea #work -#private tag:a,b path:journal/2025'
+		);
+
+		expect(text).toBe('転職の相談');
+		expect(filter).toEqual({
+			type: 'session',
+			categories: ['career', 'idea'],
+			tags: { all: ['work'], none: ['private'], any: ['a', 'b'] },
+			pathPrefixes: ['journal/2025'],
+		});
+	});
+
+	it('filters goals by status', () => {
+		const { text, filter } = parseSearchQuery(
+			'英語 type:goal status:active,Completed status:done'
+		);
+
+		expect(text).toBe('英語 status:done');
+		expect(filter).toEqual({ type: 'goal', goalStatuses: ['active', 'completed'] });
+	});
+
+	it('resolves relative dates against today', () => {
+		const { filter } = parseSearchQuery(
+			'review after:90d before:2025-06-30',
+			new Date(2025, 5, 30)
+		);
+
+		expect(filter.dateFrom).toBe('2025-04-01');
+		expect(filter.dateTo).toBe('2025-06-30');
+	});
+
+	it('keeps unknown operators and malformed values as text', () => {
+		const { text, filter } = parseSearchQuery(
+			'meeting at 10:30 entity:robot after:yesterday type:person entity:person'
+		);
+
+		expect(text).toBe('meeting at 10:30 entity:robot after:yesterday type:person');
+		expect(filter).toEqual({ entityTypes: ['person'] });
+	});
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize } from '../../src/utils/tokenize';
+
+describe('tokenize', () => {
+	it('splits Japanese runs into bigrams and keeps single characters', () => {
+		expect(tokenize('田中さんと話した')).toEqual([
+			'田中',
+			'中さ',
+			'さん',
+			'んと',
+			'と話',
+			'話し',
+			'した',
+		]);
+		expect(tokenize('本')).toEqual(['本']);
+	});
+
+	it('lowercases words and keeps joined codes whole and in parts', () => {
+		expect(tokenize('Review PRJ-42 today')).toEqual(['review', 'prj-42', 'prj', '42', 'today']);
+	});
+
+	it('normalizes full-width and half-width forms', () => {
+		expect(tokenize('ＴＯＥＩＣ')).toEqual(tokenize('toeic'));
+		expect(tokenize('ｶﾀｶﾅ')).toEqual(tokenize('カタカナ'));
+	});
+});
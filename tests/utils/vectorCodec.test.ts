@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { decodeShard, encodeShard } from '../../src/utils/vectorCodec';
+
+function vector(seed: number, dimension = 64): number[] {
+	return Array.from({ length: dimension }, (_, i) => Math.sin(seed * 31 + i) * 0.2);
+}
+
+function cosine(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return dot / Math.sqrt(normA * normB);
+}
+
+describe('vector shard encoding', () => {
+	it('round-trips float32 vectors at float32 precision', () => {
+		const vectors = [vector(1), vector(2), vector(3)];
+
+		const decoded = decodeShard(encodeShard(vectors, 'float32', 7));
+
+		expect(decoded).toMatchObject({ encoding: 'float32', dimension: 64, revision: 7 });
+		expect(decoded.vectors).toHaveLength(3);
+		decoded.vectors.forEach((v, row) => {
+			v.forEach((value, i) => expect(value).toBeCloseTo(vectors[row][i], 6));
+		});
+	});
+
+	it('quantizes to int8 at a quarter of the size without changing similarity', () => {
+		const vectors = [vector(1), vector(2), new Array(64).fill(0)];
+
+		const float32 = encodeShard(vectors, 'float32', 1);
+		const int8 = encodeShard(vectors, 'int8', 1);
+		const decoded = decodeShard(int8).vectors;
+
+		expect(int8.byteLength).toBeLessThan(float32.byteLength / 3);
+		expect(cosine(decoded[0], vectors[0])).toBeGreaterThan(0.999);
+		expect(cosine(decoded[0], decoded[1])).toBeCloseTo(cosine(vectors[0], vectors[1]), 2);
+		expect(decoded[2]).toEqual(new Array(64).fill(0));
+	});
+
+	it('rejects truncated and foreign files', () => {
+		const data = encodeShard([vector(1)], 'float32', 1);
+
+		expect(() => decodeShard(data.slice(0, data.byteLength - 4))).toThrow(/size mismatch/);
+		expect(() =>
+			decodeShard(new TextEncoder().encode('{"items":[],"version":1}').buffer)
+		).toThrow(/Not a vector shard/);
+	});
+
+	it('requires vectors of one dimension', () => {
+		expect(() => encodeShard([vector(1, 64), vector(2, 128)], 'float32', 1)).toThrow();
+	});
+});
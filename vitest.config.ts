@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'node:url';
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The real package only ships type declarations; tests run against a stand-in
+			obsidian: fileURLToPath(new URL('./tests/mocks/obsidian.ts', import.meta.url)),
+		},
+	},
+	test: {
+		environment: 'node',
+		include: ['tests/**/*.test.ts'],
+		setupFiles: ['tests/setup.ts'],
+	},
+});